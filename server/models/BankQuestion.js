@@ -0,0 +1,104 @@
+const mongoose = require('mongoose');
+
+// Reusable question of any supported type, kept independently of any test. Tests copy a
+// bank question into their own embedded questions, keeping bankQuestionId as a back-reference.
+const bankQuestionSchema = new mongoose.Schema({
+  questionText: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  questionImageUrl: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  questionType: {
+    type: String,
+    enum: ['single', 'multiple', 'true_false', 'numeric', 'fill_blank'],
+    default: 'single'
+  },
+  options: {
+    A: { type: String, trim: true },
+    B: { type: String, trim: true },
+    C: { type: String, trim: true },
+    D: { type: String, trim: true },
+    E: { type: String, trim: true },
+    F: { type: String, trim: true }
+  },
+  optionImages: {
+    A: { type: String, trim: true, default: null },
+    B: { type: String, trim: true, default: null },
+    C: { type: String, trim: true, default: null },
+    D: { type: String, trim: true, default: null },
+    E: { type: String, trim: true, default: null },
+    F: { type: String, trim: true, default: null }
+  },
+  correctAnswer: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  tolerance: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  acceptedAnswers: [{
+    type: String,
+    trim: true
+  }],
+  caseSensitive: {
+    type: Boolean,
+    default: false
+  },
+  explanation: {
+    type: String,
+    default: ''
+  },
+  subject: {
+    type: String,
+    required: true,
+    enum: ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication']
+  },
+  topics: [{
+    type: String,
+    trim: true
+  }],
+  difficulty: {
+    type: String,
+    enum: ['Easy', 'Medium', 'Hard'],
+    default: 'Medium'
+  },
+  tags: [{
+    type: String,
+    trim: true
+  }],
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+bankQuestionSchema.index({ subject: 1, difficulty: 1 });
+bankQuestionSchema.index({ topics: 1 });
+bankQuestionSchema.index({ tags: 1 });
+bankQuestionSchema.index({ createdBy: 1 });
+bankQuestionSchema.index({ questionText: 'text', tags: 'text' });
+
+module.exports = mongoose.model('BankQuestion', bankQuestionSchema);
@@ -35,6 +35,49 @@ const codingQuestionSchema = new mongoose.Schema({
     type: Number,
     default: 256
   },
+  // How program output is compared with the expected output (see utils/outputChecker.js)
+  checker_mode: {
+    type: String,
+    enum: ['exact', 'tokens', 'float', 'unordered_lines', 'custom'],
+    default: 'exact'
+  },
+  float_tolerance: {
+    type: Number,
+    default: 1e-6,
+    min: 0
+  },
+  checker_script: {
+    type: String,
+    default: ''
+  },
+  // Optional LeetCode-style signature; when set, solutions implement this function and a
+  // harness passes the test case input as arguments (see utils/functionHarness.js)
+  function_signature: {
+    type: new mongoose.Schema({
+      name: {
+        type: String,
+        required: true,
+        trim: true
+      },
+      params: [{
+        _id: false,
+        name: {
+          type: String,
+          required: true,
+          trim: true
+        },
+        type: {
+          type: String,
+          required: true
+        }
+      }],
+      return_type: {
+        type: String,
+        required: true
+      }
+    }, { _id: false }),
+    default: null
+  },
   supported_languages: {
     type: [String],
     default: ['javascript', 'python', 'java', 'cpp']
@@ -27,7 +27,7 @@ const codingSubmissionSchema = new mongoose.Schema({
   status: {
     type: String,
     required: true,
-    enum: ['pending', 'running', 'accepted', 'wrong_answer', 'runtime_error', 'time_limit_exceeded', 'memory_limit_exceeded', 'compilation_error'],
+    enum: ['pending', 'running', 'accepted', 'wrong_answer', 'runtime_error', 'time_limit_exceeded', 'memory_limit_exceeded', 'compilation_error', 'judge_error'],
     default: 'pending'
   },
   test_cases_passed: {
@@ -57,6 +57,18 @@ const codingSubmissionSchema = new mongoose.Schema({
   error_message: {
     type: String,
     default: null
+  },
+  is_practice: {
+    type: Boolean,
+    default: false
+  },
+  started_at: {
+    type: Date,
+    default: null
+  },
+  judged_at: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: {
@@ -69,5 +81,6 @@ codingSubmissionSchema.index({ student_id: 1 });
 codingSubmissionSchema.index({ question_id: 1 });
 codingSubmissionSchema.index({ test_attempt_id: 1 });
 codingSubmissionSchema.index({ student_id: 1, question_id: 1 });
+codingSubmissionSchema.index({ status: 1, submitted_at: 1 });
 
 module.exports = mongoose.model('CodingSubmission', codingSubmissionSchema);
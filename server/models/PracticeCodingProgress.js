@@ -13,7 +13,7 @@ const practiceCodingProgressSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['attempted', 'solved', 'bookmarked'],
+    enum: ['attempted', 'solved'],
     default: 'attempted'
   },
   best_score: {
@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+// A named collection of coding questions a user keeps for themselves, e.g. "Revise before placements"
+const practiceListSchema = new mongoose.Schema({
+  user_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  questions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CodingQuestion'
+  }]
+}, {
+  timestamps: {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at'
+  }
+});
+
+practiceListSchema.index({ user_id: 1, name: 1 }, { unique: true });
+practiceListSchema.index({ questions: 1 });
+
+module.exports = mongoose.model('PracticeList', practiceListSchema);
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// An ordered set of practice coding questions, e.g. "Arrays 101". A path is only
+// unlocked for a student once every prerequisite path is completed.
+const practicePathSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  // null for paths authored by a master admin, which every college sees
+  college_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'College',
+    default: null
+  },
+  questions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CodingQuestion'
+  }],
+  prerequisites: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PracticePath'
+  }],
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  created_by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at'
+  }
+});
+
+practicePathSchema.index({ college_id: 1, is_active: 1 });
+
+module.exports = mongoose.model('PracticePath', practicePathSchema);
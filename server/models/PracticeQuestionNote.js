@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// A user's own bookmark and private note on a coding question, kept apart from
+// PracticeCodingProgress so bookmarking never touches the solved/attempted status
+const practiceQuestionNoteSchema = new mongoose.Schema({
+  user_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  question_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CodingQuestion',
+    required: true
+  },
+  bookmarked: {
+    type: Boolean,
+    default: false
+  },
+  note: {
+    type: String,
+    default: '',
+    maxlength: 5000
+  }
+}, {
+  timestamps: {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at'
+  }
+});
+
+practiceQuestionNoteSchema.index({ user_id: 1, question_id: 1 }, { unique: true });
+practiceQuestionNoteSchema.index({ question_id: 1 });
+
+module.exports = mongoose.model('PracticeQuestionNote', practiceQuestionNoteSchema);
@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// Faculty decision on a pair of students flagged for similar code on one question
+const similarityReviewSchema = new mongoose.Schema({
+  testId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Test',
+    required: true
+  },
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CodingQuestion',
+    required: true
+  },
+  collegeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'College',
+    required: true
+  },
+  // Stored in ascending id order so a pair has a single review
+  studentA: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  studentB: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'reviewed', 'confirmed'],
+    default: 'pending'
+  },
+  similarity: {
+    type: Number,
+    default: 0
+  },
+  note: {
+    type: String,
+    default: ''
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: Date
+}, {
+  timestamps: true
+});
+
+similarityReviewSchema.index({ testId: 1, collegeId: 1, questionId: 1, studentA: 1, studentB: 1 }, { unique: true });
+
+module.exports = mongoose.model('SimilarityReview', similarityReviewSchema);
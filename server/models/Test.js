@@ -11,27 +11,60 @@ const questionSchema = new mongoose.Schema({
     trim: true,
     default: null
   },
+  // single: one of the options; multiple: select all that apply; true_false: options
+  // fixed to True/False; numeric: within tolerance; fill_blank: any accepted answer
+  questionType: {
+    type: String,
+    enum: ['single', 'multiple', 'true_false', 'numeric', 'fill_blank'],
+    default: 'single'
+  },
+  // Choice questions use between 2 and 6 options, filled from A without gaps
   options: {
-    A: { type: String, required: true, trim: true },
-    B: { type: String, required: true, trim: true },
-    C: { type: String, required: true, trim: true },
-    D: { type: String, required: true, trim: true }
+    A: { type: String, trim: true },
+    B: { type: String, trim: true },
+    C: { type: String, trim: true },
+    D: { type: String, trim: true },
+    E: { type: String, trim: true },
+    F: { type: String, trim: true }
   },
   optionImages: {
     A: { type: String, trim: true, default: null },
     B: { type: String, trim: true, default: null },
     C: { type: String, trim: true, default: null },
-    D: { type: String, trim: true, default: null }
+    D: { type: String, trim: true, default: null },
+    E: { type: String, trim: true, default: null },
+    F: { type: String, trim: true, default: null }
   },
+  // Option label for single/true_false, sorted labels joined by "," for multiple,
+  // the exact value for numeric and the first accepted answer for fill_blank
   correctAnswer: {
     type: String,
     required: true,
-    enum: ['A', 'B', 'C', 'D']
+    trim: true
+  },
+  tolerance: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  acceptedAnswers: [{
+    type: String,
+    trim: true
+  }],
+  caseSensitive: {
+    type: Boolean,
+    default: false
   },
   marks: {
     type: Number,
     required: true,
     min: 1
+  },
+  // Set when the question was copied from the question bank
+  bankQuestionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BankQuestion',
+    default: null
   }
 }, { _id: true });
 
@@ -56,6 +89,37 @@ const sectionSchema = new mongoose.Schema({
     required: true,
     min: 1
   },
+  // 'fixed' sections carry their own questions; 'pool' sections draw a distinct
+  // set per student from the question bank when the attempt starts
+  questionSource: {
+    type: String,
+    enum: ['fixed', 'pool'],
+    default: 'fixed'
+  },
+  pool: {
+    subject: {
+      type: String,
+      enum: ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication', null],
+      default: null
+    },
+    topics: [{
+      type: String,
+      trim: true
+    }],
+    easy: { type: Number, default: 0, min: 0 },
+    medium: { type: Number, default: 0, min: 0 },
+    hard: { type: Number, default: 0, min: 0 }
+  },
+  // Section overrides of the test's scoring policy; null keeps the test setting
+  negativeMarks: {
+    type: Number,
+    default: null,
+    min: 0
+  },
+  partialCredit: {
+    type: Boolean,
+    default: null
+  },
   questions: [questionSchema]
 }, { _id: true });
 
@@ -130,6 +194,102 @@ const testSchema = new mongoose.Schema({
     default: false
   },
   sections: [sectionSchema],
+  // Per-student randomization; the seed lives on each TestAttempt
+  shuffleQuestions: {
+    type: Boolean,
+    default: false
+  },
+  shuffleOptions: {
+    type: Boolean,
+    default: false
+  },
+  // Marks deducted for each wrong answer (unanswered questions are never penalised)
+  // and whether multiple-correct questions award a share for partly correct picks
+  scoring: {
+    negativeMarks: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    partialCredit: {
+      type: Boolean,
+      default: false
+    }
+  },
+  // Whether sections are taken in order and closed (sequential), in order with unused
+  // time carried into the next section (carry_over), or in any order (free)
+  sectionNavigation: {
+    type: String,
+    enum: ['sequential', 'free', 'carry_over'],
+    default: 'sequential'
+  },
+  // Layout of the exam player; null picks one from the test type
+  examLayout: {
+    type: String,
+    enum: ['tcs', 'clean', 'professional'],
+    default: null
+  },
+  // Retakes: attempts allowed, minutes between them and which attempt counts
+  attemptPolicy: {
+    maxAttempts: {
+      type: Number,
+      default: 1,
+      min: 1,
+      max: 20
+    },
+    cooldownMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 10080
+    },
+    scoringRule: {
+      type: String,
+      enum: ['best', 'last', 'average'],
+      default: 'best'
+    }
+  },
+  // Proctoring policy shared by every test interface and enforced when events are recorded
+  proctoring: {
+    countedEvents: {
+      type: [{
+        type: String,
+        enum: ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'right_click', 'devtools_open', 'window_blur']
+      }],
+      default: () => ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'devtools_open']
+    },
+    maxViolations: {
+      type: Number,
+      default: 3,
+      min: 1,
+      max: 20
+    },
+    // 'submit' closes the attempt at the limit; 'warn' only warns the student
+    onLimit: {
+      type: String,
+      enum: ['submit', 'warn'],
+      default: 'submit'
+    },
+    requireFullscreen: {
+      type: Boolean,
+      default: true
+    },
+    blockCopyPaste: {
+      type: Boolean,
+      default: false
+    },
+    // Opt-in periodic webcam snapshots, plus one after every counted violation
+    webcamSnapshots: {
+      type: Boolean,
+      default: false
+    },
+    snapshotInterval: {
+      type: Number,
+      default: 60,
+      min: 15,
+      max: 600
+    }
+  },
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
@@ -196,7 +356,12 @@ testSchema.pre('save', function(next) {
     let calculatedTotalMarks = 0;
 
     for (const section of this.sections) {
-      if (section.questions.length !== section.numberOfQuestions) {
+      if (section.questionSource === 'pool') {
+        const poolTotal = (section.pool?.easy || 0) + (section.pool?.medium || 0) + (section.pool?.hard || 0);
+        if (poolTotal !== section.numberOfQuestions) {
+          return next(new Error(`Section "${section.sectionName}" difficulty mix must add up to ${section.numberOfQuestions} questions`));
+        }
+      } else if (section.questions.length !== section.numberOfQuestions) {
         return next(new Error(`Section "${section.sectionName}" has ${section.questions.length} questions but expects ${section.numberOfQuestions}`));
       }
       totalQuestionsInSections += section.numberOfQuestions;
@@ -40,6 +40,28 @@ const testAssignmentSchema = new mongoose.Schema({
     type: Date,
     default: Date.now
   },
+  // Extra time or a later closing time for one student (per-student assignments only)
+  accommodation: {
+    extraMinutes: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    extendedEndDateTime: {
+      type: Date,
+      default: null
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    grantedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    grantedAt: Date
+  },
   acceptedAt: Date,
   rejectedAt: Date,
   isActive: {
@@ -5,19 +5,24 @@ const answerSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     required: true
   },
+  // Same encoding as the question's correctAnswer (labels, number or text)
   selectedAnswer: {
     type: String,
-    enum: ['A', 'B', 'C', 'D'],
     required: true
   },
   isCorrect: {
     type: Boolean,
     required: true
   },
+  // Partly correct multiple-correct answer that earned a share of the marks
+  isPartial: {
+    type: Boolean,
+    default: false
+  },
+  // Negative when a wrong answer was penalised
   marksObtained: {
     type: Number,
-    required: true,
-    min: 0
+    required: true
   },
   timeSpent: {
     type: Number, // in seconds
@@ -25,6 +30,141 @@ const answerSchema = new mongoose.Schema({
   }
 }, { _id: false });
 
+// Work-in-progress answer state saved while the attempt is in_progress,
+// so a reload or crash can restore the student's exam where they left off
+const responseSchema = new mongoose.Schema({
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  selectedAnswer: {
+    type: String,
+    default: null
+  },
+  markedForReview: {
+    type: Boolean,
+    default: false
+  },
+  timeSpent: {
+    type: Number, // in seconds
+    default: 0
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Snapshot of a bank question served to this student from a pool section
+const drawnQuestionSchema = new mongoose.Schema({
+  bankQuestionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BankQuestion'
+  },
+  questionText: {
+    type: String,
+    required: true
+  },
+  questionImageUrl: {
+    type: String,
+    default: null
+  },
+  questionType: {
+    type: String,
+    default: 'single'
+  },
+  options: {
+    A: String,
+    B: String,
+    C: String,
+    D: String,
+    E: String,
+    F: String
+  },
+  optionImages: {
+    A: String,
+    B: String,
+    C: String,
+    D: String,
+    E: String,
+    F: String
+  },
+  correctAnswer: {
+    type: String,
+    required: true
+  },
+  tolerance: Number,
+  acceptedAnswers: [String],
+  caseSensitive: Boolean,
+  marks: {
+    type: Number,
+    required: true
+  }
+}, { _id: true });
+
+// Proctoring event reported by the test interface while the attempt was in progress
+const proctoringEventSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'right_click', 'devtools_open', 'window_blur'],
+    required: true
+  },
+  // Client clock, clamped to the attempt window
+  occurredAt: {
+    type: Date,
+    required: true
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  sectionIndex: {
+    type: Number,
+    default: null
+  },
+  questionIndex: {
+    type: Number,
+    default: null
+  },
+  details: {
+    type: String,
+    default: null
+  },
+  // Whether the event counted towards the violation limit
+  counted: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// Webcam snapshot stored under uploads/proctoring; only served through the faculty review routes
+const proctoringSnapshotSchema = new mongoose.Schema({
+  // Relative to the server directory
+  path: {
+    type: String,
+    required: true
+  },
+  takenAt: {
+    type: Date,
+    required: true
+  },
+  // Periodic capture, or taken right after a violation was recorded
+  reason: {
+    type: String,
+    enum: ['interval', 'violation'],
+    default: 'interval'
+  },
+  size: {
+    type: Number,
+    default: 0
+  }
+}, { _id: true });
+
+
 const testAttemptSchema = new mongoose.Schema({
   testId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -41,27 +181,121 @@ const testAttemptSchema = new mongoose.Schema({
     ref: 'College',
     required: true
   },
+  // 1 for the first attempt at the test, counting up on retakes
+  attemptNumber: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
   startTime: {
     type: Date,
     required: true
   },
   endTime: {
     type: Date,
-    required: true
+    default: null
   },
   timeSpent: {
-    type: Number, // in minutes
-    required: true
+    type: Number, // in seconds, measured by the server
+    default: 0
   },
   answers: [answerSchema],
+  responses: [responseSchema],
+  // Questions drawn for this student from pool sections, frozen at start so later
+  // bank edits never change what was served or how it is graded
+  poolQuestions: [{
+    sectionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true
+    },
+    questions: [drawnQuestionSchema]
+  }],
+  // Shuffle settings captured at start; answers are always stored with canonical labels
+  shuffle: {
+    seed: {
+      type: Number,
+      default: null
+    },
+    questions: {
+      type: Boolean,
+      default: false
+    },
+    options: {
+      type: Boolean,
+      default: false
+    }
+  },
+  proctoringEvents: [proctoringEventSchema],
+  proctoringSnapshots: [proctoringSnapshotSchema],
+  // Faculty decision after reviewing the proctoring log and snapshots
+  proctoringReview: {
+    status: {
+      type: String,
+      enum: ['pending', 'flagged', 'cleared'],
+      default: 'pending'
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 1000
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date
+  },
+  // Copy of the time accommodation on the student's assignment, kept in step when it is granted
+  accommodation: {
+    extraMinutes: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    extendedEndDateTime: {
+      type: Date,
+      default: null
+    }
+  },
+  session: {
+    currentSectionIndex: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    currentQuestionIndex: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    remainingTime: {
+      type: Number, // in seconds, for the timer that was running at lastSavedAt
+      default: null
+    },
+    // Unused seconds brought into the open section under carry_over navigation
+    carriedOverTime: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    lastSavedAt: {
+      type: Date,
+      default: null
+    }
+  },
   totalMarks: {
     type: Number,
     required: true
   },
+  // Number of objective questions served, so skipped ones can be counted
+  totalQuestions: {
+    type: Number,
+    default: null
+  },
+  // Can drop below zero when negative marking outweighs correct answers
   marksObtained: {
   type: Number,
-  default: 0,
-  min: 0
+  default: 0
 },
 percentage: {
   type: Number,
@@ -84,6 +318,18 @@ unanswered: {
   default: 0,
   min: 0
 },
+partialAnswers: {
+  type: Number,
+  default: 0,
+  min: 0
+},
+// Total marks deducted by negative marking
+negativeMarks: {
+  type: Number,
+  default: 0,
+  min: 0
+},
+  // Counted proctoring events, maintained by the server
   violations: {
     type: Number,
     default: 0,
@@ -91,7 +337,7 @@ unanswered: {
   },
   status: {
     type: String,
-    enum: ['completed', 'timeout', 'submitted', 'auto-submitted-violations'],
+    enum: ['in_progress', 'completed', 'timeout', 'submitted', 'auto-submitted-violations'],
     default: 'completed'
   },
   isActive: {
@@ -102,13 +348,30 @@ unanswered: {
   timestamps: true
 });
 
+// One attempt in progress per student and test, so concurrent starts cannot open two
+testAttemptSchema.index(
+  { testId: 1, studentId: 1 },
+  { unique: true, partialFilterExpression: { status: 'in_progress' } }
+);
+
 // Calculate results before saving
 testAttemptSchema.pre('save', function(next) {
+  // Results are only computed once the attempt has been finalized
+  if (this.status === 'in_progress') {
+    return next();
+  }
+
   this.correctAnswers = this.answers.filter(answer => answer.isCorrect).length;
-  this.incorrectAnswers = this.answers.filter(answer => !answer.isCorrect).length;
-  this.unanswered = 0; // All questions must be answered in this implementation
-  this.marksObtained = this.answers.reduce((total, answer) => total + answer.marksObtained, 0);
-  this.percentage = (this.marksObtained / this.totalMarks) * 100;
+  this.partialAnswers = this.answers.filter(answer => answer.isPartial).length;
+  this.incorrectAnswers = this.answers.filter(answer => !answer.isCorrect && !answer.isPartial).length;
+  // Only answered questions are stored, so skipped ones are whatever is left of the served set
+  this.unanswered = this.totalQuestions ? Math.max(0, this.totalQuestions - this.answers.length) : 0;
+  this.negativeMarks = Math.round(this.answers
+    .reduce((total, answer) => total + Math.max(0, -answer.marksObtained), 0) * 100) / 100;
+  this.marksObtained = Math.round(this.answers.reduce((total, answer) => total + answer.marksObtained, 0) * 100) / 100;
+  this.percentage = this.totalMarks
+    ? Math.min(100, Math.max(0, (this.marksObtained / this.totalMarks) * 100))
+    : 0;
   
   next();
 });
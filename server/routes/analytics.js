@@ -141,12 +141,13 @@ router.get('/dashboard', auth, authorize('master_admin'), async (req, res) => {
     });
 
     // Completed Tests
-    const completedTests = await TestAttempt.countDocuments({ isActive: true });
+    const completedTests = await TestAttempt.countDocuments({ isActive: true, status: { $ne: 'in_progress' } });
 
     // Tests completed in current period
     const testsCompletedInPeriod = await TestAttempt.countDocuments({
       createdAt: { $gte: periodStart },
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     });
 
     // Calculate growth percentages (comparing with previous 30 days)
@@ -163,7 +164,8 @@ router.get('/dashboard', auth, authorize('master_admin'), async (req, res) => {
 
     const prevTests = await TestAttempt.countDocuments({
       createdAt: { $gte: previousPeriodStart, $lt: periodStart },
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     });
 
     const collegeGrowth = prevColleges > 0 ? ((newColleges - prevColleges) / prevColleges * 100) : 100;
@@ -259,7 +261,8 @@ router.get('/college-dashboard', auth, authorize('college_admin'), async (req, r
 
     const completedTests = await TestAttempt.countDocuments({
       collegeId,
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     });
 
     // Recent activity
@@ -274,6 +277,7 @@ router.get('/college-dashboard', auth, authorize('college_admin'), async (req, r
 
     const recentTestAttempts = await TestAttempt.find({
       collegeId,
+      status: { $ne: 'in_progress' },
       createdAt: { $gte: thirtyDaysAgo }
     })
     .populate('studentId', 'name')
@@ -1,13 +1,104 @@
 const express = require('express');
+const mongoose = require('mongoose');
+const rateLimit = require('express-rate-limit');
 const router = express.Router();
-const { auth: authenticateToken } = require('../middleware/auth');
+const { auth: authenticateToken, authorize } = require('../middleware/auth');
 const logger = require('../middleware/logger');
+const User = require('../models/User');
 const CodingQuestion = require('../models/CodingQuestion');
 const CodingTestCase = require('../models/CodingTestCase');
 const TestCodingSection = require('../models/TestCodingSection');
 const CodingSubmission = require('../models/CodingSubmission');
+const TestAttempt = require('../models/TestAttempt');
 const PracticeCodingProgress = require('../models/PracticeCodingProgress');
-const ivm = require('isolated-vm');
+const PracticePath = require('../models/PracticePath');
+const PracticeQuestionNote = require('../models/PracticeQuestionNote');
+const PracticeList = require('../models/PracticeList');
+const CodeExecutor = require('../utils/codeExecutor');
+const SubmissionJudge = require('../utils/submissionJudge');
+const FunctionHarness = require('../utils/functionHarness');
+const PracticeTrack = require('../utils/practiceTrack');
+const PracticeLibrary = require('../utils/practiceLibrary');
+const SubmissionHistory = require('../utils/submissionHistory');
+
+// Rows of the practice leaderboard shown to students
+const LEADERBOARD_SIZE = 50;
+
+// Custom input runs bypass the sample cases, so each user gets a small budget of them
+const MAX_CUSTOM_INPUT_LENGTH = 64 * 1024;
+const customRunLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req) => String(req.user.id),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many custom runs. Please wait a minute and try again.' }
+});
+
+// Returns an error message when the language cannot be used for a question
+const getLanguageError = (question, language) => {
+  if (!CodeExecutor.isSupported(language)) {
+    return `Language ${language} is not supported`;
+  }
+  if (question.supported_languages && question.supported_languages.length > 0 &&
+      !question.supported_languages.includes(language)) {
+    return `Language ${language} is not allowed for this question`;
+  }
+  if (FunctionHarness.isFunctionQuestion(question) && !FunctionHarness.isSupported(language)) {
+    return `Language ${language} cannot be used for function-signature questions`;
+  }
+  return null;
+};
+
+// Returns an error message when the question's checker or function signature is unusable
+const getQuestionDataError = (questionData) => {
+  if (questionData.checker_mode === 'custom' && !(questionData.checker_script || '').trim()) {
+    return 'A checker script is required for the custom checker mode';
+  }
+  return FunctionHarness.validateSignature(questionData.function_signature);
+};
+
+// Authors edit their own questions and their college's staff edit questions authored in
+// the college; questions without an author (imported ones) are left to master admins
+const canEditQuestion = async (user, question) => {
+  if (user.role === 'master_admin') return true;
+  if (!question.created_by) return false;
+  if (String(question.created_by) === String(user.id)) return true;
+
+  const collegeId = getCollegeId(user);
+  const author = collegeId && await User.findById(question.created_by).select('collegeId').lean();
+  return !!author && String(author.collegeId) === String(collegeId);
+};
+
+// The user's bookmarks, notes and list memberships by question id
+const getQuestionMarks = async (userId) => {
+  const [notes, lists] = await Promise.all([
+    PracticeQuestionNote.find({ user_id: userId }).select('question_id bookmarked note').lean(),
+    PracticeList.find({ user_id: userId }).select('_id questions').lean()
+  ]);
+  return PracticeLibrary.getQuestionMarks(notes, lists);
+};
+
+// Sets the bookmark or note on a question; the record goes away once both are cleared
+const updateQuestionNote = async (userId, questionId, update) => {
+  const note = await PracticeQuestionNote.findOneAndUpdate(
+    { user_id: userId, question_id: questionId },
+    { $set: update },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+  if (PracticeLibrary.isEmpty(note)) {
+    await note.deleteOne();
+  }
+  return { questionId, bookmarked: note.bookmarked, note: note.note };
+};
+
+const formatList = (list) => ({
+  id: list._id,
+  name: list.name,
+  questions: list.questions,
+  questionCount: list.questions.length,
+  updated_at: list.updated_at
+});
 
 router.get('/questions', authenticateToken, async (req, res) => {
   try {
@@ -15,6 +106,7 @@ router.get('/questions', authenticateToken, async (req, res) => {
       .select('_id title difficulty tags created_at')
       .sort({ created_at: -1 })
       .lean();
+    const marks = await getQuestionMarks(req.user._id);
 
     const questionsWithCounts = await Promise.all(
       questions.map(async (q) => {
@@ -25,7 +117,8 @@ router.get('/questions', authenticateToken, async (req, res) => {
           difficulty: q.difficulty,
           tags: q.tags,
           created_at: q.created_at,
-          test_cases_count: testCasesCount
+          test_cases_count: testCasesCount,
+          ...PracticeLibrary.getMark(marks, q._id)
         };
       })
     );
@@ -46,6 +139,11 @@ router.get('/questions/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Question not found' });
     }
 
+    // Custom checkers can reveal the expected answers
+    if (req.user.role === 'student') {
+      delete question.checker_script;
+    }
+
     const testCases = await CodingTestCase.find({ question_id: id })
       .sort({ is_sample: -1 })
       .lean();
@@ -66,10 +164,15 @@ router.get('/questions/:id', authenticateToken, async (req, res) => {
   }
 });
 
-router.post('/questions', authenticateToken, async (req, res) => {
+router.post('/questions', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
   try {
     const { testCases, ...questionData } = req.body;
 
+    const dataError = getQuestionDataError(questionData);
+    if (dataError) {
+      return res.status(400).json({ error: dataError });
+    }
+
     const question = new CodingQuestion({
       ...questionData,
       created_by: req.user.id
@@ -99,10 +202,22 @@ router.post('/questions', authenticateToken, async (req, res) => {
   }
 });
 
-router.put('/questions/:id', authenticateToken, async (req, res) => {
+router.put('/questions/:id', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
   try {
     const { id } = req.params;
     const { testCases, ...questionData } = req.body;
+    delete questionData.created_by;
+
+    // The question's checker script runs on the server, so only its owners may change it
+    const existing = mongoose.Types.ObjectId.isValid(id) && await CodingQuestion.findById(id).select('created_by').lean();
+    if (!existing || !(await canEditQuestion(req.user, existing))) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const dataError = getQuestionDataError(questionData);
+    if (dataError) {
+      return res.status(400).json({ error: dataError });
+    }
 
     const question = await CodingQuestion.findByIdAndUpdate(
       id,
@@ -110,7 +225,7 @@ router.put('/questions/:id', authenticateToken, async (req, res) => {
         ...questionData,
         updated_at: new Date()
       },
-      { new: true }
+      { new: true, runValidators: true }
     );
 
     if (!question) {
@@ -143,19 +258,25 @@ router.put('/questions/:id', authenticateToken, async (req, res) => {
   }
 });
 
-router.delete('/questions/:id', authenticateToken, async (req, res) => {
+router.delete('/questions/:id', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const question = await CodingQuestion.findByIdAndDelete(id);
-    if (!question) {
+    // Deleting also removes every submission and practice record for the question
+    const question = mongoose.Types.ObjectId.isValid(id) && await CodingQuestion.findById(id).select('created_by').lean();
+    if (!question || !(await canEditQuestion(req.user, question))) {
       return res.status(404).json({ error: 'Question not found' });
     }
 
+    await CodingQuestion.deleteOne({ _id: id });
+
     await CodingTestCase.deleteMany({ question_id: id });
     await TestCodingSection.deleteMany({ question_id: id });
     await CodingSubmission.deleteMany({ question_id: id });
     await PracticeCodingProgress.deleteMany({ question_id: id });
+    await PracticePath.updateMany({ questions: id }, { $pull: { questions: id } });
+    await PracticeQuestionNote.deleteMany({ question_id: id });
+    await PracticeList.updateMany({ questions: id }, { $pull: { questions: id } });
 
     res.json({ message: 'Question deleted successfully' });
   } catch (error) {
@@ -168,6 +289,16 @@ router.post('/run', authenticateToken, async (req, res) => {
   try {
     const { questionId, code, language } = req.body;
 
+    const question = await CodingQuestion.findById(questionId).lean();
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const languageError = getLanguageError(question, language);
+    if (languageError) {
+      return res.status(400).json({ error: languageError });
+    }
+
     const testCases = await CodingTestCase.find({
       question_id: questionId,
       is_sample: true
@@ -177,10 +308,13 @@ router.post('/run', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'No sample test cases found' });
     }
 
-    const results = await executeCode(code, language, testCases);
+    const results = await SubmissionJudge.run(
+      () => CodeExecutor.executeTestCases(code, language, testCases, question)
+    );
 
     res.json({
       output: results.output,
+      compilationError: results.compilationError,
       testResults: results.testResults
     });
   } catch (error) {
@@ -189,36 +323,75 @@ router.post('/run', authenticateToken, async (req, res) => {
   }
 });
 
+// Runs the code once on the user's own input. Nothing is judged or recorded.
+router.post('/run/custom', authenticateToken, customRunLimiter, async (req, res) => {
+  try {
+    const { questionId, code, language, input = '' } = req.body;
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+    if (typeof input !== 'string') {
+      return res.status(400).json({ error: 'Input must be text' });
+    }
+    if (input.length > MAX_CUSTOM_INPUT_LENGTH) {
+      return res.status(400).json({ error: `Custom input can be at most ${MAX_CUSTOM_INPUT_LENGTH / 1024} KB` });
+    }
+    if (!mongoose.Types.ObjectId.isValid(questionId)) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const question = await CodingQuestion.findById(questionId).lean();
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const languageError = getLanguageError(question, language);
+    if (languageError) {
+      return res.status(400).json({ error: languageError });
+    }
+
+    const result = await SubmissionJudge.run(
+      () => CodeExecutor.runCustomInput(code, language, input, question)
+    );
+
+    res.json(result);
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error running custom input' });
+    res.status(500).json({ error: error.message || 'Failed to run code' });
+  }
+});
+
 router.post('/submit', authenticateToken, async (req, res) => {
   try {
     const { questionId, testAttemptId, code, language, isPractice } = req.body;
 
-    const testCases = await CodingTestCase.find({ question_id: questionId }).lean();
+    // A submission can only be recorded against the student's own attempt in progress
+    if (testAttemptId) {
+      const attempt = mongoose.Types.ObjectId.isValid(testAttemptId) && await TestAttempt.exists({
+        _id: testAttemptId,
+        studentId: req.user.id,
+        status: 'in_progress'
+      });
+      if (!attempt) {
+        return res.status(400).json({ error: 'No test in progress for this submission' });
+      }
+    }
 
-    if (testCases.length === 0) {
-      return res.status(400).json({ error: 'No test cases found for this question' });
+    const question = await CodingQuestion.findById(questionId).lean();
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
     }
 
-    const results = await executeCode(code, language, testCases);
+    const languageError = getLanguageError(question, language);
+    if (languageError) {
+      return res.status(400).json({ error: languageError });
+    }
 
-    const testCasesPassed = results.testResults.filter(r => r.passed).length;
-    const totalTestCases = testCases.length;
-    const totalWeight = testCases.reduce((sum, tc) => sum + tc.weight, 0);
-    const earnedWeight = results.testResults
-      .filter(r => r.passed)
-      .reduce((sum, r) => {
-        const tc = testCases[r.test_case_number - 1];
-        return sum + (tc?.weight || 0);
-      }, 0);
-    const score = totalWeight > 0 ? Math.round((earnedWeight / totalWeight) * 100) : 0;
+    const testCases = await CodingTestCase.find({ question_id: questionId }).lean();
 
-    let status = 'wrong_answer';
-    if (testCasesPassed === totalTestCases) {
-      status = 'accepted';
-    } else if (results.hasRuntimeError) {
-      status = 'runtime_error';
-    } else if (results.hasTimeLimit) {
-      status = 'time_limit_exceeded';
+    if (testCases.length === 0) {
+      return res.status(400).json({ error: 'No test cases found for this question' });
     }
 
     const submission = new CodingSubmission({
@@ -227,67 +400,57 @@ router.post('/submit', authenticateToken, async (req, res) => {
       test_attempt_id: testAttemptId || null,
       language,
       code,
-      status,
-      test_cases_passed: testCasesPassed,
-      total_test_cases: totalTestCases,
-      score,
-      execution_time: results.avgExecutionTime,
-      test_results: results.testResults
+      status: 'pending',
+      total_test_cases: testCases.length,
+      is_practice: Boolean(isPractice)
     });
 
     await submission.save();
+    SubmissionJudge.enqueue(submission._id);
 
-    if (isPractice) {
-      const progressStatus = status === 'accepted' ? 'solved' : 'attempted';
-
-      const existing = await PracticeCodingProgress.findOne({
-        student_id: req.user.id,
-        question_id: questionId
-      });
+    res.status(202).json({
+      submissionId: submission._id,
+      status: submission.status,
+      totalTestCases: testCases.length
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error submitting code' });
+    res.status(500).json({ error: error.message || 'Failed to submit code' });
+  }
+});
 
-      if (existing) {
-        const updates = {
-          status: status === 'accepted' ? 'solved' : existing.status,
-          best_score: Math.max(score, existing.best_score || 0),
-          attempts: (existing.attempts || 0) + 1,
-          last_attempted_at: new Date()
-        };
+// Polled by the editor until the queued submission has a verdict
+router.get('/submission/:id', authenticateToken, async (req, res) => {
+  try {
+    const submission = await CodingSubmission.findOne({
+      _id: req.params.id,
+      student_id: req.user.id
+    }).lean();
 
-        if (status === 'accepted' && existing.status !== 'solved') {
-          updates.solved_at = new Date();
-        }
-
-        await PracticeCodingProgress.findByIdAndUpdate(existing._id, updates);
-      } else {
-        const progress = new PracticeCodingProgress({
-          student_id: req.user.id,
-          question_id: questionId,
-          status: progressStatus,
-          best_score: score,
-          attempts: 1,
-          last_attempted_at: new Date(),
-          solved_at: status === 'accepted' ? new Date() : null
-        });
-
-        await progress.save();
-      }
+    if (!submission) {
+      return res.status(404).json({ error: 'Submission not found' });
     }
 
+    const stats = SubmissionJudge.getQueueStats();
     res.json({
       submissionId: submission._id,
-      status,
-      testCasesPassed,
-      totalTestCases,
-      score,
-      testResults: results.testResults.map(r => ({
+      status: submission.status,
+      finished: SubmissionJudge.isFinished(submission.status),
+      queueLength: submission.status === 'pending' ? stats.waiting : 0,
+      testCasesPassed: submission.test_cases_passed,
+      totalTestCases: submission.total_test_cases,
+      score: submission.score,
+      compilationError: submission.status === 'compilation_error' ? submission.error_message : null,
+      errorMessage: submission.error_message,
+      testResults: (submission.test_results || []).map(r => ({
         ...r,
-        input: testCases[r.test_case_number - 1]?.is_sample ? r.input : '[Hidden]',
-        expected_output: testCases[r.test_case_number - 1]?.is_sample ? r.expected_output : '[Hidden]'
+        input: r.is_sample ? r.input : '[Hidden]',
+        expected_output: r.is_sample ? r.expected_output : '[Hidden]'
       }))
     });
   } catch (error) {
-    logger.errorLog(error, { context: 'Error submitting code' });
-    res.status(500).json({ error: error.message || 'Failed to submit code' });
+    logger.errorLog(error, { context: 'Error fetching submission status' });
+    res.status(500).json({ error: 'Failed to fetch submission' });
   }
 });
 
@@ -302,6 +465,7 @@ router.get('/practice/questions', authenticateToken, async (req, res) => {
     }).lean();
 
     const progressMap = new Map(progress.map(p => [p.question_id.toString(), p]));
+    const marks = await getQuestionMarks(req.user._id);
 
     const questionsWithProgress = questions.map(q => {
       const prog = progressMap.get(q._id.toString());
@@ -312,7 +476,8 @@ router.get('/practice/questions', authenticateToken, async (req, res) => {
         tags: q.tags,
         status: prog?.status || 'not_attempted',
         best_score: prog?.best_score,
-        attempts: prog?.attempts
+        attempts: prog?.attempts,
+        ...PracticeLibrary.getMark(marks, q._id)
       };
     });
 
@@ -320,6 +485,7 @@ router.get('/practice/questions', authenticateToken, async (req, res) => {
       total: questions.length,
       solved: progress.filter(p => p.status === 'solved').length,
       attempted: progress.filter(p => p.status === 'attempted').length,
+      bookmarked: questionsWithProgress.filter(q => q.bookmarked).length,
       easy: questions.filter(q => q.difficulty === 'easy').length,
       medium: questions.filter(q => q.difficulty === 'medium').length,
       hard: questions.filter(q => q.difficulty === 'hard').length
@@ -335,217 +501,625 @@ router.get('/practice/questions', authenticateToken, async (req, res) => {
   }
 });
 
-router.get('/submissions/:questionId', authenticateToken, async (req, res) => {
+router.put('/practice/questions/:id/bookmark', authenticateToken, async (req, res) => {
   try {
-    const { questionId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !(await CodingQuestion.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
 
-    const submissions = await CodingSubmission.find({
-      student_id: req.user.id,
-      question_id: questionId
+    res.json(await updateQuestionNote(req.user._id, req.params.id, { bookmarked: Boolean(req.body.bookmarked) }));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error updating bookmark' });
+    res.status(500).json({ error: 'Failed to update bookmark' });
+  }
+});
+
+router.put('/practice/questions/:id/note', authenticateToken, async (req, res) => {
+  try {
+    const noteError = PracticeLibrary.getNoteError(req.body.note);
+    if (noteError) {
+      return res.status(400).json({ error: noteError });
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !(await CodingQuestion.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    res.json(await updateQuestionNote(req.user._id, req.params.id, { note: req.body.note }));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error saving question note' });
+    res.status(500).json({ error: 'Failed to save note' });
+  }
+});
+
+router.get('/practice/lists', authenticateToken, async (req, res) => {
+  try {
+    const lists = await PracticeList.find({ user_id: req.user._id }).sort({ name: 1 }).lean();
+    res.json(lists.map(formatList));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching practice lists' });
+    res.status(500).json({ error: 'Failed to fetch lists' });
+  }
+});
+
+router.post('/practice/lists', authenticateToken, async (req, res) => {
+  try {
+    const nameError = PracticeLibrary.getListNameError(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    const count = await PracticeList.countDocuments({ user_id: req.user._id });
+    if (count >= PracticeLibrary.MAX_LISTS) {
+      return res.status(400).json({ error: `You can keep at most ${PracticeLibrary.MAX_LISTS} lists` });
+    }
+
+    const list = new PracticeList({ user_id: req.user._id, name: req.body.name.trim(), questions: [] });
+    await list.save();
+
+    res.status(201).json(formatList(list));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ error: 'You already have a list with this name' });
+    }
+    logger.errorLog(error, { context: 'Error creating practice list' });
+    res.status(500).json({ error: 'Failed to create list' });
+  }
+});
+
+router.put('/practice/lists/:id', authenticateToken, async (req, res) => {
+  try {
+    const nameError = PracticeLibrary.getListNameError(req.body.name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    const list = await PracticeList.findOneAndUpdate(
+      { _id: req.params.id, user_id: req.user._id },
+      { name: req.body.name.trim() },
+      { new: true, runValidators: true }
+    );
+    if (!list) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    res.json(formatList(list));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ error: 'You already have a list with this name' });
+    }
+    logger.errorLog(error, { context: 'Error renaming practice list' });
+    res.status(500).json({ error: 'Failed to rename list' });
+  }
+});
+
+router.delete('/practice/lists/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    const list = await PracticeList.findOneAndDelete({ _id: req.params.id, user_id: req.user._id });
+    if (!list) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    res.json({ message: 'List deleted successfully' });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error deleting practice list' });
+    res.status(500).json({ error: 'Failed to delete list' });
+  }
+});
+
+router.post('/practice/lists/:id/questions', authenticateToken, async (req, res) => {
+  try {
+    const { questionId } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+    if (!mongoose.Types.ObjectId.isValid(questionId) || !(await CodingQuestion.exists({ _id: questionId }))) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const list = await PracticeList.findOneAndUpdate(
+      { _id: req.params.id, user_id: req.user._id },
+      { $addToSet: { questions: questionId } },
+      { new: true }
+    );
+    if (!list) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    res.json(formatList(list));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error adding question to list' });
+    res.status(500).json({ error: 'Failed to add question to list' });
+  }
+});
+
+router.delete('/practice/lists/:id/questions/:questionId', authenticateToken, async (req, res) => {
+  try {
+    const { id, questionId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(questionId)) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    const list = await PracticeList.findOneAndUpdate(
+      { _id: id, user_id: req.user._id },
+      { $pull: { questions: questionId } },
+      { new: true }
+    );
+    if (!list) {
+      return res.status(404).json({ error: 'List not found' });
+    }
+
+    res.json(formatList(list));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error removing question from list' });
+    res.status(500).json({ error: 'Failed to remove question from list' });
+  }
+});
+
+// The college a user's practice paths and leaderboard are scoped to; null for master admins
+const getCollegeId = (user) => (user.collegeId ? user.collegeId._id || user.collegeId : null);
+
+// Paths the user can see: their college's and the shared ones authored by master admins
+const getVisiblePathQuery = (user) => {
+  if (user.role === 'master_admin') return {};
+  return { college_id: { $in: [null, getCollegeId(user)] } };
+};
+
+// Faculty and college admins edit their college's paths; master admins edit the shared ones
+const canEditPath = (user, path) => {
+  if (user.role === 'master_admin') return !path.college_id;
+  const collegeId = getCollegeId(user);
+  return !!path.college_id && !!collegeId && String(path.college_id) === String(collegeId);
+};
+
+const getSolvedIds = async (studentId) => {
+  const solved = await PracticeCodingProgress.find({ student_id: studentId, status: 'solved' })
+    .select('question_id')
+    .lean();
+  return new Set(solved.map(p => p.question_id.toString()));
+};
+
+// Validates a path from the request body; returns { error } or { data } with the
+// question and prerequisite ids checked against the database
+const getPathData = async (body, user, pathId = null) => {
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  if (!title) {
+    return { error: 'Title is required' };
+  }
+
+  const questions = [...new Set((body.questions || []).map(String))];
+  const prerequisites = [...new Set((body.prerequisites || []).map(String))];
+  if (questions.length === 0) {
+    return { error: 'A path needs at least one question' };
+  }
+  if ([...questions, ...prerequisites].some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    return { error: 'Invalid question or prerequisite ID' };
+  }
+
+  const questionCount = await CodingQuestion.countDocuments({ _id: { $in: questions } });
+  if (questionCount !== questions.length) {
+    return { error: 'Some questions no longer exist' };
+  }
+
+  const visiblePaths = await PracticePath.find(getVisiblePathQuery(user)).select('_id prerequisites').lean();
+  const visibleIds = new Set(visiblePaths.map(p => p._id.toString()));
+  if (prerequisites.some(id => !visibleIds.has(id))) {
+    return { error: 'Some prerequisite paths were not found' };
+  }
+
+  const prerequisiteError = PracticeTrack.getPrerequisiteError(pathId, prerequisites, visiblePaths);
+  if (prerequisiteError) {
+    return { error: prerequisiteError };
+  }
+
+  return {
+    data: {
+      title,
+      description: typeof body.description === 'string' ? body.description.trim() : '',
+      questions,
+      prerequisites,
+      is_active: body.is_active !== undefined ? Boolean(body.is_active) : true
+    }
+  };
+};
+
+// Streak, solved counts by difficulty and tag for the student's practice
+router.get('/practice/stats', authenticateToken, authorize('student'), async (req, res) => {
+  try {
+    const questions = await CodingQuestion.find().select('_id difficulty tags').lean();
+    const progress = await PracticeCodingProgress.find({ student_id: req.user.id })
+      .select('question_id status')
+      .lean();
+
+    // A day counts towards the streak when at least one practice solution was submitted
+    const days = await CodingSubmission.aggregate([
+      { $match: { student_id: req.user._id, is_practice: true } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$submitted_at' } } } }
+    ]);
+
+    res.json({
+      streak: PracticeTrack.getStreak(days.map(d => d._id)),
+      solved: progress.filter(p => p.status === 'solved').length,
+      attempted: progress.filter(p => p.status === 'attempted').length,
+      ...PracticeTrack.getBreakdown(questions, progress)
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching practice stats' });
+    res.status(500).json({ error: 'Failed to fetch practice stats' });
+  }
+});
+
+// College-wide ranking by practice points. Students see the top of the board and their own row.
+router.get('/practice/leaderboard', authenticateToken, authorize('student', 'faculty', 'college_admin'), async (req, res) => {
+  try {
+    const collegeId = getCollegeId(req.user);
+    if (!collegeId) {
+      return res.status(400).json({ error: 'No college is linked to your account' });
+    }
+
+    const students = await User.find({ collegeId, role: 'student', isActive: true })
+      .select('_id name branch batch section')
+      .lean();
+    const solved = await PracticeCodingProgress.find({
+      student_id: { $in: students.map(s => s._id) },
+      status: 'solved'
     })
-      .sort({ submitted_at: -1 })
-      .limit(10)
+      .select('student_id question_id solved_at')
       .lean();
+    const questions = await CodingQuestion.find().select('_id difficulty').lean();
+    const difficulties = new Map(questions.map(q => [q._id.toString(), q.difficulty]));
+
+    const ranked = PracticeTrack.buildLeaderboard(students, solved, difficulties);
+    const me = ranked.find(entry => entry.studentId === req.user._id.toString()) || null;
 
-    res.json(submissions.map(s => ({
-      id: s._id,
-      ...s
-    })));
+    res.json({
+      leaderboard: req.user.role === 'student' ? ranked.slice(0, LEADERBOARD_SIZE) : ranked,
+      me,
+      totalStudents: ranked.length,
+      points: PracticeTrack.POINTS
+    });
   } catch (error) {
-    logger.errorLog(error, { context: 'Error fetching submissions' });
-    res.status(500).json({ error: 'Failed to fetch submissions' });
+    logger.errorLog(error, { context: 'Error fetching practice leaderboard' });
+    res.status(500).json({ error: 'Failed to fetch practice leaderboard' });
   }
 });
 
-async function executeCode(code, language, testCases) {
-  const results = {
-    output: '',
-    testResults: [],
-    avgExecutionTime: 0,
-    hasRuntimeError: false,
-    hasTimeLimit: false
-  };
+// Learning paths: students get active paths with their progress and lock state,
+// authors get every path in their scope
+router.get('/practice/paths', authenticateToken, async (req, res) => {
+  try {
+    const isStudent = req.user.role === 'student';
+    const paths = await PracticePath.find({
+      ...getVisiblePathQuery(req.user),
+      ...(isStudent ? { is_active: true } : {})
+    })
+      .sort({ created_at: 1 })
+      .lean();
 
+    const solvedIds = isStudent ? await getSolvedIds(req.user._id) : new Set();
+    const completed = PracticeTrack.getCompletedPaths(paths, solvedIds);
+    const titles = new Map(paths.map(p => [p._id.toString(), p.title]));
+
+    res.json(paths.map(path => {
+      const missing = PracticeTrack.getMissingPrerequisites(path, completed);
+      return {
+        id: path._id,
+        title: path.title,
+        description: path.description,
+        questionCount: path.questions.length,
+        questions: path.questions,
+        is_active: path.is_active,
+        shared: !path.college_id,
+        editable: canEditPath(req.user, path),
+        prerequisites: path.prerequisites.map(id => ({
+          id,
+          title: titles.get(id.toString()) || 'Unavailable path',
+          completed: completed.has(id.toString())
+        })),
+        ...(isStudent ? {
+          progress: PracticeTrack.getPathProgress(path, solvedIds),
+          locked: missing.length > 0
+        } : {})
+      };
+    }));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching practice paths' });
+    res.status(500).json({ error: 'Failed to fetch practice paths' });
+  }
+});
+
+router.get('/practice/paths/:id', authenticateToken, async (req, res) => {
   try {
-    for (let i = 0; i < testCases.length; i++) {
-      const testCase = testCases[i];
-      const startTime = Date.now();
-
-      try {
-        const output = await runCodeInSandbox(code, language, testCase.input);
-        const executionTime = Date.now() - startTime;
-
-        const passed = output.trim() === testCase.expected_output.trim();
-
-        results.testResults.push({
-          test_case_number: i + 1,
-          passed,
-          input: testCase.input,
-          expected_output: testCase.expected_output,
-          actual_output: output,
-          execution_time: executionTime
-        });
-
-        results.avgExecutionTime += executionTime;
-      } catch (error) {
-        results.hasRuntimeError = true;
-        results.testResults.push({
-          test_case_number: i + 1,
-          passed: false,
-          input: testCase.input,
-          expected_output: testCase.expected_output,
-          error: error.message
-        });
-      }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
+
+    const path = await PracticePath.findOne({ _id: req.params.id, ...getVisiblePathQuery(req.user) })
+      .populate('questions', '_id title difficulty tags')
+      .lean();
+    if (!path || (req.user.role === 'student' && !path.is_active)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
+
+    // Deleted questions drop out of the path
+    const questions = path.questions.filter(Boolean);
+    const progress = req.user.role === 'student'
+      ? await PracticeCodingProgress.find({
+        student_id: req.user.id,
+        question_id: { $in: questions.map(q => q._id) }
+      }).lean()
+      : [];
+    const progressMap = new Map(progress.map(p => [p.question_id.toString(), p]));
+    const solvedIds = new Set(progress.filter(p => p.status === 'solved').map(p => p.question_id.toString()));
+
+    let locked = false;
+    if (req.user.role === 'student' && path.prerequisites.length > 0) {
+      const prerequisites = await PracticePath.find({ _id: { $in: path.prerequisites } }).select('_id questions').lean();
+      const allSolved = await getSolvedIds(req.user._id);
+      locked = PracticeTrack.getMissingPrerequisites(path, PracticeTrack.getCompletedPaths(prerequisites, allSolved)).length > 0;
+    }
+
+    res.json({
+      id: path._id,
+      title: path.title,
+      description: path.description,
+      prerequisites: path.prerequisites,
+      is_active: path.is_active,
+      editable: canEditPath(req.user, path),
+      locked,
+      progress: PracticeTrack.getPathProgress({ questions }, solvedIds),
+      questions: questions.map(q => {
+        const prog = progressMap.get(q._id.toString());
+        return {
+          id: q._id,
+          title: q.title,
+          difficulty: q.difficulty,
+          tags: q.tags,
+          status: prog?.status || 'not_attempted',
+          best_score: prog?.best_score
+        };
+      })
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching practice path' });
+    res.status(500).json({ error: 'Failed to fetch practice path' });
+  }
+});
+
+router.post('/practice/paths', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
+  try {
+    const collegeId = req.user.role === 'master_admin' ? null : getCollegeId(req.user);
+    if (req.user.role !== 'master_admin' && !collegeId) {
+      return res.status(400).json({ error: 'No college is linked to your account' });
+    }
+
+    const { data, error } = await getPathData(req.body, req.user);
+    if (error) {
+      return res.status(400).json({ error });
     }
 
-    results.avgExecutionTime = Math.round(results.avgExecutionTime / testCases.length);
+    const path = new PracticePath({
+      ...data,
+      college_id: collegeId,
+      created_by: req.user._id
+    });
+    await path.save();
+
+    res.status(201).json({ id: path._id, ...path.toObject() });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error creating practice path' });
+    res.status(500).json({ error: 'Failed to create practice path' });
+  }
+});
+
+router.put('/practice/paths/:id', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
+
+    const path = await PracticePath.findById(req.params.id);
+    if (!path || !canEditPath(req.user, path)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
+
+    const { data, error } = await getPathData(req.body, req.user, path._id);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    Object.assign(path, data);
+    await path.save();
+
+    res.json({ id: path._id, ...path.toObject() });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error updating practice path' });
+    res.status(500).json({ error: 'Failed to update practice path' });
+  }
+});
+
+router.delete('/practice/paths/:id', authenticateToken, authorize('faculty', 'college_admin', 'master_admin'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
 
-    if (results.testResults.length > 0 && results.testResults[0].passed) {
-      results.output = 'All sample test cases passed!';
-    } else {
-      results.output = 'Some test cases failed. Check the results below.';
+    const path = await PracticePath.findById(req.params.id);
+    if (!path || !canEditPath(req.user, path)) {
+      return res.status(404).json({ error: 'Path not found' });
     }
+
+    await path.deleteOne();
+    // Paths that required this one no longer do
+    await PracticePath.updateMany({ prerequisites: path._id }, { $pull: { prerequisites: path._id } });
+
+    res.json({ message: 'Path deleted successfully' });
   } catch (error) {
-    results.output = `Error: ${error.message}`;
-    results.hasRuntimeError = true;
+    logger.errorLog(error, { context: 'Error deleting practice path' });
+    res.status(500).json({ error: 'Failed to delete practice path' });
   }
+});
 
-  return results;
-}
+// Progress of every student in the college on one path, filterable by batch, branch and section
+router.get('/practice/paths/:id/cohort', authenticateToken, authorize('faculty', 'college_admin'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
 
-async function runCodeInSandbox(code, language, input) {
-  return new Promise(async (resolve, reject) => {
-    const timeout = 5000;
+    const collegeId = getCollegeId(req.user);
+    const path = await PracticePath.findOne({ _id: req.params.id, ...getVisiblePathQuery(req.user) }).lean();
+    if (!path || !collegeId) {
+      return res.status(404).json({ error: 'Path not found' });
+    }
 
-    try {
-      if (language === 'javascript') {
-        const isolate = new ivm.Isolate({ memoryLimit: 128 });
-        const context = await isolate.createContext();
+    const { batch, branch, section } = req.query;
+    const userQuery = { collegeId, role: 'student', isActive: true };
+    if (batch) userQuery.batch = batch;
+    if (branch) userQuery.branch = branch;
+    if (section) userQuery.section = section;
+
+    const students = await User.find(userQuery).select('_id name email branch batch section').lean();
+    const solved = await PracticeCodingProgress.find({
+      student_id: { $in: students.map(s => s._id) },
+      question_id: { $in: path.questions },
+      status: 'solved'
+    })
+      .select('student_id question_id solved_at')
+      .lean();
 
-        const jail = context.global;
-        await jail.set('global', jail.derefInto());
+    const byStudent = new Map();
+    solved.forEach(p => {
+      const key = p.student_id.toString();
+      if (!byStudent.has(key)) byStudent.set(key, []);
+      byStudent.get(key).push(p);
+    });
 
-        const outputLogs = [];
-        await jail.set('_consoleLog', new ivm.Reference(function(...args) {
-          outputLogs.push(args.map(a => String(a)).join(' '));
-        }));
+    const rows = students.map(student => {
+      const studentSolved = byStudent.get(student._id.toString()) || [];
+      const progress = PracticeTrack.getPathProgress(path, new Set(studentSolved.map(p => p.question_id.toString())));
+      const lastSolvedAt = studentSolved.reduce(
+        (latest, p) => (p.solved_at && (!latest || p.solved_at > latest) ? p.solved_at : latest),
+        null
+      );
+      return {
+        studentId: student._id,
+        name: student.name,
+        email: student.email,
+        branch: student.branch,
+        batch: student.batch,
+        section: student.section,
+        solved: progress.solved,
+        total: progress.total,
+        completed: progress.completed,
+        lastSolvedAt
+      };
+    }).sort((a, b) => b.solved - a.solved || a.name.localeCompare(b.name));
 
-        const inputLines = input.split('\n');
-        await jail.set('_inputLines', JSON.stringify(inputLines));
-        await jail.set('_inputIndex', 0);
-
-        const wrappedCode = `
-          let _inputLines = JSON.parse(_inputLines);
-          let _inputIndex = 0;
-
-          const console = {
-            log: (...args) => _consoleLog.applySync(undefined, args)
-          };
-
-          const readline = () => {
-            if (_inputIndex < _inputLines.length) {
-              return _inputLines[_inputIndex++];
-            }
-            return '';
-          };
-
-          ${code}
-
-          // Capture console output
-          '';
-        `;
-
-        try {
-          const script = await isolate.compileScript(wrappedCode);
-          await script.run(context, { timeout });
-
-          const output = outputLogs.join('\n');
-          isolate.dispose();
-          resolve(output);
-        } catch (error) {
-          isolate.dispose();
-          reject(new Error(`Runtime Error: ${error.message}`));
-        }
-      } else if (language === 'python') {
-        // For Python execution, we'll use child_process to run Python
-        const { execSync } = require('child_process');
-        const fs = require('fs');
-        const path = require('path');
-        const os = require('os');
-
-        try {
-          // Create a temporary file for the Python script
-          const tempDir = os.tmpdir();
-          const tempFile = path.join(tempDir, `temp_${Date.now()}.py`);
-
-          // Wrap the user code to provide input automatically
-          const wrappedCode = `
-import sys
-from io import StringIO
-
-# Prepare input
-input_data = ${JSON.stringify(input)}
-sys.stdin = StringIO(input_data)
-
-# User's code
-${code}
-`;
-
-          // Write the code to a temporary file
-          fs.writeFileSync(tempFile, wrappedCode, 'utf8');
-
-          try {
-            // Execute Python script
-            const result = execSync(`python "${tempFile}"`, {
-              encoding: 'utf8',
-              timeout: timeout,
-              maxBuffer: 10 * 1024 * 1024,
-              stdio: ['pipe', 'pipe', 'pipe'],
-              shell: true,
-              windowsHide: true
-            });
-
-            // Clean up - ensure file is deleted even if there's an error
-            try {
-              fs.unlinkSync(tempFile);
-            } catch (cleanupError) {
-              console.warn('Warning: Failed to delete temp file:', tempFile);
-            }
-            
-            resolve(result.trim());
-          } catch (execError) {
-            // Clean up on error
-            try {
-              fs.unlinkSync(tempFile);
-            } catch (cleanupError) {
-              console.warn('Warning: Failed to delete temp file after error:', tempFile);
-            }
-            
-            // Extract the actual error message from stderr or stdout
-            let errorMsg = execError.message;
-            if (execError.stderr && typeof execError.stderr === 'string' && execError.stderr.trim()) {
-              errorMsg = execError.stderr.trim();
-            } else if (execError.stdout && typeof execError.stdout === 'string' && execError.stdout.trim()) {
-              errorMsg = execError.stdout.trim();
-            }
-            
-            reject(new Error(`Python Runtime Error: ${errorMsg}`));
-          }
-        } catch (error) {
-          reject(new Error(`Python Error: ${error.message}`));
-        }
-      } else if (language === 'java') {
-        resolve(`Java execution requires JDK runtime. Please use JavaScript for now.`);
-      } else if (language === 'cpp') {
-        resolve(`C++ execution requires C++ compiler. Please use JavaScript for now.`);
-      } else {
-        reject(new Error(`Language ${language} is not supported`));
+    res.json({
+      path: { id: path._id, title: path.title, questionCount: path.questions.length },
+      summary: {
+        students: rows.length,
+        started: rows.filter(r => r.solved > 0).length,
+        completed: rows.filter(r => r.completed).length
+      },
+      students: rows
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching practice path cohort' });
+    res.status(500).json({ error: 'Failed to fetch path progress' });
+  }
+});
+
+// The caller's submission history for a question, newest first. attemptId narrows it
+// to the submissions made during one test attempt.
+router.get('/submissions/:questionId', authenticateToken, async (req, res) => {
+  try {
+    const { questionId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(questionId)) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const query = { student_id: req.user.id, question_id: questionId };
+    if (req.query.attemptId) {
+      if (!mongoose.Types.ObjectId.isValid(req.query.attemptId)) {
+        return res.status(400).json({ error: 'Invalid attempt id' });
       }
-    } catch (error) {
-      reject(new Error(`Execution Error: ${error.message}`));
+      query.test_attempt_id = req.query.attemptId;
     }
-  });
-}
+
+    const submissions = await CodingSubmission.find(query)
+      .select('-test_results')
+      .sort({ submitted_at: -1 })
+      .limit(SubmissionHistory.MAX_SUBMISSIONS)
+      .lean();
+
+    res.json(submissions.map(SubmissionHistory.formatSubmission));
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching submissions' });
+    res.status(500).json({ error: 'Failed to fetch submissions' });
+  }
+});
+
+// A student's coding submissions for faculty: the questions they submitted to, and with
+// questionId the full history for that question
+router.get('/students/:studentId/submissions', authenticateToken, authorize('faculty', 'college_admin'), async (req, res) => {
+  try {
+    const { studentId } = req.params;
+    const { questionId } = req.query;
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    if (questionId && !mongoose.Types.ObjectId.isValid(questionId)) {
+      return res.status(400).json({ error: 'Invalid question id' });
+    }
+
+    const collegeId = getCollegeId(req.user);
+    const student = collegeId && await User.findOne({ _id: studentId, collegeId, role: 'student' })
+      .select('_id name email batch branch section')
+      .lean();
+    if (!student) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+
+    const [all, submissions] = await Promise.all([
+      CodingSubmission.find({ student_id: student._id })
+        .select('question_id status score submitted_at')
+        .populate('question_id', 'title')
+        .sort({ submitted_at: -1 })
+        .lean(),
+      questionId
+        ? CodingSubmission.find({ student_id: student._id, question_id: questionId })
+          .select('-test_results')
+          .populate('question_id', 'title')
+          .sort({ submitted_at: -1 })
+          .limit(SubmissionHistory.MAX_SUBMISSIONS)
+          .lean()
+        : []
+    ]);
+
+    res.json({
+      student: {
+        id: student._id,
+        name: student.name,
+        email: student.email,
+        batch: student.batch,
+        branch: student.branch,
+        section: student.section
+      },
+      questions: SubmissionHistory.getQuestionSummaries(all.filter(s => s.question_id)),
+      submissions: submissions.map(SubmissionHistory.formatSubmission)
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Error fetching student submissions' });
+    res.status(500).json({ error: 'Failed to fetch submissions' });
+  }
+});
 
 module.exports = router;
@@ -8,6 +8,7 @@ const { auth, authorize } = require('../middleware/auth');
 const CodingQuestion = require('../models/CodingQuestion');
 const CodingTestCase = require('../models/CodingTestCase');
 const logger = require('../middleware/logger');
+const FunctionHarness = require('../utils/functionHarness');
 
 const upload = multer({
   limits: {
@@ -42,11 +43,17 @@ const processQuestionsBuffer = async (buffer, filename) => {
             tags: row.tags?.split(',').map(tag => tag.trim()) || [],
             time_limit: parseInt(row.time_limit) || 3000,
             memory_limit: parseInt(row.memory_limit) || 512,
+            checker_mode: row.checker_mode || undefined,
+            float_tolerance: parseFloat(row.float_tolerance) || undefined,
+            checker_script: row.checker_script || undefined,
             test_cases: []
           };
           if (row.test_cases) {
             try { question.test_cases = JSON.parse(row.test_cases); } catch (e) { }
           }
+          if (row.function_signature) {
+            try { question.function_signature = JSON.parse(row.function_signature); } catch (e) { }
+          }
           questions.push(question);
         })
         .on('end', resolve)
@@ -82,6 +89,8 @@ router.post('/import', auth, authorize('master_admin'), upload.single('file'), a
     for (const q of allQuestions) {
       try {
         if (!q.title || !q.description) throw new Error('Title and description are required');
+        const signatureError = FunctionHarness.validateSignature(q.function_signature);
+        if (signatureError) throw new Error(signatureError);
 
         const question = new CodingQuestion({
           title: q.title,
@@ -96,6 +105,10 @@ router.post('/import', auth, authorize('master_admin'), upload.single('file'), a
           tags: q.tags || [],
           time_limit: q.time_limit || 3000,
           memory_limit: q.memory_limit || 512,
+          checker_mode: q.checker_mode,
+          float_tolerance: q.float_tolerance,
+          checker_script: q.checker_script,
+          function_signature: q.function_signature || null,
           created_by: req.user.id
         });
 
@@ -157,7 +170,11 @@ router.get('/:id/edit', auth, authorize('master_admin', 'college_admin'), async
         explanation: question.explanation,
         tags: question.tags,
         time_limit: question.time_limit,
-        memory_limit: question.memory_limit
+        memory_limit: question.memory_limit,
+        checker_mode: question.checker_mode,
+        float_tolerance: question.float_tolerance,
+        checker_script: question.checker_script,
+        function_signature: question.function_signature
       },
       testCases: testCases.map(tc => ({
         id: tc._id,
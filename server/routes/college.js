@@ -956,7 +956,8 @@ router.get('/tests/:testId/report', auth, authorize('college_admin', 'faculty'),
     // Get all attempts
     const attempts = await TestAttempt.find({
       testId,
-      studentId: { $in: studentIds }
+      studentId: { $in: studentIds },
+      status: { $ne: 'in_progress' }
     }).populate('studentId', 'name email idNumber branch batch section');
 
     // Calculate statistics
@@ -991,6 +992,10 @@ router.get('/tests/:testId/report', auth, authorize('college_admin', 'faculty'),
         marksObtained: attempt ? attempt.marksObtained : 0,
         totalMarks: test.totalMarks,
         percentage: attempt ? attempt.percentage : 0,
+        correctAnswers: attempt ? attempt.correctAnswers : 0,
+        incorrectAnswers: attempt ? attempt.incorrectAnswers : 0,
+        unanswered: attempt ? attempt.unanswered : 0,
+        negativeMarks: attempt ? attempt.negativeMarks : 0,
         timeSpent: attempt ? attempt.timeSpent : 0,
         submittedAt: attempt ? attempt.createdAt : null
       };
@@ -1026,6 +1031,110 @@ router.get('/tests/:testId/report', auth, authorize('college_admin', 'faculty'),
   }
 });
 
+// Pairs of students in the same class section who share unusually many identical wrong MCQ answers
+router.get('/tests/:testId/collusion', auth, authorize('college_admin', 'faculty'), async (req, res) => {
+  try {
+    const { testId } = req.params;
+    const TestAttempt = require('../models/TestAttempt');
+    const Test = require('../models/Test');
+    const QuestionPool = require('../utils/questionPool');
+    const QuestionTypes = require('../utils/questionTypes');
+    const AnswerCollusion = require('../utils/answerCollusion');
+
+    const test = await Test.findById(testId);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    const requestedAlpha = parseFloat(req.query.alpha);
+    const alpha = requestedAlpha > 0 && requestedAlpha < 1 ? requestedAlpha : AnswerCollusion.ALPHA;
+    const minShared = parseInt(req.query.minShared, 10) > 0 ? parseInt(req.query.minShared, 10) : AnswerCollusion.MIN_SHARED;
+
+    const allAttempts = await TestAttempt.find({
+      testId,
+      collegeId: req.user.collegeId,
+      status: { $ne: 'in_progress' }
+    })
+    .sort({ startTime: 1 })
+    .populate('studentId', 'name email idNumber branch batch section');
+
+    // Only each student's first attempt is compared: retakes repeat their own earlier answers
+    const firstAttempts = new Map();
+    allAttempts.forEach(attempt => {
+      const studentId = String(attempt.studentId?._id || attempt.studentId);
+      if (!firstAttempts.has(studentId)) firstAttempts.set(studentId, attempt);
+    });
+    const attempts = [...firstAttempts.values()];
+
+    // Students are only compared with classmates from the same branch, batch and section
+    const attemptsById = new Map(attempts.map(a => [a._id.toString(), a]));
+    const pairs = AnswerCollusion.findSuspiciousPairs(
+      attempts.map(a => ({
+        id: a._id.toString(),
+        group: [a.studentId?.branch, a.studentId?.batch, a.studentId?.section].join('|'),
+        answers: a.answers
+      })),
+      { alpha, minShared }
+    );
+
+    const questions = QuestionPool.collectQuestions(test, attempts);
+    const questionIndex = new Map(questions.map((q, index) => [q._id.toString(), index]));
+
+    const describeStudent = (attempt) => ({
+      attemptId: attempt._id,
+      studentId: attempt.studentId?._id,
+      name: attempt.studentId?.name || 'Unknown',
+      email: attempt.studentId?.email || 'Unknown',
+      idNumber: attempt.studentId?.idNumber,
+      branch: attempt.studentId?.branch,
+      batch: attempt.studentId?.batch,
+      section: attempt.studentId?.section,
+      percentage: attempt.percentage
+    });
+
+    res.json({
+      test: {
+        _id: test._id,
+        testName: test.testName
+      },
+      alpha,
+      minShared,
+      analyzedAttempts: attempts.length,
+      pairs: pairs.map(pair => {
+        const first = attemptsById.get(pair.a);
+        const second = attemptsById.get(pair.b);
+        return {
+          students: [describeStudent(first), describeStudent(second)],
+          bothWrong: pair.bothWrong,
+          sharedWrong: pair.shared.length,
+          expectedShared: Math.round(pair.expected * 100) / 100,
+          probability: pair.probability,
+          // -log10 of the chance probability: 3 means 1 in 1,000, 6 means 1 in a million
+          score: Math.round(-Math.log10(Math.max(pair.probability, 1e-300)) * 10) / 10,
+          sharedAnswers: pair.shared
+            .map(({ questionId, answer, other, chosenBy, totalWrong }) => {
+              const index = questionIndex.get(questionId);
+              const question = index !== undefined ? questions[index] : null;
+              return {
+                questionNumber: index !== undefined ? index + 1 : null,
+                questionText: question?.questionText || 'Question not found',
+                selectedAnswer: answer.selectedAnswer,
+                correctAnswer: question ? QuestionTypes.describeCorrectAnswer(question) : null,
+                chosenBy,
+                totalWrong,
+                timeSpent: [answer.timeSpent || 0, other.timeSpent || 0]
+              };
+            })
+            .sort((x, y) => (x.questionNumber || 0) - (y.questionNumber || 0))
+        };
+      })
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get Answer Collusion' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // Helper function to send bulk credential emails
 async function sendBulkCredentialEmails(createdUsers, collegeName) {
   try {
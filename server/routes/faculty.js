@@ -1,13 +1,28 @@
 const express = require('express');
+const path = require('path');
 const Test = require('../models/Test');
 const TestAssignment = require('../models/TestAssignment');
 const TestAttempt = require('../models/TestAttempt');
 const User = require('../models/User');
+const CodingQuestion = require('../models/CodingQuestion');
+const CodingSubmission = require('../models/CodingSubmission');
+const SimilarityReview = require('../models/SimilarityReview');
 const { auth, authorize } = require('../middleware/auth');
+const QuestionPool = require('../utils/questionPool');
+const QuestionTypes = require('../utils/questionTypes');
+const CodeSimilarity = require('../utils/codeSimilarity');
+const Proctoring = require('../utils/proctoring');
 const logger = require('../middleware/logger');
 
 const router = express.Router();
 
+const REVIEW_STATUSES = ['pending', 'reviewed', 'confirmed'];
+const PROCTORING_REVIEW_STATUSES = ['pending', 'flagged', 'cleared'];
+const SNAPSHOT_DIR = path.join(__dirname, '..', 'uploads', 'proctoring');
+
+// Student ids in ascending order, matching how SimilarityReview stores a pair
+const orderPair = (a, b) => (String(a) < String(b) ? [String(a), String(b)] : [String(b), String(a)]);
+
 router.get('/tests/assigned', auth, authorize('faculty'), async (req, res) => {
   try {
     const { testType, subject } = req.query;
@@ -150,8 +165,10 @@ router.get('/tests/:testId/report', auth, authorize('faculty'), async (req, res)
 
     const questionAnalysis = [];
     if (attempts.length > 0) {
-      test.questions.forEach((question, index) => {
-        const correctCount = attempts.filter(attempt => {
+      // Students may have been served different questions from pool sections
+      QuestionPool.collectQuestions(test, attempts).forEach((question, index) => {
+        const servedAttempts = attempts.filter(attempt => QuestionPool.wasServed(test, attempt, question._id));
+        const correctCount = servedAttempts.filter(attempt => {
           const answer = attempt.answers.find(
             a => a.questionId.toString() === question._id.toString()
           );
@@ -162,8 +179,11 @@ router.get('/tests/:testId/report', auth, authorize('faculty'), async (req, res)
           questionNumber: index + 1,
           questionText: question.questionText.substring(0, 100) + '...',
           correctCount,
-          incorrectCount: completed - correctCount,
-          correctPercentage: ((correctCount / completed) * 100).toFixed(1)
+          incorrectCount: servedAttempts.length - correctCount,
+          servedCount: servedAttempts.length,
+          correctPercentage: servedAttempts.length > 0
+            ? ((correctCount / servedAttempts.length) * 100).toFixed(1)
+            : '0.0'
         });
       });
     }
@@ -204,6 +224,9 @@ router.get('/tests/:testId/report', auth, authorize('faculty'), async (req, res)
         percentage: attempt.percentage,
         correctAnswers: attempt.correctAnswers,
         incorrectAnswers: attempt.incorrectAnswers,
+        partialAnswers: attempt.partialAnswers,
+        unanswered: attempt.unanswered,
+        negativeMarks: attempt.negativeMarks,
         timeSpent: attempt.timeSpent,
         completedAt: attempt.createdAt
       }))
@@ -235,8 +258,9 @@ router.get('/tests/:testId/students', auth, authorize('faculty'), async (req, re
     .sort({ percentage: -1 });
 
     const studentResults = attempts.map(attempt => {
+      const servedQuestions = QuestionPool.getTestQuestions(test, attempt);
       const questionDetails = attempt.answers.map((answer, index) => {
-        const question = test.questions.find(
+        const question = servedQuestions.find(
           q => q._id.toString() === answer.questionId.toString()
         );
 
@@ -244,7 +268,7 @@ router.get('/tests/:testId/students', auth, authorize('faculty'), async (req, re
           questionNumber: index + 1,
           questionText: question?.questionText || 'Question not found',
           selectedAnswer: answer.selectedAnswer,
-          correctAnswer: question?.correctAnswer,
+          correctAnswer: question && QuestionTypes.describeCorrectAnswer(question),
           isCorrect: answer.isCorrect,
           marksObtained: answer.marksObtained,
           timeSpent: answer.timeSpent
@@ -265,6 +289,9 @@ router.get('/tests/:testId/students', auth, authorize('faculty'), async (req, re
         percentage: attempt.percentage,
         correctAnswers: attempt.correctAnswers,
         incorrectAnswers: attempt.incorrectAnswers,
+        partialAnswers: attempt.partialAnswers,
+        unanswered: attempt.unanswered,
+        negativeMarks: attempt.negativeMarks,
         timeSpent: attempt.timeSpent,
         completedAt: attempt.createdAt,
         questionDetails
@@ -317,7 +344,10 @@ router.get('/tests/:testId/export', auth, authorize('faculty'), async (req, res)
       'Percentage': attempt.percentage.toFixed(2) + '%',
       'Correct Answers': attempt.correctAnswers,
       'Incorrect Answers': attempt.incorrectAnswers,
-      'Time Spent (min)': attempt.timeSpent,
+      'Partially Correct': attempt.partialAnswers || 0,
+      'Unanswered': attempt.unanswered || 0,
+      'Negative Marks': attempt.negativeMarks || 0,
+      'Time Spent (min)': Math.round(attempt.timeSpent / 60),
       'Status': attempt.percentage >= 40 ? 'Pass' : 'Fail',
       'Completed At': new Date(attempt.createdAt).toLocaleString()
     }));
@@ -350,6 +380,286 @@ router.get('/tests/:testId/export', auth, authorize('faculty'), async (req, res)
   }
 });
 
+router.get('/tests/:testId/similarity', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const { testId } = req.params;
+    const requested = parseFloat(req.query.threshold);
+    const threshold = requested > 0 && requested <= 1 ? requested : CodeSimilarity.DEFAULT_THRESHOLD;
+
+    const test = await Test.findById(testId);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    const attempts = await TestAttempt.find({ testId, collegeId: req.user.collegeId })
+      .select('_id studentId')
+      .populate({ path: 'studentId', select: 'name email' })
+      .lean();
+    const attemptStudents = new Map(attempts.map(a => [String(a._id), a.studentId]));
+
+    // Only each student's latest submission per question is compared
+    const submissions = await CodingSubmission.find({ test_attempt_id: { $in: [...attemptStudents.keys()] } })
+      .select('student_id question_id test_attempt_id language code submitted_at')
+      .sort({ submitted_at: -1 })
+      .lean();
+    const latest = new Map();
+    submissions.forEach(submission => {
+      const key = `${submission.question_id}:${submission.student_id}`;
+      if (!latest.has(key)) latest.set(key, submission);
+    });
+
+    const byQuestion = new Map();
+    latest.forEach(submission => {
+      const questionId = String(submission.question_id);
+      if (!byQuestion.has(questionId)) byQuestion.set(questionId, []);
+      byQuestion.get(questionId).push(submission);
+    });
+
+    const [questions, reviews] = await Promise.all([
+      CodingQuestion.find({ _id: { $in: [...byQuestion.keys()] } }).select('title').lean(),
+      SimilarityReview.find({ testId, collegeId: req.user.collegeId }).lean()
+    ]);
+    const titles = new Map(questions.map(q => [String(q._id), q.title]));
+    const reviewMap = new Map(reviews.map(r => [`${r.questionId}:${r.studentA}:${r.studentB}`, r]));
+
+    const results = [...byQuestion.entries()].map(([questionId, questionSubmissions]) => {
+      const { pairs, clusters } = CodeSimilarity.findSimilar(
+        questionSubmissions.map(s => ({ id: s.student_id, code: s.code, language: s.language })),
+        threshold
+      );
+
+      // Code is only sent for students who appear in a flagged pair
+      const flagged = new Set(clusters.flat());
+      const students = {};
+      questionSubmissions
+        .filter(s => flagged.has(String(s.student_id)))
+        .forEach(s => {
+          const student = attemptStudents.get(String(s.test_attempt_id));
+          students[String(s.student_id)] = {
+            name: student?.name || 'Unknown',
+            email: student?.email || 'Unknown',
+            submissionId: s._id,
+            language: s.language,
+            code: s.code,
+            submittedAt: s.submitted_at
+          };
+        });
+
+      return {
+        questionId,
+        title: titles.get(questionId) || 'Question not found',
+        submissionCount: questionSubmissions.length,
+        pairs: pairs.map(pair => {
+          const studentIds = orderPair(pair.a, pair.b);
+          const review = reviewMap.get(`${questionId}:${studentIds[0]}:${studentIds[1]}`);
+          return {
+            studentIds,
+            similarity: Math.round(pair.similarity * 1000) / 10,
+            status: review?.status || 'pending',
+            note: review?.note || '',
+            reviewedAt: review?.reviewedAt || null
+          };
+        }),
+        clusters,
+        students
+      };
+    });
+
+    res.json({
+      testName: test.testName,
+      threshold,
+      questions: results.sort((a, b) => b.pairs.length - a.pairs.length)
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get code similarity error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+router.put('/tests/:testId/similarity/review', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const { testId } = req.params;
+    const { questionId, studentIds, status, note, similarity } = req.body;
+
+    if (!questionId) {
+      return res.status(400).json({ error: 'Question is required' });
+    }
+    if (!REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    }
+    if (!Array.isArray(studentIds) || studentIds.length !== 2 || studentIds[0] === studentIds[1]) {
+      return res.status(400).json({ error: 'A review needs exactly two different students' });
+    }
+
+    const [studentA, studentB] = orderPair(studentIds[0], studentIds[1]);
+    const attemptedBy = await TestAttempt.distinct('studentId', {
+      testId,
+      collegeId: req.user.collegeId,
+      studentId: { $in: [studentA, studentB] }
+    });
+    if (attemptedBy.length !== 2) {
+      return res.status(404).json({ error: 'Both students must have attempted this test' });
+    }
+
+    const review = await SimilarityReview.findOneAndUpdate(
+      { testId, collegeId: req.user.collegeId, questionId, studentA, studentB },
+      {
+        status,
+        note: typeof note === 'string' ? note.trim() : '',
+        ...(typeof similarity === 'number' ? { similarity } : {}),
+        reviewedBy: req.user._id,
+        reviewedAt: new Date()
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    logger.info('Similarity review updated', { testId, questionId, status, reviewedBy: String(req.user._id) });
+
+    res.json({ message: 'Review saved', review });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Update similarity review error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Proctoring summary of every attempt at a test, for picking attempts to review
+router.get('/tests/:testId/proctoring', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const { testId } = req.params;
+
+    const test = await Test.findById(testId).select('testName proctoring');
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    const attempts = await TestAttempt.find({ testId, collegeId: req.user.collegeId })
+      .select('studentId status violations proctoringEvents proctoringSnapshots proctoringReview startTime')
+      .populate({ path: 'studentId', select: 'name email branch batch section' })
+      .sort({ violations: -1, startTime: 1 })
+      .lean();
+
+    res.json({
+      test: { _id: test._id, testName: test.testName },
+      policy: Proctoring.getPolicy(test),
+      attempts: attempts.map(attempt => ({
+        attemptId: attempt._id,
+        student: attempt.studentId,
+        status: attempt.status,
+        startTime: attempt.startTime,
+        violations: attempt.violations || 0,
+        eventCount: (attempt.proctoringEvents || []).length,
+        snapshotCount: (attempt.proctoringSnapshots || []).length,
+        review: attempt.proctoringReview || { status: 'pending' }
+      }))
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get test proctoring summary error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Event timeline, snapshot list and review of one attempt
+router.get('/attempts/:attemptId/proctoring', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const attempt = await TestAttempt.findOne({ _id: req.params.attemptId, collegeId: req.user.collegeId })
+      .select('testId studentId status startTime endTime violations proctoringEvents proctoringSnapshots proctoringReview')
+      .populate({ path: 'studentId', select: 'name email branch batch section' })
+      .populate({ path: 'testId', select: 'testName proctoring' })
+      .populate({ path: 'proctoringReview.reviewedBy', select: 'name' })
+      .lean();
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'Test attempt not found' });
+    }
+
+    res.json({
+      attemptId: attempt._id,
+      test: { _id: attempt.testId?._id, testName: attempt.testId?.testName },
+      student: attempt.studentId,
+      status: attempt.status,
+      startTime: attempt.startTime,
+      endTime: attempt.endTime,
+      violations: attempt.violations || 0,
+      maxViolations: Proctoring.getPolicy(attempt.testId).maxViolations,
+      events: attempt.proctoringEvents || [],
+      // File paths stay on the server; images are fetched through the snapshot route
+      snapshots: (attempt.proctoringSnapshots || []).map(({ _id, takenAt, reason }) => ({ _id, takenAt, reason })),
+      review: attempt.proctoringReview || { status: 'pending' }
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get attempt proctoring error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+router.get('/attempts/:attemptId/snapshots/:snapshotId', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const attempt = await TestAttempt.findOne({ _id: req.params.attemptId, collegeId: req.user.collegeId })
+      .select('proctoringSnapshots');
+    const snapshot = attempt?.proctoringSnapshots.id(req.params.snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    const filePath = path.join(__dirname, '..', snapshot.path);
+    if (!filePath.startsWith(SNAPSHOT_DIR + path.sep)) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.sendFile(filePath, error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Snapshot file is missing' });
+      }
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get proctoring snapshot error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Flag an attempt for follow-up or clear it after reviewing the proctoring record
+router.put('/attempts/:attemptId/proctoring-review', auth, authorize('faculty'), async (req, res) => {
+  try {
+    const { status, note } = req.body;
+
+    if (!PROCTORING_REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${PROCTORING_REVIEW_STATUSES.join(', ')}` });
+    }
+    if (note !== undefined && (typeof note !== 'string' || note.length > 1000)) {
+      return res.status(400).json({ error: 'Note must be text of at most 1000 characters' });
+    }
+
+    const attempt = await TestAttempt.findOneAndUpdate(
+      { _id: req.params.attemptId, collegeId: req.user.collegeId },
+      {
+        proctoringReview: {
+          status,
+          note: typeof note === 'string' ? note.trim() : '',
+          reviewedBy: req.user._id,
+          reviewedAt: new Date()
+        }
+      },
+      { new: true, runValidators: true }
+    ).select('proctoringReview');
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'Test attempt not found' });
+    }
+
+    logger.info('Proctoring review updated', {
+      attemptId: req.params.attemptId,
+      status,
+      reviewedBy: String(req.user._id)
+    });
+
+    res.json({ message: 'Review saved', review: attempt.proctoringReview });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Update proctoring review error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 router.get('/analytics/overview', auth, authorize('faculty'), async (req, res) => {
   try {
     const { timeRange = '30' } = req.query;
@@ -0,0 +1,341 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const BankQuestion = require('../models/BankQuestion');
+const Subject = require('../models/Subject');
+const QuestionTypes = require('../utils/questionTypes');
+const { auth, authorize } = require('../middleware/auth');
+const { body, query, validationResult } = require('express-validator');
+const logger = require('../middleware/logger');
+
+const router = express.Router();
+
+const SUBJECTS = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+const MAX_DRAW = 100;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value) => {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(item => String(item).trim()).filter(Boolean);
+};
+
+// Build the Mongo filter shared by listing and random draws
+const buildFilter = ({ search, subject, topics, difficulty, tags, excludeIds }) => {
+  const filter = { isActive: true };
+
+  if (subject) filter.subject = subject;
+  if (difficulty) filter.difficulty = difficulty;
+
+  const topicList = toList(topics);
+  if (topicList.length > 0) filter.topics = { $in: topicList };
+
+  const tagList = toList(tags);
+  if (tagList.length > 0) filter.tags = { $in: tagList };
+
+  if (search && search.trim()) {
+    const pattern = escapeRegex(search.trim());
+    filter.$or = [
+      { questionText: { $regex: pattern, $options: 'i' } },
+      { tags: { $regex: pattern, $options: 'i' } }
+    ];
+  }
+
+  const excluded = toList(excludeIds).filter(id => mongoose.Types.ObjectId.isValid(id));
+  if (excluded.length > 0) {
+    filter._id = { $nin: excluded.map(id => new mongoose.Types.ObjectId(id)) };
+  }
+
+  return filter;
+};
+
+// Shape a bank question the way TestFormWithSections expects embedded test questions
+const toTestQuestion = (question) => ({
+  bankQuestionId: question._id,
+  questionText: question.questionText,
+  questionImageUrl: question.questionImageUrl || '',
+  questionType: QuestionTypes.getType(question),
+  options: QuestionTypes.getOptions(question),
+  optionImages: question.optionImages || { A: '', B: '', C: '', D: '' },
+  correctAnswer: question.correctAnswer,
+  tolerance: question.tolerance || 0,
+  acceptedAnswers: question.acceptedAnswers || [],
+  caseSensitive: !!question.caseSensitive
+});
+
+// Keep Subject topics in sync so the test form topic pickers list bank topics
+const registerTopics = async (subject, topics) => {
+  if (!subject || !topics || topics.length === 0) return;
+  await Subject.updateOne(
+    { name: subject },
+    { $addToSet: { topics: { $each: topics } } },
+    { upsert: true }
+  );
+};
+
+const questionValidators = [
+  body('questionText').trim().notEmpty().withMessage('Question text is required'),
+  body('questionType').optional().isIn(QuestionTypes.TYPES).withMessage('Invalid question type'),
+  body('correctAnswer').custom((value, { req }) => {
+    const questionError = QuestionTypes.validateQuestion(req.body);
+    if (questionError) throw new Error(questionError);
+    return true;
+  }),
+  body('subject').isIn(SUBJECTS).withMessage('Invalid subject'),
+  body('difficulty').optional().isIn(DIFFICULTIES).withMessage('Invalid difficulty'),
+  body('topics').optional().isArray().withMessage('Topics must be an array'),
+  body('tags').optional().isArray().withMessage('Tags must be an array'),
+  body('explanation').optional().isString()
+];
+
+const pickQuestionFields = (data) => ({
+  ...QuestionTypes.normalizeQuestion({
+    questionType: data.questionType,
+    options: data.options,
+    optionImages: data.optionImages || undefined,
+    correctAnswer: data.correctAnswer,
+    tolerance: data.tolerance,
+    acceptedAnswers: data.acceptedAnswers,
+    caseSensitive: !!data.caseSensitive
+  }),
+  questionText: data.questionText,
+  questionImageUrl: data.questionImageUrl || null,
+  explanation: data.explanation || '',
+  subject: data.subject,
+  topics: toList(data.topics),
+  difficulty: data.difficulty || 'Medium',
+  tags: toList(data.tags)
+});
+
+// List / search bank questions (Master Admin)
+router.get('/', auth, authorize('master_admin'), [
+  query('subject').optional().isIn(SUBJECTS),
+  query('difficulty').optional().isIn(DIFFICULTIES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const filter = buildFilter(req.query);
+
+    const [questions, total] = await Promise.all([
+      BankQuestion.find(filter)
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      BankQuestion.countDocuments(filter)
+    ]);
+
+    res.json({
+      questions,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'List bank questions error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Distinct topics and tags in use, for filter dropdowns (Master Admin)
+router.get('/facets', auth, authorize('master_admin'), async (req, res) => {
+  try {
+    const filter = { isActive: true };
+    if (req.query.subject) filter.subject = req.query.subject;
+
+    const [topics, tags] = await Promise.all([
+      BankQuestion.distinct('topics', filter),
+      BankQuestion.distinct('tags', filter)
+    ]);
+
+    res.json({ topics: topics.sort(), tags: tags.sort() });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get bank facets error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Draw N random questions by subject/topic/difficulty, shaped for a test (Master Admin)
+router.post('/random', auth, authorize('master_admin'), [
+  body('count').isInt({ min: 1, max: MAX_DRAW }).withMessage(`Count must be between 1 and ${MAX_DRAW}`),
+  body('subject').optional().isIn(SUBJECTS),
+  body('difficulty').optional({ values: 'falsy' }).isIn(DIFFICULTIES),
+  body('topics').optional().isArray(),
+  body('excludeIds').optional().isArray()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const count = parseInt(req.body.count);
+    const filter = buildFilter(req.body);
+
+    const [questions, available] = await Promise.all([
+      BankQuestion.aggregate([
+        { $match: filter },
+        { $sample: { size: count } }
+      ]),
+      BankQuestion.countDocuments(filter)
+    ]);
+
+    res.json({
+      questions: questions.map(toTestQuestion),
+      requested: count,
+      available
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Draw random bank questions error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Save several questions at once, e.g. straight from a JSON/CSV extract (Master Admin)
+router.post('/bulk', auth, authorize('master_admin'), [
+  body('questions').isArray({ min: 1 }).withMessage('Questions must be a non-empty array'),
+  body('subject').isIn(SUBJECTS).withMessage('Invalid subject'),
+  body('difficulty').optional().isIn(DIFFICULTIES),
+  body('topics').optional().isArray()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { questions, subject, difficulty, topics = [] } = req.body;
+    const results = { total: questions.length, successful: 0, failed: 0, errors: [] };
+    const usedTopics = new Set(topics);
+
+    for (let i = 0; i < questions.length; i++) {
+      const questionError = QuestionTypes.validateQuestion(questions[i]);
+      if (questionError) {
+        results.failed++;
+        results.errors.push({ index: i, error: questionError });
+        continue;
+      }
+
+      const data = pickQuestionFields({ subject, difficulty, topics, ...questions[i] });
+      try {
+        await BankQuestion.create({ ...data, createdBy: req.user._id });
+        data.topics.forEach(topic => usedTopics.add(topic));
+        results.successful++;
+      } catch (error) {
+        results.failed++;
+        results.errors.push({ index: i, error: error.message });
+      }
+    }
+
+    await registerTopics(subject, Array.from(usedTopics));
+
+    res.json({ message: 'Import completed', results });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Bulk create bank questions error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Get a bank question (Master Admin)
+router.get('/:id', auth, authorize('master_admin'), async (req, res) => {
+  try {
+    const question = await BankQuestion.findOne({ _id: req.params.id, isActive: true })
+      .populate('createdBy', 'name email');
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    res.json(question);
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get bank question error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Create a bank question (Master Admin)
+router.post('/', auth, authorize('master_admin'), questionValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const question = new BankQuestion({
+      ...pickQuestionFields(req.body),
+      createdBy: req.user._id
+    });
+    await question.save();
+    await registerTopics(question.subject, question.topics);
+
+    res.status(201).json({
+      message: 'Question added to bank',
+      question
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Create bank question error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Update a bank question (Master Admin). Tests keep their own copy, so edits only affect future use.
+router.put('/:id', auth, authorize('master_admin'), questionValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const question = await BankQuestion.findOneAndUpdate(
+      { _id: req.params.id, isActive: true },
+      { ...pickQuestionFields(req.body), updatedBy: req.user._id },
+      { new: true, runValidators: true }
+    );
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    await registerTopics(question.subject, question.topics);
+
+    res.json({
+      message: 'Question updated successfully',
+      question
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Update bank question error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Delete a bank question (Master Admin) - soft delete, tests that used it are unaffected
+router.delete('/:id', auth, authorize('master_admin'), async (req, res) => {
+  try {
+    const question = await BankQuestion.findByIdAndUpdate(
+      req.params.id,
+      { isActive: false, updatedBy: req.user._id },
+      { new: true }
+    );
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    res.json({ message: 'Question deleted successfully' });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Delete bank question error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -5,6 +5,8 @@ const TestAssignment = require('../models/TestAssignment');
 const User = require('../models/User');
 const College = require('../models/College');
 const { auth, authorize } = require('../middleware/auth');
+const QuestionPool = require('../utils/questionPool');
+const QuestionTypes = require('../utils/questionTypes');
 const logger = require('../middleware/logger');
 
 const router = express.Router();
@@ -13,7 +15,7 @@ const router = express.Router();
 router.get('/master/overview', auth, authorize('master_admin'), async (req, res) => {
   try {
     const totalTests = await Test.countDocuments({ isActive: true });
-    const totalAttempts = await TestAttempt.countDocuments({ isActive: true });
+    const totalAttempts = await TestAttempt.countDocuments({ isActive: true, status: { $ne: 'in_progress' } });
     const totalAssignments = await TestAssignment.countDocuments({ isActive: true });
     
     // Subject-wise statistics
@@ -78,7 +80,7 @@ router.get('/master/overview', auth, authorize('master_admin'), async (req, res)
     ]);
 
     // Recent test attempts
-    const recentAttempts = await TestAttempt.find({ isActive: true })
+    const recentAttempts = await TestAttempt.find({ isActive: true, status: { $ne: 'in_progress' } })
       .populate('testId', 'testName subject')
       .populate('studentId', 'name email')
       .populate('collegeId', 'name')
@@ -113,7 +115,7 @@ router.get('/master/test/:testId', auth, authorize('master_admin'), async (req,
       return res.status(404).json({ error: 'Test not found' });
     }
 
-    const attempts = await TestAttempt.find({ testId, isActive: true })
+    const attempts = await TestAttempt.find({ testId, isActive: true, status: { $ne: 'in_progress' } })
       .populate('studentId', 'name email branch batch section')
       .populate('collegeId', 'name')
       .sort({ percentage: -1 });
@@ -124,8 +126,10 @@ router.get('/master/test/:testId', auth, authorize('master_admin'), async (req,
     const highestScore = attempts.length > 0 ? attempts[0].percentage : 0;
     const lowestScore = attempts.length > 0 ? attempts[attempts.length - 1].percentage : 0;
 
-    // Question-wise analysis
-    const questionAnalysis = test.questions.map(question => {
+    // Question-wise analysis. Pool sections serve different questions per student,
+    // so every question is measured only against the attempts that received it.
+    const questionAnalysis = QuestionPool.collectQuestions(test, attempts).map(question => {
+      const servedCount = attempts.filter(attempt => QuestionPool.wasServed(test, attempt, question._id)).length;
       const questionAttempts = attempts.map(attempt => 
         attempt.answers.find(answer => answer.questionId.toString() === question._id.toString())
       ).filter(Boolean);
@@ -134,21 +138,28 @@ router.get('/master/test/:testId', auth, authorize('master_admin'), async (req,
       const totalCount = questionAttempts.length;
       const accuracy = totalCount > 0 ? (correctCount / totalCount) * 100 : 0;
 
-      // Option distribution
-      const optionDistribution = { A: 0, B: 0, C: 0, D: 0 };
-      questionAttempts.forEach(answer => {
-        if (answer.selectedAnswer) {
-          optionDistribution[answer.selectedAnswer]++;
-        }
+      // Option distribution (each label of a multiple-correct answer counts once)
+      const optionDistribution = {};
+      QuestionTypes.getOptionLabels(question).forEach(label => {
+        optionDistribution[label] = 0;
       });
+      if (QuestionTypes.isChoiceType(question)) {
+        questionAttempts.forEach(answer => {
+          QuestionTypes.splitLabels(answer.selectedAnswer).forEach(label => {
+            if (optionDistribution[label] !== undefined) optionDistribution[label]++;
+          });
+        });
+      }
 
       return {
         questionId: question._id,
         questionText: question.questionText,
-        correctAnswer: question.correctAnswer,
+        questionType: QuestionTypes.getType(question),
+        correctAnswer: QuestionTypes.describeCorrectAnswer(question),
         accuracy,
         correctCount,
         totalCount,
+        servedCount,
         optionDistribution
       };
     });
@@ -178,7 +189,8 @@ router.get('/college/overview', auth, authorize('college_admin'), async (req, re
 
     const totalAttempts = await TestAttempt.countDocuments({ 
       collegeId, 
-      isActive: true 
+      isActive: true,
+      status: { $ne: 'in_progress' }
     });
 
     const assignedTests = await TestAssignment.countDocuments({
@@ -190,7 +202,7 @@ router.get('/college/overview', auth, authorize('college_admin'), async (req, re
 
     // Subject-wise performance for college
     const subjectPerformance = await TestAttempt.aggregate([
-      { $match: { collegeId, isActive: true } },
+      { $match: { collegeId, isActive: true, status: { $ne: 'in_progress' } } },
       {
         $lookup: {
           from: 'tests',
@@ -212,7 +224,7 @@ router.get('/college/overview', auth, authorize('college_admin'), async (req, re
 
     // Branch-wise performance
     const branchPerformance = await TestAttempt.aggregate([
-      { $match: { collegeId, isActive: true } },
+      { $match: { collegeId, isActive: true, status: { $ne: 'in_progress' } } },
       {
         $lookup: {
           from: 'users',
@@ -241,7 +253,8 @@ router.get('/college/overview', auth, authorize('college_admin'), async (req, re
     // Top performers
     const topPerformers = await TestAttempt.find({ 
       collegeId, 
-      isActive: true 
+      isActive: true,
+      status: { $ne: 'in_progress' }
     })
     .populate('studentId', 'name email branch batch section')
     .populate('testId', 'testName subject')
@@ -282,12 +295,13 @@ router.get('/faculty/overview', auth, authorize('faculty'), async (req, res) =>
 
     const totalAttempts = await TestAttempt.countDocuments({
       studentId: { $in: studentIds },
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     });
 
     // Subject-wise performance for branch students
     const subjectPerformance = await TestAttempt.aggregate([
-      { $match: { studentId: { $in: studentIds }, isActive: true } },
+      { $match: { studentId: { $in: studentIds }, isActive: true, status: { $ne: 'in_progress' } } },
       {
         $lookup: {
           from: 'tests',
@@ -308,7 +322,7 @@ router.get('/faculty/overview', auth, authorize('faculty'), async (req, res) =>
 
     // Student performance in branch
     const studentPerformance = await TestAttempt.aggregate([
-      { $match: { studentId: { $in: studentIds }, isActive: true } },
+      { $match: { studentId: { $in: studentIds }, isActive: true, status: { $ne: 'in_progress' } } },
       {
         $lookup: {
           from: 'users',
@@ -355,7 +369,8 @@ router.get('/student/performance', auth, authorize('student'), async (req, res)
 
     const attempts = await TestAttempt.find({ 
       studentId, 
-      isActive: true 
+      isActive: true,
+      status: { $ne: 'in_progress' }
     })
     .populate('testId', 'testName subject totalMarks startDateTime')
     .sort({ createdAt: -1 });
@@ -452,7 +467,8 @@ router.get('/college/hierarchical', auth, authorize('college_admin'), async (req
     // Get test attempts for these students
     const attempts = await TestAttempt.find({
       studentId: { $in: studentIds },
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     })
     .populate('testId', 'testName subject testType')
     .populate('studentId', 'name email branch batch section')
@@ -544,7 +560,8 @@ router.get('/faculty/hierarchical', auth, authorize('faculty'), async (req, res)
 
     const attempts = await TestAttempt.find({
       studentId: { $in: studentIds },
-      isActive: true
+      isActive: true,
+      status: { $ne: 'in_progress' }
     })
     .populate('testId', 'testName subject testType')
     .populate('studentId', 'name email branch batch section')
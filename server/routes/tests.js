@@ -1,16 +1,30 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const multer = require('multer');
 const path = require('path');
+const fs = require('fs');
 const Test = require('../models/Test');
 const TestAssignment = require('../models/TestAssignment');
 const TestAttempt = require('../models/TestAttempt');
 const College = require('../models/College');
 const User = require('../models/User');
 const CodingQuestion = require('../models/CodingQuestion');
+const BankQuestion = require('../models/BankQuestion');
+const AuditLog = require('../models/AuditLog');
 const { auth, authorize } = require('../middleware/auth');
 const emailService = require('../utils/emailService');
 const PDFExtractor = require('../utils/pdfExtractor');
 const FileExtractor = require('../utils/fileExtractor');
+const QuestionShuffler = require('../utils/questionShuffler');
+const QuestionPool = require('../utils/questionPool');
+const QuestionTypes = require('../utils/questionTypes');
+const Proctoring = require('../utils/proctoring');
+const SectionNavigation = require('../utils/sectionNavigation');
+const Accommodations = require('../utils/accommodations');
+const AttemptPolicy = require('../utils/attemptPolicy');
+const AttemptDeadline = require('../utils/attemptDeadline');
+const AttemptGrading = require('../utils/attemptGrading');
+const AttemptSession = require('../utils/attemptSession');
 const { body, validationResult } = require('express-validator');
 const logger = require('../middleware/logger');
 
@@ -46,6 +60,32 @@ const fileUpload = multer({
   }
 });
 
+// Webcam snapshots are written to uploads/proctoring/<testId>, like notification attachments.
+// The directory comes from the attempt loaded by loadSnapshotAttempt, never from the URL.
+const snapshotUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const dir = path.join(__dirname, '..', 'uploads', 'proctoring', String(req.snapshotAttempt.testId));
+      fs.mkdirSync(dir, { recursive: true });
+      cb(null, dir);
+    },
+    filename: (req, file, cb) => {
+      const extension = file.mimetype === 'image/png' ? '.png' : '.jpg';
+      cb(null, `${req.user._id}-${Date.now()}-${Math.round(Math.random() * 1E9)}${extension}`);
+    }
+  }),
+  fileFilter: (req, file, cb) => {
+    if (['image/jpeg', 'image/png'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPEG and PNG snapshots are allowed'), false);
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 // 1MB limit
+  }
+});
+
 // Create test (Master Admin only)
 router.post('/', auth, authorize('master_admin'), [
   // Add debug logging for request body
@@ -61,6 +101,25 @@ router.post('/', auth, authorize('master_admin'), [
   body('difficulty').optional().isIn(['Easy', 'Medium', 'Hard']).withMessage('Invalid difficulty'),
   body('hasSections').optional().isBoolean().withMessage('hasSections must be a boolean'),
   body('sections').optional().isArray().withMessage('Sections must be an array'),
+  body('sectionNavigation').optional().isIn(SectionNavigation.MODES).withMessage('Invalid section navigation'),
+  body('shuffleQuestions').optional().isBoolean().withMessage('shuffleQuestions must be a boolean'),
+  body('shuffleOptions').optional().isBoolean().withMessage('shuffleOptions must be a boolean'),
+  body('scoring.negativeMarks').optional().isFloat({ min: 0, max: 10 }).withMessage('Negative marks must be between 0 and 10'),
+  body('scoring.partialCredit').optional().isBoolean().withMessage('partialCredit must be a boolean'),
+  body('sections.*.negativeMarks').optional({ nullable: true }).isFloat({ min: 0, max: 10 }).withMessage('Section negative marks must be between 0 and 10'),
+  body('sections.*.partialCredit').optional({ nullable: true }).isBoolean().withMessage('Section partialCredit must be a boolean'),
+  body('proctoring.countedEvents').optional().isArray().withMessage('Counted proctoring events must be an array'),
+  body('proctoring.countedEvents.*').isIn(Proctoring.EVENT_TYPES).withMessage('Invalid proctoring event'),
+  body('proctoring.maxViolations').optional().isInt({ min: 1, max: 20 }).withMessage('Maximum violations must be between 1 and 20'),
+  body('proctoring.onLimit').optional().isIn(Proctoring.LIMIT_ACTIONS).withMessage('Invalid violation limit action'),
+  body('proctoring.requireFullscreen').optional().isBoolean().withMessage('requireFullscreen must be a boolean'),
+  body('proctoring.blockCopyPaste').optional().isBoolean().withMessage('blockCopyPaste must be a boolean'),
+  body('proctoring.webcamSnapshots').optional().isBoolean().withMessage('webcamSnapshots must be a boolean'),
+  body('proctoring.snapshotInterval').optional().isInt({ min: 15, max: 600 }).withMessage('Snapshot interval must be between 15 and 600 seconds'),
+  body('examLayout').optional({ nullable: true }).isIn(['tcs', 'clean', 'professional']).withMessage('Invalid exam layout'),
+  body('attemptPolicy.maxAttempts').optional().isInt({ min: 1, max: AttemptPolicy.MAX_ATTEMPTS }).withMessage(`Maximum attempts must be between 1 and ${AttemptPolicy.MAX_ATTEMPTS}`),
+  body('attemptPolicy.cooldownMinutes').optional().isInt({ min: 0, max: AttemptPolicy.MAX_COOLDOWN_MINUTES }).withMessage('Invalid cooldown between attempts'),
+  body('attemptPolicy.scoringRule').optional().isIn(AttemptPolicy.SCORING_RULES).withMessage('Invalid attempt scoring rule'),
   body('numberOfQuestions').optional().custom((value, { req }) => {
     if (req.body.hasSections === true || req.body.hasSections === 'true') return true;
     if (req.body.hasCodingSection === true || req.body.hasCodingSection === 'true') {
@@ -122,6 +181,13 @@ router.post('/', auth, authorize('master_admin'), [
       difficulty = 'Medium',
       hasSections = false,
       sections = [],
+      sectionNavigation,
+      shuffleQuestions = false,
+      shuffleOptions = false,
+      scoring = {},
+      proctoring,
+      attemptPolicy,
+      examLayout,
       numberOfQuestions,
       marksPerQuestion,
       duration,
@@ -204,6 +270,16 @@ router.post('/', auth, authorize('master_admin'), [
           });
         }
 
+        // Pool sections have no fixed questions; check the bank can serve the rule instead
+        if (QuestionPool.isPoolSection(section)) {
+          const poolError = await QuestionPool.validatePool(section);
+          if (poolError) {
+            return res.status(400).json({ error: poolError });
+          }
+          section.questions = [];
+          continue;
+        }
+
         if (!section.questions || section.questions.length !== section.numberOfQuestions) {
           return res.status(400).json({
             error: `Section "${section.sectionName}" has ${section.questions?.length || 0} questions but expects ${section.numberOfQuestions}`
@@ -213,26 +289,21 @@ router.post('/', auth, authorize('master_admin'), [
         // Validate each question in the section
         for (let j = 0; j < section.questions.length; j++) {
           const question = section.questions[j];
-          if (!question.questionText || !question.options || !question.correctAnswer) {
+          if (!question.questionText) {
             return res.status(400).json({
               error: `Question ${j + 1} in section "${section.sectionName}" is incomplete`
             });
           }
 
-          if (!question.options.A || !question.options.B || !question.options.C || !question.options.D) {
-            return res.status(400).json({
-              error: `Question ${j + 1} in section "${section.sectionName}" must have all four options`
-            });
-          }
-
-          if (!['A', 'B', 'C', 'D'].includes(question.correctAnswer)) {
+          const questionError = QuestionTypes.validateQuestion(question);
+          if (questionError) {
             return res.status(400).json({
-              error: `Question ${j + 1} in section "${section.sectionName}" must have a valid correct answer`
+              error: `Question ${j + 1} in section "${section.sectionName}": ${questionError}`
             });
           }
 
           // Ensure marks are set
-          question.marks = section.marksPerQuestion;
+          section.questions[j] = { ...QuestionTypes.normalizeQuestion(question), marks: section.marksPerQuestion };
         }
       }
     } else {
@@ -253,29 +324,23 @@ router.post('/', auth, authorize('master_admin'), [
       // Validate each question
       for (let i = 0; i < questions.length; i++) {
         const question = questions[i];
-        if (!question.questionText || !question.options || !question.correctAnswer) {
+        if (!question.questionText) {
           console.log('Question validation failed at index:', i, question);
           return res.status(400).json({
             error: `Question ${i + 1} is incomplete`
           });
         }
 
-        if (!question.options.A || !question.options.B || !question.options.C || !question.options.D) {
-          console.log('Question options validation failed at index:', i, question.options);
-          return res.status(400).json({
-            error: `Question ${i + 1} must have all four options (A, B, C, D)`
-          });
-        }
-
-        if (!['A', 'B', 'C', 'D'].includes(question.correctAnswer)) {
-          console.log('Correct answer validation failed at index:', i, question.correctAnswer);
+        const questionError = QuestionTypes.validateQuestion(question);
+        if (questionError) {
+          console.log('Question validation failed at index:', i, questionError);
           return res.status(400).json({
-            error: `Question ${i + 1} must have a valid correct answer (A, B, C, or D)`
+            error: `Question ${i + 1}: ${questionError}`
           });
         }
 
         // Add marks to each question
-        question.marks = marksPerQuestion;
+        questions[i] = { ...QuestionTypes.normalizeQuestion(question), marks: marksPerQuestion };
       }
     }
 
@@ -293,6 +358,13 @@ router.post('/', auth, authorize('master_admin'), [
       difficulty,
       hasSections,
       sections: hasSections ? sections : [],
+      sectionNavigation,
+      shuffleQuestions,
+      shuffleOptions,
+      scoring,
+      proctoring,
+      attemptPolicy,
+      examLayout: examLayout || null,
       numberOfQuestions: hasSections ? 0 : numberOfQuestions,
       marksPerQuestion: hasSections ? 0 : marksPerQuestion,
       duration: hasSections ? 0 : duration,
@@ -311,6 +383,14 @@ router.post('/', auth, authorize('master_admin'), [
     await test.save();
     console.log('Test created successfully:', test._id);
 
+    // Track how often bank questions are reused
+    const bankQuestionIds = (hasSections ? sections.flatMap(section => section.questions || []) : (questions || []))
+      .map(question => question.bankQuestionId)
+      .filter(Boolean);
+    if (bankQuestionIds.length > 0) {
+      await BankQuestion.updateMany({ _id: { $in: bankQuestionIds } }, { $inc: { usageCount: 1 } });
+    }
+
     res.status(201).json({
       message: 'Test created successfully',
       test: {
@@ -453,7 +533,8 @@ router.get('/', auth, authorize('master_admin'), async (req, res) => {
     const attemptCounts = await TestAttempt.aggregate([
       {
         $match: {
-          isActive: true
+          isActive: true,
+          status: { $ne: 'in_progress' }
         }
       },
       {
@@ -625,6 +706,7 @@ router.get('/college/all-tests', auth, authorize('college_admin', 'faculty'), as
         $match: {
           collegeId: req.user.collegeId,
           isActive: true,
+          status: { $ne: 'in_progress' },
           testId: { $in: Array.from(activeTestIds) }  // Only count attempts for active tests
         }
       },
@@ -878,6 +960,132 @@ router.post('/assignment/:id/assign-students', auth, authorize('college_admin'),
   }
 });
 
+// Students assigned a test in this college, with any time accommodation (College Admin and Faculty)
+router.get('/:id/accommodations', auth, authorize('college_admin', 'faculty'), async (req, res) => {
+  try {
+    const test = await Test.findById(req.params.id).select('testName duration endDateTime');
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    const [assignments, attempts] = await Promise.all([
+      TestAssignment.find({
+        testId: test._id,
+        collegeId: req.user.collegeId,
+        assignedTo: 'students',
+        isActive: true
+      })
+      .populate('studentFilters.specificStudents', 'name email idNumber branch batch section')
+      .populate('accommodation.grantedBy', 'name')
+      .lean(),
+      TestAttempt.find({ testId: test._id, collegeId: req.user.collegeId }).select('studentId status').sort({ startTime: 1 }).lean()
+    ]);
+
+    // The status of each student's latest attempt
+    const attemptStatus = new Map(attempts.map(a => [a.studentId.toString(), a.status]));
+
+    res.json({
+      test: { _id: test._id, testName: test.testName, duration: test.duration, endDateTime: test.endDateTime },
+      maxExtraMinutes: Accommodations.MAX_EXTRA_MINUTES,
+      students: assignments
+        .filter(assignment => assignment.studentFilters?.specificStudents?.[0])
+        .map(assignment => {
+          const student = assignment.studentFilters.specificStudents[0];
+          return {
+            student,
+            accommodation: assignment.accommodation || { extraMinutes: 0, extendedEndDateTime: null },
+            attemptStatus: attemptStatus.get(student._id.toString()) || null
+          };
+        })
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get test accommodations error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Grant or change a student's extra time and extended window (College Admin and Faculty).
+// An attempt already under way picks up the change straight away.
+router.put('/:id/accommodations/:studentId', auth, authorize('college_admin', 'faculty'), [
+  body('extraMinutes').isInt({ min: 0, max: Accommodations.MAX_EXTRA_MINUTES }),
+  body('extendedEndDateTime').optional({ values: 'null' }).isISO8601(),
+  body('reason').optional().isString().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id: testId, studentId } = req.params;
+    const { extraMinutes, extendedEndDateTime, reason } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      return res.status(404).json({ error: 'Test is not assigned to this student' });
+    }
+
+    const test = await Test.findById(testId);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    if (extendedEndDateTime && new Date(extendedEndDateTime) <= test.endDateTime) {
+      return res.status(400).json({ error: 'The extended window must end after the test closes' });
+    }
+
+    const assignment = await TestAssignment.findOne({
+      testId,
+      collegeId: req.user.collegeId,
+      assignedTo: 'students',
+      'studentFilters.specificStudents': studentId,
+      isActive: true
+    });
+    if (!assignment) {
+      return res.status(404).json({ error: 'Test is not assigned to this student' });
+    }
+
+    const previous = Accommodations.getGrant(assignment);
+    assignment.accommodation = {
+      extraMinutes,
+      extendedEndDateTime: extendedEndDateTime ? new Date(extendedEndDateTime) : null,
+      reason: typeof reason === 'string' ? reason.trim() : '',
+      grantedBy: req.user._id,
+      grantedAt: new Date()
+    };
+    await assignment.save();
+
+    const attempt = await TestAttempt.findOne({ testId, studentId, status: 'in_progress' });
+    if (attempt && Accommodations.applyToAttempt(test, attempt, assignment, SectionNavigation.getMode(test))) {
+      await attempt.save();
+    }
+
+    await AuditLog.create({
+      userId: studentId,
+      actorId: req.user._id,
+      action: 'test_accommodation',
+      details: {
+        testId,
+        previous,
+        extraMinutes,
+        extendedEndDateTime: assignment.accommodation.extendedEndDateTime,
+        reason: assignment.accommodation.reason,
+        appliedToAttempt: !!attempt
+      },
+      ip: req.ip
+    });
+
+    logger.info('Test accommodation granted', {
+      testId,
+      studentId,
+      extraMinutes,
+      grantedBy: String(req.user._id)
+    });
+
+    res.json({ message: 'Accommodation saved', accommodation: assignment.accommodation });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Grant test accommodation error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // Get assigned tests for student
 router.get('/student/assigned', auth, authorize('student'), async (req, res) => {
   try {
@@ -909,18 +1117,30 @@ router.get('/student/assigned', auth, authorize('student'), async (req, res) =>
       assignment.testId && validTestIds.has(assignment.testId._id.toString())
     );
 
-    // Check if student has already attempted each test
+    // Attempt history, the counted result and whether another attempt can be started
     const testsWithAttempts = await Promise.all(
       validAssignments.map(async (assignment) => {
-        const attempt = await TestAttempt.findOne({
+        const attempts = AttemptPolicy.sortAttempts(await TestAttempt.find({
           testId: assignment.testId._id,
           studentId: req.user._id
-        });
+        }).select('-answers -responses -poolQuestions -proctoringEvents -proctoringSnapshots'));
+        const policy = AttemptPolicy.getPolicy(assignment.testId);
+        const inProgress = attempts.some(attempt => attempt.status === 'in_progress');
+        const counted = AttemptPolicy.getCountedResult(policy, attempts);
+        const next = AttemptPolicy.checkNewAttempt(policy, attempts);
 
         return {
           ...assignment.toObject(),
-          hasAttempted: !!attempt,
-          attempt: attempt
+          hasAttempted: !!counted,
+          inProgress,
+          attempt: counted
+            ? { ...counted.attempt.toObject(), marksObtained: counted.marksObtained, percentage: counted.percentage }
+            : null,
+          attempts: attempts.filter(AttemptPolicy.isFinished).map(AttemptPolicy.summarize),
+          attemptPolicy: policy,
+          canRetake: !!counted && !inProgress && next.allowed,
+          attemptsLeft: next.attemptsLeft,
+          nextAttemptAt: next.nextAttemptAt
         };
       })
     );
@@ -945,7 +1165,168 @@ router.get('/student/assigned', auth, authorize('student'), async (req, res) =>
   }
 });
 
-// Start test (Student)
+// Options and answer labels of a question as one student sees them. Stored answers
+// always use canonical labels; only what is sent back to the student is relabelled.
+// Numeric and fill-in-the-blank questions have no options and a readable correct answer.
+const toStudentOptions = (question, optionOrder, studentAnswer) => {
+  if (!QuestionTypes.isChoiceType(question)) {
+    return {
+      options: {},
+      optionImages: undefined,
+      correctAnswer: QuestionTypes.describeCorrectAnswer(question),
+      studentAnswer
+    };
+  }
+
+  if (!optionOrder) {
+    return {
+      options: QuestionTypes.getOptions(question),
+      optionImages: question.optionImages,
+      correctAnswer: question.correctAnswer,
+      studentAnswer
+    };
+  }
+
+  const optionImages = question.optionImages && typeof question.optionImages.toObject === 'function'
+    ? question.optionImages.toObject()
+    : question.optionImages;
+
+  return {
+    options: QuestionShuffler.reorderOptions(question.options, optionOrder),
+    optionImages: QuestionShuffler.reorderOptions(optionImages, optionOrder),
+    correctAnswer: QuestionShuffler.toDisplayedAnswer(question.correctAnswer, optionOrder),
+    studentAnswer: studentAnswer && QuestionShuffler.toDisplayedAnswer(studentAnswer, optionOrder)
+  };
+};
+
+// Shape a test for the student exam interface (correct answers only for Practice tests).
+// Question and option order follow the attempt's shuffle seed when the test is randomized.
+const buildStudentTest = (test, attempt) => {
+  const mapQuestion = (q) => {
+    const { options, optionImages, correctAnswer } = toStudentOptions(
+      q,
+      QuestionShuffler.getAttemptOptionOrder(attempt, q)
+    );
+
+    const questionData = {
+      _id: q._id,
+      questionText: q.questionText,
+      questionType: QuestionTypes.getType(q),
+      options,
+      marks: q.marks,
+      // include optional image fields so students can see images
+      questionImageUrl: q.questionImageUrl || undefined,
+      optionImages: optionImages || undefined
+    };
+
+    // Include correct answer for Practice tests
+    if (test.testType === 'Practice') {
+      questionData.correctAnswer = correctAnswer;
+    }
+
+    return questionData;
+  };
+
+  const testForStudent = {
+    _id: test._id,
+    testName: test.testName,
+    testDescription: test.testDescription,
+    subject: test.subject,
+    testType: test.testType,
+    hasSections: test.hasSections,
+    numberOfQuestions: test.numberOfQuestions,
+    marksPerQuestion: test.marksPerQuestion,
+    totalMarks: test.totalMarks,
+    duration: test.duration,
+    startDateTime: test.startDateTime,
+    endDateTime: Accommodations.getEndDateTime(test, attempt),
+    hasCodingSection: test.hasCodingSection,
+    proctoring: Proctoring.getPolicy(test),
+    sectionNavigation: SectionNavigation.getMode(test),
+    examLayout: test.examLayout || null,
+    accommodation: Accommodations.getGrant(attempt)
+  };
+
+  // Handle sectioned tests
+  if (test.hasSections && test.sections && test.sections.length > 0) {
+    testForStudent.sections = test.sections.map(section => ({
+      _id: section._id,
+      sectionName: section.sectionName,
+      sectionDuration: section.sectionDuration,
+      numberOfQuestions: section.numberOfQuestions,
+      marksPerQuestion: section.marksPerQuestion,
+      questions: QuestionShuffler.orderForAttempt(
+        attempt,
+        QuestionPool.getSectionQuestions(section, attempt),
+        section._id.toString()
+      ).map(mapQuestion)
+    }));
+  } else {
+    // Handle non-sectioned tests
+    testForStudent.questions = QuestionShuffler.orderForAttempt(attempt, test.questions, 'test').map(mapQuestion);
+  }
+
+  // Add coding questions if enabled
+  if (test.hasCodingSection && test.codingQuestions && test.codingQuestions.length > 0) {
+    testForStudent.codingQuestions = test.codingQuestions.map(cq => ({
+      _id: cq.questionId._id,
+      title: cq.questionId.title,
+      description: cq.questionId.description,
+      difficulty: cq.questionId.difficulty,
+      constraints: cq.questionId.constraints,
+      input_format: cq.questionId.input_format,
+      output_format: cq.questionId.output_format,
+      time_limit: cq.questionId.time_limit,
+      memory_limit: cq.questionId.memory_limit,
+      supported_languages: cq.questionId.supported_languages,
+      sample_input: cq.questionId.sample_input,
+      sample_output: cq.questionId.sample_output,
+      explanation: cq.questionId.explanation,
+      tags: cq.questionId.tags,
+      points: cq.points,
+      timeLimit: cq.timeLimit
+    }));
+  }
+
+  return testForStudent;
+};
+
+// Closes an attempt that ran past its deadline with the answers saved in time.
+// Returns whether it had expired.
+const closeIfExpired = async (test, attempt) => {
+  if (!AttemptDeadline.isExpired(test, attempt)) return false;
+
+  AttemptGrading.close(test, attempt, 'timeout');
+  await attempt.save();
+  logger.info('Expired test attempt timed out', {
+    testId: String(test._id),
+    attemptId: String(attempt._id)
+  });
+  return true;
+};
+
+// Question-by-question review of a finished attempt, in the order and labelling the student saw
+const buildQuestionAnalysis = (attempt, test) =>
+  QuestionShuffler.getAttemptQuestions(attempt, test).map(({ question, optionOrder }) => {
+    const studentAnswer = attempt.answers.find(a =>
+      a.questionId.toString() === question._id.toString()
+    );
+    const view = toStudentOptions(question, optionOrder, studentAnswer?.selectedAnswer);
+
+    return {
+      questionText: question.questionText,
+      questionType: QuestionTypes.getType(question),
+      options: view.options,
+      correctAnswer: view.correctAnswer,
+      studentAnswer: view.studentAnswer,
+      isCorrect: studentAnswer?.isCorrect,
+      isPartial: studentAnswer?.isPartial || false,
+      marksObtained: studentAnswer?.marksObtained,
+      marks: question.marks
+    };
+  });
+
+// Start test (Student) - creates an in_progress attempt, or resumes the existing one
 router.post('/:id/start', auth, authorize('student'), async (req, res) => {
   try {
     const testId = req.params.id;
@@ -962,139 +1343,362 @@ router.post('/:id/start', auth, authorize('student'), async (req, res) => {
       return res.status(403).json({ error: 'Test not assigned to you' });
     }
 
-    // Check if already attempted
-    const existingAttempt = await TestAttempt.findOne({
+    const test = await Test.findById(testId).populate('codingQuestions.questionId');
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    // An attempt in progress is resumed; otherwise the attempt policy decides on a new one
+    const attempts = await TestAttempt.find({
       testId,
       studentId: req.user._id
     });
+    const existingAttempt = attempts.find(attempt => attempt.status === 'in_progress') || null;
 
-    if (existingAttempt) {
-      return res.status(400).json({ error: 'Test already attempted' });
+    if (existingAttempt && await closeIfExpired(test, existingAttempt)) {
+      return res.status(400).json({ error: 'Time ran out on your attempt, so it was submitted with your saved answers' });
     }
 
-    const test = await Test.findById(testId).populate('codingQuestions.questionId');
-    if (!test) {
-      return res.status(404).json({ error: 'Test not found' });
+    if (!existingAttempt) {
+      const next = AttemptPolicy.checkNewAttempt(AttemptPolicy.getPolicy(test), attempts);
+      if (!next.allowed) {
+        return res.status(400).json({ error: next.error, nextAttemptAt: next.nextAttemptAt });
+      }
     }
 
-    // Check if test is currently active
+    // Check if test is currently active; an extended window keeps it open for this student
     const now = new Date();
     if (now < test.startDateTime) {
       return res.status(400).json({ error: 'Test has not started yet' });
     }
-    if (now > test.endDateTime) {
+    if (now > Accommodations.getEndDateTime(test, assignment)) {
       return res.status(400).json({ error: 'Test has ended' });
     }
 
-    // Return test questions (include correctAnswer for Practice tests only)
-    const testForStudent = {
-      _id: test._id,
-      testName: test.testName,
-      testDescription: test.testDescription,
-      subject: test.subject,
-      testType: test.testType,
-      hasSections: test.hasSections,
-      numberOfQuestions: test.numberOfQuestions,
-      marksPerQuestion: test.marksPerQuestion,
-      totalMarks: test.totalMarks,
-      duration: test.duration,
-      startDateTime: test.startDateTime,
-      endDateTime: test.endDateTime,
-      hasCodingSection: test.hasCodingSection
-    };
+    let attempt = existingAttempt;
+    let resumed = !!existingAttempt;
+    if (!attempt) {
+      // Draw this student's own questions for pool sections
+      let poolQuestions = [];
+      if (QuestionPool.hasPoolSections(test)) {
+        const draw = await QuestionPool.drawForTest(test);
+        if (draw.shortfall.length > 0) {
+          logger.warn('Question pool exhausted at test start', { testId, shortfall: draw.shortfall });
+          return res.status(409).json({ error: 'Not enough questions in the question bank to generate this test. Please contact your administrator.' });
+        }
+        poolQuestions = draw.poolQuestions;
+      }
 
-    // Handle sectioned tests
-    if (test.hasSections && test.sections && test.sections.length > 0) {
-      testForStudent.sections = test.sections.map(section => ({
-        _id: section._id,
-        sectionName: section.sectionName,
-        sectionDuration: section.sectionDuration,
-        numberOfQuestions: section.numberOfQuestions,
-        marksPerQuestion: section.marksPerQuestion,
-        questions: section.questions.map(q => {
-          const questionData = {
-            _id: q._id,
-            questionText: q.questionText,
-            options: q.options,
-            marks: q.marks,
-            // include optional image fields so students can see images
-            questionImageUrl: q.questionImageUrl || undefined,
-            optionImages: q.optionImages || undefined
-          };
+      attempt = new TestAttempt({
+        testId,
+        studentId: req.user._id,
+        collegeId: req.user.collegeId,
+        attemptNumber: attempts.length + 1,
+        startTime: now,
+        totalMarks: test.totalMarks,
+        status: 'in_progress',
+        poolQuestions,
+        shuffle: {
+          seed: QuestionShuffler.generateSeed(),
+          questions: !!test.shuffleQuestions,
+          options: !!test.shuffleOptions
+        }
+      });
+      Accommodations.applyToAttempt(test, attempt, assignment, SectionNavigation.getMode(test));
+      try {
+        await attempt.save();
+      } catch (error) {
+        // A concurrent start (double click, second tab) created the attempt first;
+        // the unique in-progress index refuses this one, so the student resumes that one
+        if (error.code !== 11000) throw error;
+        attempt = await TestAttempt.findOne({ testId, studentId: req.user._id, status: 'in_progress' });
+        if (!attempt) throw error;
+        resumed = true;
+      }
+    } else if (Accommodations.applyToAttempt(test, attempt, assignment, SectionNavigation.getMode(test))) {
+      await attempt.save();
+    }
 
-          // Include correct answer for Practice tests
-          if (test.testType === 'Practice') {
-            questionData.correctAnswer = q.correctAnswer;
-          }
+    res.json({
+      message: resumed ? 'Test resumed successfully' : 'Test started successfully',
+      test: buildStudentTest(test, attempt),
+      startTime: attempt.startTime,
+      resumed,
+      session: AttemptSession.build(test, attempt)
+    });
 
-          return questionData;
-        })
-      }));
-    } else {
-      // Handle non-sectioned tests
-      testForStudent.questions = test.questions.map(q => {
-        const questionData = {
-          _id: q._id,
-          questionText: q.questionText,
-          options: q.options,
-          marks: q.marks,
-          // expose optional image fields for student UI
-          questionImageUrl: q.questionImageUrl || undefined,
-          optionImages: q.optionImages || undefined
-        };
+  } catch (error) {
+    logger.errorLog(error, { context: 'Start test error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-        // Include correct answer for Practice tests
-        if (test.testType === 'Practice') {
-          questionData.correctAnswer = q.correctAnswer;
-        }
+// Resume an in-progress test (Student)
+router.get('/:id/resume', auth, authorize('student'), async (req, res) => {
+  try {
+    const attempt = await TestAttempt.findOne({
+      testId: req.params.id,
+      studentId: req.user._id,
+      status: 'in_progress'
+    });
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'No test in progress' });
+    }
+
+    const test = await Test.findById(req.params.id).populate('codingQuestions.questionId');
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    if (await closeIfExpired(test, attempt)) {
+      return res.status(400).json({ error: 'Time ran out on your attempt, so it was submitted with your saved answers' });
+    }
+
+    res.json({
+      message: 'Test resumed successfully',
+      test: buildStudentTest(test, attempt),
+      startTime: attempt.startTime,
+      resumed: true,
+      session: AttemptSession.build(test, attempt)
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Resume test error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-        return questionData;
+// Save in-progress answers, review flags and timer state (Student)
+router.put('/:id/progress', auth, authorize('student'), [
+  body('responses').optional().isArray(),
+  body('responses.*.questionId').optional().isMongoId(),
+  body('responses.*.selectedAnswer').optional({ values: 'null' }).isString().isLength({ max: 200 }),
+  body('responses.*.markedForReview').optional().isBoolean(),
+  body('responses.*.timeSpent').optional().isInt({ min: 0 }),
+  body('currentSectionIndex').optional().isInt({ min: 0 }),
+  body('currentQuestionIndex').optional().isInt({ min: 0 }),
+  body('remainingTime').optional({ values: 'null' }).isInt({ min: 0 }),
+  body('extraMinutes').optional().isInt({ min: 0 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    // The student's latest attempt, so a player still open learns that it was closed meanwhile
+    const attempt = await TestAttempt.findOne({
+      testId: req.params.id,
+      studentId: req.user._id
+    }).sort({ startTime: -1 });
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'No test in progress' });
+    }
+
+    const { responses = [], currentSectionIndex } = req.body;
+
+    const test = await Test.findById(req.params.id);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    // Late saves are not recorded; the attempt is closed with what was saved in time
+    if (attempt.status !== 'in_progress' || await closeIfExpired(test, attempt)) {
+      return res.json({
+        message: attempt.status === 'timeout' ? 'Time is up' : 'Test already submitted',
+        status: attempt.status,
+        rejectedResponses: responses.length
       });
     }
 
-    // Add coding questions if enabled
-    if (test.hasCodingSection && test.codingQuestions && test.codingQuestions.length > 0) {
-      testForStudent.codingQuestions = test.codingQuestions.map(cq => ({
-        _id: cq.questionId._id,
-        title: cq.questionId.title,
-        description: cq.questionId.description,
-        difficulty: cq.questionId.difficulty,
-        constraints: cq.questionId.constraints,
-        input_format: cq.questionId.input_format,
-        output_format: cq.questionId.output_format,
-        time_limit: cq.questionId.time_limit,
-        memory_limit: cq.questionId.memory_limit,
-        supported_languages: cq.questionId.supported_languages,
-        sample_input: cq.questionId.sample_input,
-        sample_output: cq.questionId.sample_output,
-        explanation: cq.questionId.explanation,
-        tags: cq.questionId.tags,
-        points: cq.points,
-        timeLimit: cq.timeLimit
-      }));
+    const { navigation, rejected, sectionRefused } = AttemptSession.applyProgress(test, attempt, req.body);
+
+    if (sectionRefused || rejected.length > 0) {
+      logger.warn('Closed section change refused', {
+        attemptId: attempt._id.toString(),
+        navigation,
+        openSection: attempt.session.currentSectionIndex,
+        requestedSection: currentSectionIndex,
+        rejectedResponses: rejected.length
+      });
     }
 
+    await attempt.save();
+
     res.json({
-      message: 'Test started successfully',
-      test: testForStudent,
-      startTime: now
+      message: 'Progress saved',
+      lastSavedAt: attempt.session.lastSavedAt,
+      currentSectionIndex: attempt.session.currentSectionIndex,
+      rejectedResponses: rejected.length,
+      extraMinutes: Accommodations.getGrant(attempt).extraMinutes,
+      status: attempt.status,
+      deadline: AttemptDeadline.getDeadline(test, attempt)
     });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Save test progress error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Record proctoring events as they happen (Student). Which events count and what
+// happens at the limit come from the test's proctoring policy; with onLimit 'submit'
+// the attempt is submitted on the server with the answers saved so far.
+router.post('/:id/proctoring-events', auth, authorize('student'), [
+  body('events').isArray({ min: 1, max: 50 }),
+  body('events.*.type').isIn(Proctoring.EVENT_TYPES),
+  body('events.*.occurredAt').optional().isISO8601(),
+  body('events.*.questionId').optional({ values: 'null' }).isMongoId(),
+  body('events.*.sectionIndex').optional({ values: 'null' }).isInt({ min: 0 }),
+  body('events.*.questionIndex').optional({ values: 'null' }).isInt({ min: 0 }),
+  body('events.*.details').optional({ values: 'null' }).isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    // The student's latest attempt; events for one already closed are not recorded
+    const attempt = await TestAttempt.findOne({
+      testId: req.params.id,
+      studentId: req.user._id
+    }).sort({ startTime: -1 });
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'No test in progress' });
+    }
+
+    const test = await Test.findById(req.params.id);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    const policy = Proctoring.getPolicy(test);
 
+    // Events that arrive after the attempt was closed or ran out of time are not recorded
+    if (attempt.status !== 'in_progress' || await closeIfExpired(test, attempt)) {
+      return res.json({
+        violations: attempt.violations,
+        maxViolations: policy.maxViolations,
+        status: attempt.status
+      });
+    }
+
+    const { recorded } = Proctoring.recordEvents(attempt, req.body.events, new Date(), policy);
+
+    if (Proctoring.shouldAutoSubmit(attempt, policy)) {
+      AttemptGrading.close(test, attempt, 'auto-submitted-violations');
+
+      logger.warn('Test auto-submitted for proctoring violations', {
+        testId: req.params.id,
+        attemptId: String(attempt._id),
+        violations: attempt.violations
+      });
+    }
+
+    await attempt.save();
+
+    res.json({
+      recorded,
+      violations: attempt.violations,
+      maxViolations: policy.maxViolations,
+      status: attempt.status
+    });
   } catch (error) {
-    logger.errorLog(error, { context: 'Start test error' });
+    logger.errorLog(error, { context: 'Record proctoring events error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Finds the student's attempt in progress before anything is written to disk, and
+// refuses the upload when the test does not accept snapshots
+const loadSnapshotAttempt = async (req, res, next) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'No test in progress' });
+    }
+
+    const attempt = await TestAttempt.findOne({
+      testId: req.params.id,
+      studentId: req.user._id,
+      status: 'in_progress'
+    }).select('testId startTime proctoringSnapshots');
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'No test in progress' });
+    }
+
+    const test = await Test.findById(attempt.testId).select('proctoring');
+    if (!test || !Proctoring.canStoreSnapshot(attempt, Proctoring.getPolicy(test))) {
+      return res.status(400).json({ error: 'Snapshots are not accepted for this attempt' });
+    }
+
+    req.snapshotAttempt = attempt;
+    next();
+  } catch (error) {
+    logger.errorLog(error, { context: 'Load proctoring snapshot attempt error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+};
+
+// Store a webcam snapshot for the attempt in progress (Student). Only accepted when
+// the test's proctoring policy turns snapshots on.
+router.post('/:id/proctoring-snapshots', auth, authorize('student'), loadSnapshotAttempt, snapshotUpload.single('snapshot'), [
+  body('takenAt').optional().isISO8601(),
+  body('reason').optional().isIn(['interval', 'violation'])
+], async (req, res) => {
+  // The file is already on disk, so remove it whenever the snapshot is rejected
+  const discardFile = () => {
+    if (req.file) fs.unlink(req.file.path, () => {});
+  };
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      discardFile();
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No snapshot provided' });
+    }
+
+    const attempt = req.snapshotAttempt;
+
+    // Pushed atomically so it cannot clash with progress saves on the same attempt
+    const snapshot = {
+      _id: new mongoose.Types.ObjectId(),
+      path: path.relative(path.join(__dirname, '..'), req.file.path).replace(/\\/g, '/'),
+      takenAt: Proctoring.clampTime(attempt, req.body.takenAt),
+      reason: req.body.reason || 'interval',
+      size: req.file.size
+    };
+    await TestAttempt.updateOne({ _id: attempt._id }, { $push: { proctoringSnapshots: snapshot } });
+
+    res.status(201).json({ message: 'Snapshot stored', snapshotId: snapshot._id });
+  } catch (error) {
+    discardFile();
+    logger.errorLog(error, { context: 'Store proctoring snapshot error' });
     res.status(500).json({ error: 'Server error' });
   }
 });
 
 // Submit test (Student)
 router.post('/:id/submit', auth, authorize('student'), [
-  body('answers').isArray({ min: 1 }),
-  body('startTime').isISO8601(),
-  body('timeSpent').isInt({ min: 0 }),
-  body('violations').optional().isInt({ min: 0 })
+  body('answers').isArray(),
+  body('answers.*.questionId').isMongoId(),
+  body('answers.*.selectedAnswer').optional({ values: 'null' }).isString().isLength({ max: 200 }),
+  body('answers.*.timeSpent').optional().isInt({ min: 0 }),
+  body('startTime').optional().isISO8601(),
+  body('timeSpent').optional().isInt({ min: 0 })
 ], async (req, res) => {
   try {
-    const { answers, startTime, timeSpent, violations = 0 } = req.body;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { answers, startTime } = req.body;
     const testId = req.params.id;
 
     // Verify test assignment
@@ -1109,85 +1713,97 @@ router.post('/:id/submit', auth, authorize('student'), [
       return res.status(403).json({ error: 'Test not assigned to you' });
     }
 
-    // Check if already attempted
-    const existingAttempt = await TestAttempt.findOne({
+    const test = await Test.findById(testId);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+
+    // Only an attempt started through /start can be submitted: its session carries the
+    // deadline, section rules and proctoring record the submission is checked against
+    const attempts = await TestAttempt.find({
       testId,
       studentId: req.user._id
     });
+    const existingAttempt = attempts.find(attempt => attempt.status === 'in_progress') || null;
+    const now = new Date();
 
-    if (existingAttempt) {
-      return res.status(400).json({ error: 'Test already submitted' });
+    if (!existingAttempt) {
+      // The sweeper may already have closed this attempt at its deadline
+      const timedOut = startTime && attempts.find(attempt => attempt.status === 'timeout'
+        && new Date(attempt.startTime).getTime() === new Date(startTime).getTime());
+      if (timedOut) {
+        return res.status(400).json({ error: 'Time ran out on your attempt, so it was submitted with your saved answers' });
+      }
+      return res.status(400).json({ error: 'No test in progress. Start the test before submitting.' });
     }
 
-    const test = await Test.findById(testId);
-    if (!test) {
-      return res.status(404).json({ error: 'Test not found' });
+    // Answers that arrive after the deadline are ignored; the attempt is graded on what was saved in time
+    const expired = AttemptDeadline.isExpired(test, existingAttempt, now);
+    if (expired) {
+      logger.warn('Late answers ignored at submit', {
+        attemptId: existingAttempt._id.toString(),
+        lateAnswers: answers.length
+      });
     }
 
-    // Get all questions from test (handle both sectioned and non-sectioned)
-    let allQuestions = [];
-    if (test.hasSections && test.sections && test.sections.length > 0) {
-      test.sections.forEach(section => {
-        allQuestions = allQuestions.concat(section.questions);
+    // Answers to closed sections keep the value saved while the section was open
+    const { accepted: openAnswers, rejected } = expired
+      ? { accepted: [], rejected: [] }
+      : SectionNavigation.filterOpenAnswers(test, existingAttempt, answers);
+    if (rejected.length > 0) {
+      logger.warn('Closed section answers ignored at submit', {
+        attemptId: existingAttempt._id.toString(),
+        rejectedAnswers: rejected.length
       });
-    } else {
-      allQuestions = test.questions;
     }
 
-    // Calculate results
-    const processedAnswers = [];
-    for (let i = 0; i < answers.length; i++) {
-      const answer = answers[i];
-      const question = allQuestions.find(q => q._id.toString() === answer.questionId);
-
-      if (!question) {
-        return res.status(400).json({ error: `Invalid question ID: ${answer.questionId}` });
-      }
-
-      const isCorrect = question.correctAnswer === answer.selectedAnswer;
-      const marksObtained = isCorrect ? question.marks : 0;
-
-      processedAnswers.push({
-        questionId: question._id,
-        selectedAnswer: answer.selectedAnswer,
-        isCorrect,
-        marksObtained,
-        timeSpent: answer.timeSpent || 0
+    const { allQuestions, processedAnswers, skipped } = AttemptGrading.gradeAnswers(test, existingAttempt, openAnswers);
+    if (skipped.length > 0) {
+      logger.warn('Answers to questions not in the attempt ignored at submit', {
+        attemptId: existingAttempt._id.toString(),
+        questionIds: skipped
       });
     }
 
-    // Determine status based on violations
+    if (processedAnswers.length === 0 && !test.hasCodingSection && !expired) {
+      return res.status(400).json({ error: 'At least one answer is required' });
+    }
+
+    // Violations come from the proctoring events the server recorded, not from the client
     let status = 'completed';
-    if (violations >= 3) {
+    if (expired) {
+      status = 'timeout';
+    } else if (Proctoring.shouldAutoSubmit(existingAttempt, Proctoring.getPolicy(test))) {
       status = 'auto-submitted-violations';
     }
 
-    // Create test attempt
-    const testAttempt = new TestAttempt({
-      testId,
-      studentId: req.user._id,
-      collegeId: req.user.collegeId,
-      startTime: new Date(startTime),
-      endTime: new Date(),
-      timeSpent,
-      answers: processedAnswers,
-      totalMarks: test.totalMarks,
-      violations,
-      status
-    });
+    // Time spent is measured by the server and stops at the deadline
+    const testAttempt = existingAttempt;
+    testAttempt.endTime = new Date(Math.min(now, AttemptDeadline.getDeadline(test, testAttempt)));
+    testAttempt.timeSpent = AttemptDeadline.getTimeSpent(test, testAttempt, now);
+    testAttempt.answers = processedAnswers;
+    testAttempt.totalMarks = test.totalMarks;
+    testAttempt.totalQuestions = allQuestions.length;
+    testAttempt.status = status;
 
     await testAttempt.save();
 
     // Return results based on test type
     const responseData = {
-      message: 'Test submitted successfully',
+      message: expired
+        ? 'Time ran out, so your answers saved before the deadline were submitted'
+        : 'Test submitted successfully',
       testType: test.testType,
+      status: testAttempt.status,
       results: {
         totalMarks: testAttempt.totalMarks,
         marksObtained: testAttempt.marksObtained,
         percentage: testAttempt.percentage,
         correctAnswers: testAttempt.correctAnswers,
         incorrectAnswers: testAttempt.incorrectAnswers,
+        partialAnswers: testAttempt.partialAnswers,
+        unanswered: testAttempt.unanswered,
+        negativeMarks: testAttempt.negativeMarks,
         timeSpent: testAttempt.timeSpent,
         submittedAt: testAttempt.createdAt
       }
@@ -1195,14 +1811,24 @@ router.post('/:id/submit', auth, authorize('student'), [
 
     // For Practice tests, include immediate feedback
     if (test.testType === 'Practice') {
-      responseData.instantFeedback = processedAnswers.map((answer, index) => ({
-        questionId: answer.questionId,
-        question: test.questions[index],
-        selectedAnswer: answer.selectedAnswer,
-        correctAnswer: test.questions[index].correctAnswer,
-        isCorrect: answer.isCorrect,
-        explanation: `The correct answer is ${test.questions[index].correctAnswer}: ${test.questions[index].options[test.questions[index].correctAnswer]}`
-      }));
+      responseData.instantFeedback = processedAnswers.map(answer => {
+        const question = allQuestions.find(q => q._id.toString() === answer.questionId.toString());
+        const { options, optionImages, correctAnswer, studentAnswer } = toStudentOptions(
+          question,
+          QuestionShuffler.getAttemptOptionOrder(testAttempt, question),
+          answer.selectedAnswer
+        );
+        return {
+          questionId: answer.questionId,
+          question: { ...question.toObject(), options, optionImages, correctAnswer },
+          selectedAnswer: studentAnswer,
+          correctAnswer,
+          isCorrect: answer.isCorrect,
+          explanation: options[correctAnswer]
+            ? `The correct answer is ${correctAnswer}: ${options[correctAnswer]}`
+            : `The correct answer is ${correctAnswer}`
+        };
+      });
     }
 
     res.json(responseData);
@@ -1213,39 +1839,37 @@ router.post('/:id/submit', auth, authorize('student'), [
   }
 });
 
-// Get test results for student
+// Get test results for student: one attempt from the history with ?attemptId=, else the latest
 router.get('/:id/results', auth, authorize('student'), async (req, res) => {
   try {
     const testId = req.params.id;
-    
+    const { attemptId } = req.query;
+    if (attemptId && !mongoose.Types.ObjectId.isValid(attemptId)) {
+      return res.status(404).json({ error: 'Test attempt not found' });
+    }
+
     const attempt = await TestAttempt.findOne({
       testId,
-      studentId: req.user._id
-    }).populate('testId', 'testName subject totalMarks questions');
+      studentId: req.user._id,
+      status: { $ne: 'in_progress' },
+      ...(attemptId ? { _id: attemptId } : {})
+    })
+    .sort({ startTime: -1 })
+    .populate('testId', 'testName subject totalMarks questions hasSections sections');
 
     if (!attempt) {
       return res.status(404).json({ error: 'Test attempt not found' });
     }
 
-    // Include correct answers for review
+    // Include correct answers for review, in the order and labelling the student saw
     const detailedResults = {
       ...attempt.toObject(),
-      questionAnalysis: attempt.testId.questions.map(question => {
-        const studentAnswer = attempt.answers.find(a => 
-          a.questionId.toString() === question._id.toString()
-        );
-        
-        return {
-          questionText: question.questionText,
-          options: question.options,
-          correctAnswer: question.correctAnswer,
-          studentAnswer: studentAnswer?.selectedAnswer,
-          isCorrect: studentAnswer?.isCorrect,
-          marksObtained: studentAnswer?.marksObtained,
-          marks: question.marks
-        };
-      })
+      questionAnalysis: buildQuestionAnalysis(attempt, attempt.testId)
     };
+    // The proctoring log is only shown to faculty
+    delete detailedResults.proctoringEvents;
+    delete detailedResults.proctoringSnapshots;
+    delete detailedResults.proctoringReview;
 
     res.json(detailedResults);
   } catch (error) {
@@ -1261,6 +1885,25 @@ router.put('/:id', auth, authorize('master_admin'), [
   body('testType').optional().isIn(['Assessment', 'Practice', 'Assignment', 'Mock Test', 'Specific Company Test']),
   body('hasSections').optional().isBoolean().withMessage('hasSections must be a boolean'),
   body('sections').optional().isArray().withMessage('Sections must be an array'),
+  body('sectionNavigation').optional().isIn(SectionNavigation.MODES).withMessage('Invalid section navigation'),
+  body('shuffleQuestions').optional().isBoolean().withMessage('shuffleQuestions must be a boolean'),
+  body('shuffleOptions').optional().isBoolean().withMessage('shuffleOptions must be a boolean'),
+  body('scoring.negativeMarks').optional().isFloat({ min: 0, max: 10 }).withMessage('Negative marks must be between 0 and 10'),
+  body('scoring.partialCredit').optional().isBoolean().withMessage('partialCredit must be a boolean'),
+  body('sections.*.negativeMarks').optional({ nullable: true }).isFloat({ min: 0, max: 10 }).withMessage('Section negative marks must be between 0 and 10'),
+  body('sections.*.partialCredit').optional({ nullable: true }).isBoolean().withMessage('Section partialCredit must be a boolean'),
+  body('proctoring.countedEvents').optional().isArray().withMessage('Counted proctoring events must be an array'),
+  body('proctoring.countedEvents.*').isIn(Proctoring.EVENT_TYPES).withMessage('Invalid proctoring event'),
+  body('proctoring.maxViolations').optional().isInt({ min: 1, max: 20 }).withMessage('Maximum violations must be between 1 and 20'),
+  body('proctoring.onLimit').optional().isIn(Proctoring.LIMIT_ACTIONS).withMessage('Invalid violation limit action'),
+  body('proctoring.requireFullscreen').optional().isBoolean().withMessage('requireFullscreen must be a boolean'),
+  body('proctoring.blockCopyPaste').optional().isBoolean().withMessage('blockCopyPaste must be a boolean'),
+  body('proctoring.webcamSnapshots').optional().isBoolean().withMessage('webcamSnapshots must be a boolean'),
+  body('proctoring.snapshotInterval').optional().isInt({ min: 15, max: 600 }).withMessage('Snapshot interval must be between 15 and 600 seconds'),
+  body('examLayout').optional({ nullable: true }).isIn(['tcs', 'clean', 'professional']).withMessage('Invalid exam layout'),
+  body('attemptPolicy.maxAttempts').optional().isInt({ min: 1, max: AttemptPolicy.MAX_ATTEMPTS }).withMessage(`Maximum attempts must be between 1 and ${AttemptPolicy.MAX_ATTEMPTS}`),
+  body('attemptPolicy.cooldownMinutes').optional().isInt({ min: 0, max: AttemptPolicy.MAX_COOLDOWN_MINUTES }).withMessage('Invalid cooldown between attempts'),
+  body('attemptPolicy.scoringRule').optional().isIn(AttemptPolicy.SCORING_RULES).withMessage('Invalid attempt scoring rule'),
   body('numberOfQuestions').optional().custom((value, { req }) => {
     if (req.body.hasSections === true || req.body.hasSections === 'true') return true;
     if (value === undefined || value === null || value < 1 || value > 100) {
@@ -1308,6 +1951,15 @@ router.put('/:id', auth, authorize('master_admin'), [
       for (let i = 0; i < updateData.sections.length; i++) {
         const section = updateData.sections[i];
 
+        if (QuestionPool.isPoolSection(section)) {
+          const poolError = await QuestionPool.validatePool(section);
+          if (poolError) {
+            return res.status(400).json({ error: poolError });
+          }
+          section.questions = [];
+          continue;
+        }
+
         if (!section.questions || section.questions.length !== section.numberOfQuestions) {
           return res.status(400).json({
             error: `Section "${section.sectionName}" has ${section.questions?.length || 0} questions but expects ${section.numberOfQuestions}`
@@ -1315,9 +1967,15 @@ router.put('/:id', auth, authorize('master_admin'), [
         }
 
         // Set marks for each question in section
-        section.questions.forEach(question => {
-          question.marks = section.marksPerQuestion;
-        });
+        for (let j = 0; j < section.questions.length; j++) {
+          const questionError = QuestionTypes.validateQuestion(section.questions[j]);
+          if (questionError) {
+            return res.status(400).json({
+              error: `Question ${j + 1} in section "${section.sectionName}": ${questionError}`
+            });
+          }
+          section.questions[j] = { ...QuestionTypes.normalizeQuestion(section.questions[j]), marks: section.marksPerQuestion };
+        }
       }
     } else {
       // Validate non-sectioned test questions
@@ -1328,9 +1986,13 @@ router.put('/:id', auth, authorize('master_admin'), [
       }
 
       // Add marks to each question
-      updateData.questions.forEach(question => {
-        question.marks = updateData.marksPerQuestion;
-      });
+      for (let i = 0; i < updateData.questions.length; i++) {
+        const questionError = QuestionTypes.validateQuestion(updateData.questions[i]);
+        if (questionError) {
+          return res.status(400).json({ error: `Question ${i + 1}: ${questionError}` });
+        }
+        updateData.questions[i] = { ...QuestionTypes.normalizeQuestion(updateData.questions[i]), marks: updateData.marksPerQuestion };
+      }
     }
 
     const test = await Test.findByIdAndUpdate(
@@ -1390,20 +2052,31 @@ router.delete('/:id', auth, authorize('master_admin'), async (req, res) => {
   }
 });
 
+// Each student's counted result per test under the test's scoring rule, newest first
+const countAttempts = (attempts) =>
+  [...AttemptPolicy.groupAttempts(attempts).values()]
+    .map(group => {
+      const policy = AttemptPolicy.getPolicy(group[0].testId);
+      return { ...AttemptPolicy.getCountedResult(policy, group), scoringRule: policy.scoringRule };
+    })
+    .sort((a, b) => b.attempt.createdAt - a.attempt.createdAt);
+
 // Get student test reports (Student)
 router.get('/student/reports', auth, authorize('student'), async (req, res) => {
   try {
     const { testType, subject } = req.query;
 
+    // Every finished attempt counts, as in AttemptPolicy, including timed-out and
+    // auto-submitted ones
     let query = {
       studentId: req.user._id,
-      status: 'completed'
+      status: { $ne: 'in_progress' }
     };
 
     const attempts = await TestAttempt.find(query)
       .populate({
         path: 'testId',
-        select: 'testName testType subject totalMarks difficulty companyName questions'
+        select: 'testName testType subject totalMarks difficulty companyName questions hasSections sections attemptPolicy'
       })
       .sort({ createdAt: -1 });
 
@@ -1421,7 +2094,8 @@ router.get('/student/reports', auth, authorize('student'), async (req, res) => {
       );
     }
 
-    const reports = filteredAttempts.map(attempt => ({
+    // One report per test, scored by the test's attempt policy
+    const reports = countAttempts(filteredAttempts).map(({ attempt, marksObtained, percentage, attemptCount, scoringRule }) => ({
       _id: attempt._id,
       testId: {
         testName: attempt.testId?.testName || 'Unknown Test',
@@ -1445,31 +2119,40 @@ router.get('/student/reports', auth, authorize('student'), async (req, res) => {
       companyName: attempt.testId?.companyName,
       difficulty: attempt.testId?.difficulty,
       totalMarks: attempt.totalMarks,
-      marksObtained: attempt.marksObtained,
-      percentage: attempt.percentage,
+      marksObtained,
+      percentage,
+      attemptNumber: attempt.attemptNumber || 1,
+      attemptCount,
+      scoringRule,
       correctAnswers: attempt.correctAnswers,
       incorrectAnswers: attempt.incorrectAnswers,
+      partialAnswers: attempt.partialAnswers,
+      unanswered: attempt.unanswered,
+      negativeMarks: attempt.negativeMarks,
       timeSpent: attempt.timeSpent,
-      status: attempt.percentage >= 40 ? 'Pass' : 'Fail',
+      status: percentage >= 40 ? 'Pass' : 'Fail',
       completedAt: attempt.createdAt,
       startTime: attempt.startTime,
       endTime: attempt.endTime,
       createdAt: attempt.createdAt,
-      questionAnalysis: attempt.testId?.questions?.map((question, index) => {
+      questionAnalysis: attempt.testId ? QuestionShuffler.getAttemptQuestions(attempt, attempt.testId).map(({ question, optionOrder }) => {
         const studentAnswer = attempt.answers.find(a =>
           a.questionId.toString() === question._id.toString()
         );
+        const view = toStudentOptions(question, optionOrder, studentAnswer?.selectedAnswer);
 
         return {
           questionText: question.questionText,
-          options: question.options,
-          correctAnswer: question.correctAnswer,
-          studentAnswer: studentAnswer?.selectedAnswer || 'Not answered',
+          questionType: QuestionTypes.getType(question),
+          options: view.options,
+          correctAnswer: view.correctAnswer,
+          studentAnswer: view.studentAnswer || 'Not answered',
           isCorrect: studentAnswer?.isCorrect || false,
+          isPartial: studentAnswer?.isPartial || false,
           marksObtained: studentAnswer?.marksObtained || 0,
           marks: question.marks
         };
-      }) || []
+      }) : []
     }));
 
     res.json(reports);
@@ -1507,11 +2190,11 @@ router.get('/faculty/student-reports', auth, authorize('faculty', 'college_admin
 
     const attempts = await TestAttempt.find({
       studentId: { $in: studentIds },
-      status: 'completed'
+      status: { $ne: 'in_progress' }
     })
     .populate({
       path: 'testId',
-      select: 'testName testType subject totalMarks difficulty companyName'
+      select: 'testName testType subject totalMarks difficulty companyName attemptPolicy'
     })
     .populate({
       path: 'studentId',
@@ -1533,8 +2216,10 @@ router.get('/faculty/student-reports', auth, authorize('faculty', 'college_admin
       );
     }
 
-    const reports = filteredAttempts.map(attempt => ({
+    // One report per student and test, scored by the test's attempt policy
+    const reports = countAttempts(filteredAttempts).map(({ attempt, marksObtained, percentage, attemptCount, scoringRule }) => ({
       _id: attempt._id,
+      studentId: attempt.studentId?._id,
       studentName: attempt.studentId?.name || 'Unknown',
       studentEmail: attempt.studentId?.email || 'Unknown',
       batch: attempt.studentId?.batch,
@@ -1546,12 +2231,18 @@ router.get('/faculty/student-reports', auth, authorize('faculty', 'college_admin
       companyName: attempt.testId?.companyName,
       difficulty: attempt.testId?.difficulty,
       totalMarks: attempt.totalMarks,
-      marksObtained: attempt.marksObtained,
-      percentage: attempt.percentage,
+      marksObtained,
+      percentage,
+      attemptNumber: attempt.attemptNumber || 1,
+      attemptCount,
+      scoringRule,
       correctAnswers: attempt.correctAnswers,
       incorrectAnswers: attempt.incorrectAnswers,
+      partialAnswers: attempt.partialAnswers,
+      unanswered: attempt.unanswered,
+      negativeMarks: attempt.negativeMarks,
       timeSpent: attempt.timeSpent,
-      status: attempt.percentage >= 40 ? 'Pass' : 'Fail',
+      status: percentage >= 40 ? 'Pass' : 'Fail',
       completedAt: attempt.createdAt,
       startTime: attempt.startTime,
       endTime: attempt.endTime
@@ -1564,6 +2255,32 @@ router.get('/faculty/student-reports', auth, authorize('faculty', 'college_admin
   }
 });
 
+// Detailed report of one student's attempt with its proctoring timeline (Faculty and College Admin)
+router.get('/faculty/attempts/:attemptId/report', auth, authorize('faculty', 'college_admin'), async (req, res) => {
+  try {
+    const attempt = await TestAttempt.findOne({
+      _id: req.params.attemptId,
+      collegeId: req.user.collegeId,
+      status: { $ne: 'in_progress' }
+    })
+    .populate('testId', 'testName subject testType difficulty companyName totalMarks questions hasSections sections proctoring')
+    .populate('studentId', 'name email batch branch section');
+
+    if (!attempt) {
+      return res.status(404).json({ error: 'Test attempt not found' });
+    }
+
+    res.json({
+      ...attempt.toObject(),
+      questionAnalysis: buildQuestionAnalysis(attempt, attempt.testId),
+      maxViolations: Proctoring.getPolicy(attempt.testId).maxViolations
+    });
+  } catch (error) {
+    logger.errorLog(error, { context: 'Get faculty attempt report error' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // Configure multer for image uploads
 const imageUpload = multer({
   storage: multer.memoryStorage(),
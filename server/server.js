@@ -75,6 +75,7 @@ app.use('/api/faculty', require('./routes/faculty'));
 app.use('/api/coding', require('./routes/coding'));
 app.use('/api/profile', require('./routes/profile'));
 app.use('/api/coding-questions', require('./routes/codingQuestions'));
+app.use('/api/question-bank', require('./routes/questionBank'));
 
 // Root route
 app.get('/', (req, res) => {
@@ -86,6 +87,9 @@ const path = require('path');
 app.use('/favicon.ico', express.static(path.join(__dirname, 'public', 'favicon.ico')));
 app.use('/favicon.png', express.static(path.join(__dirname, 'public', 'favicon.png')));
 
+// Proctoring snapshots are private; faculty fetch them through /api/faculty/attempts/...
+app.use('/uploads/proctoring', (req, res) => res.status(404).end());
+
 // Serve uploaded assets (attachments) so attachmentUrl paths are reachable
 // Files are stored under server/uploads/... by the notifications route
 app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
@@ -124,6 +128,32 @@ const io = new Server(server, {
   }
 });
 
+// Authenticated sockets join a private room so coding verdicts can be pushed to them
+const jwt = require('jsonwebtoken');
+const SubmissionJudge = require('./utils/submissionJudge');
+io.on('connection', (socket) => {
+  const token = socket.handshake.auth && socket.handshake.auth.token;
+  if (!token) return;
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    socket.join(`user:${decoded.id}`);
+  } catch (err) {
+    // Anonymous sockets still receive broadcast updates
+  }
+});
+SubmissionJudge.setSocketServer(io);
+
+// Judge submissions queued before the last restart once the database is up, and
+// start timing out test attempts that were left open past their deadline
+const mongoose = require('mongoose');
+const AttemptSweeper = require('./utils/attemptSweeper');
+mongoose.connection.once('open', () => {
+  SubmissionJudge.recoverPending().catch((err) => {
+    logger.errorLog(err, { context: 'Failed to recover pending submissions' });
+  });
+  AttemptSweeper.start();
+});
+
 // Periodically emit active student count every 15 seconds
 const User = require('./models/User');
 const emitActiveCounts = async () => {
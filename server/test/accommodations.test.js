@@ -0,0 +1,66 @@
+const assert = require('assert');
+const Accommodations = require('../utils/accommodations');
+const SectionNavigation = require('../utils/sectionNavigation');
+
+describe('Accommodations', function() {
+  const endDateTime = new Date('2025-01-01T12:00:00Z');
+  const makeTest = (mode = 'sequential') => ({
+    hasSections: true,
+    sectionNavigation: mode,
+    endDateTime,
+    sections: [
+      { _id: 's1', sectionDuration: 10, questions: [] },
+      { _id: 's2', sectionDuration: 20, questions: [] },
+      { _id: 's3', sectionDuration: 30, questions: [] }
+    ]
+  });
+  const grant = (extraMinutes, extendedEndDateTime = null) => ({ accommodation: { extraMinutes, extendedEndDateTime } });
+
+  it('keeps the test window unless a later one was granted', function() {
+    const test = makeTest();
+    assert.deepStrictEqual(Accommodations.getEndDateTime(test, {}), endDateTime);
+    assert.deepStrictEqual(Accommodations.getEndDateTime(test, grant(0, new Date('2025-01-01T11:00:00Z'))), endDateTime);
+    assert.deepStrictEqual(
+      Accommodations.getEndDateTime(test, grant(0, new Date('2025-01-01T14:00:00Z'))),
+      new Date('2025-01-01T14:00:00Z')
+    );
+  });
+
+  it('shares extra time across sections in proportion to their length', function() {
+    const test = makeTest();
+    const shares = [0, 1, 2].map(index => Accommodations.getExtraSeconds(test, grant(7), index, 'sequential'));
+
+    assert.deepStrictEqual(shares, [70, 140, 210]);
+    assert.strictEqual(shares.reduce((sum, seconds) => sum + seconds, 0), 420);
+  });
+
+  it('gives all extra time to a single timer', function() {
+    assert.strictEqual(Accommodations.getExtraSeconds(makeTest(), grant(5), 1, 'free'), 300);
+    assert.strictEqual(Accommodations.getExtraSeconds({ hasSections: false, duration: 30 }, grant(5), 0), 300);
+  });
+
+  it('adds extra time to section and test time limits', function() {
+    const attempt = { ...grant(6), session: { currentSectionIndex: 1, carriedOverTime: 0 } };
+    assert.strictEqual(SectionNavigation.getTimeLimit(makeTest(), attempt), 20 * 60 + 120);
+    assert.strictEqual(SectionNavigation.getTimeLimit(makeTest('free'), attempt), 60 * 60 + 360);
+  });
+
+  it('moves a running timer when the grant changes', function() {
+    const test = makeTest();
+    const attempt = { session: { currentSectionIndex: 2, remainingTime: 100 } };
+
+    assert.strictEqual(Accommodations.applyToAttempt(test, attempt, grant(10), 'sequential'), true);
+    assert.strictEqual(attempt.accommodation.extraMinutes, 10);
+    assert.strictEqual(attempt.session.remainingTime, 100 + 300);
+    assert.strictEqual(Accommodations.applyToAttempt(test, attempt, grant(10), 'sequential'), false);
+  });
+
+  it('corrects timers reported by clients that missed a new grant', function() {
+    const test = makeTest();
+    const attempt = { ...grant(10), session: { currentSectionIndex: 2 } };
+
+    assert.strictEqual(Accommodations.adjustReportedTime(test, attempt, 100, 0, 'sequential'), 400);
+    assert.strictEqual(Accommodations.adjustReportedTime(test, attempt, 100, 10, 'sequential'), 100);
+    assert.strictEqual(Accommodations.adjustReportedTime(test, attempt, 100, undefined, 'sequential'), 100);
+  });
+});
@@ -0,0 +1,60 @@
+const assert = require('assert');
+const AnswerCollusion = require('../utils/answerCollusion');
+
+describe('AnswerCollusion', function() {
+  // Every question's correct answer is A; wrong answers are spread over B, C and D
+  const makeAttempt = (id, picks, group = 'CSE|2025|A') => ({
+    id,
+    group,
+    answers: picks.split('').map((pick, i) => ({
+      questionId: `q${i}`,
+      selectedAnswer: pick === '-' ? '' : pick,
+      isCorrect: pick === 'A',
+      timeSpent: 30
+    }))
+  });
+
+  const classmates = [
+    makeAttempt('s1', 'BCDBCDBCDB'),
+    makeAttempt('s2', 'BCDBCDBCDB'),
+    makeAttempt('s3', 'CDBCDBCDBC'),
+    makeAttempt('s4', 'DBCDBCDBCD'),
+    makeAttempt('s5', 'AAAAAAAAAA'),
+    makeAttempt('s6', 'DBCCDBBCDA')
+  ];
+
+  it('computes the chance of matching wrong answers from their popularity', function() {
+    assert.strictEqual(AnswerCollusion.getMatchProbability(new Map([['B', 1], ['C', 1]])), 0.5);
+    assert.strictEqual(AnswerCollusion.getMatchProbability(new Map([['B', 4]])), 1);
+    assert.strictEqual(AnswerCollusion.getMatchProbability(new Map()), 0);
+  });
+
+  it('computes Poisson binomial tail probabilities', function() {
+    assert.strictEqual(AnswerCollusion.tailProbability([0.5, 0.5], 0), 1);
+    assert.strictEqual(AnswerCollusion.tailProbability([0.5, 0.5], 2), 0.25);
+    assert.ok(Math.abs(AnswerCollusion.tailProbability([0.5, 0.5, 0.5], 2) - 0.5) < 1e-12);
+    assert.strictEqual(AnswerCollusion.tailProbability([0.5], 2), 0);
+  });
+
+  it('flags the pair sharing improbably many identical wrong answers', function() {
+    const pairs = AnswerCollusion.findSuspiciousPairs(classmates, { alpha: 0.01 });
+
+    assert.deepStrictEqual(pairs.map(p => [p.a, p.b]), [['s1', 's2']]);
+    assert.strictEqual(pairs[0].shared.length, 10);
+    assert.strictEqual(pairs[0].bothWrong, 10);
+    assert.ok(pairs[0].probability < 1e-4);
+    assert.strictEqual(pairs[0].shared[0].totalWrong, 5);
+  });
+
+  it('only compares students from the same group and ignores unanswered questions', function() {
+    const attempts = [
+      makeAttempt('s1', 'BCDBCDBCDB'),
+      makeAttempt('s2', 'BCDBCDBCDB', 'CSE|2025|B'),
+      makeAttempt('s3', '----------'),
+      makeAttempt('s4', '----------'),
+      ...classmates.slice(2)
+    ];
+
+    assert.deepStrictEqual(AnswerCollusion.findSuspiciousPairs(attempts, { alpha: 0.01 }), []);
+  });
+});
@@ -0,0 +1,94 @@
+const assert = require('assert');
+const AttemptDeadline = require('../utils/attemptDeadline');
+const AttemptGrading = require('../utils/attemptGrading');
+
+describe('AttemptDeadline', function() {
+  const startTime = new Date('2025-01-01T10:00:00Z');
+  const at = (minutes, seconds = 0) => new Date(startTime.getTime() + (minutes * 60 + seconds) * 1000);
+  const makeTest = (overrides = {}) => ({
+    hasSections: true,
+    endDateTime: new Date('2025-01-01T18:00:00Z'),
+    totalMarks: 2,
+    sections: [
+      { _id: 's1', sectionDuration: 10, questions: [] },
+      { _id: 's2', sectionDuration: 20, questions: [] }
+    ],
+    ...overrides
+  });
+
+  it('adds up section and coding time', function() {
+    assert.strictEqual(AttemptDeadline.getTestMinutes(makeTest()), 30);
+    assert.strictEqual(AttemptDeadline.getTestMinutes({ duration: 45 }), 45);
+    assert.strictEqual(AttemptDeadline.getTestMinutes(makeTest({
+      hasCodingSection: true,
+      codingQuestions: [{ timeLimit: 1800 }, {}]
+    })), 30 + 30 + 60);
+  });
+
+  it('includes extra minutes and stops at the end of the window', function() {
+    const test = makeTest();
+    assert.deepStrictEqual(AttemptDeadline.getDeadline(test, { startTime }), at(30));
+    assert.deepStrictEqual(AttemptDeadline.getDeadline(test, { startTime, accommodation: { extraMinutes: 15 } }), at(45));
+
+    const closing = makeTest({ endDateTime: at(20) });
+    assert.deepStrictEqual(AttemptDeadline.getDeadline(closing, { startTime }), at(20));
+    assert.strictEqual(AttemptDeadline.getSecondsLeft(closing, { startTime }, at(19)), 60);
+    assert.strictEqual(AttemptDeadline.getSecondsLeft(closing, { startTime }, at(25)), 0);
+  });
+
+  it('expires once the grace period has passed', function() {
+    const test = makeTest();
+    assert.strictEqual(AttemptDeadline.isExpired(test, { startTime }, at(30, AttemptDeadline.GRACE_SECONDS)), false);
+    assert.strictEqual(AttemptDeadline.isExpired(test, { startTime }, at(30, AttemptDeadline.GRACE_SECONDS + 1)), true);
+  });
+
+  it('never counts time past the deadline', function() {
+    const test = makeTest();
+    assert.strictEqual(AttemptDeadline.getTimeSpent(test, { startTime }, at(12)), 720);
+    assert.strictEqual(AttemptDeadline.getTimeSpent(test, { startTime }, at(90)), 1800);
+  });
+
+  it('closes a timed-out attempt on its saved answers', function() {
+    const question = { _id: 'q1', questionType: 'single', correctAnswer: 'A', marks: 1 };
+    const test = makeTest({
+      hasSections: false,
+      duration: 30,
+      questions: [question, { _id: 'q2', questionType: 'single', correctAnswer: 'B', marks: 1 }]
+    });
+    const attempt = {
+      startTime,
+      responses: [{ questionId: 'q1', selectedAnswer: 'A', timeSpent: 40 }]
+    };
+
+    AttemptGrading.close(test, attempt, 'timeout', at(90));
+
+    assert.strictEqual(attempt.status, 'timeout');
+    assert.deepStrictEqual(attempt.endTime, at(30));
+    assert.strictEqual(attempt.timeSpent, 1800);
+    assert.strictEqual(attempt.totalQuestions, 2);
+    assert.strictEqual(attempt.answers.length, 1);
+    assert.strictEqual(attempt.answers[0].isCorrect, true);
+  });
+
+  it('skips saved answers to questions no longer in the test', function() {
+    const test = makeTest({
+      hasSections: false,
+      duration: 30,
+      questions: [{ _id: 'q1', questionType: 'single', correctAnswer: 'A', marks: 1 }]
+    });
+    const attempt = {
+      startTime,
+      responses: [
+        { questionId: 'q1', selectedAnswer: 'A' },
+        { questionId: 'removed', selectedAnswer: 'B' }
+      ]
+    };
+
+    const graded = AttemptGrading.gradeAnswers(test, attempt, [{ questionId: 'unknown', selectedAnswer: 'C' }]);
+    assert.deepStrictEqual(graded.skipped, ['removed', 'unknown']);
+    assert.strictEqual(graded.processedAnswers.length, 1);
+
+    assert.doesNotThrow(() => AttemptGrading.close(test, attempt, 'timeout', at(90)));
+    assert.strictEqual(attempt.answers.length, 1);
+  });
+});
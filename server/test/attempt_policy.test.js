@@ -0,0 +1,80 @@
+const assert = require('assert');
+const AttemptPolicy = require('../utils/attemptPolicy');
+
+describe('AttemptPolicy', function() {
+  const at = (minutes) => new Date(Date.UTC(2025, 0, 1, 10, minutes));
+  const attempt = (id, minutes, marksObtained, status = 'completed') => ({
+    _id: id,
+    status,
+    marksObtained,
+    percentage: marksObtained * 10,
+    startTime: at(minutes),
+    endTime: status === 'in_progress' ? null : at(minutes + 10)
+  });
+
+  it('allows a single attempt for tests without a policy', function() {
+    assert.deepStrictEqual(AttemptPolicy.getPolicy({}), { maxAttempts: 1, cooldownMinutes: 0, scoringRule: 'best' });
+    assert.deepStrictEqual(
+      AttemptPolicy.getPolicy({ attemptPolicy: { maxAttempts: 50, cooldownMinutes: -5, scoringRule: 'first' } }),
+      { maxAttempts: AttemptPolicy.MAX_ATTEMPTS, cooldownMinutes: 0, scoringRule: 'best' }
+    );
+
+    const next = AttemptPolicy.checkNewAttempt(AttemptPolicy.getPolicy({}), [attempt('a1', 0, 5)], at(30));
+    assert.strictEqual(next.allowed, false);
+    assert.strictEqual(next.error, 'Test already attempted');
+  });
+
+  it('stops new attempts once the limit is used', function() {
+    const policy = AttemptPolicy.getPolicy({ attemptPolicy: { maxAttempts: 2 } });
+
+    assert.strictEqual(AttemptPolicy.checkNewAttempt(policy, [], at(0)).allowed, true);
+    assert.strictEqual(AttemptPolicy.checkNewAttempt(policy, [attempt('a1', 0, 5)], at(30)).attemptsLeft, 1);
+    // An attempt still in progress is resumed, not counted
+    assert.strictEqual(AttemptPolicy.checkNewAttempt(policy, [attempt('a1', 0, 5), attempt('a2', 20, 0, 'in_progress')], at(30)).allowed, true);
+
+    const next = AttemptPolicy.checkNewAttempt(policy, [attempt('a1', 0, 5), attempt('a2', 20, 6)], at(60));
+    assert.strictEqual(next.allowed, false);
+    assert.strictEqual(next.attemptsLeft, 0);
+  });
+
+  it('waits out the cooldown after the last attempt ended', function() {
+    const policy = AttemptPolicy.getPolicy({ attemptPolicy: { maxAttempts: 3, cooldownMinutes: 30 } });
+    const attempts = [attempt('a1', 0, 5)];
+
+    const early = AttemptPolicy.checkNewAttempt(policy, attempts, at(20));
+    assert.strictEqual(early.allowed, false);
+    assert.deepStrictEqual(early.nextAttemptAt, at(40));
+
+    assert.strictEqual(AttemptPolicy.checkNewAttempt(policy, attempts, at(40)).allowed, true);
+  });
+
+  it('counts the best, last or average attempt', function() {
+    const attempts = [attempt('a2', 20, 8), attempt('a1', 0, 5), attempt('a3', 40, 6), attempt('a4', 60, 0, 'in_progress')];
+    const count = (scoringRule) => AttemptPolicy.getCountedResult(AttemptPolicy.getPolicy({ attemptPolicy: { scoringRule } }), attempts);
+
+    const best = count('best');
+    assert.strictEqual(best.attempt._id, 'a2');
+    assert.strictEqual(best.marksObtained, 8);
+    assert.strictEqual(best.attemptCount, 3);
+
+    assert.strictEqual(count('last').attempt._id, 'a3');
+
+    const average = count('average');
+    assert.strictEqual(average.attempt._id, 'a3');
+    assert.strictEqual(average.marksObtained, 6.33);
+    assert.strictEqual(average.percentage, 63.33);
+
+    assert.strictEqual(AttemptPolicy.getCountedResult(AttemptPolicy.getPolicy({}), [attempt('a4', 0, 0, 'in_progress')]), null);
+  });
+
+  it('groups attempts by student and test', function() {
+    const groups = AttemptPolicy.groupAttempts([
+      { studentId: { _id: 's1' }, testId: { _id: 't1' } },
+      { studentId: 's1', testId: 't1' },
+      { studentId: 's2', testId: 't1' }
+    ]);
+
+    assert.deepStrictEqual([...groups.keys()], ['s1:t1', 's2:t1']);
+    assert.strictEqual(groups.get('s1:t1').length, 2);
+  });
+});
@@ -0,0 +1,87 @@
+const assert = require('assert');
+const AttemptSession = require('../utils/attemptSession');
+const AttemptGrading = require('../utils/attemptGrading');
+const QuestionShuffler = require('../utils/questionShuffler');
+
+describe('AttemptSession', function() {
+  const startTime = new Date('2025-01-01T10:00:00Z');
+  const at = (seconds) => new Date(startTime.getTime() + seconds * 1000);
+  const options = { A: 'one', B: 'two', C: 'three', D: 'four' };
+  const makeTest = () => ({
+    hasSections: false,
+    duration: 30,
+    endDateTime: new Date('2025-01-01T18:00:00Z'),
+    totalMarks: 2,
+    questions: [
+      { _id: 'q1', questionType: 'single', options, correctAnswer: 'A', marks: 1 },
+      { _id: 'q2', questionType: 'single', options, correctAnswer: 'B', marks: 1 }
+    ]
+  });
+  const makeAttempt = (shuffle = {}) => ({
+    _id: 'a1',
+    startTime,
+    responses: [],
+    shuffle,
+    session: { currentSectionIndex: 0, currentQuestionIndex: 0, remainingTime: null, carriedOverTime: 0 }
+  });
+
+  it('starts a timer that has not reported with the full test time', function() {
+    const session = AttemptSession.build(makeTest(), makeAttempt(), at(0));
+
+    assert.strictEqual(session.remainingTime, 1800);
+    assert.deepStrictEqual(session.responses, []);
+    assert.strictEqual(session.lastSavedAt, null);
+  });
+
+  it('resumes the saved timer less the time the tab was closed', function() {
+    const test = makeTest();
+    const attempt = makeAttempt();
+    AttemptSession.applyProgress(test, attempt, { currentQuestionIndex: 1, remainingTime: 1500 }, at(300));
+
+    const session = AttemptSession.build(test, attempt, at(420));
+    assert.strictEqual(session.remainingTime, 1380);
+    assert.strictEqual(session.currentQuestionIndex, 1);
+
+    // A save without a timer reading keeps the timer running instead of restarting it
+    AttemptSession.applyProgress(test, attempt, { currentQuestionIndex: 0 }, at(600));
+    assert.strictEqual(attempt.session.remainingTime, 1200);
+    assert.strictEqual(AttemptSession.build(test, attempt, at(600)).remainingTime, 1200);
+  });
+
+  it('rejects saved answers to questions not served in the attempt', function() {
+    const test = makeTest();
+    const attempt = makeAttempt();
+    const { rejected } = AttemptSession.applyProgress(test, attempt, {
+      responses: [
+        { questionId: 'q1', selectedAnswer: 'A', timeSpent: 20 },
+        { questionId: 'other', selectedAnswer: 'B' }
+      ]
+    }, at(60));
+
+    assert.deepStrictEqual(rejected.map(r => r.questionId), ['other']);
+    assert.deepStrictEqual(attempt.responses.map(r => r.questionId), ['q1']);
+    assert.deepStrictEqual(attempt.session.lastSavedAt, at(60));
+  });
+
+  it('hands back shuffled answers as the student saw them and grades them after resume', function() {
+    const test = makeTest();
+    const attempt = makeAttempt({ options: true, seed: 4 });
+    const order = QuestionShuffler.getAttemptOptionOrder(attempt, test.questions[0]);
+    const displayed = QuestionShuffler.toDisplayedAnswer('A', order);
+    assert.notStrictEqual(displayed, 'A');
+
+    AttemptSession.applyProgress(test, attempt, { responses: [{ questionId: 'q1', selectedAnswer: displayed }] }, at(60));
+    assert.strictEqual(attempt.responses[0].selectedAnswer, 'A');
+
+    const session = AttemptSession.build(test, attempt, at(120));
+    assert.strictEqual(session.responses[0].selectedAnswer, displayed);
+
+    // The submission after resuming only carries the answer given since then
+    const q2Order = QuestionShuffler.getAttemptOptionOrder(attempt, test.questions[1]);
+    const { processedAnswers, skipped } = AttemptGrading.gradeAnswers(test, attempt, [
+      { questionId: 'q2', selectedAnswer: QuestionShuffler.toDisplayedAnswer('B', q2Order) }
+    ]);
+    assert.deepStrictEqual(skipped, []);
+    assert.deepStrictEqual(processedAnswers.map(a => [a.questionId, a.isCorrect]), [['q1', true], ['q2', true]]);
+  });
+});
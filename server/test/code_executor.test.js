@@ -0,0 +1,163 @@
+const assert = require('assert');
+const { execSync } = require('child_process');
+const CodeExecutor = require('../utils/codeExecutor');
+const SandboxProcess = require('../utils/sandboxProcess');
+
+const hasCommand = (command) => {
+  try {
+    execSync(`${command} --version`, { stdio: 'ignore' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+describe('CodeExecutor', function() {
+  this.timeout(30000);
+
+  const testCases = [
+    { input: '2 3\n', expected_output: '5' },
+    { input: '10 -4\n', expected_output: '6' }
+  ];
+
+  it('scales question limits per language', function() {
+    const question = { time_limit: 1000, memory_limit: 128 };
+    assert.deepStrictEqual(CodeExecutor.getLimits('cpp', question), { timeLimit: 1000, memoryLimit: 144 });
+    assert.deepStrictEqual(CodeExecutor.getLimits('java', question), { timeLimit: 3000, memoryLimit: 128 });
+    assert.strictEqual(CodeExecutor.getLimits('cpp', {}).timeLimit, CodeExecutor.DEFAULT_TIME_LIMIT);
+    assert.strictEqual(CodeExecutor.getLimits('cpp', { time_limit: 600000 }).timeLimit, 10000);
+    assert.strictEqual(CodeExecutor.isSupported('ruby'), false);
+  });
+
+  it('refuses to compile or run code without the sandbox', async function() {
+    const sandbox = process.env.CODE_SANDBOX;
+    process.env.CODE_SANDBOX = 'missing';
+    try {
+      assert.strictEqual(await SandboxProcess.isAvailable(), false);
+      await assert.rejects(CodeExecutor.executeTestCases('print(1)', 'python', testCases, {}), /Code execution is unavailable/);
+      await assert.rejects(CodeExecutor.runCustomInput('int main() {}', 'cpp', '', {}), /Code execution is unavailable/);
+      const result = await SandboxProcess.run('true', [], { cwd: __dirname, timeLimit: 1000 });
+      assert.match(result.spawnError.message, /Code execution is unavailable/);
+    } finally {
+      if (sandbox === undefined) delete process.env.CODE_SANDBOX;
+      else process.env.CODE_SANDBOX = sandbox;
+    }
+  });
+
+  describe('sandbox runner', function() {
+    before(async function() {
+      if (!(await SandboxProcess.isAvailable())) this.skip();
+    });
+
+    it('reports the signal that ended the program and its own peak memory', async function() {
+      const killed = await SandboxProcess.run('sh', ['-c', 'kill -XCPU $$'], { cwd: __dirname, timeLimit: 2000 });
+      assert.strictEqual(killed.signal, 'SIGXCPU');
+      assert.strictEqual(killed.code, null);
+
+      const exited = await SandboxProcess.run('sh', ['-c', 'exit 3'], { cwd: __dirname, timeLimit: 2000 });
+      assert.strictEqual(exited.code, 3);
+      assert.strictEqual(exited.signal, null);
+      assert.ok(exited.memoryKb > 0);
+    });
+  });
+
+  describe('C++', function() {
+    before(async function() {
+      if (!hasCommand('g++') || !(await SandboxProcess.isAvailable())) this.skip();
+    });
+
+    it('compiles once and runs every test case', async function() {
+      const code = '#include <iostream>\nint main() { long a, b; std::cin >> a >> b; std::cout << a + b << std::endl; }\n';
+      const results = await CodeExecutor.executeTestCases(code, 'cpp', testCases, {});
+      assert.strictEqual(results.compilationError, null);
+      assert.deepStrictEqual(results.testResults.map(r => r.passed), [true, true]);
+    });
+
+    it('reports compilation errors without running tests', async function() {
+      const results = await CodeExecutor.executeTestCases('int main() { return x; }', 'cpp', testCases, {});
+      assert.ok(results.compilationError);
+      assert.strictEqual(results.testResults.length, 0);
+    });
+
+    it('rejects includes outside the standard library', async function() {
+      const results = await CodeExecutor.executeTestCases('#include "/etc/passwd"\nint main() {}', 'cpp', testCases, {});
+      assert.strictEqual(results.compilationError, 'Only standard library headers can be included');
+      const allowed = await CodeExecutor.executeTestCases('#include <bits/stdc++.h>\nint main() { std::cout << 5; }', 'cpp', testCases.slice(0, 1), {});
+      assert.strictEqual(allowed.testResults[0].passed, true);
+    });
+
+    it('measures the memory of the program, not the sandbox', async function() {
+      const code = '#include <vector>\n#include <iostream>\nint main() { std::vector<char> v(64 << 20, 1); std::cout << (int)v[123]; }\n';
+      const results = await CodeExecutor.executeTestCases(code, 'cpp', [{ input: '', expected_output: '1' }], {});
+      assert.strictEqual(results.testResults[0].passed, true);
+      assert.ok(results.maxMemoryUsed > 60 * 1024);
+    });
+
+    it('stops programs that exceed the time limit', async function() {
+      const code = 'int main() { volatile unsigned long i = 0; while (true) { i++; } }';
+      const results = await CodeExecutor.executeTestCases(code, 'cpp', testCases.slice(0, 1), { time_limit: 300 });
+      assert.strictEqual(results.hasTimeLimit, true);
+      assert.strictEqual(results.testResults[0].status, 'time_limit_exceeded');
+    });
+  });
+
+  describe('Python', function() {
+    before(async function() {
+      if (!hasCommand(process.env.PYTHON_PATH || 'python3') || !(await SandboxProcess.isAvailable())) this.skip();
+    });
+
+    it('reads input from stdin and reports runtime errors', async function() {
+      const ok = await CodeExecutor.executeTestCases('a, b = map(int, input().split())\nprint(a + b)', 'python', testCases, {});
+      assert.deepStrictEqual(ok.testResults.map(r => r.passed), [true, true]);
+
+      const failing = await CodeExecutor.executeTestCases('raise ValueError("boom")', 'python', testCases.slice(0, 1), {});
+      assert.strictEqual(failing.hasRuntimeError, true);
+      assert.match(failing.testResults[0].error, /ValueError: boom/);
+    });
+
+    it('runs custom input and returns stdout, stderr and the exit status', async function() {
+      const code = 'import sys\nn = int(input())\nprint(n * 2)\nsys.stderr.write("debug\\n")\nsys.exit(3 if n < 0 else 0)';
+      const ok = await CodeExecutor.runCustomInput(code, 'python', '21\n', {});
+      assert.strictEqual(ok.status, 'ok');
+      assert.strictEqual(ok.stdout.trim(), '42');
+      assert.strictEqual(ok.stderr.trim(), 'debug');
+      assert.strictEqual(ok.exitCode, 0);
+
+      const failing = await CodeExecutor.runCustomInput(code, 'python', '-1\n', {});
+      assert.strictEqual(failing.status, 'runtime_error');
+      assert.strictEqual(failing.stdout.trim(), '-2');
+      assert.strictEqual(failing.exitCode, 3);
+    });
+
+    it('keeps solutions away from server files, secrets and the network', async function() {
+      process.env.JUDGE_TEST_SECRET = 'hunter2';
+      const code = [
+        'import os',
+        'print(os.environ.get("JUDGE_TEST_SECRET"))',
+        'open("scratch.txt", "w").write("ok")',
+        'print(open("scratch.txt").read())',
+        'open(' + JSON.stringify(__filename) + ').read()'
+      ].join('\n');
+      const results = await CodeExecutor.executeTestCases(code, 'python', [{ input: '', expected_output: '' }], {});
+      const env = await CodeExecutor.executeTestCases(code.split('\n').slice(0, 4).join('\n'), 'python', [{ input: '', expected_output: 'None\nok' }], {});
+      delete process.env.JUDGE_TEST_SECRET;
+
+      assert.strictEqual(env.testResults[0].passed, true);
+      assert.strictEqual(results.testResults[0].status, 'runtime_error');
+      assert.match(results.testResults[0].error, /PermissionError: Access to .* is not allowed/);
+
+      const network = await CodeExecutor.executeTestCases('import socket', 'python', [{ input: '', expected_output: '' }], {});
+      assert.match(network.testResults[0].error, /Module socket is not available/);
+    });
+
+    it('reports peak memory and memory limit errors', async function() {
+      const ok = await CodeExecutor.executeTestCases('x = [0] * 10**6\nprint(len(x))', 'python', [{ input: '', expected_output: '1000000' }], {});
+      assert.strictEqual(ok.testResults[0].passed, true);
+      assert.ok(ok.maxMemoryUsed > 1000);
+
+      const tooBig = await CodeExecutor.executeTestCases('x = [0] * 10**9', 'python', [{ input: '', expected_output: '' }], { memory_limit: 32 });
+      assert.strictEqual(tooBig.hasMemoryLimit, true);
+      assert.strictEqual(tooBig.testResults[0].status, 'memory_limit_exceeded');
+    });
+  });
+});
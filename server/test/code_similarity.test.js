@@ -0,0 +1,81 @@
+const assert = require('assert');
+const CodeSimilarity = require('../utils/codeSimilarity');
+
+describe('CodeSimilarity', function() {
+  const original = `
+def two_sum(nums, target):
+    seen = {}
+    for i, n in enumerate(nums):
+        if target - n in seen:
+            return [seen[target - n], i]
+        seen[n] = i
+    return []
+`;
+
+  // Same solution with renamed variables, new comments and different spacing
+  const disguised = `
+# my own solution
+def find_pair(arr, goal):
+    lookup = {}   # value -> index
+    for idx, val in enumerate(arr):
+        if goal - val in lookup:
+            return [lookup[goal - val], idx]
+        lookup[val] = idx
+    return []
+`;
+
+  const different = `
+def two_sum(nums, target):
+    for i in range(len(nums)):
+        for j in range(i + 1, len(nums)):
+            if nums[i] + nums[j] == target:
+                return [i, j]
+    return []
+`;
+
+  const similarity = (a, b, language = 'python') => CodeSimilarity.compare(
+    CodeSimilarity.fingerprint(CodeSimilarity.tokenize(a, language)),
+    CodeSimilarity.fingerprint(CodeSimilarity.tokenize(b, language))
+  );
+
+  it('normalizes identifiers, literals, comments and whitespace', function() {
+    assert.deepStrictEqual(
+      CodeSimilarity.tokenize('int total = 42; // answer\nprintf("%d", total);', 'cpp'),
+      ['int', 'V', '=', 'N', ';', 'V', '(', 'S', ',', 'V', ')', ';']
+    );
+    assert.deepStrictEqual(
+      CodeSimilarity.tokenize('x = "a" # note\nprint(x)', 'python'),
+      ['V', '=', 'S', 'print', '(', 'V', ')']
+    );
+  });
+
+  it('sees through renamed variables and reformatting', function() {
+    assert.strictEqual(similarity(original, disguised), 1);
+    assert.ok(similarity(original, different) < 0.5);
+  });
+
+  it('flags pairs above the threshold and groups them into clusters', function() {
+    const { pairs, clusters } = CodeSimilarity.findSimilar([
+      { id: 'a', code: original, language: 'python' },
+      { id: 'b', code: disguised, language: 'python' },
+      { id: 'c', code: different, language: 'python' },
+      { id: 'd', code: original, language: 'javascript' }
+    ], 0.8);
+
+    assert.deepStrictEqual(pairs.map(p => [p.a, p.b]), [['a', 'b']]);
+    assert.deepStrictEqual(clusters, [['a', 'b']]);
+  });
+
+  it('merges pairs that share a student into one cluster', function() {
+    const code = 'int main() { int a; cin >> a; cout << a * 2; }';
+    const { pairs, clusters } = CodeSimilarity.findSimilar([
+      { id: 'x', code, language: 'cpp' },
+      { id: 'y', code: code.replace(/a/g, 'b'), language: 'cpp' },
+      { id: 'z', code: code.replace(/a/g, 'c'), language: 'cpp' }
+    ]);
+
+    assert.strictEqual(pairs.length, 3);
+    assert.strictEqual(clusters.length, 1);
+    assert.deepStrictEqual([...clusters[0]].sort(), ['x', 'y', 'z']);
+  });
+});
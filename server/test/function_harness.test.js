@@ -0,0 +1,73 @@
+const assert = require('assert');
+const { execSync } = require('child_process');
+const FunctionHarness = require('../utils/functionHarness');
+const CodeExecutor = require('../utils/codeExecutor');
+const SandboxProcess = require('../utils/sandboxProcess');
+
+const hasCommand = (command) => {
+  try {
+    execSync(`${command} --version`, { stdio: 'ignore' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+describe('FunctionHarness', function() {
+  this.timeout(30000);
+
+  const question = {
+    function_signature: {
+      name: 'pairSums',
+      params: [{ name: 'nums', type: 'int[]' }, { name: 'words', type: 'string[]' }, { name: 'target', type: 'int' }],
+      return_type: 'int[][]'
+    }
+  };
+  const testCases = [
+    { input: '[1,2,3]\n["a b","c"]\n4\n', expected_output: '1 3\n2 2\n3 1\n2' },
+    { input: '[]\n[]\n0\n', expected_output: '0' }
+  ];
+
+  it('validates signatures', function() {
+    assert.strictEqual(FunctionHarness.validateSignature(question.function_signature), null);
+    assert.strictEqual(FunctionHarness.validateSignature(null), null);
+    assert.match(FunctionHarness.validateSignature({ name: '1st', params: [], return_type: 'int' }), /valid identifier/);
+    assert.match(FunctionHarness.validateSignature({
+      name: 'f',
+      params: [{ name: 'a', type: 'int' }, { name: 'a', type: 'int' }],
+      return_type: 'int'
+    }), /declared twice/);
+    assert.match(FunctionHarness.validateSignature({ name: 'f', params: [{ name: 'a', type: 'map' }], return_type: 'int' }), /Unsupported parameter type/);
+  });
+
+  it('calls a Python function with the decoded arguments', async function() {
+    if (!hasCommand(process.env.PYTHON_PATH || 'python3') || !(await SandboxProcess.isAvailable())) this.skip();
+    const code = [
+      'def pairSums(nums, words, target):',
+      '    pairs = [[a, b] for a in nums for b in nums if a + b == target]',
+      '    return pairs + [[len(words)]]'
+    ].join('\n');
+    const results = await CodeExecutor.executeTestCases(code, 'python', testCases, question);
+    assert.deepStrictEqual(results.testResults.map(r => r.actual_output), ['1 3\n2 2\n3 1\n2', '0']);
+  });
+
+  it('calls a C++ member function and keeps compiler line numbers', async function() {
+    if (!hasCommand('g++') || !(await SandboxProcess.isAvailable())) this.skip();
+    const code = [
+      'class Solution {',
+      'public:',
+      '    vector<vector<int>> pairSums(vector<int>& nums, vector<string>& words, int target) {',
+      '        vector<vector<int>> pairs;',
+      '        for (int a : nums) for (int b : nums) if (a + b == target) pairs.push_back({a, b});',
+      '        pairs.push_back({(int) words.size()});',
+      '        return pairs;',
+      '    }',
+      '};'
+    ].join('\n');
+    const results = await CodeExecutor.executeTestCases(code, 'cpp', testCases, question);
+    assert.deepStrictEqual(results.testResults.map(r => r.passed), [true, true]);
+
+    const broken = await CodeExecutor.executeTestCases('class Solution {\npublic:\n  int x = y;\n};', 'cpp', testCases, question);
+    assert.match(broken.compilationError, /main\.cpp:3:/);
+  });
+});
@@ -0,0 +1,62 @@
+const assert = require('assert');
+const JudgeQueue = require('../utils/judgeQueue');
+const SubmissionJudge = require('../utils/submissionJudge');
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('JudgeQueue', function() {
+  it('never runs more jobs than its concurrency', async function() {
+    const queue = new JudgeQueue(2);
+    let active = 0;
+    let peak = 0;
+    const job = (value) => async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(10);
+      active--;
+      return value;
+    };
+
+    const pending = [1, 2, 3, 4, 5].map(value => queue.push(job(value)));
+    assert.strictEqual(queue.running, 2);
+    assert.strictEqual(queue.size, 3);
+
+    assert.deepStrictEqual(await Promise.all(pending), [1, 2, 3, 4, 5]);
+    assert.strictEqual(peak, 2);
+    assert.strictEqual(queue.running, 0);
+  });
+
+  it('keeps processing after a job fails', async function() {
+    const queue = new JudgeQueue(1);
+    const failed = queue.push(async () => { throw new Error('boom'); });
+    const next = queue.push(async () => 'ok');
+
+    await assert.rejects(failed, /boom/);
+    assert.strictEqual(await next, 'ok');
+  });
+});
+
+describe('SubmissionJudge.getVerdict', function() {
+  const testCases = [{ weight: 1 }, { weight: 3 }];
+  const result = (passed, extra = {}) => ({
+    compilationError: null,
+    hasRuntimeError: false,
+    hasTimeLimit: false,
+    hasMemoryLimit: false,
+    testResults: passed.map((ok, i) => ({ test_case_number: i + 1, passed: ok })),
+    ...extra
+  });
+
+  it('weights the score by test case', function() {
+    assert.deepStrictEqual(SubmissionJudge.getVerdict(testCases, result([true, true])),
+      { status: 'accepted', testCasesPassed: 2, totalTestCases: 2, score: 100 });
+    assert.deepStrictEqual(SubmissionJudge.getVerdict(testCases, result([false, true])),
+      { status: 'wrong_answer', testCasesPassed: 1, totalTestCases: 2, score: 75 });
+  });
+
+  it('reports the most severe failure', function() {
+    assert.strictEqual(SubmissionJudge.getVerdict(testCases, result([], { compilationError: 'x' })).status, 'compilation_error');
+    assert.strictEqual(SubmissionJudge.getVerdict(testCases, result([true, false], { hasTimeLimit: true })).status, 'time_limit_exceeded');
+    assert.strictEqual(SubmissionJudge.isFinished('running'), false);
+  });
+});
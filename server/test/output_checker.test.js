@@ -0,0 +1,67 @@
+const assert = require('assert');
+const { execSync } = require('child_process');
+const OutputChecker = require('../utils/outputChecker');
+const SandboxProcess = require('../utils/sandboxProcess');
+
+describe('OutputChecker', function() {
+  const compare = (expected, actual, mode, tolerance) => OutputChecker.compare(expected, actual, { mode, tolerance });
+
+  it('ignores line endings and surrounding whitespace in exact mode', function() {
+    assert.strictEqual(compare('1 2\n3', '1 2\r\n3\r\n', 'exact'), true);
+    assert.strictEqual(compare('1 2\n3', '1 2 \n3', 'exact'), false);
+  });
+
+  it('compares whitespace-separated tokens', function() {
+    assert.strictEqual(compare('1 2\n3', '1  2 \n\n3', 'tokens'), true);
+    assert.strictEqual(compare('1 2 3', '1 2', 'tokens'), false);
+  });
+
+  it('accepts numbers within the tolerance', function() {
+    assert.strictEqual(compare('0.3 yes', '0.30000001 yes', 'float', 1e-6), true);
+    assert.strictEqual(compare('1000000', '1000000.5', 'float', 1e-6), true);
+    assert.strictEqual(compare('0.3', '0.31', 'float', 1e-6), false);
+    assert.strictEqual(compare('0.3 yes', '0.3 no', 'float', 1e-6), false);
+  });
+
+  it('accepts lines in any order', function() {
+    assert.strictEqual(compare('a\nb\nc', 'c\r\na\nb \n', 'unordered_lines'), true);
+    assert.strictEqual(compare('a\nb', 'a\na', 'unordered_lines'), false);
+  });
+
+  it('falls back to exact mode for unknown settings', function() {
+    assert.deepStrictEqual(OutputChecker.getConfig({ checker_mode: 'fuzzy' }),
+      { mode: 'exact', tolerance: OutputChecker.DEFAULT_TOLERANCE, script: '' });
+  });
+
+  describe('custom checker', function() {
+    this.timeout(30000);
+
+    before(async function() {
+      try {
+        execSync(`${process.env.PYTHON_PATH || 'python3'} --version`, { stdio: 'ignore' });
+      } catch (error) {
+        this.skip();
+      }
+      if (!(await SandboxProcess.isAvailable())) this.skip();
+    });
+
+    it('runs the checker script with the input, expected and actual output', async function() {
+      const script = [
+        'import sys',
+        'n = int(open(sys.argv[1]).read())',
+        'a, b = map(int, open(sys.argv[3]).read().split())',
+        'if a + b != n:',
+        '    print("numbers do not add up")',
+        '    sys.exit(1)'
+      ].join('\n');
+      const checker = await OutputChecker.prepare({ checker_mode: 'custom', checker_script: script });
+      try {
+        assert.deepStrictEqual(await checker.check('10', '', '3 7'), { passed: true, message: null });
+        assert.deepStrictEqual(await checker.check('10', '', '3 8'), { passed: false, message: 'numbers do not add up' });
+        await assert.rejects(checker.check('10', '', 'three'), /Custom checker failed: .*ValueError/s);
+      } finally {
+        await checker.cleanup();
+      }
+    });
+  });
+});
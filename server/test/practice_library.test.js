@@ -0,0 +1,38 @@
+const assert = require('assert');
+const PracticeLibrary = require('../utils/practiceLibrary');
+
+describe('PracticeLibrary', function() {
+  it('collects bookmarks, notes and lists by question', function() {
+    const marks = PracticeLibrary.getQuestionMarks(
+      [
+        { question_id: 'q1', bookmarked: true, note: '' },
+        { question_id: 'q2', bookmarked: false, note: 'Use two pointers' }
+      ],
+      [
+        { _id: 'l1', questions: ['q1', 'q3'] },
+        { _id: 'l2', questions: ['q1'] }
+      ]
+    );
+
+    assert.deepStrictEqual(PracticeLibrary.getMark(marks, 'q1'), { bookmarked: true, note: '', lists: ['l1', 'l2'] });
+    assert.deepStrictEqual(PracticeLibrary.getMark(marks, 'q2'), { bookmarked: false, note: 'Use two pointers', lists: [] });
+    assert.deepStrictEqual(PracticeLibrary.getMark(marks, 'q3').lists, ['l1']);
+    assert.deepStrictEqual(PracticeLibrary.getMark(marks, 'q4'), { bookmarked: false, note: '', lists: [] });
+  });
+
+  it('treats a record without bookmark or text as empty', function() {
+    assert.strictEqual(PracticeLibrary.isEmpty({ bookmarked: false, note: '  ' }), true);
+    assert.strictEqual(PracticeLibrary.isEmpty({ bookmarked: true, note: '' }), false);
+    assert.strictEqual(PracticeLibrary.isEmpty({ bookmarked: false, note: 'todo' }), false);
+  });
+
+  it('validates list names and notes', function() {
+    assert.ok(PracticeLibrary.getListNameError('   '));
+    assert.ok(PracticeLibrary.getListNameError('x'.repeat(PracticeLibrary.MAX_LIST_NAME_LENGTH + 1)));
+    assert.strictEqual(PracticeLibrary.getListNameError(' Revise '), null);
+
+    assert.ok(PracticeLibrary.getNoteError(42));
+    assert.ok(PracticeLibrary.getNoteError('x'.repeat(PracticeLibrary.MAX_NOTE_LENGTH + 1)));
+    assert.strictEqual(PracticeLibrary.getNoteError(''), null);
+  });
+});
@@ -0,0 +1,89 @@
+const assert = require('assert');
+const PracticeTrack = require('../utils/practiceTrack');
+
+describe('PracticeTrack', function() {
+  const now = new Date('2025-03-10T15:00:00Z');
+
+  it('counts consecutive practice days', function() {
+    const streak = PracticeTrack.getStreak(['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-08', '2025-03-09', '2025-03-10', '2025-03-10'], now);
+    assert.deepStrictEqual(streak, { current: 3, longest: 3, activeToday: true, lastActiveDay: '2025-03-10' });
+  });
+
+  it('keeps the streak until a whole day is missed', function() {
+    assert.strictEqual(PracticeTrack.getStreak(['2025-03-08', '2025-03-09'], now).current, 2);
+    assert.strictEqual(PracticeTrack.getStreak(['2025-03-08', '2025-03-09'], now).activeToday, false);
+    assert.strictEqual(PracticeTrack.getStreak(['2025-03-07', '2025-03-08'], now).current, 0);
+    assert.deepStrictEqual(PracticeTrack.getStreak([], now), { current: 0, longest: 0, activeToday: false, lastActiveDay: null });
+  });
+
+  it('breaks solved counts down by difficulty and tag', function() {
+    const questions = [
+      { _id: 'q1', difficulty: 'easy', tags: ['arrays'] },
+      { _id: 'q2', difficulty: 'medium', tags: ['arrays', 'dp'] },
+      { _id: 'q3', difficulty: 'hard', tags: ['graphs'] }
+    ];
+    const { byDifficulty, byTag } = PracticeTrack.getBreakdown(questions, [
+      { question_id: 'q1', status: 'solved' },
+      { question_id: 'q2', status: 'attempted' }
+    ]);
+
+    assert.deepStrictEqual(byDifficulty, {
+      easy: { solved: 1, total: 1 },
+      medium: { solved: 0, total: 1 },
+      hard: { solved: 0, total: 1 }
+    });
+    assert.deepStrictEqual(byTag[0], { tag: 'arrays', solved: 1, total: 2 });
+  });
+
+  it('tracks path progress and prerequisites', function() {
+    const basics = { _id: 'p1', questions: ['q1', 'q2'], prerequisites: [] };
+    const advanced = { _id: 'p2', questions: ['q3'], prerequisites: ['p1'] };
+    const solved = new Set(['q1']);
+
+    assert.deepStrictEqual(PracticeTrack.getPathProgress(basics, solved), { total: 2, solved: 1, completed: false, nextQuestionId: 'q2' });
+    assert.deepStrictEqual(PracticeTrack.getMissingPrerequisites(advanced, PracticeTrack.getCompletedPaths([basics, advanced], solved)), ['p1']);
+
+    solved.add('q2');
+    assert.deepStrictEqual(PracticeTrack.getMissingPrerequisites(advanced, PracticeTrack.getCompletedPaths([basics, advanced], solved)), []);
+  });
+
+  it('rejects prerequisites that loop back to the path', function() {
+    const paths = [
+      { _id: 'p1', prerequisites: [] },
+      { _id: 'p2', prerequisites: ['p1'] },
+      { _id: 'p3', prerequisites: ['p2'] }
+    ];
+
+    assert.strictEqual(PracticeTrack.getPrerequisiteError(null, ['p3'], paths), null);
+    assert.strictEqual(PracticeTrack.getPrerequisiteError('p2', ['p1'], paths), null);
+    assert.ok(PracticeTrack.getPrerequisiteError('p1', ['p1'], paths));
+    assert.ok(PracticeTrack.getPrerequisiteError('p1', ['p3'], paths));
+  });
+
+  it('ranks students by points with shared ranks for ties', function() {
+    const students = [
+      { _id: 's1', name: 'Asha' },
+      { _id: 's2', name: 'Bilal' },
+      { _id: 's3', name: 'Chen' },
+      { _id: 's4', name: 'Dana' }
+    ];
+    const difficulties = new Map([['q1', 'easy'], ['q2', 'medium'], ['q3', 'hard']]);
+    const solved = [
+      { student_id: 's1', question_id: 'q3', solved_at: new Date('2025-03-02') },
+      { student_id: 's2', question_id: 'q1', solved_at: new Date('2025-03-01') },
+      { student_id: 's2', question_id: 'q2', solved_at: new Date('2025-03-01') },
+      { student_id: 's3', question_id: 'q2', solved_at: new Date('2025-03-03') }
+    ];
+
+    const ranked = PracticeTrack.buildLeaderboard(students, solved, difficulties);
+
+    assert.deepStrictEqual(ranked.map(e => [e.studentId, e.points, e.rank]), [
+      ['s2', 3, 1],
+      ['s1', 3, 2],
+      ['s3', 2, 3],
+      ['s4', 0, 4]
+    ]);
+    assert.strictEqual(ranked[0].easy, 1);
+    assert.strictEqual(ranked[0].medium, 1);
+  });
+});
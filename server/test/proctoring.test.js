@@ -0,0 +1,115 @@
+const assert = require('assert');
+const Proctoring = require('../utils/proctoring');
+
+describe('Proctoring', function() {
+  const start = new Date('2025-01-01T10:00:00Z');
+  const at = (seconds) => new Date(start.getTime() + seconds * 1000).toISOString();
+  const makeAttempt = () => ({ startTime: start, proctoringEvents: [], violations: 0 });
+
+  it('counts violations but only logs blur and right-click events', function() {
+    const attempt = makeAttempt();
+    const result = Proctoring.recordEvents(attempt, [
+      { type: 'window_blur', occurredAt: at(10) },
+      { type: 'tab_switch', occurredAt: at(10), questionId: 'q1', questionIndex: 0 },
+      { type: 'right_click', occurredAt: at(20) },
+      { type: 'paste', occurredAt: at(30) }
+    ], new Date(at(60)));
+
+    assert.deepStrictEqual(result, { recorded: 4, violations: 2 });
+    assert.strictEqual(attempt.violations, 2);
+    assert.deepStrictEqual(attempt.proctoringEvents.map(e => e.counted), [false, true, false, true]);
+    assert.strictEqual(attempt.proctoringEvents[1].questionId, 'q1');
+    assert.strictEqual(attempt.proctoringEvents[1].questionIndex, 0);
+  });
+
+  it('counts repeats of the same event within the repeat window once', function() {
+    const attempt = makeAttempt();
+    Proctoring.recordEvents(attempt, [{ type: 'devtools_open', occurredAt: at(10) }], new Date(at(11)));
+    Proctoring.recordEvents(attempt, [
+      { type: 'devtools_open', occurredAt: at(11) },
+      { type: 'devtools_open', occurredAt: at(15) }
+    ], new Date(at(16)));
+
+    assert.strictEqual(attempt.proctoringEvents.length, 3);
+    assert.strictEqual(attempt.violations, 2);
+  });
+
+  it('clamps client timestamps to the attempt window and drops unknown types', function() {
+    const attempt = makeAttempt();
+    const now = new Date(at(60));
+    const result = Proctoring.recordEvents(attempt, [
+      { type: 'copy', occurredAt: at(-3600) },
+      { type: 'copy', occurredAt: at(3600) },
+      { type: 'screenshot', occurredAt: at(30) }
+    ], now);
+
+    assert.strictEqual(result.recorded, 2);
+    assert.strictEqual(attempt.proctoringEvents[0].occurredAt.getTime(), start.getTime());
+    assert.strictEqual(attempt.proctoringEvents[1].occurredAt.getTime(), now.getTime());
+  });
+
+  it('keeps recording violations once the event log is full', function() {
+    const attempt = makeAttempt();
+    const flood = Array.from({ length: 600 }, () => ({ type: 'right_click', occurredAt: at(10) }));
+    assert.strictEqual(Proctoring.recordEvents(attempt, flood, new Date(at(20))).recorded, 500);
+
+    const result = Proctoring.recordEvents(attempt, [
+      { type: 'window_blur', occurredAt: at(30) },
+      { type: 'tab_switch', occurredAt: at(30) }
+    ], new Date(at(40)));
+    assert.deepStrictEqual(result, { recorded: 1, violations: 1 });
+    assert.strictEqual(attempt.proctoringEvents[500].type, 'tab_switch');
+  });
+
+  it('reports when the violation limit is reached', function() {
+    const attempt = makeAttempt();
+    Proctoring.recordEvents(attempt, [
+      { type: 'tab_switch', occurredAt: at(10) },
+      { type: 'tab_switch', occurredAt: at(20) }
+    ], new Date(at(30)));
+    assert.strictEqual(Proctoring.hasReachedLimit(attempt), false);
+
+    Proctoring.recordEvents(attempt, [{ type: 'fullscreen_exit', occurredAt: at(40) }], new Date(at(50)));
+    assert.strictEqual(attempt.violations, Proctoring.MAX_VIOLATIONS);
+    assert.strictEqual(Proctoring.hasReachedLimit(attempt), true);
+  });
+
+  it('fills in the default policy for tests saved without one', function() {
+    assert.deepStrictEqual(Proctoring.getPolicy({}), Proctoring.DEFAULT_POLICY);
+    assert.deepStrictEqual(Proctoring.getPolicy({ proctoring: { maxViolations: 0, onLimit: 'ignore' } }), Proctoring.DEFAULT_POLICY);
+  });
+
+  it('counts only the events in the test policy and honours its limit action', function() {
+    const policy = Proctoring.getPolicy({
+      proctoring: { countedEvents: ['right_click'], maxViolations: 1, onLimit: 'warn' }
+    });
+    const attempt = makeAttempt();
+    Proctoring.recordEvents(attempt, [
+      { type: 'tab_switch', occurredAt: at(10) },
+      { type: 'right_click', occurredAt: at(20) }
+    ], new Date(at(30)), policy);
+
+    assert.deepStrictEqual(attempt.proctoringEvents.map(e => e.counted), [false, true]);
+    assert.strictEqual(Proctoring.hasReachedLimit(attempt, policy), true);
+    assert.strictEqual(Proctoring.shouldAutoSubmit(attempt, policy), false);
+    assert.strictEqual(Proctoring.shouldAutoSubmit(attempt, { ...policy, onLimit: 'submit' }), true);
+  });
+
+  it('keeps webcam snapshots off unless enabled and clamps their interval', function() {
+    assert.strictEqual(Proctoring.getPolicy({ proctoring: { webcamSnapshots: 'yes' } }).webcamSnapshots, false);
+    assert.strictEqual(Proctoring.getPolicy({ proctoring: { snapshotInterval: 5 } }).snapshotInterval, Proctoring.SNAPSHOT_INTERVAL.min);
+    assert.strictEqual(Proctoring.getPolicy({ proctoring: { snapshotInterval: 3600 } }).snapshotInterval, Proctoring.SNAPSHOT_INTERVAL.max);
+
+    const attempt = makeAttempt();
+    assert.strictEqual(Proctoring.canStoreSnapshot(attempt), false);
+    assert.strictEqual(Proctoring.canStoreSnapshot(attempt, Proctoring.getPolicy({ proctoring: { webcamSnapshots: true } })), true);
+  });
+
+  it('clamps snapshot times to the attempt window', function() {
+    const attempt = makeAttempt();
+    const now = new Date(at(60));
+    assert.strictEqual(Proctoring.clampTime(attempt, at(30), now).getTime(), new Date(at(30)).getTime());
+    assert.strictEqual(Proctoring.clampTime(attempt, at(-30), now).getTime(), start.getTime());
+    assert.strictEqual(Proctoring.clampTime(attempt, 'not a date', now).getTime(), now.getTime());
+  });
+});
@@ -0,0 +1,87 @@
+const request = require('supertest');
+const app = require('../server');
+const assert = require('assert');
+const BankQuestion = require('../models/BankQuestion');
+
+describe('Question bank', function() {
+  this.timeout(10000);
+
+  let agent;
+  let token;
+  const createdIds = [];
+
+  const sampleQuestion = (n, difficulty) => ({
+    questionText: `Bank test question ${n}`,
+    options: { A: 'One', B: 'Two', C: 'Three', D: 'Four' },
+    correctAnswer: 'B',
+    subject: 'Arithmetic',
+    topics: ['Bank Test Topic'],
+    difficulty,
+    tags: ['bank-test']
+  });
+
+  before(async function() {
+    agent = request(app);
+    const loginRes = await agent
+      .post('/api/auth/login')
+      .send({ email: 'carelinkdesk@gmail.com', password: 'admin123' })
+      .expect(200);
+    token = loginRes.body.token;
+  });
+
+  it('should create bank questions', async function() {
+    for (const [n, difficulty] of [[1, 'Easy'], [2, 'Easy'], [3, 'Hard']]) {
+      const res = await agent
+        .post('/api/question-bank')
+        .set('Authorization', `Bearer ${token}`)
+        .send(sampleQuestion(n, difficulty))
+        .expect(201);
+      createdIds.push(res.body.question._id);
+    }
+    assert.strictEqual(createdIds.length, 3);
+  });
+
+  it('should filter by topic and difficulty', async function() {
+    const res = await agent
+      .get('/api/question-bank?topics=Bank%20Test%20Topic&difficulty=Easy')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    assert.strictEqual(res.body.total, 2);
+    assert(res.body.questions.every(q => q.difficulty === 'Easy'));
+  });
+
+  it('should draw random questions shaped for a test, skipping excluded ones', async function() {
+    const res = await agent
+      .post('/api/question-bank/random')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ count: 5, topics: ['Bank Test Topic'], excludeIds: [createdIds[0]] })
+      .expect(200);
+
+    assert.strictEqual(res.body.available, 2);
+    assert.strictEqual(res.body.questions.length, 2);
+    res.body.questions.forEach(q => {
+      assert(q.bankQuestionId, 'bankQuestionId expected');
+      assert.notStrictEqual(q.bankQuestionId, createdIds[0]);
+      assert.strictEqual(q.correctAnswer, 'B');
+    });
+  });
+
+  it('should hide deleted questions from listings', async function() {
+    await agent
+      .delete(`/api/question-bank/${createdIds[2]}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const res = await agent
+      .get('/api/question-bank?tags=bank-test')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    assert(!res.body.questions.some(q => q._id === createdIds[2]));
+  });
+
+  after(async function() {
+    await BankQuestion.deleteMany({ _id: { $in: createdIds } });
+  });
+});
@@ -0,0 +1,49 @@
+const assert = require('assert');
+const QuestionPool = require('../utils/questionPool');
+
+describe('QuestionPool', function() {
+  const fixedSection = {
+    _id: 'section-fixed',
+    questionSource: 'fixed',
+    questions: [{ _id: 'f1' }, { _id: 'f2' }]
+  };
+  const poolSection = {
+    _id: 'section-pool',
+    questionSource: 'pool',
+    numberOfQuestions: 2,
+    pool: { easy: 1, medium: 1, hard: 0 },
+    questions: []
+  };
+  const test = { hasSections: true, sections: [fixedSection, poolSection] };
+
+  const attemptFor = (...ids) => ({
+    poolQuestions: [{ sectionId: 'section-pool', questions: ids.map(id => ({ _id: id })) }]
+  });
+
+  it('resolves pool sections to the questions drawn for the attempt', function() {
+    const attempt = attemptFor('b1', 'b2');
+    assert.deepStrictEqual(QuestionPool.getSectionQuestions(poolSection, attempt).map(q => q._id), ['b1', 'b2']);
+    assert.deepStrictEqual(QuestionPool.getSectionQuestions(fixedSection, attempt).map(q => q._id), ['f1', 'f2']);
+    assert.deepStrictEqual(QuestionPool.getTestQuestions(test, attempt).map(q => q._id), ['f1', 'f2', 'b1', 'b2']);
+  });
+
+  it('collects every served question once across attempts', function() {
+    const attempts = [attemptFor('b1', 'b2'), attemptFor('b2', 'b3')];
+    assert.deepStrictEqual(
+      QuestionPool.collectQuestions(test, attempts).map(q => q._id),
+      ['f1', 'f2', 'b1', 'b2', 'b3']
+    );
+  });
+
+  it('knows which attempts were served a pool question', function() {
+    const attempts = [attemptFor('b1', 'b2'), attemptFor('b2', 'b3')];
+    assert.deepStrictEqual(attempts.map(a => QuestionPool.wasServed(test, a, 'b1')), [true, false]);
+    assert.deepStrictEqual(attempts.map(a => QuestionPool.wasServed(test, a, 'f1')), [true, true]);
+  });
+
+  it('sums the difficulty mix of a pool rule', function() {
+    assert.strictEqual(QuestionPool.getMixTotal({ easy: 4, medium: 4, hard: 2 }), 10);
+    assert.strictEqual(QuestionPool.hasPoolSections(test), true);
+    assert.strictEqual(QuestionPool.hasPoolSections({ hasSections: true, sections: [fixedSection] }), false);
+  });
+});
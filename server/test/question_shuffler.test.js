@@ -0,0 +1,73 @@
+const assert = require('assert');
+const QuestionShuffler = require('../utils/questionShuffler');
+
+describe('QuestionShuffler', function() {
+  const questions = ['q1', 'q2', 'q3', 'q4', 'q5', 'q6', 'q7', 'q8'];
+
+  it('produces the same question order for the same seed', function() {
+    const first = QuestionShuffler.getQuestionOrder(questions, 12345, 'section-1');
+    const second = QuestionShuffler.getQuestionOrder(questions, 12345, 'section-1');
+    assert.deepStrictEqual(first, second);
+    assert.deepStrictEqual([...first].sort(), [...questions].sort());
+  });
+
+  it('produces different orders for different seeds', function() {
+    const orders = new Set([1, 2, 3, 4, 5].map(seed => QuestionShuffler.getQuestionOrder(questions, seed).join(',')));
+    assert(orders.size > 1, 'expected at least two distinct orders');
+  });
+
+  it('does not mutate the input array', function() {
+    const input = [...questions];
+    QuestionShuffler.shuffle(input, 99);
+    assert.deepStrictEqual(input, questions);
+  });
+
+  it('maps displayed labels back to canonical answers', function() {
+    const order = QuestionShuffler.getOptionOrder('64b7f0c2a1b2c3d4e5f60718', 424242);
+    assert.deepStrictEqual([...order].sort(), ['A', 'B', 'C', 'D']);
+
+    ['A', 'B', 'C', 'D'].forEach(canonical => {
+      const displayed = QuestionShuffler.toDisplayedAnswer(canonical, order);
+      assert.strictEqual(QuestionShuffler.toCanonicalAnswer(displayed, order), canonical);
+    });
+  });
+
+  it('reorders option text to match the displayed labels', function() {
+    const options = { A: 'alpha', B: 'beta', C: 'gamma', D: 'delta' };
+    const order = ['C', 'A', 'D', 'B'];
+    assert.deepStrictEqual(QuestionShuffler.reorderOptions(options, order), {
+      A: 'gamma', B: 'alpha', C: 'delta', D: 'beta'
+    });
+    assert.strictEqual(QuestionShuffler.toCanonicalAnswer('A', order), 'C');
+    assert.strictEqual(QuestionShuffler.toDisplayedAnswer('B', order), 'D');
+    assert.deepStrictEqual(QuestionShuffler.toCanonicalAnswer(['A'], order), ['A']);
+    assert.strictEqual(QuestionShuffler.toDisplayedAnswer(3, order), 3);
+  });
+
+  it('leaves unshuffled attempts in authored order', function() {
+    const test = { hasSections: false, questions: questions.map(id => ({ _id: id })) };
+    const attempt = { shuffle: { seed: 777, questions: false, options: false } };
+
+    const result = QuestionShuffler.getAttemptQuestions(attempt, test);
+    assert.deepStrictEqual(result.map(r => r.question._id), questions);
+    assert(result.every(r => r.optionOrder === null));
+  });
+
+  it('rebuilds the same per-section order for a shuffled attempt', function() {
+    const test = {
+      hasSections: true,
+      sections: [
+        { _id: 's1', questions: questions.slice(0, 4).map(id => ({ _id: id })) },
+        { _id: 's2', questions: questions.slice(4).map(id => ({ _id: id })) }
+      ]
+    };
+    const attempt = { shuffle: { seed: 31337, questions: true, options: true } };
+
+    const first = QuestionShuffler.getAttemptQuestions(attempt, test).map(r => r.question._id);
+    const second = QuestionShuffler.getAttemptQuestions(attempt, test).map(r => r.question._id);
+    assert.deepStrictEqual(first, second);
+    // Questions never move across sections
+    assert.deepStrictEqual(first.slice(0, 4).sort(), questions.slice(0, 4));
+    assert.deepStrictEqual(first.slice(4).sort(), questions.slice(4));
+  });
+});
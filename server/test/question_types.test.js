@@ -0,0 +1,93 @@
+const assert = require('assert');
+const QuestionTypes = require('../utils/questionTypes');
+const QuestionShuffler = require('../utils/questionShuffler');
+const FileExtractor = require('../utils/fileExtractor');
+
+describe('QuestionTypes', function() {
+  it('validates option counts and correct answers of choice questions', function() {
+    const base = { questionType: 'single', options: { A: 'one', B: 'two' }, correctAnswer: 'B' };
+    assert.strictEqual(QuestionTypes.validateQuestion(base), null);
+    assert.ok(QuestionTypes.validateQuestion({ ...base, options: { A: 'only' }, correctAnswer: 'A' }));
+    assert.ok(QuestionTypes.validateQuestion({ ...base, options: { A: 'one', C: 'gap' }, correctAnswer: 'A' }));
+    assert.ok(QuestionTypes.validateQuestion({ ...base, correctAnswer: 'E' }));
+    assert.ok(QuestionTypes.validateQuestion({ ...base, correctAnswer: 'A,B' }));
+    assert.strictEqual(QuestionTypes.validateQuestion({ ...base, questionType: 'multiple', correctAnswer: 'A,B' }), null);
+  });
+
+  it('grades multiple-correct answers regardless of label order', function() {
+    const question = QuestionTypes.normalizeQuestion({
+      questionType: 'multiple',
+      options: { A: 'a', B: 'b', C: 'c', D: 'd', E: 'e' },
+      correctAnswer: 'E, A'
+    });
+    assert.strictEqual(question.correctAnswer, 'A,E');
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'E,A'), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'A'), false);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'A,C,E'), false);
+  });
+
+  it('stores true/false as a fixed two-option question', function() {
+    const question = QuestionTypes.normalizeQuestion({ questionType: 'true_false', correctAnswer: 'B' });
+    assert.deepStrictEqual(question.options, { A: 'True', B: 'False' });
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'B'), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'A'), false);
+  });
+
+  it('accepts numeric answers within the tolerance', function() {
+    const question = QuestionTypes.normalizeQuestion({ questionType: 'numeric', correctAnswer: '3.14', tolerance: '0.01' });
+    assert.strictEqual(QuestionTypes.isCorrect(question, '3.15'), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, ' 3.13 '), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, '3.2'), false);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'pi'), false);
+    assert.strictEqual(QuestionTypes.describeCorrectAnswer(question), '3.14 (±0.01)');
+  });
+
+  it('matches fill-in-the-blank answers against accepted variants', function() {
+    const question = QuestionTypes.normalizeQuestion({
+      questionType: 'fill_blank',
+      correctAnswer: '',
+      acceptedAnswers: ['New Delhi', ' Delhi ']
+    });
+    assert.strictEqual(question.correctAnswer, 'New Delhi');
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'new  delhi'), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'DELHI'), true);
+    assert.strictEqual(QuestionTypes.isCorrect(question, 'Mumbai'), false);
+    assert.strictEqual(QuestionTypes.isCorrect({ ...question, caseSensitive: true }, 'delhi'), false);
+  });
+
+  it('shuffles only the options a choice question uses', function() {
+    const attempt = { shuffle: { seed: 2024, questions: false, options: true } };
+    const sixOptions = {
+      _id: 'q-six',
+      questionType: 'multiple',
+      options: { A: 'a', B: 'b', C: 'c', D: 'd', E: 'e', F: 'f' },
+      correctAnswer: 'B,F'
+    };
+    const order = QuestionShuffler.getAttemptOptionOrder(attempt, sixOptions);
+    assert.deepStrictEqual([...order].sort(), ['A', 'B', 'C', 'D', 'E', 'F']);
+
+    const displayed = QuestionShuffler.toDisplayedAnswer(sixOptions.correctAnswer, order);
+    assert.strictEqual(QuestionShuffler.toCanonicalAnswer(displayed, order), 'B,F');
+
+    assert.strictEqual(QuestionShuffler.getAttemptOptionOrder(attempt, { _id: 'q-tf', questionType: 'true_false' }), null);
+    assert.strictEqual(QuestionShuffler.getAttemptOptionOrder(attempt, { _id: 'q-num', questionType: 'numeric' }), null);
+  });
+
+  it('imports typed questions from CSV', async function() {
+    const rows = [
+      'type,question,optionA,optionB,optionC,optionE,correctAnswer,correctAnswers,tolerance,acceptedAnswers',
+      'multiple,Pick primes,2,4,5,,,A|C,,',
+      'true_false,The sky is blue,,,,,true,,,',
+      'numeric,Half of 5,,,,,2.5,,0.05,',
+      'fill,Capital of France,,,,,,,,Paris|paris city',
+      'single,Bad gap,one,two,,five,A,,,'
+    ].join('\n');
+
+    const questions = await FileExtractor.extractFromCSV(Buffer.from(rows));
+    assert.deepStrictEqual(questions.map(q => q.questionType), ['multiple', 'true_false', 'numeric', 'fill_blank']);
+    assert.strictEqual(questions[0].correctAnswer, 'A,C');
+    assert.strictEqual(questions[1].correctAnswer, 'A');
+    assert.strictEqual(questions[2].tolerance, 0.05);
+    assert.deepStrictEqual(questions[3].acceptedAnswers, ['Paris', 'paris city']);
+  });
+});
@@ -0,0 +1,43 @@
+const assert = require('assert');
+const Scoring = require('../utils/scoring');
+
+describe('Scoring', function() {
+  const single = { _id: 's1', questionType: 'single', options: { A: 'a', B: 'b' }, correctAnswer: 'A', marks: 4 };
+  const multiple = {
+    _id: 'm1',
+    questionType: 'multiple',
+    options: { A: 'a', B: 'b', C: 'c', D: 'd' },
+    correctAnswer: 'A,B,C',
+    marks: 3
+  };
+
+  it('deducts negative marks for wrong answers only', function() {
+    const policy = { negativeMarks: 0.25, partialCredit: false };
+    assert.deepStrictEqual(Scoring.scoreAnswer(single, 'A', policy), { isCorrect: true, isPartial: false, marksObtained: 4 });
+    assert.strictEqual(Scoring.scoreAnswer(single, 'B', policy).marksObtained, -0.25);
+    assert.strictEqual(Scoring.scoreAnswer(single, '', policy).marksObtained, 0);
+  });
+
+  it('awards partial credit for picking only correct options', function() {
+    const policy = { negativeMarks: 1, partialCredit: true };
+    assert.deepStrictEqual(Scoring.scoreAnswer(multiple, 'A,C', policy), { isCorrect: false, isPartial: true, marksObtained: 2 });
+    assert.deepStrictEqual(Scoring.scoreAnswer(multiple, 'A,D', policy), { isCorrect: false, isPartial: false, marksObtained: -1 });
+    assert.strictEqual(Scoring.scoreAnswer(multiple, 'C,B,A', policy).isCorrect, true);
+    assert.strictEqual(Scoring.scoreAnswer(multiple, 'A', { negativeMarks: 1, partialCredit: false }).marksObtained, -1);
+  });
+
+  it('lets sections override the test policy', function() {
+    const test = {
+      hasSections: true,
+      scoring: { negativeMarks: 0.5, partialCredit: true },
+      sections: [
+        { _id: 'sec1', questionSource: 'fixed', questions: [single], negativeMarks: null, partialCredit: null },
+        { _id: 'sec2', questionSource: 'fixed', questions: [multiple], negativeMarks: 0, partialCredit: false }
+      ]
+    };
+    const policies = Scoring.getQuestionPolicies(test, null);
+    assert.deepStrictEqual(policies.get('s1'), { negativeMarks: 0.5, partialCredit: true });
+    assert.deepStrictEqual(policies.get('m1'), { negativeMarks: 0, partialCredit: false });
+    assert.deepStrictEqual(Scoring.getPolicy({}), Scoring.DEFAULT_POLICY);
+  });
+});
@@ -0,0 +1,98 @@
+const assert = require('assert');
+const SectionNavigation = require('../utils/sectionNavigation');
+
+describe('SectionNavigation', function() {
+  const makeTest = (mode) => ({
+    hasSections: true,
+    sectionNavigation: mode,
+    sections: [
+      { _id: 's1', sectionDuration: 10, questions: [{ _id: 'q1' }, { _id: 'q2' }] },
+      { _id: 's2', sectionDuration: 20, questions: [{ _id: 'q3' }] },
+      { _id: 's3', sectionDuration: 30, questions: [{ _id: 'q4' }] }
+    ]
+  });
+  const makeAttempt = (session = {}) => ({
+    session: { currentSectionIndex: 0, remainingTime: null, carriedOverTime: 0, ...session }
+  });
+  const start = new Date('2025-01-01T10:00:00Z');
+  const at = (seconds) => new Date(start.getTime() + seconds * 1000);
+
+  it('defaults to sequential for tests without a valid mode', function() {
+    assert.strictEqual(SectionNavigation.getMode({}), 'sequential');
+    assert.strictEqual(SectionNavigation.getMode({ sectionNavigation: 'anything' }), 'sequential');
+    assert.strictEqual(SectionNavigation.getMode(makeTest('free')), 'free');
+  });
+
+  it('refuses moving back into a closed section', function() {
+    const test = makeTest('sequential');
+    const attempt = makeAttempt({ currentSectionIndex: 1 });
+
+    assert.strictEqual(SectionNavigation.moveTo(test, attempt, 0), false);
+    assert.strictEqual(attempt.session.currentSectionIndex, 1);
+  });
+
+  it('drops unused time when moving on in sequential mode', function() {
+    const test = makeTest('sequential');
+    const attempt = makeAttempt({ remainingTime: 300, lastSavedAt: start });
+
+    assert.strictEqual(SectionNavigation.moveTo(test, attempt, 1, undefined, at(60)), true);
+    assert.strictEqual(attempt.session.currentSectionIndex, 1);
+    assert.strictEqual(attempt.session.carriedOverTime, 0);
+    assert.strictEqual(attempt.session.remainingTime, null);
+    assert.strictEqual(SectionNavigation.getTimeLimit(test, attempt), 1200);
+  });
+
+  it('carries unused time over, less the time since it was saved', function() {
+    const test = makeTest('carry_over');
+    const attempt = makeAttempt({ remainingTime: 300, lastSavedAt: start });
+
+    SectionNavigation.moveTo(test, attempt, 1, undefined, at(60));
+    assert.strictEqual(attempt.session.carriedOverTime, 240);
+    assert.strictEqual(SectionNavigation.getTimeLimit(test, attempt), 1440);
+  });
+
+  it('counts the time since the last save when resuming a section timer', function() {
+    const test = makeTest('sequential');
+    const attempt = makeAttempt({ remainingTime: 300, lastSavedAt: start });
+
+    assert.strictEqual(SectionNavigation.getRemainingTime(test, attempt, undefined, at(120)), 180);
+    assert.strictEqual(SectionNavigation.getRemainingTime(test, attempt, undefined, at(900)), 0);
+    assert.strictEqual(SectionNavigation.getRemainingTime(test, makeAttempt(), undefined, at(120)), null);
+  });
+
+  it('caps carried-over time at what the section could have left', function() {
+    const test = makeTest('carry_over');
+    const attempt = makeAttempt({ remainingTime: 5000, lastSavedAt: start });
+
+    SectionNavigation.moveTo(test, attempt, 1, undefined, start);
+    assert.strictEqual(attempt.session.carriedOverTime, 600);
+  });
+
+  it('lets free mode move to any section under one timer', function() {
+    const test = makeTest('free');
+    const attempt = makeAttempt({ currentSectionIndex: 2 });
+
+    assert.strictEqual(SectionNavigation.moveTo(test, attempt, 0), true);
+    assert.strictEqual(attempt.session.currentSectionIndex, 0);
+    assert.strictEqual(SectionNavigation.getTimeLimit(test, attempt), 3600);
+  });
+
+  it('rejects answers to closed sections only in locked modes', function() {
+    const answers = [{ questionId: 'q1' }, { questionId: 'q3' }, { questionId: 'q4' }];
+    const attempt = makeAttempt({ currentSectionIndex: 1 });
+
+    const locked = SectionNavigation.filterOpenAnswers(makeTest('sequential'), attempt, answers);
+    assert.deepStrictEqual(locked.accepted.map(a => a.questionId), ['q3', 'q4']);
+    assert.deepStrictEqual(locked.rejected.map(a => a.questionId), ['q1']);
+
+    const free = SectionNavigation.filterOpenAnswers(makeTest('free'), attempt, answers);
+    assert.strictEqual(free.accepted.length, 3);
+    assert.strictEqual(free.rejected.length, 0);
+  });
+
+  it('uses the test duration for tests without sections', function() {
+    const test = { hasSections: false, duration: 45 };
+    assert.strictEqual(SectionNavigation.getTimeLimit(test, makeAttempt()), 2700);
+    assert.strictEqual(SectionNavigation.moveTo(test, makeAttempt(), 0), true);
+  });
+});
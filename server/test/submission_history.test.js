@@ -0,0 +1,51 @@
+const assert = require('assert');
+const SubmissionHistory = require('../utils/submissionHistory');
+
+describe('SubmissionHistory', function() {
+  it('formats a submission without its test results', function() {
+    const submittedAt = new Date('2026-03-01T10:00:00Z');
+    const entry = SubmissionHistory.formatSubmission({
+      _id: 's1',
+      question_id: { _id: 'q1', title: 'Two Sum' },
+      language: 'python',
+      code: 'print(1)',
+      status: 'wrong_answer',
+      score: 40,
+      test_cases_passed: 2,
+      total_test_cases: 5,
+      execution_time: 12,
+      memory_used: 2048,
+      error_message: null,
+      is_practice: true,
+      test_attempt_id: null,
+      test_results: [{ input: 'hidden' }],
+      submitted_at: submittedAt
+    });
+
+    assert.strictEqual(entry.questionId, 'q1');
+    assert.strictEqual(entry.questionTitle, 'Two Sum');
+    assert.strictEqual(entry.testCasesPassed, 2);
+    assert.strictEqual(entry.submittedAt, submittedAt);
+    assert.strictEqual(entry.testResults, undefined);
+  });
+
+  it('keeps the question id when the question is not populated', function() {
+    const entry = SubmissionHistory.formatSubmission({ _id: 's1', question_id: 'q1', status: 'accepted' });
+    assert.strictEqual(entry.questionId, 'q1');
+    assert.strictEqual(entry.questionTitle, null);
+    assert.strictEqual(entry.isPractice, false);
+  });
+
+  it('summarises submissions by question, most recent first', function() {
+    const summaries = SubmissionHistory.getQuestionSummaries([
+      { question_id: { _id: 'q2', title: 'B' }, status: 'wrong_answer', score: 20, submitted_at: 3 },
+      { question_id: { _id: 'q1', title: 'A' }, status: 'accepted', score: 100, submitted_at: 2 },
+      { question_id: { _id: 'q2', title: 'B' }, status: 'runtime_error', score: 60, submitted_at: 1 }
+    ]);
+
+    assert.deepStrictEqual(summaries, [
+      { questionId: 'q2', questionTitle: 'B', submissionCount: 2, bestScore: 60, accepted: false, lastSubmittedAt: 3 },
+      { questionId: 'q1', questionTitle: 'A', submissionCount: 1, bestScore: 100, accepted: true, lastSubmittedAt: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// Extra time and later closing times granted to individual students, e.g. for documented
+// accommodations or after a lab power failure. The grant is kept on the student's
+// TestAssignment; attempts carry a copy so timers can be checked without loading it.
+const MAX_EXTRA_MINUTES = 600;
+
+const hasSections = (test) => !!(test.hasSections && test.sections && test.sections.length > 0);
+
+const toTime = (date) => (date ? new Date(date).getTime() : null);
+
+class Accommodations {
+  // The grant on an assignment, or the copy on an attempt
+  static getGrant(source) {
+    const accommodation = source?.accommodation || {};
+    return {
+      extraMinutes: accommodation.extraMinutes || 0,
+      extendedEndDateTime: accommodation.extendedEndDateTime || null
+    };
+  }
+
+  static hasGrant(source) {
+    const { extraMinutes, extendedEndDateTime } = Accommodations.getGrant(source);
+    return extraMinutes > 0 || !!extendedEndDateTime;
+  }
+
+  // When the test closes for this student: the later of the test's end and their own window
+  static getEndDateTime(test, source) {
+    const end = new Date(test.endDateTime);
+    const { extendedEndDateTime } = Accommodations.getGrant(source);
+    return extendedEndDateTime && new Date(extendedEndDateTime) > end ? new Date(extendedEndDateTime) : end;
+  }
+
+  // Extra seconds on a section's timer. Sectioned tests share the extra minutes out in
+  // proportion to section length; unsectioned tests and free navigation get them all on
+  // their single timer. Mirrored by getExtraSeconds in src/components/Test/examPlayer.ts.
+  static getExtraSeconds(test, source, sectionIndex, mode) {
+    const total = Accommodations.getGrant(source).extraMinutes * 60;
+    if (!total || !hasSections(test) || mode === 'free') return total;
+
+    const durations = test.sections.map(section => section.sectionDuration || 0);
+    const testMinutes = durations.reduce((sum, minutes) => sum + minutes, 0);
+    if (!testMinutes || !test.sections[sectionIndex]) return 0;
+
+    // Rounded cumulatively so the shares add up to exactly the extra time
+    const before = durations.slice(0, sectionIndex).reduce((sum, minutes) => sum + minutes, 0);
+    return Math.round(total * (before + durations[sectionIndex]) / testMinutes) - Math.round(total * before / testMinutes);
+  }
+
+  // A client that has not yet heard about a change in extra time reports a timer without it;
+  // shift the reported time by the difference for the open section
+  static adjustReportedTime(test, attempt, remainingTime, reportedExtraMinutes, mode) {
+    if (remainingTime === null || remainingTime === undefined || reportedExtraMinutes === undefined) return remainingTime;
+
+    const sectionIndex = attempt.session?.currentSectionIndex || 0;
+    const reported = { accommodation: { extraMinutes: reportedExtraMinutes } };
+    return remainingTime +
+      Accommodations.getExtraSeconds(test, attempt, sectionIndex, mode) -
+      Accommodations.getExtraSeconds(test, reported, sectionIndex, mode);
+  }
+
+  // Copies the assignment's grant onto the attempt. A timer that is already running gains
+  // (or loses) the change in extra time for the open section. Returns whether anything changed.
+  static applyToAttempt(test, attempt, assignment, mode) {
+    const grant = Accommodations.getGrant(assignment);
+    const current = Accommodations.getGrant(attempt);
+    if (grant.extraMinutes === current.extraMinutes &&
+      toTime(grant.extendedEndDateTime) === toTime(current.extendedEndDateTime)) return false;
+
+    const sectionIndex = attempt.session?.currentSectionIndex || 0;
+    const before = Accommodations.getExtraSeconds(test, attempt, sectionIndex, mode);
+    attempt.accommodation = grant;
+    const after = Accommodations.getExtraSeconds(test, attempt, sectionIndex, mode);
+
+    const remainingTime = attempt.session?.remainingTime;
+    if (remainingTime !== null && remainingTime !== undefined) {
+      attempt.session.remainingTime = Math.max(0, remainingTime + after - before);
+    }
+    return true;
+  }
+}
+
+Accommodations.MAX_EXTRA_MINUTES = MAX_EXTRA_MINUTES;
+
+module.exports = Accommodations;
@@ -0,0 +1,124 @@
+const QuestionTypes = require('./questionTypes');
+
+// Answer-pattern collusion check for MCQ tests.
+//
+// Two students who both got a question wrong match by chance with probability
+// sum(share_o^2), where share_o is the fraction of all wrong answers to that question
+// that picked option o. Over the questions both got wrong the number of chance matches
+// follows a Poisson binomial distribution; a pair is suspicious when the probability of
+// sharing at least as many identical wrong answers by chance is below ALPHA.
+
+const ALPHA = 0.001;
+const MIN_SHARED = 3;
+
+const normalizeAnswer = (answer) => String(answer).trim().toUpperCase();
+
+const isWrong = (answer) => answer && !answer.isCorrect && !answer.isPartial && QuestionTypes.isAnswered(answer.selectedAnswer);
+
+// Wrong answers of one attempt, keyed by question id
+const wrongAnswers = (answers = []) => {
+  const wrong = new Map();
+  answers.filter(isWrong).forEach(answer => {
+    wrong.set(answer.questionId.toString(), answer);
+  });
+  return wrong;
+};
+
+class AnswerCollusion {
+  // For every question, how often each wrong answer was chosen: Map<questionId, Map<answer, count>>
+  static getWrongAnswerCounts(attempts) {
+    const counts = new Map();
+    attempts.forEach(attempt => {
+      wrongAnswers(attempt.answers).forEach((answer, questionId) => {
+        if (!counts.has(questionId)) counts.set(questionId, new Map());
+        const options = counts.get(questionId);
+        const key = normalizeAnswer(answer.selectedAnswer);
+        options.set(key, (options.get(key) || 0) + 1);
+      });
+    });
+    return counts;
+  }
+
+  // Chance that two students who both answered wrongly picked the same wrong answer
+  static getMatchProbability(options) {
+    const total = [...options.values()].reduce((sum, count) => sum + count, 0);
+    if (total === 0) return 0;
+    return [...options.values()].reduce((sum, count) => sum + (count / total) ** 2, 0);
+  }
+
+  // P(X >= observed) where X is the number of successes of independent trials
+  static tailProbability(probabilities, observed) {
+    if (observed <= 0) return 1;
+    // distribution[k] = P(exactly k matches so far)
+    let distribution = [1];
+    probabilities.forEach(p => {
+      const next = new Array(distribution.length + 1).fill(0);
+      distribution.forEach((value, k) => {
+        next[k] += value * (1 - p);
+        next[k + 1] += value * p;
+      });
+      distribution = next;
+    });
+    const tail = distribution.slice(observed).reduce((sum, value) => sum + value, 0);
+    return Math.min(1, Math.max(0, tail));
+  }
+
+  // Identical wrong answers of two attempts and how likely that many are by chance
+  static comparePair(first, second, counts) {
+    const firstWrong = wrongAnswers(first.answers);
+    const secondWrong = wrongAnswers(second.answers);
+
+    const probabilities = [];
+    const shared = [];
+    firstWrong.forEach((answer, questionId) => {
+      const other = secondWrong.get(questionId);
+      if (!other) return;
+      const options = counts.get(questionId) || new Map();
+      probabilities.push(AnswerCollusion.getMatchProbability(options));
+      const key = normalizeAnswer(answer.selectedAnswer);
+      if (key === normalizeAnswer(other.selectedAnswer)) {
+        // chosenBy / totalWrong shows how popular this wrong answer was overall
+        const totalWrong = [...options.values()].reduce((sum, count) => sum + count, 0);
+        shared.push({ questionId, answer, other, chosenBy: options.get(key) || 0, totalWrong });
+      }
+    });
+
+    const expected = probabilities.reduce((sum, p) => sum + p, 0);
+    return {
+      bothWrong: probabilities.length,
+      shared,
+      expected,
+      probability: AnswerCollusion.tailProbability(probabilities, shared.length)
+    };
+  }
+
+  // Pairs within the same group (class section) whose identical wrong answers are
+  // unlikely to be chance, most suspicious first. Attempts are { id, group, answers }.
+  static findSuspiciousPairs(attempts, { alpha = ALPHA, minShared = MIN_SHARED } = {}) {
+    const counts = AnswerCollusion.getWrongAnswerCounts(attempts);
+    const groups = new Map();
+    attempts.forEach(attempt => {
+      if (!groups.has(attempt.group)) groups.set(attempt.group, []);
+      groups.get(attempt.group).push(attempt);
+    });
+
+    const pairs = [];
+    groups.forEach(members => {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const result = AnswerCollusion.comparePair(members[i], members[j], counts);
+          if (result.shared.length >= minShared && result.probability < alpha) {
+            pairs.push({ a: members[i].id, b: members[j].id, ...result });
+          }
+        }
+      }
+    });
+
+    return pairs.sort((x, y) => x.probability - y.probability || y.shared.length - x.shared.length);
+  }
+}
+
+AnswerCollusion.ALPHA = ALPHA;
+AnswerCollusion.MIN_SHARED = MIN_SHARED;
+
+module.exports = AnswerCollusion;
@@ -0,0 +1,52 @@
+const Accommodations = require('./accommodations');
+
+// Answers and submissions are still accepted this long after the deadline, to allow for
+// network delay on the last save
+const GRACE_SECONDS = 30;
+
+// Coding questions saved without a time limit get an hour each
+const DEFAULT_CODING_SECONDS = 3600;
+
+const hasSections = (test) => !!(test.hasSections && test.sections && test.sections.length > 0);
+
+// The server's own clock for an attempt. Each attempt must be finished by the earlier of
+// its start time plus the test's time (MCQ sections, the coding round and any extra
+// minutes granted to the student) and the time the test closes for the student.
+class AttemptDeadline {
+  // Minutes the test allows, before any accommodation
+  static getTestMinutes(test) {
+    const mcqMinutes = hasSections(test)
+      ? test.sections.reduce((total, section) => total + (section.sectionDuration || 0), 0)
+      : test.duration || 0;
+    const codingSeconds = test.hasCodingSection
+      ? (test.codingQuestions || []).reduce((total, question) => total + (question.timeLimit || DEFAULT_CODING_SECONDS), 0)
+      : 0;
+    return mcqMinutes + codingSeconds / 60;
+  }
+
+  static getDeadline(test, attempt) {
+    const minutes = AttemptDeadline.getTestMinutes(test) + Accommodations.getGrant(attempt).extraMinutes;
+    const byDuration = new Date(new Date(attempt.startTime).getTime() + minutes * 60 * 1000);
+    const windowEnd = Accommodations.getEndDateTime(test, attempt);
+    return byDuration < windowEnd ? byDuration : windowEnd;
+  }
+
+  static getSecondsLeft(test, attempt, now = new Date()) {
+    return Math.max(0, Math.floor((AttemptDeadline.getDeadline(test, attempt).getTime() - now.getTime()) / 1000));
+  }
+
+  // Past the deadline and the grace period
+  static isExpired(test, attempt, now = new Date()) {
+    return now.getTime() > AttemptDeadline.getDeadline(test, attempt).getTime() + GRACE_SECONDS * 1000;
+  }
+
+  // Seconds from the start of the attempt to endTime, never counting past the deadline
+  static getTimeSpent(test, attempt, endTime = new Date()) {
+    const end = Math.min(endTime.getTime(), AttemptDeadline.getDeadline(test, attempt).getTime());
+    return Math.max(0, Math.round((end - new Date(attempt.startTime).getTime()) / 1000));
+  }
+}
+
+AttemptDeadline.GRACE_SECONDS = GRACE_SECONDS;
+
+module.exports = AttemptDeadline;
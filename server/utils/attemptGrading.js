@@ -0,0 +1,90 @@
+const QuestionPool = require('./questionPool');
+const QuestionShuffler = require('./questionShuffler');
+const QuestionTypes = require('./questionTypes');
+const Scoring = require('./scoring');
+const AttemptDeadline = require('./attemptDeadline');
+
+// Grading and closing of attempts, shared by the submit route, the proctoring limit
+// and the sweeper that times out abandoned attempts
+class AttemptGrading {
+  // Answers saved on the server during the attempt are the baseline; anything sent with
+  // the submission overrides them for the same question. Answered questions are scored with
+  // their section's policy. Answers to questions that are not (or no longer) part of the
+  // attempt, such as one removed from the test mid-exam, are left out and listed in skipped.
+  static gradeAnswers(test, attempt, submittedAnswers = []) {
+    // Questions this student was served (pool sections resolve to their own draw)
+    const allQuestions = QuestionPool.getTestQuestions(test, attempt);
+
+    const finalAnswers = new Map();
+    (attempt?.responses || []).forEach(r => {
+      finalAnswers.set(r.questionId.toString(), {
+        questionId: r.questionId.toString(),
+        selectedAnswer: r.selectedAnswer,
+        timeSpent: r.timeSpent
+      });
+    });
+    submittedAnswers.forEach(answer => {
+      const saved = finalAnswers.get(String(answer.questionId));
+      const optionOrder = QuestionShuffler.getAttemptOptionOrder(
+        attempt,
+        allQuestions.find(q => q._id.toString() === String(answer.questionId))
+      );
+      finalAnswers.set(String(answer.questionId), {
+        ...saved,
+        ...answer,
+        questionId: String(answer.questionId),
+        // Submitted labels are the shuffled ones the student saw
+        selectedAnswer: optionOrder && answer.selectedAnswer
+          ? QuestionShuffler.toCanonicalAnswer(answer.selectedAnswer, optionOrder)
+          : answer.selectedAnswer
+      });
+    });
+    const answeredList = Array.from(finalAnswers.values()).filter(a => QuestionTypes.isAnswered(a.selectedAnswer));
+
+    const policies = Scoring.getQuestionPolicies(test, attempt);
+    const processedAnswers = [];
+    const skipped = [];
+    for (const answer of answeredList) {
+      const question = allQuestions.find(q => q._id.toString() === answer.questionId);
+
+      if (!question) {
+        skipped.push(answer.questionId);
+        continue;
+      }
+
+      const { isCorrect, isPartial, marksObtained } = Scoring.scoreAnswer(
+        question,
+        answer.selectedAnswer,
+        policies.get(answer.questionId)
+      );
+
+      processedAnswers.push({
+        questionId: question._id,
+        selectedAnswer: answer.selectedAnswer,
+        isCorrect,
+        isPartial,
+        marksObtained,
+        timeSpent: answer.timeSpent || 0
+      });
+    }
+
+    return { allQuestions, processedAnswers, skipped };
+  }
+
+  // Grades the saved responses and closes the attempt with the given status. Nothing
+  // counts past the deadline, so a timed-out attempt ends at its deadline.
+  static close(test, attempt, status, endTime = new Date()) {
+    const { allQuestions, processedAnswers } = AttemptGrading.gradeAnswers(test, attempt);
+
+    const deadline = AttemptDeadline.getDeadline(test, attempt);
+    attempt.endTime = endTime < deadline ? endTime : deadline;
+    attempt.timeSpent = AttemptDeadline.getTimeSpent(test, attempt, attempt.endTime);
+    attempt.answers = processedAnswers;
+    attempt.totalMarks = test.totalMarks;
+    attempt.totalQuestions = allQuestions.length;
+    attempt.status = status;
+    return attempt;
+  }
+}
+
+module.exports = AttemptGrading;
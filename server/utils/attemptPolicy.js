@@ -0,0 +1,142 @@
+// How many times a student may take a test, how long they wait between attempts and
+// which finished attempt counts towards their score:
+// - best: the attempt with the highest marks
+// - last: the most recently started attempt
+// - average: marks and percentage averaged over every finished attempt
+const SCORING_RULES = ['best', 'last', 'average'];
+
+const MAX_ATTEMPTS = 20;
+
+// Minutes a student may be made to wait before the next attempt (one week)
+const MAX_COOLDOWN_MINUTES = 10080;
+
+// Tests saved before policies existed allow a single attempt
+const DEFAULT_POLICY = {
+  maxAttempts: 1,
+  cooldownMinutes: 0,
+  scoringRule: 'best'
+};
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const startedAt = (attempt) => new Date(attempt.startTime || attempt.createdAt).getTime();
+
+class AttemptPolicy {
+  // The test's attempt policy with defaults filled in
+  static getPolicy(test) {
+    const policy = test?.attemptPolicy || {};
+    const maxAttempts = Number.isInteger(policy.maxAttempts)
+      ? Math.min(MAX_ATTEMPTS, Math.max(1, policy.maxAttempts))
+      : DEFAULT_POLICY.maxAttempts;
+    const cooldownMinutes = Number.isFinite(policy.cooldownMinutes)
+      ? Math.min(MAX_COOLDOWN_MINUTES, Math.max(0, policy.cooldownMinutes))
+      : DEFAULT_POLICY.cooldownMinutes;
+
+    return {
+      maxAttempts,
+      cooldownMinutes,
+      scoringRule: SCORING_RULES.includes(policy.scoringRule) ? policy.scoringRule : DEFAULT_POLICY.scoringRule
+    };
+  }
+
+  static isFinished(attempt) {
+    return attempt.status !== 'in_progress';
+  }
+
+  // Oldest first, the order attempts are numbered in
+  static sortAttempts(attempts) {
+    return [...attempts].sort((a, b) => startedAt(a) - startedAt(b));
+  }
+
+  // Whether the student may start another attempt now. attempts are all of the student's
+  // attempts at the test; an attempt still in progress is resumed rather than counted here.
+  static checkNewAttempt(policy, attempts, now = new Date()) {
+    const finished = AttemptPolicy.sortAttempts(attempts.filter(AttemptPolicy.isFinished));
+    const attemptsLeft = Math.max(0, policy.maxAttempts - finished.length);
+
+    if (attemptsLeft === 0) {
+      return {
+        allowed: false,
+        attemptsLeft,
+        nextAttemptAt: null,
+        error: policy.maxAttempts === 1 ? 'Test already attempted' : `All ${policy.maxAttempts} attempts have been used`
+      };
+    }
+
+    const last = finished[finished.length - 1];
+    const lastEnded = last ? new Date(last.endTime || last.updatedAt || last.startTime) : null;
+    const nextAttemptAt = lastEnded && policy.cooldownMinutes > 0
+      ? new Date(lastEnded.getTime() + policy.cooldownMinutes * 60 * 1000)
+      : null;
+
+    if (nextAttemptAt && nextAttemptAt > now) {
+      return {
+        allowed: false,
+        attemptsLeft,
+        nextAttemptAt,
+        error: `You can take this test again after ${nextAttemptAt.toISOString()}`
+      };
+    }
+
+    return { allowed: true, attemptsLeft, nextAttemptAt: null, error: null };
+  }
+
+  // The finished attempt that stands for the student's result under the scoring rule, with
+  // marksObtained and percentage set to the counted values. null if nothing is finished.
+  static getCountedResult(policy, attempts) {
+    const finished = AttemptPolicy.sortAttempts(attempts.filter(AttemptPolicy.isFinished));
+    if (finished.length === 0) return null;
+
+    if (policy.scoringRule === 'last') {
+      const attempt = finished[finished.length - 1];
+      return { attempt, marksObtained: attempt.marksObtained, percentage: attempt.percentage, attemptCount: finished.length };
+    }
+
+    if (policy.scoringRule === 'average') {
+      const total = (field) => finished.reduce((sum, attempt) => sum + (attempt[field] || 0), 0);
+      return {
+        attempt: finished[finished.length - 1],
+        marksObtained: round(total('marksObtained') / finished.length),
+        percentage: round(total('percentage') / finished.length),
+        attemptCount: finished.length
+      };
+    }
+
+    // The earliest of equally good attempts counts
+    const attempt = finished.reduce((best, current) => (current.marksObtained > best.marksObtained ? current : best));
+    return { attempt, marksObtained: attempt.marksObtained, percentage: attempt.percentage, attemptCount: finished.length };
+  }
+
+  // Groups attempts by student and test, keyed "studentId:testId"
+  static groupAttempts(attempts) {
+    const groups = new Map();
+    attempts.forEach(attempt => {
+      const studentId = attempt.studentId?._id || attempt.studentId;
+      const testId = attempt.testId?._id || attempt.testId;
+      const key = `${studentId}:${testId}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(attempt);
+    });
+    return groups;
+  }
+
+  // What the student dashboard shows for each attempt in the history
+  static summarize(attempt) {
+    return {
+      _id: attempt._id,
+      attemptNumber: attempt.attemptNumber || 1,
+      status: attempt.status,
+      marksObtained: attempt.marksObtained,
+      totalMarks: attempt.totalMarks,
+      percentage: attempt.percentage,
+      startTime: attempt.startTime,
+      endTime: attempt.endTime
+    };
+  }
+}
+
+AttemptPolicy.SCORING_RULES = SCORING_RULES;
+AttemptPolicy.MAX_ATTEMPTS = MAX_ATTEMPTS;
+AttemptPolicy.MAX_COOLDOWN_MINUTES = MAX_COOLDOWN_MINUTES;
+
+module.exports = AttemptPolicy;
@@ -0,0 +1,100 @@
+const QuestionPool = require('./questionPool');
+const QuestionShuffler = require('./questionShuffler');
+const SectionNavigation = require('./sectionNavigation');
+const Accommodations = require('./accommodations');
+const AttemptDeadline = require('./attemptDeadline');
+
+const getQuestionsById = (test, attempt) => new Map(
+  QuestionPool.getTestQuestions(test, attempt).map(q => [q._id.toString(), q])
+);
+
+// Saved exam state of an in-progress attempt: the progress saves merged into it and the
+// state handed back to a client that starts or resumes the attempt
+class AttemptSession {
+  // Saved exam state returned to the client when starting or resuming an attempt
+  static build(test, attempt, now = new Date()) {
+    const questionsById = getQuestionsById(test, attempt);
+    // The saved timer kept running while the tab was closed; a timer that has not reported
+    // yet starts with its full limit, including any extra time
+    let remainingTime = SectionNavigation.getRemainingTime(test, attempt, SectionNavigation.getMode(test), now)
+      ?? SectionNavigation.getTimeLimit(test, attempt);
+
+    // Never hand back more time than is left before the attempt's deadline
+    if (remainingTime !== null && remainingTime !== undefined) {
+      remainingTime = Math.min(remainingTime, AttemptDeadline.getSecondsLeft(test, attempt, now));
+    }
+
+    return {
+      attemptId: attempt._id,
+      startTime: attempt.startTime,
+      deadline: AttemptDeadline.getDeadline(test, attempt),
+      responses: (attempt.responses || []).map(r => {
+        const optionOrder = QuestionShuffler.getAttemptOptionOrder(attempt, questionsById.get(r.questionId.toString()));
+        return {
+          questionId: r.questionId,
+          selectedAnswer: optionOrder && r.selectedAnswer
+            ? QuestionShuffler.toDisplayedAnswer(r.selectedAnswer, optionOrder)
+            : r.selectedAnswer,
+          markedForReview: r.markedForReview,
+          timeSpent: r.timeSpent
+        };
+      }),
+      currentSectionIndex: attempt.session?.currentSectionIndex || 0,
+      currentQuestionIndex: attempt.session?.currentQuestionIndex || 0,
+      remainingTime: remainingTime ?? null,
+      lastSavedAt: attempt.session?.lastSavedAt || null,
+      violations: attempt.violations || 0
+    };
+  }
+
+  // Merges a progress save into the attempt. Only questions served in this attempt can be
+  // answered, and answers are checked against the section open before the save moves on.
+  // A refused section change keeps the question and timer of the open section.
+  static applyProgress(test, attempt, progress, now = new Date()) {
+    const { responses = [], currentSectionIndex, currentQuestionIndex, remainingTime, extraMinutes } = progress;
+
+    // Shuffled option labels are also mapped back per question
+    const questionsById = getQuestionsById(test, attempt);
+    const served = responses.filter(r => questionsById.has(String(r.questionId)));
+
+    const navigation = SectionNavigation.getMode(test);
+    const { accepted, rejected: closed } = SectionNavigation.filterOpenAnswers(test, attempt, served, navigation);
+    const rejected = [...responses.filter(r => !questionsById.has(String(r.questionId))), ...closed];
+
+    accepted.forEach(update => {
+      let response = attempt.responses.find(r => r.questionId.toString() === String(update.questionId));
+      if (!response) {
+        attempt.responses.push({ questionId: update.questionId });
+        response = attempt.responses[attempt.responses.length - 1];
+      }
+
+      if (update.selectedAnswer !== undefined) {
+        const optionOrder = QuestionShuffler.getAttemptOptionOrder(attempt, questionsById.get(String(update.questionId)));
+        response.selectedAnswer = optionOrder && update.selectedAnswer
+          ? QuestionShuffler.toCanonicalAnswer(update.selectedAnswer, optionOrder)
+          : update.selectedAnswer;
+      }
+      if (update.markedForReview !== undefined) response.markedForReview = update.markedForReview;
+      if (update.timeSpent !== undefined) response.timeSpent = update.timeSpent;
+      response.updatedAt = now;
+    });
+
+    const sectionRefused = currentSectionIndex !== undefined &&
+      !SectionNavigation.moveTo(test, attempt, currentSectionIndex, navigation, now);
+    if (!sectionRefused && currentQuestionIndex !== undefined) {
+      attempt.session.currentQuestionIndex = currentQuestionIndex;
+    }
+    if (!sectionRefused && remainingTime !== undefined) {
+      const reported = Accommodations.adjustReportedTime(test, attempt, remainingTime, extraMinutes, navigation);
+      attempt.session.remainingTime = SectionNavigation.clampRemainingTime(test, attempt, reported, navigation);
+    } else {
+      // Without a new reading the saved timer keeps running from its last save
+      attempt.session.remainingTime = SectionNavigation.getRemainingTime(test, attempt, navigation, now);
+    }
+    attempt.session.lastSavedAt = now;
+
+    return { navigation, rejected, sectionRefused };
+  }
+}
+
+module.exports = AttemptSession;
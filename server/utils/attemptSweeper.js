@@ -0,0 +1,71 @@
+const logger = require('../middleware/logger');
+const Test = require('../models/Test');
+const TestAttempt = require('../models/TestAttempt');
+const AttemptDeadline = require('./attemptDeadline');
+const AttemptGrading = require('./attemptGrading');
+
+// How often in-progress attempts are checked against their deadline
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let timer = null;
+
+// Closes attempts whose student left without submitting. Once an attempt is past its
+// deadline (and the grace period) it is graded on its saved answers with the timeout status.
+class AttemptSweeper {
+  static async sweep(now = new Date()) {
+    const open = await TestAttempt.find({ status: 'in_progress' })
+      .select('_id testId startTime accommodation')
+      .lean();
+    if (open.length === 0) return 0;
+
+    const testIds = [...new Set(open.map(attempt => String(attempt.testId)))];
+    const tests = new Map(
+      (await Test.find({ _id: { $in: testIds } })).map(test => [String(test._id), test])
+    );
+
+    let closed = 0;
+    for (const summary of open) {
+      const test = tests.get(String(summary.testId));
+      if (!test || !AttemptDeadline.isExpired(test, summary, now)) continue;
+
+      // The student may have submitted since the list was read
+      const attempt = await TestAttempt.findOne({ _id: summary._id, status: 'in_progress' });
+      if (!attempt) continue;
+
+      try {
+        AttemptGrading.close(test, attempt, 'timeout', now);
+        await attempt.save();
+        closed += 1;
+      } catch (error) {
+        logger.errorLog(error, { context: 'Failed to time out test attempt', attemptId: String(attempt._id) });
+      }
+    }
+
+    if (closed > 0) {
+      logger.info('Timed out expired test attempts', { count: closed });
+    }
+    return closed;
+  }
+
+  static start(intervalMs = SWEEP_INTERVAL_MS) {
+    if (timer) return;
+    timer = setInterval(() => {
+      AttemptSweeper.sweep().catch((error) => {
+        logger.errorLog(error, { context: 'Attempt sweep failed' });
+      });
+    }, intervalMs);
+    // The sweeper alone should not keep the process alive
+    timer.unref();
+  }
+
+  static stop() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+}
+
+AttemptSweeper.SWEEP_INTERVAL_MS = SWEEP_INTERVAL_MS;
+
+module.exports = AttemptSweeper;
@@ -0,0 +1,386 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const SandboxProcess = require('./sandboxProcess');
+const OutputChecker = require('./outputChecker');
+const FunctionHarness = require('./functionHarness');
+
+const IS_WINDOWS = process.platform === 'win32';
+const COMPILE_TIMEOUT = 15000;
+const PYTHON_RUNNER = path.join(__dirname, 'pythonRunner.py');
+
+// Question limits are in milliseconds per test case and megabytes
+const DEFAULT_TIME_LIMIT = 2000;
+const DEFAULT_MEMORY_LIMIT = 256;
+const TIME_LIMIT_RANGE = [100, 10000];
+const MEMORY_LIMIT_RANGE = [16, 1024];
+
+const MEMORY_ERROR_PATTERN = /std::bad_alloc|OutOfMemoryError|MemoryError|Cannot allocate memory/;
+
+const clamp = (value, [min, max]) => Math.min(max, Math.max(min, value));
+
+const toRunResult = (result) => {
+  // stderr and the exit status are only shown for custom input runs
+  const usage = {
+    time: result.time,
+    memory: result.memoryKb || 0,
+    stderr: result.stderr || '',
+    exitCode: result.code ?? null,
+    signal: result.signal || null
+  };
+  if (result.timedOut || result.signal === 'SIGXCPU') {
+    return { status: 'time_limit_exceeded', output: result.stdout, error: 'Time limit exceeded', ...usage };
+  }
+  if (result.outputExceeded) {
+    return { status: 'runtime_error', output: '', error: 'Output limit exceeded', ...usage };
+  }
+  if (result.code !== 0) {
+    const error = (result.stderr || result.stdout).trim() ||
+      (result.signal ? `Process killed by signal ${result.signal}` : `Process exited with code ${result.code}`);
+    const status = MEMORY_ERROR_PATTERN.test(result.stderr) ? 'memory_limit_exceeded' : 'runtime_error';
+    return { status, output: result.stdout, error, ...usage };
+  }
+  return { status: 'ok', output: result.stdout, ...usage };
+};
+
+// Executor for languages run as a separate process, with an optional compile step.
+// The source is written to a fresh working directory that lives until cleanup. Both
+// steps run in the mandatory sandbox; without it nothing is compiled or run.
+const processExecutor = ({ sourceFile, checkSource, compile, run, supportFiles = [], limitAddressSpace = true, ...scaling }) => ({
+  ...scaling,
+  async prepare(code, limits) {
+    await SandboxProcess.ensureAvailable();
+
+    const sourceError = checkSource ? checkSource(code) : null;
+    if (sourceError) {
+      return { compilationError: sourceError };
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'code-'));
+    const fileName = typeof sourceFile === 'function' ? sourceFile(code) : sourceFile;
+    const cleanup = () => fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+
+    try {
+      await fs.promises.writeFile(path.join(workDir, fileName), code, 'utf8');
+      for (const file of supportFiles) {
+        await fs.promises.copyFile(file, path.join(workDir, path.basename(file)));
+      }
+
+      if (compile) {
+        const [command, args] = compile(fileName);
+        const result = await SandboxProcess.run(command, args, { cwd: workDir, timeLimit: COMPILE_TIMEOUT });
+        if (result.spawnError) {
+          throw new Error(`Compiler "${command}" is not available on the server`);
+        }
+        if (result.timedOut || result.code !== 0) {
+          await cleanup();
+          return {
+            compilationError: result.timedOut
+              ? 'Compilation timed out'
+              : (result.stderr || result.stdout).trim() || 'Compilation failed'
+          };
+        }
+      }
+    } catch (error) {
+      await cleanup();
+      throw error;
+    }
+
+    return {
+      async run(input) {
+        const [command, args] = run(fileName, limits);
+        const result = await SandboxProcess.run(command, args, {
+          cwd: workDir,
+          input,
+          timeLimit: limits.timeLimit,
+          memoryLimit: limitAddressSpace ? limits.memoryLimit : null
+        });
+        if (result.spawnError) {
+          throw new Error(`Runtime "${command}" is not available on the server`);
+        }
+        return toRunResult(result);
+      },
+      cleanup
+    };
+  }
+});
+
+// JavaScript runs in-process inside a V8 isolate, which enforces its own limits
+const javascriptExecutor = {
+  timeFactor: 1,
+  timeExtra: 0,
+  memoryExtra: 0,
+  async prepare(code, limits) {
+    // Native module, only loaded when JavaScript code is executed
+    const ivm = require('isolated-vm');
+
+    const wrappedCode = `
+      let _inputLines = JSON.parse(_inputLinesJson);
+      let _inputIndex = 0;
+
+      const console = {
+        log: (...args) => _consoleLog.applySync(undefined, args.map(a => String(a)))
+      };
+
+      const readline = () => {
+        if (_inputIndex < _inputLines.length) {
+          return _inputLines[_inputIndex++];
+        }
+        return '';
+      };
+
+      ${code}
+
+      '';
+    `;
+
+    const checkIsolate = new ivm.Isolate({ memoryLimit: limits.memoryLimit });
+    try {
+      await checkIsolate.compileScript(wrappedCode);
+    } catch (error) {
+      return { compilationError: error.message };
+    } finally {
+      checkIsolate.dispose();
+    }
+
+    return {
+      async run(input) {
+        const startTime = Date.now();
+        const isolate = new ivm.Isolate({ memoryLimit: limits.memoryLimit });
+        const outputLogs = [];
+
+        try {
+          const context = await isolate.createContext();
+          const jail = context.global;
+          await jail.set('global', jail.derefInto());
+          await jail.set('_consoleLog', new ivm.Reference((...args) => {
+            outputLogs.push(args.join(' '));
+          }));
+          await jail.set('_inputLinesJson', JSON.stringify(input.split('\n')));
+
+          const script = await isolate.compileScript(wrappedCode);
+          await script.run(context, { timeout: limits.timeLimit });
+          const heap = await isolate.getHeapStatistics();
+          return {
+            status: 'ok',
+            output: outputLogs.join('\n'),
+            time: Date.now() - startTime,
+            memory: Math.round(heap.used_heap_size / 1024)
+          };
+        } catch (error) {
+          const time = Date.now() - startTime;
+          if (/timed out/i.test(error.message)) {
+            return { status: 'time_limit_exceeded', output: outputLogs.join('\n'), error: 'Time limit exceeded', time };
+          }
+          if (/memory limit/i.test(error.message)) {
+            return { status: 'memory_limit_exceeded', output: outputLogs.join('\n'), error: error.message, time };
+          }
+          return { status: 'runtime_error', output: outputLogs.join('\n'), error: error.message, time };
+        } finally {
+          if (!isolate.isDisposed) isolate.dispose();
+        }
+      },
+      async cleanup() {}
+    };
+  }
+};
+
+// Quoted, computed or path-based includes could pull server files into compiler errors
+const INCLUDE_PATTERN = /(?:#|%:)\s*include(?!\s*<[\w+-]+(?:\/[\w+-]+)*(?:\.h|\.hpp)?>)/;
+
+const PYTHON_COMMAND = process.env.PYTHON_PATH || (IS_WINDOWS ? 'python' : 'python3');
+
+// Java sources must be named after their public class; templates use Solution
+const javaSourceFile = (code) => {
+  const match = code.match(/public\s+(?:final\s+)?class\s+(\w+)/);
+  return `${match ? match[1] : 'Main'}.java`;
+};
+
+// Time limits are scaled per language so slower runtimes are not penalised for their
+// start-up cost; memory extra covers the interpreter or runtime itself
+const EXECUTORS = {
+  javascript: javascriptExecutor,
+  // Isolated mode (-I) ignores PYTHON* variables and user site-packages. The runner's
+  // audit hook is a second layer inside the sandbox, not the isolation itself
+  python: processExecutor({
+    sourceFile: 'main.py',
+    supportFiles: [PYTHON_RUNNER],
+    run: (file) => [PYTHON_COMMAND, ['-I', '-B', path.basename(PYTHON_RUNNER), file]],
+    timeFactor: 2,
+    timeExtra: 200,
+    memoryExtra: 64
+  }),
+  java: processExecutor({
+    sourceFile: javaSourceFile,
+    compile: (file) => ['javac', ['-encoding', 'UTF-8', file]],
+    run: (file, limits) => ['java', [
+      `-Xmx${limits.memoryLimit}m`,
+      '-Xss64m',
+      '-XX:+UseSerialGC',
+      '-cp',
+      '.',
+      path.basename(file, '.java')
+    ]],
+    // The JVM reserves far more address space than it uses, so the heap flag is the limit
+    limitAddressSpace: false,
+    timeFactor: 2,
+    timeExtra: 1000,
+    memoryExtra: 0
+  }),
+  cpp: processExecutor({
+    sourceFile: 'main.cpp',
+    checkSource: (code) => (INCLUDE_PATTERN.test(code) ? 'Only standard library headers can be included' : null),
+    compile: (file) => ['g++', ['-O2', '-std=c++17', '-o', IS_WINDOWS ? 'main.exe' : 'main', file]],
+    run: () => [IS_WINDOWS ? 'main.exe' : './main', []],
+    timeFactor: 1,
+    timeExtra: 0,
+    memoryExtra: 16
+  })
+};
+
+class CodeExecutor {
+  // Adds or replaces the executor used for a language
+  static register(language, executor) {
+    EXECUTORS[language] = executor;
+  }
+
+  static getLanguages() {
+    return Object.keys(EXECUTORS);
+  }
+
+  static isSupported(language) {
+    return Object.prototype.hasOwnProperty.call(EXECUTORS, language);
+  }
+
+  // Per-language limits derived from the question's time_limit and memory_limit
+  static getLimits(language, question = {}) {
+    const executor = EXECUTORS[language] || {};
+    const timeLimit = clamp(Number(question.time_limit) || DEFAULT_TIME_LIMIT, TIME_LIMIT_RANGE);
+    const memoryLimit = clamp(Number(question.memory_limit) || DEFAULT_MEMORY_LIMIT, MEMORY_LIMIT_RANGE);
+
+    return {
+      timeLimit: Math.round(timeLimit * (executor.timeFactor || 1) + (executor.timeExtra || 0)),
+      memoryLimit: memoryLimit + (executor.memoryExtra || 0)
+    };
+  }
+
+  // Compiles the code once and returns a runner for individual inputs, or
+  // { compilationError } when the code does not compile
+  static async prepare(language, code, limits) {
+    if (!CodeExecutor.isSupported(language)) {
+      throw new Error(`Language ${language} is not supported`);
+    }
+    return EXECUTORS[language].prepare(code, limits);
+  }
+
+  // Runs code against a list of test cases under the question's limits and output checker
+  static async executeTestCases(code, language, testCases, question) {
+    const results = {
+      output: '',
+      testResults: [],
+      avgExecutionTime: 0,
+      compilationError: null,
+      hasRuntimeError: false,
+      hasTimeLimit: false,
+      hasMemoryLimit: false,
+      maxMemoryUsed: 0
+    };
+
+    const limits = CodeExecutor.getLimits(language, question);
+    const source = FunctionHarness.isFunctionQuestion(question)
+      ? FunctionHarness.wrap(language, code, question.function_signature)
+      : code;
+    const program = await CodeExecutor.prepare(language, source, limits);
+
+    if (program.compilationError) {
+      results.compilationError = program.compilationError;
+      results.output = `Compilation Error:\n${program.compilationError}`;
+      return results;
+    }
+
+    let checker = null;
+    try {
+      checker = await OutputChecker.prepare(question);
+
+      for (let i = 0; i < testCases.length; i++) {
+        const testCase = testCases[i];
+        const run = await program.run(testCase.input || '');
+        const testResult = {
+          test_case_number: i + 1,
+          passed: false,
+          status: run.status,
+          input: testCase.input,
+          expected_output: testCase.expected_output,
+          execution_time: run.time,
+          memory_used: run.memory || 0
+        };
+
+        if (run.status === 'ok') {
+          const verdict = await checker.check(testCase.input || '', testCase.expected_output || '', run.output);
+          testResult.actual_output = run.output.trim();
+          testResult.passed = verdict.passed;
+          testResult.status = verdict.passed ? 'passed' : 'wrong_answer';
+          if (verdict.message) testResult.checker_message = verdict.message;
+        } else {
+          testResult.error = run.error;
+          results.hasRuntimeError = results.hasRuntimeError || run.status === 'runtime_error';
+          results.hasTimeLimit = results.hasTimeLimit || run.status === 'time_limit_exceeded';
+          results.hasMemoryLimit = results.hasMemoryLimit || run.status === 'memory_limit_exceeded';
+        }
+
+        results.testResults.push(testResult);
+        results.avgExecutionTime += run.time;
+        results.maxMemoryUsed = Math.max(results.maxMemoryUsed, run.memory || 0);
+      }
+    } finally {
+      await program.cleanup();
+      if (checker) await checker.cleanup();
+    }
+
+    results.avgExecutionTime = testCases.length > 0 ? Math.round(results.avgExecutionTime / testCases.length) : 0;
+    results.output = results.testResults.every(r => r.passed)
+      ? 'All sample test cases passed!'
+      : 'Some test cases failed. Check the results below.';
+
+    return results;
+  }
+
+  // Runs code once on input of the user's choosing, under the question's limits. Nothing
+  // is checked: the raw stdout, stderr and exit status are returned.
+  static async runCustomInput(code, language, input, question) {
+    const limits = CodeExecutor.getLimits(language, question);
+    const source = FunctionHarness.isFunctionQuestion(question)
+      ? FunctionHarness.wrap(language, code, question.function_signature)
+      : code;
+    const program = await CodeExecutor.prepare(language, source, limits);
+
+    if (program.compilationError) {
+      return { status: 'compilation_error', compilationError: program.compilationError };
+    }
+
+    try {
+      const run = await program.run(input || '');
+      return {
+        status: run.status,
+        compilationError: null,
+        stdout: run.output,
+        // In-process runners report errors without a separate stderr
+        stderr: run.stderr ?? (run.error || ''),
+        exitCode: run.exitCode !== undefined ? run.exitCode : (run.status === 'ok' ? 0 : null),
+        signal: run.signal || null,
+        error: run.status === 'ok' ? null : run.error,
+        time: run.time,
+        memory: run.memory || 0,
+        timeLimit: limits.timeLimit,
+        memoryLimit: limits.memoryLimit
+      };
+    } finally {
+      await program.cleanup();
+    }
+  }
+}
+
+CodeExecutor.DEFAULT_TIME_LIMIT = DEFAULT_TIME_LIMIT;
+CodeExecutor.DEFAULT_MEMORY_LIMIT = DEFAULT_MEMORY_LIMIT;
+
+module.exports = CodeExecutor;
@@ -0,0 +1,156 @@
+// Similarity between coding submissions, used to flag possible plagiarism.
+//
+// Code is reduced to a stream of normalized tokens: comments and whitespace are
+// dropped, identifiers become `V`, numbers `N` and string/char literals `S`, while
+// keywords and operators are kept. Renaming variables or reformatting therefore
+// does not hide a copy. Two submissions are compared by the overlap of their
+// k-token sequences (Jaccard similarity of the k-gram sets).
+
+const K = 5;
+const DEFAULT_THRESHOLD = 0.8;
+
+const C_KEYWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'int', 'long', 'short', 'char', 'float', 'double', 'bool', 'boolean', 'void', 'const', 'static',
+  'class', 'struct', 'new', 'delete', 'try', 'catch', 'throw', 'true', 'false', 'null', 'nullptr',
+  'auto', 'public', 'private', 'protected', 'this', 'final', 'import', 'include', 'using', 'namespace',
+  'let', 'var', 'function', 'of', 'in', 'typeof', 'undefined', 'string', 'String', 'vector'
+];
+
+const PYTHON_KEYWORDS = [
+  'if', 'elif', 'else', 'for', 'while', 'break', 'continue', 'return', 'def', 'class', 'lambda',
+  'and', 'or', 'not', 'in', 'is', 'None', 'True', 'False', 'try', 'except', 'finally', 'raise',
+  'with', 'as', 'import', 'from', 'pass', 'yield', 'global', 'nonlocal', 'range', 'len', 'print', 'input'
+];
+
+const LANGUAGES = {
+  python: {
+    keywords: new Set(PYTHON_KEYWORDS),
+    comment: /#[^\n]*/y,
+    string: /("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')/y
+  },
+  default: {
+    keywords: new Set(C_KEYWORDS),
+    comment: /(\/\/[^\n]*|\/\*[\s\S]*?(\*\/|$))/y,
+    string: /("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)/y
+  }
+};
+
+const WHITESPACE = /\s+/y;
+const IDENTIFIER = /[A-Za-z_$][A-Za-z0-9_$]*/y;
+const NUMBER = /(0[xX][0-9a-fA-F]+|\d+\.?\d*([eE][+-]?\d+)?|\.\d+)[A-Za-z]*/y;
+const OPERATOR = /(>>>=|<<=|>>=|===|!==|\*\*=|\/\/=|->|::|\+\+|--|&&|\|\||<<|>>|<=|>=|==|!=|\+=|-=|\*=|\/=|%=|&=|\|=|\^=|\*\*|\/\/|[^\sA-Za-z0-9_$])/y;
+
+const matchAt = (pattern, code, pos) => {
+  pattern.lastIndex = pos;
+  const match = pattern.exec(code);
+  return match ? match[0] : null;
+};
+
+// Union-find over student ids, so pairs A~B and B~C form one cluster
+const buildClusters = (pairs) => {
+  const parent = new Map();
+  const find = (id) => {
+    if (!parent.has(id)) parent.set(id, id);
+    const root = parent.get(id);
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  pairs.forEach(({ a, b }) => parent.set(find(a), find(b)));
+
+  const groups = new Map();
+  [...parent.keys()].forEach(id => {
+    const root = find(id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root).push(id);
+  });
+
+  return [...groups.values()].sort((x, y) => y.length - x.length);
+};
+
+class CodeSimilarity {
+  // Normalized token stream for a submission
+  static tokenize(code, language) {
+    const rules = LANGUAGES[language] || LANGUAGES.default;
+    const source = String(code || '');
+    const tokens = [];
+    let pos = 0;
+
+    while (pos < source.length) {
+      let text = matchAt(WHITESPACE, source, pos) || matchAt(rules.comment, source, pos);
+      if (text) {
+        pos += text.length;
+        continue;
+      }
+
+      if ((text = matchAt(rules.string, source, pos))) {
+        tokens.push('S');
+      } else if ((text = matchAt(NUMBER, source, pos))) {
+        tokens.push('N');
+      } else if ((text = matchAt(IDENTIFIER, source, pos))) {
+        tokens.push(rules.keywords.has(text) ? text : 'V');
+      } else {
+        text = matchAt(OPERATOR, source, pos);
+        tokens.push(text);
+      }
+      pos += text.length;
+    }
+
+    return tokens;
+  }
+
+  static fingerprint(tokens, k = K) {
+    const grams = new Set();
+    if (tokens.length < k) {
+      if (tokens.length > 0) grams.add(tokens.join(' '));
+      return grams;
+    }
+    for (let i = 0; i + k <= tokens.length; i++) {
+      grams.add(tokens.slice(i, i + k).join(' '));
+    }
+    return grams;
+  }
+
+  // Similarity between two fingerprints, from 0 (nothing shared) to 1 (identical)
+  static compare(a, b) {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    small.forEach(gram => {
+      if (large.has(gram)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+  }
+
+  // Pairs of submissions at or above the threshold, most similar first, with clusters
+  // of students linked through those pairs. Submissions are { id, code, language }.
+  static findSimilar(submissions, threshold = DEFAULT_THRESHOLD) {
+    const prints = submissions.map(s => ({
+      id: String(s.id),
+      language: s.language,
+      grams: CodeSimilarity.fingerprint(CodeSimilarity.tokenize(s.code, s.language))
+    }));
+
+    const pairs = [];
+    for (let i = 0; i < prints.length; i++) {
+      for (let j = i + 1; j < prints.length; j++) {
+        // Token streams from different languages are not comparable
+        if (prints[i].language !== prints[j].language) continue;
+        const similarity = CodeSimilarity.compare(prints[i].grams, prints[j].grams);
+        if (similarity >= threshold) {
+          pairs.push({ a: prints[i].id, b: prints[j].id, similarity });
+        }
+      }
+    }
+
+    pairs.sort((x, y) => y.similarity - x.similarity);
+    return { pairs, clusters: buildClusters(pairs) };
+  }
+}
+
+CodeSimilarity.DEFAULT_THRESHOLD = DEFAULT_THRESHOLD;
+
+module.exports = CodeSimilarity;
@@ -1,5 +1,83 @@
 const csv = require('csv-parser');
 const { Readable } = require('stream');
+const QuestionTypes = require('./questionTypes');
+
+const OPTION_LABELS = QuestionTypes.OPTION_LABELS;
+
+// Common spellings of each question type accepted in import files
+const TYPE_ALIASES = {
+  single: 'single',
+  mcq: 'single',
+  multiple: 'multiple',
+  multi: 'multiple',
+  msq: 'multiple',
+  true_false: 'true_false',
+  truefalse: 'true_false',
+  tf: 'true_false',
+  boolean: 'true_false',
+  numeric: 'numeric',
+  number: 'numeric',
+  integer: 'numeric',
+  fill_blank: 'fill_blank',
+  fill: 'fill_blank',
+  blank: 'fill_blank',
+  text: 'fill_blank'
+};
+
+const readType = (value) => {
+  if (!value) return 'single';
+  const key = value.toString().trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return TYPE_ALIASES[key] || key;
+};
+
+// Lists may be given as arrays or as "|"-separated strings (commas are used by answers)
+const readList = (value) => {
+  if (value === undefined || value === null || value === '') return [];
+  const items = Array.isArray(value) ? value : value.toString().split('|');
+  return items.map(item => item.toString().trim()).filter(Boolean);
+};
+
+// True/false answers are stored as option labels (A = True, B = False)
+const readTrueFalse = (value) => {
+  const text = (value === undefined || value === null ? '' : value).toString().trim().toLowerCase();
+  if (['a', 'true', 't', 'yes'].includes(text)) return 'A';
+  if (['b', 'false', 'f', 'no'].includes(text)) return 'B';
+  return text.toUpperCase();
+};
+
+// Build a typed question from raw import fields, throwing when it is not valid
+const buildQuestion = (fields) => {
+  const questionType = readType(fields.questionType);
+  let correctAnswer = fields.correctAnswer;
+
+  if (questionType === 'multiple') {
+    const labels = readList(fields.correctAnswers);
+    correctAnswer = labels.length > 0 ? QuestionTypes.joinLabels(labels.map(l => l.toUpperCase())) : correctAnswer;
+  } else if (questionType === 'true_false') {
+    correctAnswer = readTrueFalse(correctAnswer);
+  } else if (questionType === 'fill_blank' && !correctAnswer) {
+    correctAnswer = readList(fields.acceptedAnswers)[0];
+  } else if (QuestionTypes.isChoiceType({ questionType }) && correctAnswer) {
+    correctAnswer = correctAnswer.toString().trim().toUpperCase();
+  }
+
+  const question = {
+    questionType,
+    questionText: fields.questionText,
+    options: fields.options,
+    correctAnswer: correctAnswer === undefined || correctAnswer === null ? '' : correctAnswer.toString().trim(),
+    tolerance: fields.tolerance === undefined || fields.tolerance === '' ? 0 : Number(fields.tolerance),
+    acceptedAnswers: readList(fields.acceptedAnswers),
+    caseSensitive: fields.caseSensitive === true || fields.caseSensitive === 'true'
+  };
+
+  const questionError = QuestionTypes.validateQuestion(question);
+  if (questionError) {
+    throw new Error(questionError);
+  }
+
+  return QuestionTypes.normalizeQuestion(question);
+};
 
 class FileExtractor {
   static async extractFromJSON(buffer) {
@@ -13,84 +91,77 @@ class FileExtractor {
 
       const questions = data.map((item, index) => {
         // Determine if this is an image-based question
-        const isImageQuestion = item.questionType === 'image' || (!item.questionText && (item.optionImages || item.optionAImage || item.optionBImage || item.optionCImage || item.optionDImage));
+        const isImageQuestion = item.questionType === 'image' || (!item.questionText && (item.optionImages || OPTION_LABELS.some(label => item[`option${label}Image`])));
 
         // Support optional image fields in the JSON. Accept multiple common key names.
         const questionImageUrl = item.questionImageUrl || item.questionImage || item.image || item.question_image || null;
 
         // Option images may be provided as an object `optionImages` or as individual keys.
-        const optionImages = {
-          A: null,
-          B: null,
-          C: null,
-          D: null
-        };
-
-        if (item.optionImages && typeof item.optionImages === 'object') {
-          optionImages.A = item.optionImages.A || item.optionImages.a || optionImages.A;
-          optionImages.B = item.optionImages.B || item.optionImages.b || optionImages.B;
-          optionImages.C = item.optionImages.C || item.optionImages.c || optionImages.C;
-          optionImages.D = item.optionImages.D || item.optionImages.d || optionImages.D;
-        }
-
-        // Individual option image keys
-        optionImages.A = optionImages.A || item.optionAImage || item.optionA_image || item.A_image || item.AImage || null;
-        optionImages.B = optionImages.B || item.optionBImage || item.optionB_image || item.B_image || item.BImage || null;
-        optionImages.C = optionImages.C || item.optionCImage || item.optionC_image || item.C_image || item.CImage || null;
-        optionImages.D = optionImages.D || item.optionDImage || item.optionD_image || item.D_image || item.DImage || null;
+        const optionImages = {};
+        OPTION_LABELS.forEach(label => {
+          const fromObject = item.optionImages && typeof item.optionImages === 'object'
+            ? item.optionImages[label] || item.optionImages[label.toLowerCase()]
+            : null;
+          optionImages[label] = fromObject || item[`option${label}Image`] || item[`option${label}_image`] ||
+            item[`${label}_image`] || item[`${label}Image`] || null;
+        });
+        const hasOptionImages = OPTION_LABELS.some(label => optionImages[label]);
 
         // If it's an image question, allow empty textual options but require option images
         if (isImageQuestion) {
           // Ensure correctAnswer exists and is valid
-          if (!item.correctAnswer || !['A', 'B', 'C', 'D'].includes(item.correctAnswer)) {
+          if (!item.correctAnswer || !OPTION_LABELS.includes(item.correctAnswer)) {
             throw new Error(`Invalid correct answer at index ${index}: ${item.correctAnswer}`);
           }
 
           // Ensure optionImages are provided (at least for the keys)
-          if (!optionImages.A && !optionImages.B && !optionImages.C && !optionImages.D) {
-            throw new Error(`Image question at index ${index} must provide optionImages for A, B, C, D`);
+          if (!hasOptionImages) {
+            throw new Error(`Image question at index ${index} must provide optionImages for its options`);
           }
 
+          const options = {};
+          OPTION_LABELS.forEach(label => {
+            if ((item.options && item.options[label]) || optionImages[label]) {
+              options[label] = (item.options && item.options[label]) || '';
+            }
+          });
+
           return {
+            questionType: 'single',
             questionText: item.questionText || '',
-            options: {
-              A: (item.options && item.options.A) || '',
-              B: (item.options && item.options.B) || '',
-              C: (item.options && item.options.C) || '',
-              D: (item.options && item.options.D) || ''
-            },
+            options,
             correctAnswer: item.correctAnswer,
             questionImageUrl: questionImageUrl || undefined,
             optionImages: optionImages
           };
         }
 
-        // Basic validation for text-based MCQ
-        if (!item.questionText || !item.options || !item.correctAnswer) {
+        // Basic validation for text-based questions
+        if (!item.questionText) {
           throw new Error(`Invalid question format at index ${index}`);
         }
 
-        const options = item.options;
-        if (!options.A || !options.B || !options.C || !options.D) {
-          throw new Error(`Question at index ${index} must have options A, B, C, and D`);
-        }
-
-        if (!['A', 'B', 'C', 'D'].includes(item.correctAnswer)) {
-          throw new Error(`Invalid correct answer at index ${index}: ${item.correctAnswer}`);
+        let question;
+        try {
+          question = buildQuestion({
+            questionType: item.questionType || item.type,
+            questionText: item.questionText,
+            options: item.options || {},
+            correctAnswer: item.correctAnswer,
+            correctAnswers: item.correctAnswers,
+            tolerance: item.tolerance,
+            acceptedAnswers: item.acceptedAnswers,
+            caseSensitive: item.caseSensitive
+          });
+        } catch (error) {
+          throw new Error(`Question at index ${index}: ${error.message}`);
         }
 
         return {
-          questionText: item.questionText,
-          options: {
-            A: options.A,
-            B: options.B,
-            C: options.C,
-            D: options.D
-          },
-          correctAnswer: item.correctAnswer,
+          ...question,
           // include optional image fields so frontend can display them
           questionImageUrl: questionImageUrl || undefined,
-          optionImages: (optionImages.A || optionImages.B || optionImages.C || optionImages.D) ? optionImages : undefined
+          optionImages: hasOptionImages && QuestionTypes.isChoiceType(question) ? optionImages : undefined
         };
       });
 
@@ -110,28 +181,31 @@ class FileExtractor {
           .pipe(csv())
           .on('data', (row) => {
             try {
-              const question = {
+              const options = {};
+              OPTION_LABELS.forEach(label => {
+                const value = row[`option${label}`] || row[`option_${label.toLowerCase()}`] || row[label] || row[`Option ${label}`];
+                if (value) options[label] = value;
+              });
+
+              const question = buildQuestion({
+                questionType: row.type || row.questionType || row.question_type || row.Type,
                 questionText: row.question || row.questionText || row.Question,
-                options: {
-                  A: row.optionA || row.option_a || row.A || row['Option A'],
-                  B: row.optionB || row.option_b || row.B || row['Option B'],
-                  C: row.optionC || row.option_c || row.C || row['Option C'],
-                  D: row.optionD || row.option_d || row.D || row['Option D']
-                },
-                correctAnswer: (row.correctAnswer || row.correct_answer || row.answer || row.Answer).toUpperCase()
-              };
-
-              if (!question.questionText ||
-                  !question.options.A || !question.options.B ||
-                  !question.options.C || !question.options.D ||
-                  !['A', 'B', 'C', 'D'].includes(question.correctAnswer)) {
+                options,
+                correctAnswer: row.correctAnswer || row.correct_answer || row.answer || row.Answer,
+                correctAnswers: row.correctAnswers || row.correct_answers,
+                tolerance: row.tolerance || row.Tolerance,
+                acceptedAnswers: row.acceptedAnswers || row.accepted_answers,
+                caseSensitive: row.caseSensitive || row.case_sensitive
+              });
+
+              if (!question.questionText) {
                 console.warn('Skipping invalid row:', row);
                 return;
               }
 
               questions.push(question);
             } catch (error) {
-              console.warn('Error parsing row:', row, error);
+              console.warn('Skipping invalid row:', row, error.message);
             }
           })
           .on('end', () => {
@@ -0,0 +1,373 @@
+// Function-signature (LeetCode-style) problems: students implement a single function
+// and a per-language harness reads the arguments from stdin and prints the result.
+//
+// Test case input holds one JSON value per parameter, one per line, e.g.
+//   [2,7,11,15]
+//   9
+// The return value is printed as plain text so the usual output checkers apply:
+// scalars as-is, booleans as true/false, arrays space-separated and 2-D arrays
+// one row per line.
+
+const TYPES = ['int', 'long', 'double', 'bool', 'string', 'int[]', 'long[]', 'double[]', 'string[]', 'int[][]'];
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const JAVA_CONVERTERS = {
+  int: 'toInt',
+  long: 'toLong',
+  double: 'toDouble',
+  bool: 'toBool',
+  string: 'toStr',
+  'int[]': 'toIntArray',
+  'long[]': 'toLongArray',
+  'double[]': 'toDoubleArray',
+  'string[]': 'toStrArray',
+  'int[][]': 'toIntMatrix'
+};
+
+const CPP_TYPES = {
+  int: 'int',
+  long: 'long long',
+  double: 'double',
+  bool: 'bool',
+  string: 'string',
+  'int[]': 'vector<int>',
+  'long[]': 'vector<long long>',
+  'double[]': 'vector<double>',
+  'string[]': 'vector<string>',
+  'int[][]': 'vector<vector<int>>'
+};
+
+const pythonHarness = (signature) => `
+
+# ---- judge harness ----
+import json as _json
+import sys as _sys
+
+
+def _format(value):
+    if isinstance(value, bool):
+        return 'true' if value else 'false'
+    if isinstance(value, (list, tuple)):
+        if value and isinstance(value[0], (list, tuple)):
+            return '\\n'.join(_format(row) for row in value)
+        return ' '.join(_format(item) for item in value)
+    return str(value)
+
+
+_args = [_json.loads(_line) for _line in _sys.stdin.read().splitlines() if _line.strip()]
+print(_format(${signature.name}(*_args)))
+`;
+
+const javascriptHarness = (signature) => `
+
+// ---- judge harness ----
+const _format = (value) => {
+  if (Array.isArray(value)) {
+    return value.length > 0 && Array.isArray(value[0])
+      ? value.map(_format).join('\\n')
+      : value.map(_format).join(' ');
+  }
+  return String(value);
+};
+const _args = _inputLines.filter(line => line.trim()).map(line => JSON.parse(line));
+console.log(_format(${signature.name}(..._args)));
+`;
+
+const javaHarness = (signature) => {
+  const args = signature.params.map((param, i) => `${JAVA_CONVERTERS[param.type]}(parse(lines.get(${i})))`);
+
+  return `
+
+// ---- judge harness ----
+public class Main {
+    private static String text;
+    private static int pos;
+
+    private static Object parse(String json) {
+        text = json;
+        pos = 0;
+        return value();
+    }
+
+    private static void skip() {
+        while (pos < text.length() && Character.isWhitespace(text.charAt(pos))) pos++;
+    }
+
+    // Arrays become lists, strings are unescaped and other tokens are kept as text
+    private static Object value() {
+        skip();
+        char c = text.charAt(pos);
+        if (c == '[') {
+            java.util.List<Object> list = new java.util.ArrayList<>();
+            pos++;
+            skip();
+            if (text.charAt(pos) == ']') {
+                pos++;
+                return list;
+            }
+            while (true) {
+                list.add(value());
+                skip();
+                if (text.charAt(pos++) == ']') return list;
+            }
+        }
+        if (c == '"') {
+            StringBuilder sb = new StringBuilder();
+            pos++;
+            while (text.charAt(pos) != '"') {
+                char ch = text.charAt(pos++);
+                if (ch == '\\\\') {
+                    char escaped = text.charAt(pos++);
+                    switch (escaped) {
+                        case 'n': sb.append('\\n'); break;
+                        case 't': sb.append('\\t'); break;
+                        case 'r': sb.append('\\r'); break;
+                        case 'u': sb.append((char) Integer.parseInt(text.substring(pos, pos + 4), 16)); pos += 4; break;
+                        default: sb.append(escaped);
+                    }
+                } else {
+                    sb.append(ch);
+                }
+            }
+            pos++;
+            return sb.toString();
+        }
+        int start = pos;
+        while (pos < text.length() && ",] \\t\\r\\n".indexOf(text.charAt(pos)) < 0) pos++;
+        String token = text.substring(start, pos);
+        return token.equals("true") || token.equals("false") ? (Object) Boolean.valueOf(token) : token;
+    }
+
+    private static java.util.List<?> list(Object v) { return (java.util.List<?>) v; }
+    private static int toInt(Object v) { return Integer.parseInt((String) v); }
+    private static long toLong(Object v) { return Long.parseLong((String) v); }
+    private static double toDouble(Object v) { return Double.parseDouble((String) v); }
+    private static boolean toBool(Object v) { return (Boolean) v; }
+    private static String toStr(Object v) { return (String) v; }
+
+    private static int[] toIntArray(Object v) {
+        java.util.List<?> l = list(v);
+        int[] result = new int[l.size()];
+        for (int i = 0; i < result.length; i++) result[i] = toInt(l.get(i));
+        return result;
+    }
+
+    private static long[] toLongArray(Object v) {
+        java.util.List<?> l = list(v);
+        long[] result = new long[l.size()];
+        for (int i = 0; i < result.length; i++) result[i] = toLong(l.get(i));
+        return result;
+    }
+
+    private static double[] toDoubleArray(Object v) {
+        java.util.List<?> l = list(v);
+        double[] result = new double[l.size()];
+        for (int i = 0; i < result.length; i++) result[i] = toDouble(l.get(i));
+        return result;
+    }
+
+    private static String[] toStrArray(Object v) {
+        java.util.List<?> l = list(v);
+        String[] result = new String[l.size()];
+        for (int i = 0; i < result.length; i++) result[i] = toStr(l.get(i));
+        return result;
+    }
+
+    private static int[][] toIntMatrix(Object v) {
+        java.util.List<?> l = list(v);
+        int[][] result = new int[l.size()][];
+        for (int i = 0; i < result.length; i++) result[i] = toIntArray(l.get(i));
+        return result;
+    }
+
+    private static String format(Object v) {
+        if (v == null || !v.getClass().isArray()) return String.valueOf(v);
+        String separator = v.getClass().getComponentType().isArray() ? "\\n" : " ";
+        StringBuilder sb = new StringBuilder();
+        for (int i = 0; i < java.lang.reflect.Array.getLength(v); i++) {
+            if (i > 0) sb.append(separator);
+            sb.append(format(java.lang.reflect.Array.get(v, i)));
+        }
+        return sb.toString();
+    }
+
+    public static void main(String[] args) throws Exception {
+        java.io.BufferedReader in = new java.io.BufferedReader(new java.io.InputStreamReader(System.in));
+        java.util.List<String> lines = new java.util.ArrayList<>();
+        for (String line; (line = in.readLine()) != null;) {
+            if (!line.trim().isEmpty()) lines.add(line);
+        }
+        System.out.println(format(new Solution().${signature.name}(${args.join(', ')})));
+    }
+}
+`;
+};
+
+const CPP_PRELUDE = `#include <bits/stdc++.h>
+using namespace std;
+#line 1
+`;
+
+const cppHarness = (signature) => {
+  const declarations = signature.params
+    .map((param, i) => `    ${CPP_TYPES[param.type]} a${i};\n    judge::read(judge::Parser(lines.at(${i})).value(), a${i});`)
+    .join('\n');
+  const args = signature.params.map((param, i) => `a${i}`).join(', ');
+
+  return `
+
+// ---- judge harness ----
+namespace judge {
+struct Json {
+    bool isArray = false;
+    string text;
+    vector<Json> items;
+};
+
+// Arrays keep their items, strings are unescaped and other tokens are kept as text
+struct Parser {
+    const string& s;
+    size_t pos = 0;
+    explicit Parser(const string& text) : s(text) {}
+
+    void skip() {
+        while (pos < s.size() && isspace((unsigned char) s[pos])) pos++;
+    }
+
+    Json value() {
+        skip();
+        Json j;
+        if (s[pos] == '[') {
+            j.isArray = true;
+            pos++;
+            skip();
+            if (s[pos] == ']') {
+                pos++;
+                return j;
+            }
+            while (true) {
+                j.items.push_back(value());
+                skip();
+                if (s[pos++] == ']') return j;
+            }
+        }
+        if (s[pos] == '"') {
+            pos++;
+            while (s[pos] != '"') {
+                char c = s[pos++];
+                if (c == '\\\\') {
+                    char escaped = s[pos++];
+                    c = escaped == 'n' ? '\\n' : escaped == 't' ? '\\t' : escaped == 'r' ? '\\r' : escaped;
+                }
+                j.text += c;
+            }
+            pos++;
+            return j;
+        }
+        size_t start = pos;
+        while (pos < s.size() && string(",] \\t\\r\\n").find(s[pos]) == string::npos) pos++;
+        j.text = s.substr(start, pos - start);
+        return j;
+    }
+};
+
+void read(const Json& j, int& v) { v = stoi(j.text); }
+void read(const Json& j, long long& v) { v = stoll(j.text); }
+void read(const Json& j, double& v) { v = stod(j.text); }
+void read(const Json& j, bool& v) { v = j.text == "true"; }
+void read(const Json& j, string& v) { v = j.text; }
+template <typename T> void read(const Json& j, vector<T>& v) {
+    v.resize(j.items.size());
+    for (size_t i = 0; i < v.size(); i++) read(j.items[i], v[i]);
+}
+
+template <typename T> void write(ostream& out, const T& v) { out << v; }
+void write(ostream& out, bool v) { out << (v ? "true" : "false"); }
+template <typename T> void write(ostream& out, const vector<T>& v) {
+    for (size_t i = 0; i < v.size(); i++) {
+        if (i > 0) out << ' ';
+        write(out, v[i]);
+    }
+}
+template <typename T> void write(ostream& out, const vector<vector<T>>& v) {
+    for (size_t i = 0; i < v.size(); i++) {
+        if (i > 0) out << '\\n';
+        write(out, v[i]);
+    }
+}
+}  // namespace judge
+
+int main() {
+    vector<string> lines;
+    for (string line; getline(cin, line);) {
+        if (line.find_first_not_of(" \\t\\r") != string::npos) lines.push_back(line);
+    }
+${declarations}
+    Solution solution;
+    cout << setprecision(15);
+    judge::write(cout, solution.${signature.name}(${args}));
+    cout << endl;
+    return 0;
+}
+`;
+};
+
+const HARNESSES = {
+  python: (code, signature) => code + pythonHarness(signature),
+  javascript: (code, signature) => code + javascriptHarness(signature),
+  // The harness declares the public class, so a public Solution would not compile
+  java: (code, signature) => code.replace(/public\s+(final\s+)?class\s+Solution\b/, 'class Solution') + javaHarness(signature),
+  // #line keeps compiler messages pointing at the student's own line numbers
+  cpp: (code, signature) => CPP_PRELUDE + code + cppHarness(signature)
+};
+
+class FunctionHarness {
+  static isFunctionQuestion(question) {
+    return Boolean(question && question.function_signature && question.function_signature.name);
+  }
+
+  static isSupported(language) {
+    return Object.prototype.hasOwnProperty.call(HARNESSES, language);
+  }
+
+  // Returns an error message when the signature cannot be turned into a harness
+  static validateSignature(signature) {
+    if (!signature || !signature.name) return null;
+
+    if (!IDENTIFIER_PATTERN.test(signature.name)) {
+      return 'Function name must be a valid identifier';
+    }
+    if (!Array.isArray(signature.params) || signature.params.length === 0) {
+      return 'Function must take at least one parameter';
+    }
+    const names = new Set();
+    for (const param of signature.params) {
+      if (!param || !IDENTIFIER_PATTERN.test(param.name || '')) {
+        return 'Parameter names must be valid identifiers';
+      }
+      if (names.has(param.name)) {
+        return `Parameter ${param.name} is declared twice`;
+      }
+      if (!TYPES.includes(param.type)) {
+        return `Unsupported parameter type ${param.type}`;
+      }
+      names.add(param.name);
+    }
+    if (!TYPES.includes(signature.return_type)) {
+      return `Unsupported return type ${signature.return_type}`;
+    }
+    return null;
+  }
+
+  // Wraps the student's function in a program that reads arguments from stdin
+  static wrap(language, code, signature) {
+    if (!FunctionHarness.isSupported(language)) {
+      throw new Error(`Function-signature problems are not supported for ${language}`);
+    }
+    return HARNESSES[language](code, signature);
+  }
+}
+
+FunctionHarness.TYPES = TYPES;
+
+module.exports = FunctionHarness;
@@ -0,0 +1,49 @@
+const os = require('os');
+
+// Leave a core for the HTTP server; each job runs one untrusted process at a time
+const DEFAULT_CONCURRENCY = Math.max(1, (os.cpus() || []).length - 1);
+
+// In-memory FIFO of jobs processed by a bounded number of workers. Jobs are
+// async functions; push() resolves with the job's result once it has run.
+class JudgeQueue {
+  constructor(concurrency = DEFAULT_CONCURRENCY) {
+    this.concurrency = Math.max(1, concurrency);
+    this.jobs = [];
+    this.active = 0;
+  }
+
+  push(job) {
+    return new Promise((resolve, reject) => {
+      this.jobs.push({ job, resolve, reject });
+      this.next();
+    });
+  }
+
+  // Number of jobs waiting for a worker
+  get size() {
+    return this.jobs.length;
+  }
+
+  get running() {
+    return this.active;
+  }
+
+  next() {
+    while (this.active < this.concurrency && this.jobs.length > 0) {
+      const { job, resolve, reject } = this.jobs.shift();
+      this.active++;
+
+      Promise.resolve()
+        .then(job)
+        .then(resolve, reject)
+        .finally(() => {
+          this.active--;
+          this.next();
+        });
+    }
+  }
+}
+
+JudgeQueue.DEFAULT_CONCURRENCY = DEFAULT_CONCURRENCY;
+
+module.exports = JudgeQueue;
@@ -0,0 +1,115 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const SandboxProcess = require('./sandboxProcess');
+
+const PYTHON_COMMAND = process.env.PYTHON_PATH || (process.platform === 'win32' ? 'python' : 'python3');
+const PYTHON_RUNNER = path.join(__dirname, 'pythonRunner.py');
+const CHECKER_TIME_LIMIT = 5000;
+const CHECKER_MEMORY_LIMIT = 256;
+
+const MODES = ['exact', 'tokens', 'float', 'unordered_lines', 'custom'];
+const DEFAULT_TOLERANCE = 1e-6;
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+const normalizeNewlines = (text) => String(text || '').replace(/\r\n?/g, '\n');
+const toTokens = (text) => normalizeNewlines(text).split(/\s+/).filter(Boolean);
+const toLines = (text) => normalizeNewlines(text).trim().split('\n').map(line => line.trimEnd());
+
+// Numbers match within an absolute or relative tolerance; other tokens must be equal
+const tokensMatch = (expected, actual, tolerance) => {
+  if (expected === actual) return true;
+  if (!NUMBER_PATTERN.test(expected) || !NUMBER_PATTERN.test(actual)) return false;
+  const [a, b] = [Number(expected), Number(actual)];
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a));
+};
+
+const COMPARATORS = {
+  exact: (expected, actual) => normalizeNewlines(expected).trim() === normalizeNewlines(actual).trim(),
+  tokens: (expected, actual) => {
+    const [a, b] = [toTokens(expected), toTokens(actual)];
+    return a.length === b.length && a.every((token, i) => token === b[i]);
+  },
+  float: (expected, actual, tolerance) => {
+    const [a, b] = [toTokens(expected), toTokens(actual)];
+    return a.length === b.length && a.every((token, i) => tokensMatch(token, b[i], tolerance));
+  },
+  unordered_lines: (expected, actual) => {
+    const [a, b] = [toLines(expected).sort(), toLines(actual).sort()];
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+  }
+};
+
+// Custom checkers are Python scripts run in the same sandbox as solutions:
+//   checker.py <input file> <expected output file> <actual output file>
+// Exit code 0 accepts the output, 1 rejects it; anything printed to stdout is shown as feedback.
+const prepareCustomChecker = async (script) => {
+  await SandboxProcess.ensureAvailable();
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'checker-'));
+  await fs.promises.writeFile(path.join(workDir, 'checker.py'), script, 'utf8');
+  await fs.promises.copyFile(PYTHON_RUNNER, path.join(workDir, path.basename(PYTHON_RUNNER)));
+
+  return {
+    async check(input, expected, actual) {
+      await Promise.all([
+        fs.promises.writeFile(path.join(workDir, 'input.txt'), input || '', 'utf8'),
+        fs.promises.writeFile(path.join(workDir, 'expected.txt'), expected || '', 'utf8'),
+        fs.promises.writeFile(path.join(workDir, 'output.txt'), actual || '', 'utf8')
+      ]);
+
+      const result = await SandboxProcess.run(PYTHON_COMMAND, [
+        '-I', '-B', path.basename(PYTHON_RUNNER), 'checker.py', 'input.txt', 'expected.txt', 'output.txt'
+      ], { cwd: workDir, timeLimit: CHECKER_TIME_LIMIT, memoryLimit: CHECKER_MEMORY_LIMIT });
+
+      if (result.spawnError) {
+        throw new Error(`Runtime "${PYTHON_COMMAND}" is not available on the server`);
+      }
+      // Uncaught exceptions also exit with 1, but leave a traceback on stderr
+      if (result.timedOut || (result.code !== 0 && result.code !== 1) || (result.code === 1 && result.stderr.trim())) {
+        throw new Error(`Custom checker failed: ${(result.stderr || '').trim() || 'timed out or crashed'}`);
+      }
+      return { passed: result.code === 0, message: result.stdout.trim() || null };
+    },
+    cleanup: () => fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {})
+  };
+};
+
+class OutputChecker {
+  // Checker settings stored on a coding question
+  static getConfig(question = {}) {
+    const mode = MODES.includes(question.checker_mode) ? question.checker_mode : 'exact';
+    const tolerance = Number(question.float_tolerance) > 0 ? Number(question.float_tolerance) : DEFAULT_TOLERANCE;
+    return { mode, tolerance, script: question.checker_script || '' };
+  }
+
+  // Compares outputs with one of the built-in modes
+  static compare(expected, actual, config = { mode: 'exact' }) {
+    const comparator = COMPARATORS[config.mode] || COMPARATORS.exact;
+    return comparator(expected, actual, config.tolerance || DEFAULT_TOLERANCE);
+  }
+
+  // Returns a checker for the question: { check(input, expected, actual), cleanup() }.
+  // check resolves with { passed, message }.
+  static async prepare(question) {
+    const config = OutputChecker.getConfig(question);
+    if (config.mode === 'custom') {
+      if (!config.script.trim()) {
+        throw new Error('Custom checker script is missing for this question');
+      }
+      return prepareCustomChecker(config.script);
+    }
+
+    return {
+      async check(input, expected, actual) {
+        return { passed: OutputChecker.compare(expected, actual, config), message: null };
+      },
+      async cleanup() {}
+    };
+  }
+}
+
+OutputChecker.MODES = MODES;
+OutputChecker.DEFAULT_TOLERANCE = DEFAULT_TOLERANCE;
+
+module.exports = OutputChecker;
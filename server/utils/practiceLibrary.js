@@ -0,0 +1,64 @@
+// A user's bookmarks, notes and custom lists of coding questions
+const MAX_NOTE_LENGTH = 5000;
+const MAX_LIST_NAME_LENGTH = 100;
+const MAX_LISTS = 50;
+
+const toId = (value) => String(value?._id || value);
+
+class PracticeLibrary {
+  // Question id -> { bookmarked, note, lists } for the question list views. notes are the
+  // user's PracticeQuestionNote documents, lists their PracticeList documents.
+  static getQuestionMarks(notes, lists) {
+    const marks = new Map();
+    const get = (questionId) => {
+      if (!marks.has(questionId)) marks.set(questionId, { bookmarked: false, note: '', lists: [] });
+      return marks.get(questionId);
+    };
+
+    notes.forEach(note => {
+      const mark = get(toId(note.question_id));
+      mark.bookmarked = !!note.bookmarked;
+      mark.note = note.note || '';
+    });
+    lists.forEach(list => {
+      (list.questions || []).forEach(questionId => get(toId(questionId)).lists.push(toId(list._id)));
+    });
+    return marks;
+  }
+
+  static getMark(marks, questionId) {
+    return marks.get(toId(questionId)) || { bookmarked: false, note: '', lists: [] };
+  }
+
+  // A note document with no bookmark and no text carries nothing and can be removed
+  static isEmpty(note) {
+    return !note.bookmarked && !(note.note || '').trim();
+  }
+
+  // Returns an error message for an unusable list name
+  static getListNameError(name) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'List name is required';
+    }
+    if (name.trim().length > MAX_LIST_NAME_LENGTH) {
+      return `List names can be at most ${MAX_LIST_NAME_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  static getNoteError(note) {
+    if (typeof note !== 'string') {
+      return 'Note must be text';
+    }
+    if (note.length > MAX_NOTE_LENGTH) {
+      return `Notes can be at most ${MAX_NOTE_LENGTH} characters`;
+    }
+    return null;
+  }
+}
+
+PracticeLibrary.MAX_NOTE_LENGTH = MAX_NOTE_LENGTH;
+PracticeLibrary.MAX_LIST_NAME_LENGTH = MAX_LIST_NAME_LENGTH;
+PracticeLibrary.MAX_LISTS = MAX_LISTS;
+
+module.exports = PracticeLibrary;
@@ -0,0 +1,170 @@
+// Streaks, solved counts, learning path progress and leaderboards for practice coding.
+// Days are UTC calendar days, the same ones MongoDB's $dateToString produces by default.
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// Leaderboard points per solved question
+const POINTS = { easy: 1, medium: 2, hard: 3 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toId = (value) => String(value?._id || value);
+
+class PracticeTrack {
+  static dayKey(date) {
+    return new Date(date).toISOString().slice(0, 10);
+  }
+
+  // days are "YYYY-MM-DD" keys of days with practice activity. The current streak survives
+  // until a whole day passes without practice, so it still counts yesterday's run today.
+  static getStreak(days, now = new Date()) {
+    const sorted = [...new Set(days)].sort();
+    let longest = 0;
+    let run = 0;
+    let previous = null;
+
+    sorted.forEach(day => {
+      const time = Date.parse(`${day}T00:00:00Z`);
+      run = previous !== null && time - previous === DAY_MS ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = time;
+    });
+
+    const today = PracticeTrack.dayKey(now);
+    const yesterday = PracticeTrack.dayKey(now.getTime() - DAY_MS);
+    const last = sorted[sorted.length - 1] || null;
+
+    return {
+      current: last === today || last === yesterday ? run : 0,
+      longest,
+      activeToday: last === today,
+      lastActiveDay: last
+    };
+  }
+
+  // Solved and total question counts by difficulty and by tag, most used tags first
+  static getBreakdown(questions, progress) {
+    const solved = new Set(progress.filter(p => p.status === 'solved').map(p => toId(p.question_id)));
+
+    const byDifficulty = {};
+    DIFFICULTIES.forEach(difficulty => { byDifficulty[difficulty] = { solved: 0, total: 0 }; });
+
+    const tags = new Map();
+    questions.forEach(question => {
+      const isSolved = solved.has(toId(question._id));
+      const bucket = byDifficulty[question.difficulty];
+      if (bucket) {
+        bucket.total += 1;
+        if (isSolved) bucket.solved += 1;
+      }
+      (question.tags || []).forEach(tag => {
+        const entry = tags.get(tag) || { tag, solved: 0, total: 0 };
+        entry.total += 1;
+        if (isSolved) entry.solved += 1;
+        tags.set(tag, entry);
+      });
+    });
+
+    const byTag = [...tags.values()].sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag));
+    return { byDifficulty, byTag };
+  }
+
+  // solvedIds is a Set of question ids the student has solved
+  static getPathProgress(path, solvedIds) {
+    const questionIds = (path.questions || []).map(toId);
+    const solved = questionIds.filter(id => solvedIds.has(id)).length;
+    const next = questionIds.find(id => !solvedIds.has(id)) || null;
+
+    return {
+      total: questionIds.length,
+      solved,
+      completed: questionIds.length > 0 && solved === questionIds.length,
+      nextQuestionId: next
+    };
+  }
+
+  // Prerequisite path ids the student has not completed yet; empty when the path is unlocked
+  static getMissingPrerequisites(path, completedPathIds) {
+    return (path.prerequisites || []).map(toId).filter(id => !completedPathIds.has(id));
+  }
+
+  // Ids of the paths whose questions are all solved
+  static getCompletedPaths(paths, solvedIds) {
+    return new Set(
+      paths.filter(path => PracticeTrack.getPathProgress(path, solvedIds).completed).map(path => toId(path._id))
+    );
+  }
+
+  // Returns an error message when the prerequisites would make the path depend on itself.
+  // paths are the existing paths; pathId is null for a path being created.
+  static getPrerequisiteError(pathId, prerequisites, paths) {
+    const ids = prerequisites.map(String);
+    if (pathId && ids.includes(String(pathId))) {
+      return 'A path cannot be its own prerequisite';
+    }
+    if (!pathId) return null;
+
+    const edges = new Map(paths.map(path => [toId(path._id), (path.prerequisites || []).map(toId)]));
+    const seen = new Set();
+    const stack = [...ids];
+    while (stack.length > 0) {
+      const id = stack.pop();
+      if (id === String(pathId)) {
+        return 'These prerequisites would make the path depend on itself';
+      }
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(edges.get(id) || []));
+    }
+    return null;
+  }
+
+  // Ranks students by points, then solved count, then whoever reached it first. Students
+  // with equal points and solved counts share a rank. solved holds { student_id,
+  // question_id, solved_at } for solved questions; difficulties maps question id to difficulty.
+  static buildLeaderboard(students, solved, difficulties) {
+    const entries = new Map(students.map(student => [toId(student._id), {
+      studentId: toId(student._id),
+      name: student.name,
+      branch: student.branch,
+      batch: student.batch,
+      section: student.section,
+      points: 0,
+      solved: 0,
+      easy: 0,
+      medium: 0,
+      hard: 0,
+      lastSolvedAt: null
+    }]));
+
+    solved.forEach(progress => {
+      const entry = entries.get(toId(progress.student_id));
+      const difficulty = difficulties.get(toId(progress.question_id));
+      if (!entry || !difficulty) return;
+
+      entry.solved += 1;
+      entry[difficulty] += 1;
+      entry.points += POINTS[difficulty];
+      if (progress.solved_at && (!entry.lastSolvedAt || progress.solved_at > entry.lastSolvedAt)) {
+        entry.lastSolvedAt = progress.solved_at;
+      }
+    });
+
+    const time = (entry) => (entry.lastSolvedAt ? new Date(entry.lastSolvedAt).getTime() : Infinity);
+    const ranked = [...entries.values()].sort((a, b) =>
+      b.points - a.points || b.solved - a.solved || time(a) - time(b) || (a.name || '').localeCompare(b.name || '')
+    );
+
+    ranked.forEach((entry, index) => {
+      const previous = ranked[index - 1];
+      entry.rank = previous && previous.points === entry.points && previous.solved === entry.solved
+        ? previous.rank
+        : index + 1;
+    });
+    return ranked;
+  }
+}
+
+PracticeTrack.DIFFICULTIES = DIFFICULTIES;
+PracticeTrack.POINTS = POINTS;
+
+module.exports = PracticeTrack;
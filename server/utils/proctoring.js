@@ -0,0 +1,146 @@
+// Proctoring events streamed by the test interfaces while an attempt is in progress.
+// The server keeps the event log and decides what counts as a violation, so the
+// count can no longer be edited on the client before submitting.
+
+const EVENT_TYPES = ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'right_click', 'devtools_open', 'window_blur'];
+
+// Counted by default. Blur and right-click are only logged: a blur also fires on
+// every tab switch, and right-clicks are usually accidental
+const VIOLATION_TYPES = ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'devtools_open'];
+
+const MAX_VIOLATIONS = 3;
+
+// What happens when the violation limit is reached
+const LIMIT_ACTIONS = ['submit', 'warn'];
+
+// Seconds between webcam snapshots
+const SNAPSHOT_INTERVAL = { default: 60, min: 15, max: 600 };
+
+// Policy for tests saved before policies were configurable
+const DEFAULT_POLICY = {
+  countedEvents: VIOLATION_TYPES,
+  maxViolations: MAX_VIOLATIONS,
+  onLimit: 'submit',
+  requireFullscreen: true,
+  blockCopyPaste: false,
+  webcamSnapshots: false,
+  snapshotInterval: SNAPSHOT_INTERVAL.default
+};
+
+// Repeats of the same event within this window (e.g. devtools detection firing on
+// every check) are logged but counted once
+const REPEAT_WINDOW_MS = 2000;
+
+// Keeps a misbehaving client from growing the attempt document without bound. Counted
+// violations are always recorded; they are spaced by REPEAT_WINDOW_MS and limited by
+// the attempt window.
+const MAX_EVENTS_PER_ATTEMPT = 500;
+const MAX_SNAPSHOTS_PER_ATTEMPT = 300;
+
+const toDate = (value, fallback) => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : fallback;
+};
+
+class Proctoring {
+  // The test's proctoring policy with defaults filled in
+  static getPolicy(test) {
+    const policy = test?.proctoring || {};
+    const countedEvents = Array.isArray(policy.countedEvents)
+      ? [...policy.countedEvents].filter(type => EVENT_TYPES.includes(type))
+      : DEFAULT_POLICY.countedEvents;
+    const maxViolations = Number.isInteger(policy.maxViolations) && policy.maxViolations > 0
+      ? policy.maxViolations
+      : DEFAULT_POLICY.maxViolations;
+    const snapshotInterval = Number.isFinite(policy.snapshotInterval)
+      ? Math.min(SNAPSHOT_INTERVAL.max, Math.max(SNAPSHOT_INTERVAL.min, policy.snapshotInterval))
+      : DEFAULT_POLICY.snapshotInterval;
+
+    return {
+      countedEvents,
+      maxViolations,
+      onLimit: LIMIT_ACTIONS.includes(policy.onLimit) ? policy.onLimit : DEFAULT_POLICY.onLimit,
+      requireFullscreen: typeof policy.requireFullscreen === 'boolean' ? policy.requireFullscreen : DEFAULT_POLICY.requireFullscreen,
+      blockCopyPaste: typeof policy.blockCopyPaste === 'boolean' ? policy.blockCopyPaste : DEFAULT_POLICY.blockCopyPaste,
+      webcamSnapshots: policy.webcamSnapshots === true,
+      snapshotInterval
+    };
+  }
+
+  // Client timestamp limited to the attempt window; invalid or missing values become now
+  static clampTime(attempt, value, now = new Date()) {
+    const time = toDate(value, now).getTime();
+    return new Date(Math.min(Math.max(time, attempt.startTime.getTime()), now.getTime()));
+  }
+
+  static isViolation(type, policy = DEFAULT_POLICY) {
+    return policy.countedEvents.includes(type);
+  }
+
+  static canStoreSnapshot(attempt, policy = DEFAULT_POLICY) {
+    return policy.webcamSnapshots && (attempt.proctoringSnapshots || []).length < MAX_SNAPSHOTS_PER_ATTEMPT;
+  }
+
+  static countViolations(attempt) {
+    return (attempt.proctoringEvents || []).filter(event => event.counted).length;
+  }
+
+  static hasReachedLimit(attempt, policy = DEFAULT_POLICY) {
+    return Proctoring.countViolations(attempt) >= policy.maxViolations;
+  }
+
+  // Whether the attempt must be closed for violations under this policy
+  static shouldAutoSubmit(attempt, policy = DEFAULT_POLICY) {
+    return policy.onLimit === 'submit' && Proctoring.hasReachedLimit(attempt, policy);
+  }
+
+  // Appends client events to the attempt and refreshes its violation count.
+  // Client timestamps are kept for the timeline but clamped to the attempt window.
+  static recordEvents(attempt, events, now = new Date(), policy = DEFAULT_POLICY) {
+    if (!attempt.proctoringEvents) attempt.proctoringEvents = [];
+    const lastCounted = new Map();
+    attempt.proctoringEvents
+      .filter(event => event.counted)
+      .forEach(event => lastCounted.set(event.type, event.occurredAt.getTime()));
+
+    const sorted = [...events]
+      .filter(event => EVENT_TYPES.includes(event.type))
+      .map(event => ({ ...event, occurredAt: Proctoring.clampTime(attempt, event.occurredAt, now) }))
+      .sort((a, b) => a.occurredAt - b.occurredAt);
+
+    let recorded = 0;
+    sorted.forEach(event => {
+      const previous = lastCounted.get(event.type);
+      const time = event.occurredAt.getTime();
+      const counted = Proctoring.isViolation(event.type, policy) &&
+        (previous === undefined || time - previous >= REPEAT_WINDOW_MS);
+      // Past the cap only violations are kept, so logged-only events cannot crowd them out
+      if (!counted && attempt.proctoringEvents.length >= MAX_EVENTS_PER_ATTEMPT) return;
+      if (counted) lastCounted.set(event.type, time);
+      recorded += 1;
+
+      attempt.proctoringEvents.push({
+        type: event.type,
+        occurredAt: event.occurredAt,
+        receivedAt: now,
+        questionId: event.questionId || null,
+        sectionIndex: event.sectionIndex ?? null,
+        questionIndex: event.questionIndex ?? null,
+        details: event.details ? String(event.details).slice(0, 200) : null,
+        counted
+      });
+    });
+
+    attempt.violations = Proctoring.countViolations(attempt);
+    return { recorded, violations: attempt.violations };
+  }
+}
+
+Proctoring.EVENT_TYPES = EVENT_TYPES;
+Proctoring.VIOLATION_TYPES = VIOLATION_TYPES;
+Proctoring.MAX_VIOLATIONS = MAX_VIOLATIONS;
+Proctoring.LIMIT_ACTIONS = LIMIT_ACTIONS;
+Proctoring.DEFAULT_POLICY = DEFAULT_POLICY;
+Proctoring.SNAPSHOT_INTERVAL = SNAPSHOT_INTERVAL;
+
+module.exports = Proctoring;
@@ -0,0 +1,107 @@
+"""Runs a student's Python solution inside its scratch directory.
+
+Usage: python -I -B pythonRunner.py <solution.py> [args...]
+
+An audit hook is installed before the solution starts. It blocks networking,
+process creation, native code loading and any file access outside the scratch
+directory and the Python installation. The hook runs in the solution's own
+interpreter, so determined code can reach and disable it: it is only a second
+layer, and the isolation comes from the sandbox that sandboxProcess.js starts
+this runner in. Peak memory is measured by sandboxRunner.py, outside this
+interpreter.
+"""
+import os
+import runpy
+import sys
+import traceback
+
+SOLUTION = os.path.realpath(sys.argv[1])
+WORK_DIR = os.path.dirname(SOLUTION)
+READ_ROOTS = tuple(sorted({
+    os.path.realpath(path)
+    for path in (sys.prefix, sys.base_prefix, sys.exec_prefix, os.path.dirname(os.__file__))
+})) + (WORK_DIR,)
+READ_FILES = ('/dev/null', '/dev/urandom')
+
+BLOCKED_MODULES = {'ctypes', '_ctypes', 'socket', '_socket', 'subprocess', '_posixsubprocess', 'multiprocessing'}
+BLOCKED_PREFIXES = (
+    'socket.', 'subprocess.', 'ctypes.', 'os.system', 'os.exec', 'os.spawn', 'os.fork',
+    'os.posix_spawn', 'os.kill', 'os.killpg', 'os.chmod', 'os.chown', 'os.link', 'os.symlink',
+    'pty.', 'webbrowser.', 'urllib.', 'http.', 'ftplib.', 'smtplib.', 'telnetlib.',
+)
+PATH_EVENTS = {'os.listdir', 'os.scandir', 'os.chdir', 'os.remove', 'os.rename', 'os.rmdir', 'os.mkdir', 'shutil.rmtree'}
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+
+
+def is_within(path, roots):
+    real = os.path.realpath(path)
+    return any(real == root or real.startswith(root + os.sep) for root in roots)
+
+
+def check_path(path, writing):
+    if isinstance(path, int) or path is None:
+        return
+    path = os.fsdecode(path)
+    if writing:
+        allowed = is_within(path, (WORK_DIR,))
+    else:
+        allowed = path in READ_FILES or is_within(path, READ_ROOTS)
+    if not allowed:
+        raise PermissionError(f'Access to {path} is not allowed')
+
+
+def audit(event, args):
+    if event == 'open':
+        path, mode, flags = args
+        writing = any(c in (mode or '') for c in 'wax+') or bool((flags or 0) & WRITE_FLAGS)
+        check_path(path, writing)
+    elif event == 'import':
+        if args[0].split('.')[0] in BLOCKED_MODULES:
+            raise ImportError(f'Module {args[0]} is not available')
+    elif event in PATH_EVENTS:
+        writing = event not in ('os.listdir', 'os.scandir', 'os.chdir')
+        check_path(args[0] if args else None, writing)
+        if event == 'os.rename':
+            check_path(args[1], writing)
+    elif event.startswith(BLOCKED_PREFIXES):
+        raise PermissionError(f'{event} is not allowed')
+
+
+def print_solution_traceback(error):
+    # Hide the runner, runpy and audit hook frames so students only see their own code
+    hidden = {os.path.realpath(__file__), os.path.realpath(runpy.__file__), '<frozen runpy>'}
+    frames = [
+        frame for frame in traceback.extract_tb(error.__traceback__)
+        if frame.filename not in hidden and os.path.realpath(frame.filename) not in hidden
+    ]
+    if frames:
+        sys.stderr.write('Traceback (most recent call last):\n')
+        sys.stderr.write(''.join(traceback.format_list(frames)))
+    sys.stderr.write(''.join(traceback.format_exception_only(type(error), error)))
+
+
+def main():
+    os.chdir(WORK_DIR)
+    sys.path[:] = [WORK_DIR] + [p for p in sys.path if p and is_within(p, READ_ROOTS)]
+    sys.argv = [SOLUTION] + sys.argv[2:]
+    sys.addaudithook(audit)
+
+    exit_code = 0
+    try:
+        runpy.run_path(SOLUTION, run_name='__main__')
+    except SystemExit as error:
+        if isinstance(error.code, int) or error.code is None:
+            exit_code = error.code or 0
+        else:
+            print(error.code, file=sys.stderr)
+            exit_code = 1
+    except BaseException as error:
+        print_solution_traceback(error)
+        exit_code = 1
+    finally:
+        sys.stdout.flush()
+    sys.exit(exit_code)
+
+
+if __name__ == '__main__':
+    main()
@@ -0,0 +1,148 @@
+const mongoose = require('mongoose');
+const BankQuestion = require('../models/BankQuestion');
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+// Pool rules store their difficulty mix as lower-case counts ({ easy, medium, hard })
+const mixCount = (pool, difficulty) => (pool && pool[difficulty.toLowerCase()]) || 0;
+
+const buildMatch = (pool, difficulty, excludeIds = []) => {
+  const match = { isActive: true, difficulty };
+  if (pool.subject) match.subject = pool.subject;
+  if (pool.topics && pool.topics.length > 0) match.topics = { $in: pool.topics };
+  if (excludeIds.length > 0) {
+    match._id = { $nin: excludeIds.map(id => new mongoose.Types.ObjectId(id.toString())) };
+  }
+  return match;
+};
+
+// Copy of a bank question as it is frozen onto an attempt. The bank id doubles as the
+// question id so answers and item analytics line up across students.
+const toDrawnQuestion = (question, marks) => ({
+  _id: question._id,
+  bankQuestionId: question._id,
+  questionText: question.questionText,
+  questionImageUrl: question.questionImageUrl || null,
+  questionType: question.questionType || 'single',
+  options: question.options,
+  optionImages: question.optionImages,
+  correctAnswer: question.correctAnswer,
+  tolerance: question.tolerance || 0,
+  acceptedAnswers: question.acceptedAnswers || [],
+  caseSensitive: !!question.caseSensitive,
+  marks
+});
+
+class QuestionPool {
+  static isPoolSection(section) {
+    return !!section && section.questionSource === 'pool';
+  }
+
+  static hasPoolSections(test) {
+    return !!(test.hasSections && test.sections && test.sections.some(QuestionPool.isPoolSection));
+  }
+
+  static getMixTotal(pool) {
+    return DIFFICULTIES.reduce((sum, difficulty) => sum + mixCount(pool, difficulty), 0);
+  }
+
+  // Returns an error message when the bank cannot satisfy a pool rule, otherwise null
+  static async validatePool(section) {
+    const pool = section.pool || {};
+
+    if (QuestionPool.getMixTotal(pool) !== section.numberOfQuestions) {
+      return `Section "${section.sectionName}" difficulty mix must add up to ${section.numberOfQuestions} questions`;
+    }
+
+    for (const difficulty of DIFFICULTIES) {
+      const needed = mixCount(pool, difficulty);
+      if (needed === 0) continue;
+
+      const available = await BankQuestion.countDocuments(buildMatch(pool, difficulty));
+      if (available < needed) {
+        return `Section "${section.sectionName}" needs ${needed} ${difficulty} questions but the bank only has ${available}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Draw a fresh question set for every pool section of a test. No bank question is
+  // repeated across sections; shortfall lists anything the bank could not supply.
+  static async drawForTest(test) {
+    const poolQuestions = [];
+    const shortfall = [];
+    const usedIds = [];
+
+    for (const section of test.sections || []) {
+      if (!QuestionPool.isPoolSection(section)) continue;
+
+      const questions = [];
+      for (const difficulty of DIFFICULTIES) {
+        const needed = mixCount(section.pool, difficulty);
+        if (needed === 0) continue;
+
+        const drawn = await BankQuestion.aggregate([
+          { $match: buildMatch(section.pool, difficulty, usedIds) },
+          { $sample: { size: needed } }
+        ]);
+
+        if (drawn.length < needed) {
+          shortfall.push({ sectionName: section.sectionName, difficulty, missing: needed - drawn.length });
+        }
+
+        drawn.forEach(question => {
+          usedIds.push(question._id);
+          questions.push(toDrawnQuestion(question, section.marksPerQuestion));
+        });
+      }
+
+      poolQuestions.push({ sectionId: section._id, questions });
+    }
+
+    return { poolQuestions, shortfall };
+  }
+
+  // Questions a student actually received for one section
+  static getSectionQuestions(section, attempt) {
+    if (!QuestionPool.isPoolSection(section)) return section.questions;
+
+    const drawn = (attempt?.poolQuestions || []).find(
+      entry => entry.sectionId.toString() === section._id.toString()
+    );
+    return drawn ? drawn.questions : [];
+  }
+
+  // Every objective question a student received, in authored section order
+  static getTestQuestions(test, attempt) {
+    if (test.hasSections && test.sections && test.sections.length > 0) {
+      return test.sections.flatMap(section => QuestionPool.getSectionQuestions(section, attempt));
+    }
+    return test.questions || [];
+  }
+
+  // Union of the questions served across many attempts, for item analytics. Fixed
+  // questions come first in authored order, followed by drawn questions as first seen.
+  static collectQuestions(test, attempts) {
+    const seen = new Map();
+    const add = (question) => {
+      const key = question._id.toString();
+      if (!seen.has(key)) seen.set(key, question);
+    };
+
+    QuestionPool.getTestQuestions(test, null).forEach(add);
+    attempts.forEach(attempt => QuestionPool.getTestQuestions(test, attempt).forEach(add));
+
+    return Array.from(seen.values());
+  }
+
+  // Whether an attempt was served a question (always true for fixed questions)
+  static wasServed(test, attempt, questionId) {
+    const id = questionId.toString();
+    return QuestionPool.getTestQuestions(test, attempt).some(q => q._id.toString() === id);
+  }
+}
+
+QuestionPool.DIFFICULTIES = DIFFICULTIES;
+
+module.exports = QuestionPool;
@@ -0,0 +1,132 @@
+const crypto = require('crypto');
+const QuestionPool = require('./questionPool');
+const QuestionTypes = require('./questionTypes');
+
+const OPTION_LABELS = QuestionTypes.OPTION_LABELS;
+const DEFAULT_OPTION_LABELS = ['A', 'B', 'C', 'D'];
+
+// FNV-1a hash, used to derive per-question seeds from the attempt seed
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  const str = String(value);
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG - small, fast and deterministic for a given seed
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+class QuestionShuffler {
+  // Random seed stored on a TestAttempt so its question/option order can be rebuilt later
+  static generateSeed() {
+    return crypto.randomInt(1, 2 ** 31 - 1);
+  }
+
+  // Fisher-Yates shuffle on a copy of the array
+  static shuffle(items, seed) {
+    const random = createRandom(seed);
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // Question order for one list of questions (a section, or the whole test)
+  static getQuestionOrder(questions, seed, salt = '') {
+    return QuestionShuffler.shuffle(questions, (seed ^ hashString(`questions:${salt}`)) >>> 0);
+  }
+
+  // Canonical option labels in display order: ['C', 'A', 'D', 'B'] means the
+  // student sees option C's text labelled "A"
+  static getOptionOrder(questionId, seed, labels = DEFAULT_OPTION_LABELS) {
+    return QuestionShuffler.shuffle(labels, (seed ^ hashString(`options:${questionId}`)) >>> 0);
+  }
+
+  // Both conversions accept a single label or a comma-separated multiple-correct answer;
+  // anything that is not a string is returned as it is
+  static toCanonicalAnswer(displayedAnswer, optionOrder) {
+    if (typeof displayedAnswer !== 'string') return displayedAnswer;
+    if (displayedAnswer.includes(',')) {
+      return QuestionTypes.joinLabels(QuestionTypes.splitLabels(displayedAnswer)
+        .map(label => QuestionShuffler.toCanonicalAnswer(label, optionOrder)));
+    }
+    const index = OPTION_LABELS.indexOf(displayedAnswer);
+    return index === -1 || !optionOrder[index] ? displayedAnswer : optionOrder[index];
+  }
+
+  static toDisplayedAnswer(canonicalAnswer, optionOrder) {
+    if (typeof canonicalAnswer !== 'string') return canonicalAnswer;
+    if (canonicalAnswer.includes(',')) {
+      return QuestionTypes.joinLabels(QuestionTypes.splitLabels(canonicalAnswer)
+        .map(label => QuestionShuffler.toDisplayedAnswer(label, optionOrder)));
+    }
+    const index = optionOrder.indexOf(canonicalAnswer);
+    return index === -1 ? canonicalAnswer : OPTION_LABELS[index];
+  }
+
+  // Question order for an attempt, honouring the shuffle settings captured when it started
+  static orderForAttempt(attempt, questions, salt = '') {
+    if (!attempt?.shuffle?.questions || !attempt.shuffle.seed) return questions;
+    return QuestionShuffler.getQuestionOrder(questions, attempt.shuffle.seed, salt);
+  }
+
+  // Option order for a question in an attempt, or null when its options are not shuffled.
+  // Only choice questions are shuffled; true/false keeps its natural order.
+  static getAttemptOptionOrder(attempt, question) {
+    if (!attempt?.shuffle?.options || !attempt.shuffle.seed || !question) return null;
+
+    const type = QuestionTypes.getType(question);
+    if (type !== 'single' && type !== 'multiple') return null;
+
+    return QuestionShuffler.getOptionOrder(
+      question._id.toString(),
+      attempt.shuffle.seed,
+      QuestionTypes.getOptionLabels(question)
+    );
+  }
+
+  // Every MCQ question of a test in the order the attempt's student saw them
+  static getAttemptQuestions(attempt, test) {
+    const groups = test.hasSections && test.sections && test.sections.length > 0
+      ? test.sections.map(section => ({
+        questions: QuestionPool.getSectionQuestions(section, attempt),
+        salt: section._id.toString()
+      }))
+      : [{ questions: test.questions || [], salt: 'test' }];
+
+    return groups
+      .flatMap(({ questions, salt }) => QuestionShuffler.orderForAttempt(attempt, questions, salt))
+      .map(question => ({
+        question,
+        optionOrder: QuestionShuffler.getAttemptOptionOrder(attempt, question)
+      }));
+  }
+
+  // Rebuild an options (or optionImages) object so each displayed label holds the shuffled content
+  static reorderOptions(options, optionOrder) {
+    if (!options) return options;
+    const reordered = {};
+    optionOrder.forEach((canonicalLabel, index) => {
+      reordered[OPTION_LABELS[index]] = options[canonicalLabel];
+    });
+    return reordered;
+  }
+}
+
+QuestionShuffler.OPTION_LABELS = OPTION_LABELS;
+
+module.exports = QuestionShuffler;
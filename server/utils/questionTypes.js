@@ -0,0 +1,185 @@
+const TYPES = ['single', 'multiple', 'true_false', 'numeric', 'fill_blank'];
+const OPTION_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const CHOICE_TYPES = ['single', 'multiple', 'true_false'];
+const TRUE_FALSE_OPTIONS = { A: 'True', B: 'False' };
+
+// Answers always travel and are stored as a single string: one label for single and
+// true/false, sorted comma-separated labels for multiple, and raw text for numeric
+// and fill-in-the-blank questions.
+const splitLabels = (answer) => (answer || '')
+  .toString()
+  .split(',')
+  .map(label => label.trim().toUpperCase())
+  .filter(Boolean);
+
+const joinLabels = (labels) => Array.from(new Set(labels)).sort().join(',');
+
+const normalizeText = (text, caseSensitive) => {
+  const value = (text || '').toString().trim().replace(/\s+/g, ' ');
+  return caseSensitive ? value : value.toLowerCase();
+};
+
+class QuestionTypes {
+  static getType(question) {
+    return (question && question.questionType) || 'single';
+  }
+
+  static isChoiceType(question) {
+    return CHOICE_TYPES.includes(QuestionTypes.getType(question));
+  }
+
+  // Option labels a question actually uses, in order (always contiguous from A)
+  static getOptionLabels(question) {
+    if (!QuestionTypes.isChoiceType(question)) return [];
+    if (QuestionTypes.getType(question) === 'true_false') return ['A', 'B'];
+
+    const options = question.options || {};
+    const images = question.optionImages || {};
+    return OPTION_LABELS.filter(label => !!(options[label] || images[label]));
+  }
+
+  // Copy of the options restricted to the labels in use, without empty slots
+  static getOptions(question) {
+    const options = {};
+    QuestionTypes.getOptionLabels(question).forEach(label => {
+      options[label] = (question.options && question.options[label]) || '';
+    });
+    return options;
+  }
+
+  static splitLabels(answer) {
+    return splitLabels(answer);
+  }
+
+  static joinLabels(labels) {
+    return joinLabels(labels);
+  }
+
+  // Returns an error message for a malformed question, otherwise null
+  static validateQuestion(question) {
+    const type = QuestionTypes.getType(question);
+    if (!TYPES.includes(type)) return `Unknown question type "${type}"`;
+
+    if (type === 'numeric') {
+      if (question.correctAnswer === undefined || question.correctAnswer === null ||
+          question.correctAnswer === '' || isNaN(Number(question.correctAnswer))) {
+        return 'Numeric questions need a numeric correct answer';
+      }
+      if (question.tolerance !== undefined && (isNaN(Number(question.tolerance)) || Number(question.tolerance) < 0)) {
+        return 'Tolerance must be a non-negative number';
+      }
+      return null;
+    }
+
+    if (type === 'fill_blank') {
+      const accepted = (question.acceptedAnswers || []).filter(answer => answer && answer.toString().trim());
+      if (accepted.length === 0 && !(question.correctAnswer || '').toString().trim()) {
+        return 'Fill-in-the-blank questions need at least one accepted answer';
+      }
+      return null;
+    }
+
+    const labels = QuestionTypes.getOptionLabels(question);
+    if (type !== 'true_false') {
+      if (labels.length < MIN_OPTIONS || labels.length > MAX_OPTIONS) {
+        return `Questions need between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`;
+      }
+      if (labels.some((label, index) => label !== OPTION_LABELS[index])) {
+        return 'Options must be filled in order without gaps';
+      }
+    }
+
+    const correct = splitLabels(question.correctAnswer);
+    if (correct.length === 0 || correct.some(label => !labels.includes(label))) {
+      return 'Correct answer must be one of the question options';
+    }
+    if (type !== 'multiple' && correct.length > 1) {
+      return 'Only multiple-correct questions can have more than one correct answer';
+    }
+
+    return null;
+  }
+
+  // Fills in the derived fields so every type is stored in one consistent shape
+  static normalizeQuestion(question) {
+    const type = QuestionTypes.getType(question);
+    const normalized = { ...question, questionType: type };
+
+    if (type === 'true_false') {
+      normalized.options = { ...TRUE_FALSE_OPTIONS };
+      normalized.correctAnswer = splitLabels(question.correctAnswer)[0];
+    } else if (type === 'multiple') {
+      normalized.correctAnswer = joinLabels(splitLabels(question.correctAnswer));
+    } else if (type === 'numeric') {
+      normalized.correctAnswer = Number(question.correctAnswer).toString();
+      normalized.tolerance = Number(question.tolerance) || 0;
+    } else if (type === 'fill_blank') {
+      const accepted = (question.acceptedAnswers || [])
+        .map(answer => answer.toString().trim())
+        .filter(Boolean);
+      if (accepted.length === 0) accepted.push(question.correctAnswer.toString().trim());
+      normalized.acceptedAnswers = accepted;
+      normalized.correctAnswer = accepted[0];
+    }
+
+    if (!QuestionTypes.isChoiceType(normalized)) {
+      normalized.options = {};
+      normalized.optionImages = {};
+    }
+
+    return normalized;
+  }
+
+  static isAnswered(selectedAnswer) {
+    return selectedAnswer !== undefined && selectedAnswer !== null && selectedAnswer.toString().trim() !== '';
+  }
+
+  // Grades a canonical answer against a question
+  static isCorrect(question, selectedAnswer) {
+    if (!QuestionTypes.isAnswered(selectedAnswer)) return false;
+
+    switch (QuestionTypes.getType(question)) {
+      case 'multiple':
+        return joinLabels(splitLabels(selectedAnswer)) === joinLabels(splitLabels(question.correctAnswer));
+      case 'numeric': {
+        const value = Number(selectedAnswer.toString().trim());
+        if (isNaN(value)) return false;
+        return Math.abs(value - Number(question.correctAnswer)) <= (Number(question.tolerance) || 0) + 1e-9;
+      }
+      case 'fill_blank': {
+        const accepted = (question.acceptedAnswers && question.acceptedAnswers.length > 0)
+          ? question.acceptedAnswers
+          : [question.correctAnswer];
+        const given = normalizeText(selectedAnswer, question.caseSensitive);
+        return accepted.some(answer => normalizeText(answer, question.caseSensitive) === given);
+      }
+      default:
+        return selectedAnswer.toString().trim().toUpperCase() === (question.correctAnswer || '').toString().toUpperCase();
+    }
+  }
+
+  // Human-readable correct answer for reports and feedback on non-choice questions
+  static describeCorrectAnswer(question) {
+    switch (QuestionTypes.getType(question)) {
+      case 'numeric':
+        return Number(question.tolerance) > 0
+          ? `${question.correctAnswer} (±${question.tolerance})`
+          : `${question.correctAnswer}`;
+      case 'fill_blank':
+        return ((question.acceptedAnswers && question.acceptedAnswers.length > 0)
+          ? question.acceptedAnswers
+          : [question.correctAnswer]).join(' / ');
+      default:
+        return question.correctAnswer;
+    }
+  }
+}
+
+QuestionTypes.TYPES = TYPES;
+QuestionTypes.OPTION_LABELS = OPTION_LABELS;
+QuestionTypes.MIN_OPTIONS = MIN_OPTIONS;
+QuestionTypes.MAX_OPTIONS = MAX_OPTIONS;
+
+module.exports = QuestionTypes;
@@ -0,0 +1,211 @@
+const { spawn } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const IS_WINDOWS = process.platform === 'win32';
+const MAX_OUTPUT = 1024 * 1024;
+const MAX_FILE_SIZE_KB = 16 * 1024;
+
+// Sets the resource limits inside the sandbox and reports peak memory and how the
+// program ended, which cannot be seen from outside bwrap
+const SANDBOX_RUNNER = path.join(__dirname, 'sandboxRunner.py');
+const PYTHON_COMMAND = process.env.PYTHON_PATH || 'python3';
+
+const SANDBOX_PROBE_TIMEOUT = 5000;
+
+// Untrusted code always runs in bubblewrap namespaces: no network, a private /tmp and
+// only the system directories below (plus CODE_SANDBOX_PATHS) mounted read-only next to
+// the scratch directory. Nothing runs when the sandbox cannot be used; in-process checks
+// such as the Python audit hook are only an extra layer on top of it.
+const SANDBOXES = ['bwrap'];
+const JDK_CONFIG_PATHS = (() => {
+  try {
+    // Debian's JDKs keep their configuration under /etc/java-<version>-openjdk
+    return fs.readdirSync('/etc').filter(name => name.startsWith('java')).map(name => `/etc/${name}`);
+  } catch (error) {
+    return [];
+  }
+})();
+const SANDBOX_READ_ONLY_PATHS = ['/usr', '/lib', '/lib64', '/lib32', '/bin', '/sbin', '/etc/alternatives', '/etc/ld.so.cache']
+  .concat(JDK_CONFIG_PATHS)
+  .concat((process.env.CODE_SANDBOX_PATHS || '').split(':').filter(Boolean));
+
+// Availability of each sandbox, probed once per process
+const probes = new Map();
+
+// Untrusted code never sees the server's environment (database URLs, secrets, ...)
+const buildEnv = (workDir) => {
+  const env = {
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: workDir,
+    TMPDIR: workDir,
+    LANG: 'C.UTF-8'
+  };
+  if (IS_WINDOWS && process.env.SystemRoot) {
+    env.SystemRoot = process.env.SystemRoot;
+  }
+  return env;
+};
+
+const getSandbox = () => process.env.CODE_SANDBOX || 'bwrap';
+
+const bubblewrap = (workDir, command, args) => ['bwrap', [
+  '--unshare-all',
+  '--die-with-parent',
+  '--new-session',
+  ...SANDBOX_READ_ONLY_PATHS.flatMap(dir => ['--ro-bind-try', dir, dir]),
+  '--ro-bind', SANDBOX_RUNNER, SANDBOX_RUNNER,
+  '--proc', '/proc',
+  '--dev', '/dev',
+  '--tmpfs', '/tmp',
+  '--bind', workDir, workDir,
+  '--chdir', workDir,
+  '--',
+  command,
+  ...args
+]];
+
+// The runner applies the limits right before it execs the program
+// (see sandboxRunner.py for the arguments)
+const withRunner = (command, args, { memoryLimit, cpuSeconds }) => [PYTHON_COMMAND, [
+  '-I', '-S', '-B', SANDBOX_RUNNER,
+  String(cpuSeconds),
+  String(memoryLimit ? memoryLimit * 1024 : 0),
+  String(MAX_FILE_SIZE_KB),
+  command,
+  ...args
+]];
+
+// Runs the runner with an empty program in a sandbox to check that bwrap is installed
+// and may create namespaces (containers often forbid unprivileged user namespaces)
+const probeBubblewrap = () => new Promise((resolve) => {
+  let child;
+  try {
+    const [file, args] = bubblewrap('/tmp', ...withRunner('true', [], { cpuSeconds: 1 }));
+    child = spawn(file, args, { stdio: 'ignore' });
+  } catch (error) {
+    resolve(false);
+    return;
+  }
+  const timer = setTimeout(() => killTree(child), SANDBOX_PROBE_TIMEOUT);
+  child.on('error', () => {
+    clearTimeout(timer);
+    resolve(false);
+  });
+  child.on('close', (code) => {
+    clearTimeout(timer);
+    resolve(code === 0);
+  });
+});
+
+const killTree = (child) => {
+  try {
+    // Detached children lead their own process group, so forks die with them
+    if (!IS_WINDOWS && child.pid) process.kill(-child.pid, 'SIGKILL');
+    else child.kill('SIGKILL');
+  } catch (error) {
+    // Already exited
+  }
+};
+
+class SandboxProcess {
+  // Resolves true when untrusted programs can be run in the configured sandbox
+  static isAvailable() {
+    const sandbox = getSandbox();
+    if (IS_WINDOWS || !SANDBOXES.includes(sandbox)) return Promise.resolve(false);
+    if (!probes.has(sandbox)) probes.set(sandbox, probeBubblewrap());
+    return probes.get(sandbox);
+  }
+
+  // Throws when the sandbox is missing, so callers fail before preparing any files
+  static async ensureAvailable() {
+    if (!(await SandboxProcess.isAvailable())) {
+      const sandbox = getSandbox();
+      throw new Error(SANDBOXES.includes(sandbox)
+        ? `Code execution is unavailable: the ${sandbox} sandbox or Python 3 is not installed, or namespaces cannot be created on this server`
+        : `Code execution is unavailable: unknown CODE_SANDBOX "${sandbox}"`);
+    }
+  }
+
+  // Runs an untrusted program inside the sandbox without blocking the event loop.
+  // Resolves with its output, exit status, wall time and peak memory; never rejects.
+  // Without a usable sandbox nothing is started and spawnError is set. The exit status
+  // and memory come from the runner inside the sandbox; a killed run has no report.
+  static async run(command, args, { cwd, input = '', timeLimit, memoryLimit = null }) {
+    try {
+      await SandboxProcess.ensureAvailable();
+    } catch (error) {
+      return { stdout: '', stderr: '', code: null, timedOut: false, outputExceeded: false, memoryKb: 0, time: 0, spawnError: error };
+    }
+
+    return new Promise((resolve) => {
+      const [file, fileArgs] = bubblewrap(cwd, ...withRunner(command, args, {
+        memoryLimit,
+        cpuSeconds: Math.ceil(timeLimit / 1000) + 1
+      }));
+
+      const startTime = Date.now();
+      const child = spawn(file, fileArgs, {
+        cwd,
+        env: buildEnv(cwd),
+        detached: !IS_WINDOWS,
+        windowsHide: true,
+        stdio: ['pipe', 'pipe', 'pipe', 'pipe']
+      });
+      let stdout = '';
+      let stderr = '';
+      let report = '';
+      let timedOut = false;
+      let outputExceeded = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killTree(child);
+      }, timeLimit);
+
+      const collect = (stream, append) => stream.on('data', (chunk) => {
+        append(chunk.toString());
+        if (stdout.length + stderr.length > MAX_OUTPUT && !outputExceeded) {
+          outputExceeded = true;
+          killTree(child);
+        }
+      });
+      collect(child.stdout, (text) => { stdout += text; });
+      collect(child.stderr, (text) => { stderr += text; });
+      child.stdio[3].on('data', (chunk) => { report += chunk.toString(); });
+      child.stdio[3].on('error', () => {});
+
+      const finish = (result) => {
+        clearTimeout(timer);
+        resolve({ stdout, stderr, timedOut, outputExceeded, memoryKb: 0, time: Date.now() - startTime, ...result });
+      };
+
+      child.on('error', (error) => finish({ code: null, spawnError: error }));
+      child.on('close', (code, signal) => {
+        let usage = null;
+        try {
+          usage = JSON.parse(report);
+        } catch (error) {
+          // Killed for the time or output limit before the runner could report
+        }
+        if (!usage) {
+          finish({ code, signal });
+          return;
+        }
+        finish({
+          code: usage.exitCode,
+          signal: usage.signal,
+          memoryKb: usage.memoryKb || 0,
+          // The runner reports a program it cannot start as exit status 127
+          spawnError: usage.exitCode === 127 && /not found/.test(stderr) ? new Error(stderr.trim()) : undefined
+        });
+      });
+
+      // Programs may exit without reading their input
+      child.stdin.on('error', () => {});
+      child.stdin.end(input);
+    });
+  }
+}
+
+module.exports = SandboxProcess;
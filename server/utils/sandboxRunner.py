@@ -0,0 +1,71 @@
+"""Starts an untrusted program inside the sandbox and reports how it ended.
+
+Usage: python -I -S -B sandboxRunner.py <cpu seconds> <memory KB, 0 for none> <file size KB> <command> [args...]
+
+The resource limits are set in the child right before it execs the program. The
+runner waits for it and writes its peak memory in kilobytes and its exit code or
+terminating signal as JSON to file descriptor 3. bwrap only passes on an exit
+status, so without the report a CPU-limit kill would look like exit code 152, and
+polling memory from outside would measure bwrap instead of the program. The
+program itself never inherits descriptor 3, so it cannot write the report.
+"""
+import json
+import os
+import resource
+import signal
+import sys
+
+REPORT_FD = 3
+
+
+def set_limits(cpu_seconds, memory_kb, file_kb):
+    resource.setrlimit(resource.RLIMIT_CORE, (0, 0))
+    resource.setrlimit(resource.RLIMIT_CPU, (cpu_seconds, cpu_seconds))
+    resource.setrlimit(resource.RLIMIT_FSIZE, (file_kb * 1024, file_kb * 1024))
+    if memory_kb:
+        resource.setrlimit(resource.RLIMIT_AS, (memory_kb * 1024, memory_kb * 1024))
+
+
+def start(command, limits):
+    pid = os.fork()
+    if pid:
+        return pid
+    try:
+        try:
+            os.close(REPORT_FD)
+        except OSError:
+            pass
+        set_limits(*limits)
+        os.execvp(command[0], command)
+    except OSError:
+        # Same status and message as a shell, which the caller reports as a missing program
+        os.write(2, f'{command[0]}: not found\n'.encode())
+    os._exit(127)
+
+
+def report(usage):
+    try:
+        os.write(REPORT_FD, json.dumps(usage).encode())
+    except OSError:
+        pass
+
+
+def main():
+    limits = tuple(int(value) for value in sys.argv[1:4])
+    pid = start(sys.argv[4:], limits)
+
+    _, status, rusage = os.wait4(pid, 0)
+    usage = {'memoryKb': rusage.ru_maxrss, 'exitCode': None, 'signal': None}
+    if os.WIFSIGNALED(status):
+        number = os.WTERMSIG(status)
+        usage['signal'] = signal.Signals(number).name
+        exit_code = 128 + number
+    else:
+        usage['exitCode'] = exit_code = os.WEXITSTATUS(status)
+
+    report(usage)
+    sys.exit(exit_code)
+
+
+if __name__ == '__main__':
+    main()
@@ -0,0 +1,78 @@
+const QuestionTypes = require('./questionTypes');
+const QuestionPool = require('./questionPool');
+
+const DEFAULT_POLICY = { negativeMarks: 0, partialCredit: false };
+
+const roundMarks = (marks) => Math.round(marks * 100) / 100;
+
+const hasOverride = (value) => value !== undefined && value !== null;
+
+class Scoring {
+  // Scoring policy of a test, with a section's own settings taking precedence
+  static getPolicy(test, section) {
+    const scoring = (test && test.scoring) || {};
+    const policy = {
+      negativeMarks: Number(scoring.negativeMarks) || 0,
+      partialCredit: !!scoring.partialCredit
+    };
+
+    if (section && hasOverride(section.negativeMarks)) {
+      policy.negativeMarks = Number(section.negativeMarks) || 0;
+    }
+    if (section && hasOverride(section.partialCredit)) {
+      policy.partialCredit = !!section.partialCredit;
+    }
+
+    return policy;
+  }
+
+  // Policy that applies to each question a student was served, keyed by question id
+  static getQuestionPolicies(test, attempt) {
+    const policies = new Map();
+
+    if (test.hasSections && test.sections && test.sections.length > 0) {
+      test.sections.forEach(section => {
+        const policy = Scoring.getPolicy(test, section);
+        QuestionPool.getSectionQuestions(section, attempt).forEach(question => {
+          policies.set(question._id.toString(), policy);
+        });
+      });
+    } else {
+      const policy = Scoring.getPolicy(test);
+      (test.questions || []).forEach(question => policies.set(question._id.toString(), policy));
+    }
+
+    return policies;
+  }
+
+  // Marks for one answered question. A multiple-correct answer that picks only correct
+  // options earns a proportional share when partial credit is on; any wrong pick makes
+  // the whole answer incorrect and the negative marks are deducted.
+  static scoreAnswer(question, selectedAnswer, policy = DEFAULT_POLICY) {
+    if (!QuestionTypes.isAnswered(selectedAnswer)) {
+      return { isCorrect: false, isPartial: false, marksObtained: 0 };
+    }
+
+    if (QuestionTypes.isCorrect(question, selectedAnswer)) {
+      return { isCorrect: true, isPartial: false, marksObtained: question.marks };
+    }
+
+    if (policy.partialCredit && QuestionTypes.getType(question) === 'multiple') {
+      const correct = QuestionTypes.splitLabels(question.correctAnswer);
+      const selected = Array.from(new Set(QuestionTypes.splitLabels(selectedAnswer)));
+      if (selected.length > 0 && selected.every(label => correct.includes(label))) {
+        return {
+          isCorrect: false,
+          isPartial: true,
+          marksObtained: roundMarks(question.marks * selected.length / correct.length)
+        };
+      }
+    }
+
+    return { isCorrect: false, isPartial: false, marksObtained: -(Number(policy.negativeMarks) || 0) };
+  }
+}
+
+Scoring.DEFAULT_POLICY = DEFAULT_POLICY;
+
+module.exports = Scoring;
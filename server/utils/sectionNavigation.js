@@ -0,0 +1,121 @@
+const QuestionPool = require('./questionPool');
+const Accommodations = require('./accommodations');
+
+// How students move between the sections of a sectioned test:
+// - sequential: sections in order, each closes when the student moves on, unused time is lost
+// - carry_over: like sequential, but a section's unused time is added to the next one
+// - free: any section at any time, with one timer for the whole test
+// The attempt session records the open section, so closed sections stay closed whatever
+// the client sends.
+const MODES = ['sequential', 'free', 'carry_over'];
+
+const DEFAULT_MODE = 'sequential';
+
+const hasSections = (test) => !!(test.hasSections && test.sections && test.sections.length > 0);
+
+const secondsSince = (date, now) => (date ? Math.max(0, Math.floor((now.getTime() - new Date(date).getTime()) / 1000)) : 0);
+
+class SectionNavigation {
+  static getMode(test) {
+    return MODES.includes(test?.sectionNavigation) ? test.sectionNavigation : DEFAULT_MODE;
+  }
+
+  static isLocked(mode) {
+    return mode !== 'free';
+  }
+
+  static getOpenSectionIndex(attempt) {
+    return attempt.session?.currentSectionIndex || 0;
+  }
+
+  // Sections before the open one are closed under the locked modes
+  static isSectionClosed(attempt, sectionIndex, mode) {
+    return SectionNavigation.isLocked(mode) && sectionIndex < SectionNavigation.getOpenSectionIndex(attempt);
+  }
+
+  // Section index of every question served in this attempt
+  static getQuestionSections(test, attempt) {
+    const sections = new Map();
+    if (!hasSections(test)) return sections;
+
+    test.sections.forEach((section, index) => {
+      QuestionPool.getSectionQuestions(section, attempt).forEach(question => {
+        sections.set(question._id.toString(), index);
+      });
+    });
+    return sections;
+  }
+
+  // Seconds the open section may run for: its own duration plus any carried-over time,
+  // or the whole test in free mode. Extra time granted to the student is included.
+  static getTimeLimit(test, attempt, mode = SectionNavigation.getMode(test)) {
+    const sectionIndex = SectionNavigation.getOpenSectionIndex(attempt);
+    const extra = Accommodations.getExtraSeconds(test, attempt, sectionIndex, mode);
+    if (!hasSections(test)) return test.duration * 60 + extra;
+    if (mode === 'free') {
+      return test.sections.reduce((total, section) => total + section.sectionDuration, 0) * 60 + extra;
+    }
+
+    const section = test.sections[sectionIndex] || test.sections[0];
+    return section.sectionDuration * 60 + extra + (attempt.session?.carriedOverTime || 0);
+  }
+
+  static clampRemainingTime(test, attempt, remainingTime, mode = SectionNavigation.getMode(test)) {
+    if (remainingTime === null || remainingTime === undefined) return remainingTime;
+    return Math.min(Math.max(0, remainingTime), SectionNavigation.getTimeLimit(test, attempt, mode));
+  }
+
+  // Seconds left on the saved timer now: the timer went on running since the client last
+  // reported it. null when the timer has not reported yet.
+  static getRemainingTime(test, attempt, mode = SectionNavigation.getMode(test), now = new Date()) {
+    const session = attempt.session || {};
+    if (session.remainingTime === null || session.remainingTime === undefined) return null;
+    return Math.max(0, SectionNavigation.clampRemainingTime(test, attempt, session.remainingTime, mode) - secondsSince(session.lastSavedAt, now));
+  }
+
+  // Moves the attempt to the requested section. Moving forward closes the sections left
+  // behind; moving back into a closed section is refused. Returns false when refused.
+  static moveTo(test, attempt, sectionIndex, mode = SectionNavigation.getMode(test), now = new Date()) {
+    if (!hasSections(test)) return sectionIndex === 0;
+
+    const session = attempt.session;
+    const current = SectionNavigation.getOpenSectionIndex(attempt);
+    const target = Math.min(sectionIndex, test.sections.length - 1);
+
+    if (mode === 'free' || target === current) {
+      session.currentSectionIndex = target;
+      return true;
+    }
+    if (target < current) return false;
+
+    const unused = SectionNavigation.getRemainingTime(test, attempt, mode, now) || 0;
+
+    session.carriedOverTime = mode === 'carry_over' ? unused : 0;
+    session.currentSectionIndex = target;
+    session.remainingTime = null;
+    return true;
+  }
+
+  // Keeps only the answers the student may still change; the rest belong to closed sections
+  static filterOpenAnswers(test, attempt, answers, mode = SectionNavigation.getMode(test)) {
+    if (!SectionNavigation.isLocked(mode) || !hasSections(test)) return { accepted: answers, rejected: [] };
+
+    const questionSections = SectionNavigation.getQuestionSections(test, attempt);
+    const accepted = [];
+    const rejected = [];
+    answers.forEach(answer => {
+      const sectionIndex = questionSections.get(String(answer.questionId));
+      if (sectionIndex !== undefined && SectionNavigation.isSectionClosed(attempt, sectionIndex, mode)) {
+        rejected.push(answer);
+      } else {
+        accepted.push(answer);
+      }
+    });
+    return { accepted, rejected };
+  }
+}
+
+SectionNavigation.MODES = MODES;
+SectionNavigation.DEFAULT_MODE = DEFAULT_MODE;
+
+module.exports = SectionNavigation;
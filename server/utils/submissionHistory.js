@@ -0,0 +1,59 @@
+// A student's past coding submissions for the history views
+const MAX_SUBMISSIONS = 200;
+
+const toId = (value) => String(value?._id || value);
+
+class SubmissionHistory {
+  // One history entry. Test results are left out: they carry the hidden test cases,
+  // and the verdict, score and counts are enough to compare submissions.
+  static formatSubmission(submission) {
+    const question = submission.question_id;
+    return {
+      id: submission._id,
+      questionId: toId(question),
+      questionTitle: question?.title || null,
+      language: submission.language,
+      code: submission.code,
+      status: submission.status,
+      score: submission.score,
+      testCasesPassed: submission.test_cases_passed,
+      totalTestCases: submission.total_test_cases,
+      executionTime: submission.execution_time,
+      memoryUsed: submission.memory_used,
+      errorMessage: submission.error_message,
+      isPractice: !!submission.is_practice,
+      testAttemptId: submission.test_attempt_id || null,
+      submittedAt: submission.submitted_at
+    };
+  }
+
+  // Per-question summary of a student's submissions, most recently submitted first.
+  // Expects the submissions newest first, as the routes return them.
+  static getQuestionSummaries(submissions) {
+    const summaries = new Map();
+
+    submissions.forEach(submission => {
+      const questionId = toId(submission.question_id);
+      if (!summaries.has(questionId)) {
+        summaries.set(questionId, {
+          questionId,
+          questionTitle: submission.question_id?.title || null,
+          submissionCount: 0,
+          bestScore: 0,
+          accepted: false,
+          lastSubmittedAt: submission.submitted_at
+        });
+      }
+      const summary = summaries.get(questionId);
+      summary.submissionCount += 1;
+      summary.bestScore = Math.max(summary.bestScore, submission.score || 0);
+      summary.accepted = summary.accepted || submission.status === 'accepted';
+    });
+
+    return [...summaries.values()];
+  }
+}
+
+SubmissionHistory.MAX_SUBMISSIONS = MAX_SUBMISSIONS;
+
+module.exports = SubmissionHistory;
@@ -0,0 +1,189 @@
+const logger = require('../middleware/logger');
+const CodingQuestion = require('../models/CodingQuestion');
+const CodingTestCase = require('../models/CodingTestCase');
+const CodingSubmission = require('../models/CodingSubmission');
+const PracticeCodingProgress = require('../models/PracticeCodingProgress');
+const CodeExecutor = require('./codeExecutor');
+const JudgeQueue = require('./judgeQueue');
+
+const queue = new JudgeQueue(parseInt(process.env.JUDGE_CONCURRENCY, 10) || JudgeQueue.DEFAULT_CONCURRENCY);
+
+// Submissions left running by a crashed or restarted server are judged again
+const STALE_RUNNING_MS = 5 * 60 * 1000;
+
+// Shown to the student instead of the internal error, which only goes to the log
+const JUDGE_ERROR_MESSAGE = 'This submission could not be judged because of a server problem. It does not count against you; please submit again.';
+
+let socketServer = null;
+
+const updatePracticeProgress = async (studentId, questionId, status, score) => {
+  const existing = await PracticeCodingProgress.findOne({
+    student_id: studentId,
+    question_id: questionId
+  });
+
+  if (existing) {
+    const updates = {
+      status: status === 'accepted' ? 'solved' : existing.status,
+      best_score: Math.max(score, existing.best_score || 0),
+      attempts: (existing.attempts || 0) + 1,
+      last_attempted_at: new Date()
+    };
+
+    if (status === 'accepted' && existing.status !== 'solved') {
+      updates.solved_at = new Date();
+    }
+
+    await PracticeCodingProgress.findByIdAndUpdate(existing._id, updates);
+  } else {
+    const progress = new PracticeCodingProgress({
+      student_id: studentId,
+      question_id: questionId,
+      status: status === 'accepted' ? 'solved' : 'attempted',
+      best_score: score,
+      attempts: 1,
+      last_attempted_at: new Date(),
+      solved_at: status === 'accepted' ? new Date() : null
+    });
+
+    await progress.save();
+  }
+};
+
+class SubmissionJudge {
+  // Socket.IO server used to push verdicts to the student's room (user:<id>)
+  static setSocketServer(io) {
+    socketServer = io;
+  }
+
+  // Runs sample-case executions on the same worker pool as queued submissions
+  static run(job) {
+    return queue.push(job);
+  }
+
+  static getQueueStats() {
+    return { waiting: queue.size, running: queue.running, concurrency: queue.concurrency };
+  }
+
+  // Final status, passed count and weighted score for a set of test results
+  static getVerdict(testCases, results) {
+    const testCasesPassed = results.testResults.filter(r => r.passed).length;
+    const totalTestCases = testCases.length;
+    const totalWeight = testCases.reduce((sum, tc) => sum + (tc.weight || 0), 0);
+    const earnedWeight = results.testResults
+      .filter(r => r.passed)
+      .reduce((sum, r) => {
+        const tc = testCases[r.test_case_number - 1];
+        return sum + (tc?.weight || 0);
+      }, 0);
+    const score = totalWeight > 0 ? Math.round((earnedWeight / totalWeight) * 100) : 0;
+
+    let status = 'wrong_answer';
+    if (results.compilationError) {
+      status = 'compilation_error';
+    } else if (testCasesPassed === totalTestCases) {
+      status = 'accepted';
+    } else if (results.hasRuntimeError) {
+      status = 'runtime_error';
+    } else if (results.hasTimeLimit) {
+      status = 'time_limit_exceeded';
+    } else if (results.hasMemoryLimit) {
+      status = 'memory_limit_exceeded';
+    }
+
+    return { status, testCasesPassed, totalTestCases, score };
+  }
+
+  static isFinished(status) {
+    return !['pending', 'running'].includes(status);
+  }
+
+  // Queues a saved pending submission; the verdict is written back to the document
+  static enqueue(submissionId) {
+    queue.push(() => SubmissionJudge.judge(submissionId)).catch((error) => {
+      logger.errorLog(error, { context: 'Error judging submission', submissionId: String(submissionId) });
+    });
+  }
+
+  static async judge(submissionId) {
+    // Claiming the submission atomically keeps two servers from judging it twice
+    const submission = await CodingSubmission.findOneAndUpdate(
+      { _id: submissionId, status: 'pending' },
+      { status: 'running', started_at: new Date() },
+      { new: true }
+    );
+    if (!submission) return;
+
+    let update;
+    try {
+      const question = await CodingQuestion.findById(submission.question_id).lean();
+      const testCases = await CodingTestCase.find({ question_id: submission.question_id }).lean();
+      if (!question || testCases.length === 0) {
+        throw new Error(question ? 'No test cases found for this question' : 'Question not found');
+      }
+
+      const results = await CodeExecutor.executeTestCases(submission.code, submission.language, testCases, question);
+      const verdict = SubmissionJudge.getVerdict(testCases, results);
+
+      update = {
+        status: verdict.status,
+        test_cases_passed: verdict.testCasesPassed,
+        total_test_cases: verdict.totalTestCases,
+        score: verdict.score,
+        execution_time: results.avgExecutionTime,
+        memory_used: results.maxMemoryUsed,
+        test_results: results.testResults.map(r => ({
+          ...r,
+          is_sample: Boolean(testCases[r.test_case_number - 1]?.is_sample)
+        })),
+        error_message: results.compilationError,
+        judged_at: new Date()
+      };
+    } catch (error) {
+      // Server faults (missing sandbox, lost question, crashed job) are not the student's
+      // verdict: the submission is closed as judge_error and left out of practice progress
+      logger.errorLog(error, { context: 'Judge failed', submissionId: String(submissionId) });
+      update = {
+        status: 'judge_error',
+        error_message: JUDGE_ERROR_MESSAGE,
+        judged_at: new Date()
+      };
+    }
+
+    await CodingSubmission.findByIdAndUpdate(submission._id, update);
+
+    if (submission.is_practice && update.status !== 'judge_error') {
+      await updatePracticeProgress(submission.student_id, submission.question_id, update.status, update.score || 0);
+    }
+
+    if (socketServer) {
+      socketServer.to(`user:${submission.student_id}`).emit('coding:verdict', {
+        submissionId: String(submission._id),
+        questionId: String(submission.question_id),
+        status: update.status,
+        score: update.score || 0
+      });
+    }
+  }
+
+  // Re-queues submissions that were waiting or running when the server stopped
+  static async recoverPending() {
+    const staleBefore = new Date(Date.now() - STALE_RUNNING_MS);
+    await CodingSubmission.updateMany(
+      { status: 'running', started_at: { $lt: staleBefore } },
+      { status: 'pending' }
+    );
+
+    const pending = await CodingSubmission.find({ status: 'pending' })
+      .select('_id')
+      .sort({ submitted_at: 1 })
+      .lean();
+    pending.forEach(s => SubmissionJudge.enqueue(s._id));
+
+    if (pending.length > 0) {
+      logger.info('Re-queued pending coding submissions', { count: pending.length });
+    }
+  }
+}
+
+module.exports = SubmissionJudge;
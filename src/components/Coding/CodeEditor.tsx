@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Play, RotateCcw, Maximize2, Minimize2 } from 'lucide-react';
+import { FunctionSignature, getSignatureStarterCode, hasFunctionSignature } from './functionSignature';
 
 interface CodeEditorProps {
   language: string;
@@ -9,6 +10,9 @@ interface CodeEditorProps {
   readOnly?: boolean;
   height?: string;
   forceFullscreen?: boolean;
+  signature?: FunctionSignature | null;
+  // Set by the test's proctoring policy
+  blockCopyPaste?: boolean;
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({
@@ -18,7 +22,9 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   onRun,
   readOnly = false,
   height = '500px',
-  forceFullscreen
+  forceFullscreen,
+  signature,
+  blockCopyPaste = false
 }) => {
   const [code, setCode] = useState(initialCode);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -40,6 +46,13 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     onCodeChange(newCode);
   };
 
+  // The event still reaches the proctoring listeners, so blocked attempts are logged
+  const handleClipboard = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (blockCopyPaste) {
+      e.preventDefault();
+    }
+  };
+
   const handleReset = () => {
     setCode(getDefaultCode(language));
     onCodeChange(getDefaultCode(language));
@@ -52,6 +65,9 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   };
 
   const getDefaultCode = (lang: string): string => {
+    const signatureCode = hasFunctionSignature(signature) ? getSignatureStarterCode(lang, signature) : null;
+    if (signatureCode) return signatureCode;
+
     const templates: Record<string, string> = {
       javascript: `function solution() {
   // Write your code here
@@ -184,6 +200,9 @@ func main() {
               tabSize: 2
             }}
             spellCheck={false}
+            onCopy={handleClipboard}
+            onCut={handleClipboard}
+            onPaste={handleClipboard}
             onKeyDown={(e) => {
               if (e.key === 'Tab') {
                 e.preventDefault();
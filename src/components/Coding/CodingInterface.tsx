@@ -1,7 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { Code, CheckCircle, XCircle, Clock, Loader, Terminal, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Code, CheckCircle, XCircle, Clock, Loader, Terminal, ChevronDown, ChevronUp, History, Keyboard } from 'lucide-react';
 import CodeEditor from './CodeEditor';
+import SubmissionHistory from './SubmissionHistory';
+import CustomInputPanel from './CustomInputPanel';
+import Modal from '../UI/Modal';
 import api from '../../services/api';
+import { connectSocket } from '../../services/socket';
+import { FunctionSignature, formatSignature, getSignatureStarterCode, hasFunctionSignature, isSignatureLanguage } from './functionSignature';
+import { SubmissionRecord } from './submissionHistory';
 
 interface CodingQuestion {
   id: string;
@@ -18,6 +24,7 @@ interface CodingQuestion {
   memory_limit: number;
   supported_languages: string[];
   tags: string[];
+  function_signature?: FunctionSignature | null;
 }
 
 interface TestResult {
@@ -27,15 +34,35 @@ interface TestResult {
   expected_output: string;
   actual_output?: string;
   execution_time?: number;
+  memory_used?: number;
+  status?: string;
   error?: string;
+  checker_message?: string;
 }
 
+interface SubmissionResult {
+  submissionId: string;
+  status: string;
+  finished: boolean;
+  queueLength: number;
+  testCasesPassed: number;
+  totalTestCases: number;
+  score: number;
+  compilationError: string | null;
+  errorMessage?: string | null;
+  testResults: TestResult[];
+}
+
+// Fallback polling interval while waiting for a verdict push
+const VERDICT_POLL_INTERVAL = 3000;
+
 interface CodingInterfaceProps {
   questionId: string;
   testAttemptId?: string;
   isPractice?: boolean;
   onSubmit?: (submissionId: string, score: number) => void;
   fullscreen?: boolean;
+  blockCopyPaste?: boolean;
 }
 
 const CodingInterface: React.FC<CodingInterfaceProps> = ({
@@ -43,7 +70,8 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
   testAttemptId,
   isPractice = false,
   onSubmit,
-  fullscreen = false
+  fullscreen = false,
+  blockCopyPaste = false
 }) => {
   const [question, setQuestion] = useState<CodingQuestion | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState('python');
@@ -55,7 +83,21 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
   const [submissionStatus, setSubmissionStatus] = useState<string | null>(null);
   const [showDescription, setShowDescription] = useState(true);
   const [showTestResults, setShowTestResults] = useState(true);
+  const [showCustomInput, setShowCustomInput] = useState(false);
   const [autosaveStatus, setAutosaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<SubmissionRecord[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const mountedRef = useRef(true);
+  // Code restored from the history in another language, applied once the language has switched
+  const restoredCodeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
 
   useEffect(() => {
     fetchQuestion();
@@ -63,6 +105,11 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
 
   useEffect(() => {
     if (question) {
+      if (restoredCodeRef.current !== null) {
+        setCode(restoredCodeRef.current);
+        restoredCodeRef.current = null;
+        return;
+      }
       const starterCode = getStarterCode(selectedLanguage, question);
       setCode(starterCode);
     }
@@ -131,35 +178,43 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
   const getStarterCode = (language: string, question: CodingQuestion | null) => {
     if (!question) return '';
 
+    if (hasFunctionSignature(question.function_signature)) {
+      const signatureCode = getSignatureStarterCode(language.toLowerCase(), question.function_signature);
+      if (signatureCode) return signatureCode;
+    }
+
     switch (language.toLowerCase()) {
       case 'python':
         return `# ${question.title}\n# Write your solution here\n\n`;
       case 'javascript':
         return `// ${question.title}\n// Write your solution here\n\n`;
       case 'java':
-        return `// ${question.title}\n// Write your solution here\n\npublic class Solution {\n    \n}\n`;
+        return `// ${question.title}\n// Write your solution here\n\nimport java.util.*;\n\npublic class Solution {\n    public static void main(String[] args) {\n        Scanner sc = new Scanner(System.in);\n        \n    }\n}\n`;
       case 'cpp':
-        return `// ${question.title}\n// Write your solution here\n\n#include <iostream>\nusing namespace std;\n\n`;
+        return `// ${question.title}\n// Write your solution here\n\n#include <iostream>\nusing namespace std;\n\nint main() {\n    \n    return 0;\n}\n`;
       default:
         return `// ${question.title}\n// Write your solution here\n\n`;
     }
   };
 
-  const handleRunCode = async () => {
-    if (!code.trim()) {
+  const handleRunCode = () => runCode(code, selectedLanguage);
+
+  const runCode = async (codeToRun: string, language: string) => {
+    if (!codeToRun.trim()) {
       alert('Please write some code first');
       return;
     }
 
     setIsRunning(true);
+    setShowCustomInput(false);
     setOutput('Running code...');
     setTestResults([]);
 
     try {
       const response = await api.post('/coding/run', {
         questionId,
-        code,
-        language: selectedLanguage.toLowerCase()
+        code: codeToRun,
+        language: language.toLowerCase()
       });
 
       const data = response?.data || response || {};
@@ -192,20 +247,12 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
     }
 
     setIsSubmitting(true);
+    setShowCustomInput(false);
     setSubmissionStatus(null);
+    setTestResults([]);
 
     try {
-      interface SubmitResponse {
-        data: {
-          status: string;
-          testResults: TestResult[];
-          submissionId: string;
-          score: number;
-          testCasesPassed: number;
-          totalTestCases: number;
-        }
-      }
-      const response = await api.post<SubmitResponse>('/coding/submit', {
+      const queued = await api.post<{ submissionId: string; status: string }>('/coding/submit', {
         questionId,
         testAttemptId,
         code,
@@ -214,25 +261,129 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
         isPractice
       });
 
-      setSubmissionStatus(response.data.status);
-      setTestResults(response.data.testResults || []);
+      setSubmissionStatus(queued.status);
+      setOutput('Submission queued for judging...');
+
+      const result = await waitForVerdict(queued.submissionId);
+      if (!result) return;
+
+      setSubmissionStatus(result.status);
+      setTestResults(result.testResults || []);
+
+      // A server fault, not a verdict: the student is asked to submit again
+      if (result.status === 'judge_error') {
+        setOutput(result.errorMessage || 'This submission could not be judged.');
+        alert(result.errorMessage || 'This submission could not be judged. Please submit again.');
+        return;
+      }
+
+      setOutput(result.compilationError
+        ? `Compilation Error:\n${result.compilationError}`
+        : `Passed ${result.testCasesPassed}/${result.totalTestCases} test cases.`);
 
       if (onSubmit) {
-        onSubmit(response.data.submissionId, response.data.score);
+        onSubmit(result.submissionId, result.score);
       }
 
-      if (response.data.status === 'accepted') {
-        alert(`Success! You passed ${response.data.testCasesPassed}/${response.data.totalTestCases} test cases. Score: ${response.data.score}`);
+      if (result.status === 'accepted') {
+        alert(`Success! You passed ${result.testCasesPassed}/${result.totalTestCases} test cases. Score: ${result.score}`);
       } else {
-        alert(`Submission completed. Status: ${response.data.status}. Passed ${response.data.testCasesPassed}/${response.data.totalTestCases} test cases.`);
+        alert(`Submission completed. Status: ${result.status}. Passed ${result.testCasesPassed}/${result.totalTestCases} test cases.`);
       }
-    } catch (error: any) {
-      alert(error.response?.data?.error || 'Error submitting code');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Error submitting code');
     } finally {
-      setIsSubmitting(false);
+      if (mountedRef.current) setIsSubmitting(false);
+    }
+  };
+
+  const openHistory = async () => {
+    setShowHistory(true);
+    setHistoryLoading(true);
+    try {
+      const data = await api.getCodingSubmissions(questionId, testAttemptId);
+      if (mountedRef.current) setHistory(data as SubmissionRecord[]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load submission history');
+    } finally {
+      if (mountedRef.current) setHistoryLoading(false);
+    }
+  };
+
+  // Puts a past submission's code back into the editor, switching to its language
+  const restoreSubmission = (submission: SubmissionRecord) => {
+    const language = question?.supported_languages.find(lang => lang.toLowerCase() === submission.language);
+    if (!language) {
+      alert(`${submission.language} can no longer be used for this question`);
+      return false;
+    }
+    if (code.trim() && code !== submission.code &&
+        !confirm('Replace the code in the editor with this submission?')) {
+      return false;
+    }
+
+    if (language === selectedLanguage) {
+      setCode(submission.code);
+    } else {
+      restoredCodeRef.current = submission.code;
+      setSelectedLanguage(language);
     }
+    setShowHistory(false);
+    return true;
   };
 
+  const rerunSubmission = (submission: SubmissionRecord) => {
+    if (restoreSubmission(submission)) {
+      setShowTestResults(true);
+      runCode(submission.code, submission.language);
+    }
+  };
+
+  // Waits for the judge's verdict: the server pushes it over the socket when
+  // available, with polling as a fallback. Resolves null if the editor unmounts.
+  const waitForVerdict = (submissionId: string) => new Promise<SubmissionResult | null>((resolve, reject) => {
+    const socket = connectSocket();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let checking = false;
+    let done = false;
+
+    const finish = (result: SubmissionResult | null, error?: unknown) => {
+      done = true;
+      if (timer) clearTimeout(timer);
+      socket?.disconnect();
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const check = async () => {
+      if (done || checking) return;
+      if (!mountedRef.current) return finish(null);
+      checking = true;
+      if (timer) clearTimeout(timer);
+
+      try {
+        const result = await api.get<SubmissionResult>(`/coding/submission/${submissionId}`);
+        if (result.finished) return finish(result);
+        if (mountedRef.current) {
+          setSubmissionStatus(result.status);
+          setOutput(result.status === 'running'
+            ? 'Running all test cases...'
+            : `Waiting in the judge queue${result.queueLength ? ` (${result.queueLength} waiting)` : ''}...`);
+        }
+      } catch (error) {
+        return finish(null, error);
+      } finally {
+        checking = false;
+      }
+      if (!done) timer = setTimeout(check, VERDICT_POLL_INTERVAL);
+    };
+
+    socket?.on('coding:verdict', (payload: { submissionId: string }) => {
+      if (payload.submissionId === submissionId) check();
+    });
+    check();
+  });
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'easy': return 'text-green-600 bg-green-100';
@@ -269,11 +420,13 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
               onChange={(e) => setSelectedLanguage(e.target.value)}
               className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
             >
-              {question.supported_languages.map(lang => (
-                <option key={lang} value={lang}>
-                  {lang.charAt(0).toUpperCase() + lang.slice(1)}
-                </option>
-              ))}
+              {question.supported_languages
+                .filter(lang => !hasFunctionSignature(question.function_signature) || isSignatureLanguage(lang))
+                .map(lang => (
+                  <option key={lang} value={lang}>
+                    {lang.charAt(0).toUpperCase() + lang.slice(1)}
+                  </option>
+                ))}
             </select>
             <div className="text-xs text-gray-500 min-w-[60px]">
               {autosaveStatus === 'saving' ? 'Saving...' : autosaveStatus === 'saved' ? 'Saved' : ''}
@@ -308,6 +461,16 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
               )}
             </div>
 
+            {hasFunctionSignature(question.function_signature) && (
+              <div>
+                <h3 className="font-semibold text-gray-800 mb-2">Function Signature</h3>
+                <pre className="bg-gray-50 p-3 rounded text-sm font-mono">{formatSignature(question.function_signature)}</pre>
+                <p className="text-gray-600 text-xs mt-2">
+                  Implement this function; there is no need to read input or print output. Each line of a test case input is one argument, written as JSON.
+                </p>
+              </div>
+            )}
+
             {question.constraints && (
               <div>
                 <h3 className="font-semibold text-gray-800 mb-2">Constraints</h3>
@@ -372,6 +535,8 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
                 onCodeChange={setCode}
                 height="100%"
                 forceFullscreen={fullscreen}
+                signature={question.function_signature}
+                blockCopyPaste={blockCopyPaste}
               />
             </div>
           </div>
@@ -387,6 +552,25 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
                 {showTestResults ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
               </button>
               <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setShowCustomInput(!showCustomInput);
+                    setShowTestResults(true);
+                  }}
+                  className={`px-4 py-2 border rounded-lg flex items-center gap-2 text-sm ${showCustomInput ? 'bg-blue-50 border-blue-300 text-blue-700' : 'hover:bg-gray-50'}`}
+                  title="Run your code on your own input"
+                >
+                  <Keyboard className="w-4 h-4" />
+                  Custom Input
+                </button>
+                <button
+                  onClick={openHistory}
+                  className="px-4 py-2 border rounded-lg hover:bg-gray-50 flex items-center gap-2 text-sm"
+                  title="Past submissions"
+                >
+                  <History className="w-4 h-4" />
+                  History
+                </button>
                 <button
                   onClick={handleRunCode}
                   disabled={isRunning}
@@ -407,20 +591,39 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
             </div>
             {submissionStatus && (
               <div className="px-4 py-2 text-center text-sm">
-                <span
-                  className={`font-medium ${submissionStatus.toLowerCase() === 'accepted'
-                      ? 'text-green-600'
-                      : 'text-red-600'
-                    }`}
-                >
-                  {submissionStatus.toLowerCase() === 'accepted'
-                    ? '✅ Accepted! Great job.'
-                    : `❌ Submission status: ${submissionStatus}`}
-                </span>
+                {isSubmitting ? (
+                  <span className="font-medium text-blue-600">
+                    ⏳ {submissionStatus === 'running' ? 'Judging your submission...' : 'Waiting in the judge queue...'}
+                  </span>
+                ) : (
+                  <span
+                    className={`font-medium ${submissionStatus.toLowerCase() === 'accepted'
+                        ? 'text-green-600'
+                        : 'text-red-600'
+                      }`}
+                  >
+                    {submissionStatus.toLowerCase() === 'accepted'
+                      ? '✅ Accepted! Great job.'
+                      : `❌ Submission status: ${submissionStatus}`}
+                  </span>
+                )}
               </div>
             )}
 
-            {showTestResults && (
+            {/* Kept mounted while hidden so the typed input survives switching back to the results */}
+            <div
+              className={`p-4 overflow-y-auto bg-gray-50 ${showTestResults && showCustomInput ? '' : 'hidden'}`}
+              style={{ maxHeight: '250px' }}
+            >
+              <CustomInputPanel
+                questionId={questionId}
+                code={code}
+                language={selectedLanguage}
+                defaultInput={question.sample_input}
+              />
+            </div>
+
+            {showTestResults && !showCustomInput && (
               <div className="p-4 overflow-y-auto bg-gray-50" style={{ maxHeight: '250px' }}>
                 {output && (
                   <div className="mb-4">
@@ -467,11 +670,18 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
                                 <pre className="bg-white p-2 rounded mt-1 text-xs text-red-600">{result.error}</pre>
                               </div>
                             )}
+                            {result.checker_message && (
+                              <div>
+                                <span className="text-gray-600">Checker:</span>
+                                <pre className="bg-white p-2 rounded mt-1 text-xs">{result.checker_message}</pre>
+                              </div>
+                            )}
                           </div>
                         )}
                         {result.execution_time && (
                           <div className="text-xs text-gray-600 mt-2">
                             Execution time: {result.execution_time}ms
+                            {!!result.memory_used && ` · Memory: ${(result.memory_used / 1024).toFixed(1)} MB`}
                           </div>
                         )}
                       </div>
@@ -489,6 +699,15 @@ const CodingInterface: React.FC<CodingInterfaceProps> = ({
           </div>
         </div>
       </div>
+
+      <Modal isOpen={showHistory} onClose={() => setShowHistory(false)} title="Submission History" size="xl">
+        <SubmissionHistory
+          submissions={history}
+          loading={historyLoading}
+          onRestore={restoreSubmission}
+          onRerun={rerunSubmission}
+        />
+      </Modal>
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { X, Plus, Trash2 } from 'lucide-react';
+import { CHECKER_MODES, CheckerMode } from './checkerModes';
+import { FunctionSignature, SIGNATURE_TYPES, SignatureParam, SignatureType, isSignatureLanguage } from './functionSignature';
 
 interface TestCase {
   input: string;
@@ -24,6 +26,9 @@ const CodingQuestionForm: React.FC<CodingQuestionFormProps> = ({ onClose, onSubm
     output_format: initialData?.output_format || '',
     time_limit: initialData?.time_limit || 2000,
     memory_limit: initialData?.memory_limit || 256,
+    checker_mode: (initialData?.checker_mode || 'exact') as CheckerMode,
+    float_tolerance: initialData?.float_tolerance ?? 1e-6,
+    checker_script: initialData?.checker_script || '',
     sample_input: initialData?.sample_input || '',
     sample_output: initialData?.sample_output || '',
     explanation: initialData?.explanation || '',
@@ -40,6 +45,8 @@ const CodingQuestionForm: React.FC<CodingQuestionFormProps> = ({ onClose, onSubm
 
   const [tagInput, setTagInput] = useState('');
 
+  const [signature, setSignature] = useState<FunctionSignature | null>(initialData?.function_signature || null);
+
   const languages = [
     { id: 'javascript', name: 'JavaScript' },
     { id: 'python', name: 'Python' },
@@ -73,6 +80,17 @@ const CodingQuestionForm: React.FC<CodingQuestionFormProps> = ({ onClose, onSubm
     setTestCases(updated);
   };
 
+  const toggleSignature = (enabled: boolean) => {
+    setSignature(enabled ? { name: 'solve', params: [{ name: 'nums', type: 'int[]' }], return_type: 'int' } : null);
+  };
+
+  const updateSignatureParam = (index: number, field: keyof SignatureParam, value: string) => {
+    if (!signature) return;
+    const params = [...signature.params];
+    params[index] = { ...params[index], [field]: value };
+    setSignature({ ...signature, params });
+  };
+
   const addTag = () => {
     if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
       setFormData({ ...formData, tags: [...formData.tags, tagInput.trim()] });
@@ -97,8 +115,25 @@ const CodingQuestionForm: React.FC<CodingQuestionFormProps> = ({ onClose, onSubm
       return;
     }
 
+    if (signature) {
+      if (!signature.name.trim() || signature.params.length === 0 || signature.params.some(p => !p.name.trim())) {
+        alert('Please give the function and each of its parameters a name');
+        return;
+      }
+      if (selectedLanguages.some(lang => !isSignatureLanguage(lang))) {
+        alert('Function-signature questions support only JavaScript, Python, Java and C++');
+        return;
+      }
+    }
+
+    if (formData.checker_mode === 'custom' && !formData.checker_script.trim()) {
+      alert('Please provide a checker script for the custom checker');
+      return;
+    }
+
     onSubmit({
       ...formData,
+      function_signature: signature,
       supported_languages: selectedLanguages,
       testCases
     });
@@ -265,6 +300,143 @@ const CodingQuestionForm: React.FC<CodingQuestionFormProps> = ({ onClose, onSubm
               />
             </div>
 
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Output Checker
+              </label>
+              <select
+                value={formData.checker_mode}
+                onChange={(e) => setFormData({ ...formData, checker_mode: e.target.value as CheckerMode })}
+                className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {CHECKER_MODES.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {CHECKER_MODES.find(mode => mode.id === formData.checker_mode)?.description}
+              </p>
+
+              {formData.checker_mode === 'float' && (
+                <div className="mt-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tolerance
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.float_tolerance}
+                    onChange={(e) => setFormData({ ...formData, float_tolerance: parseFloat(e.target.value) })}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    step="any"
+                  />
+                </div>
+              )}
+
+              {formData.checker_mode === 'custom' && (
+                <div className="mt-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Checker Script (Python) *
+                  </label>
+                  <textarea
+                    value={formData.checker_script}
+                    onChange={(e) => setFormData({ ...formData, checker_script: e.target.value })}
+                    rows={8}
+                    className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                    placeholder={'import sys\ninput_file, expected_file, output_file = sys.argv[1:4]\n# exit(0) to accept, exit(1) to reject'}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Runs as <code>checker.py input.txt expected.txt output.txt</code>. Exit with code 0 to accept the output or 1 to reject it; anything it prints is shown to the student.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!signature}
+                  onChange={(e) => toggleSignature(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Function signature (students implement a function instead of reading input)</span>
+              </label>
+
+              {signature && (
+                <div className="mt-3 p-4 border rounded-lg bg-gray-50 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Function Name</label>
+                      <input
+                        type="text"
+                        value={signature.name}
+                        onChange={(e) => setSignature({ ...signature, name: e.target.value })}
+                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        placeholder="e.g., twoSum"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Return Type</label>
+                      <select
+                        value={signature.return_type}
+                        onChange={(e) => setSignature({ ...signature, return_type: e.target.value as SignatureType })}
+                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                      >
+                        {SIGNATURE_TYPES.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="block text-xs font-medium text-gray-600">Parameters</label>
+                    {signature.params.map((param, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={param.name}
+                          onChange={(e) => updateSignatureParam(index, 'name', e.target.value)}
+                          className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                          placeholder="Parameter name"
+                        />
+                        <select
+                          value={param.type}
+                          onChange={(e) => updateSignatureParam(index, 'type', e.target.value)}
+                          className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        >
+                          {SIGNATURE_TYPES.map(type => (
+                            <option key={type} value={type}>{type}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setSignature({ ...signature, params: signature.params.filter((_, i) => i !== index) })}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setSignature({ ...signature, params: [...signature.params, { name: '', type: 'int' }] })}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add Parameter
+                    </button>
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    Test case input: one JSON value per parameter, one per line (e.g. <code>[2,7,11,15]</code> then <code>9</code>).
+                    Expected output: the return value as plain text; arrays space-separated, 2-D arrays one row per line, booleans as true/false.
+                  </p>
+                </div>
+              )}
+            </div>
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Supported Languages *
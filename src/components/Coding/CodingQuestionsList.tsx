@@ -2,8 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Code, Plus, Edit, Trash2, Search, Filter } from 'lucide-react';
 import api from '../../services/api';
 import CodingQuestionForm from './CodingQuestionForm';
+import QuestionLibraryActions from './QuestionLibraryActions';
+import LibraryFilterSelect from './LibraryFilterSelect';
+import { QuestionMarks, matchesLibraryFilter } from './practiceLibrary';
+import usePracticeLibrary from '../../hooks/usePracticeLibrary';
 
-interface CodingQuestion {
+interface CodingQuestion extends Partial<QuestionMarks> {
   id: string;
   title: string;
   difficulty: string;
@@ -20,6 +24,8 @@ const CodingQuestionsList: React.FC = () => {
   const [editingQuestion, setEditingQuestion] = useState<any>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [difficultyFilter, setDifficultyFilter] = useState('all');
+  const [libraryFilter, setLibraryFilter] = useState('all');
+  const library = usePracticeLibrary(setQuestions);
 
   useEffect(() => {
     fetchQuestions();
@@ -27,7 +33,7 @@ const CodingQuestionsList: React.FC = () => {
 
   useEffect(() => {
     filterQuestions();
-  }, [questions, searchTerm, difficultyFilter]);
+  }, [questions, searchTerm, difficultyFilter, libraryFilter]);
 
   const fetchQuestions = async () => {
     try {
@@ -54,6 +60,8 @@ const CodingQuestionsList: React.FC = () => {
       filtered = filtered.filter(q => q.difficulty === difficultyFilter);
     }
 
+    filtered = filtered.filter(q => matchesLibraryFilter(q, libraryFilter));
+
     setFilteredQuestions(filtered);
   };
 
@@ -166,6 +174,8 @@ const CodingQuestionsList: React.FC = () => {
               <option value="medium">Medium</option>
               <option value="hard">Hard</option>
             </select>
+
+            <LibraryFilterSelect library={library} value={libraryFilter} onChange={setLibraryFilter} />
           </div>
         </div>
 
@@ -213,6 +223,7 @@ const CodingQuestionsList: React.FC = () => {
                   </div>
 
                   <div className="flex items-center gap-2">
+                    <QuestionLibraryActions question={question} library={library} />
                     <button
                       onClick={() => handleEdit(question)}
                       className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
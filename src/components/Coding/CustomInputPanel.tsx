@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Loader, Play } from 'lucide-react';
+import api from '../../services/api';
+
+interface CustomRunResult {
+  status: string;
+  compilationError: string | null;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  error?: string | null;
+  time?: number;
+  memory?: number;
+  timeLimit?: number;
+  memoryLimit?: number;
+}
+
+interface CustomInputPanelProps {
+  questionId: string;
+  code: string;
+  language: string;
+  defaultInput?: string;
+}
+
+const describeExit = (result: CustomRunResult) => {
+  if (result.status === 'time_limit_exceeded') return 'Time limit exceeded';
+  if (result.status === 'memory_limit_exceeded') return 'Memory limit exceeded';
+  if (result.signal) return `Killed by ${result.signal}`;
+  if (result.exitCode === null || result.exitCode === undefined) return result.status === 'ok' ? 'Exited normally' : 'Runtime error';
+  return `Exit code ${result.exitCode}`;
+};
+
+// Runs the editor's code on input the student types. The run is not judged and is not
+// saved as a submission; the server limits how often it can be used.
+const CustomInputPanel: React.FC<CustomInputPanelProps> = ({ questionId, code, language, defaultInput = '' }) => {
+  const [input, setInput] = useState(defaultInput);
+  const [result, setResult] = useState<CustomRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    if (!code.trim()) {
+      alert('Please write some code first');
+      return;
+    }
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const data = await api.post<CustomRunResult>('/coding/run/custom', {
+        questionId,
+        code,
+        language: language.toLowerCase(),
+        input
+      });
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error running code');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const ok = result?.status === 'ok';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs font-medium text-gray-600">Input (stdin)</label>
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1 text-xs"
+          >
+            {isRunning ? <Loader className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+            Run with Input
+          </button>
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={4}
+          spellCheck={false}
+          placeholder="Type the input your program should read"
+          className="w-full px-3 py-2 border rounded text-sm font-mono focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        result.compilationError ? (
+          <pre className="bg-gray-900 text-red-400 p-3 rounded text-sm overflow-x-auto font-mono whitespace-pre-wrap">
+            {`Compilation Error:\n${result.compilationError}`}
+          </pre>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+              <span className={`px-2 py-0.5 rounded-full font-medium ${ok ? 'text-green-700 bg-green-100' : 'text-red-700 bg-red-100'}`}>
+                {describeExit(result)}
+              </span>
+              <span>Time: {result.time ?? 0}ms{result.timeLimit ? ` / ${result.timeLimit}ms` : ''}</span>
+              <span>
+                Memory: {((result.memory || 0) / 1024).toFixed(1)} MB
+                {result.memoryLimit ? ` / ${result.memoryLimit} MB` : ''}
+              </span>
+            </div>
+            {result.status === 'runtime_error' && !result.stderr && result.error && (
+              <p className="text-sm text-red-600">{result.error}</p>
+            )}
+            <div>
+              <span className="text-xs font-medium text-gray-600">stdout</span>
+              <pre className="bg-gray-900 text-green-400 p-3 rounded text-sm overflow-x-auto font-mono mt-1 min-h-[2.5rem]">
+                {result.stdout || ''}
+              </pre>
+            </div>
+            {!!result.stderr && (
+              <div>
+                <span className="text-xs font-medium text-gray-600">stderr</span>
+                <pre className="bg-gray-900 text-red-400 p-3 rounded text-sm overflow-x-auto font-mono mt-1">
+                  {result.stderr}
+                </pre>
+              </div>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CustomInputPanel;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Edit, ListChecks, Trash2 } from 'lucide-react';
+import Modal from '../UI/Modal';
+import { PracticeLibrary } from '../../hooks/usePracticeLibrary';
+import { LibraryFilter } from './practiceLibrary';
+
+interface LibraryFilterSelectProps {
+  library: PracticeLibrary;
+  value: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+}
+
+// Filter by bookmarks, notes or one of the user's lists, with renaming and deleting of lists
+const LibraryFilterSelect: React.FC<LibraryFilterSelectProps> = ({ library, value, onChange }) => {
+  const [showManage, setShowManage] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const rename = async () => {
+    if (!renaming || !renaming.name.trim()) return;
+    try {
+      await library.renameList(renaming.id, renaming.name.trim());
+      setRenaming(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to rename list');
+    }
+  };
+
+  const remove = async (listId: string, name: string) => {
+    if (!confirm(`Delete the list "${name}"? The questions themselves are not affected.`)) return;
+    try {
+      await library.deleteList(listId);
+      if (value === `list:${listId}`) onChange('all');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete list');
+    }
+  };
+
+  return (
+    <>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="all">All Questions</option>
+        <option value="bookmarked">Bookmarked</option>
+        <option value="notes">With Notes</option>
+        {library.lists.map(list => (
+          <option key={list.id} value={`list:${list.id}`}>
+            {list.name} ({list.questionCount})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setShowManage(true)}
+        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+        title="Manage lists"
+      >
+        <ListChecks className="w-5 h-5" />
+      </button>
+
+      <Modal isOpen={showManage} onClose={() => { setShowManage(false); setRenaming(null); }} title="My Lists" size="sm">
+        {library.lists.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You have no lists yet. Use the folder button on a question to create one.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {library.lists.map(list => (
+              <li key={list.id} className="flex items-center gap-2 py-2">
+                {renaming?.id === list.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: list.id, name: e.target.value })}
+                      onKeyDown={(e) => { if (e.key === 'Enter') rename(); }}
+                      maxLength={100}
+                      className="flex-1 px-2 py-1 border rounded text-sm"
+                      autoFocus
+                    />
+                    <button onClick={rename} className="text-sm text-blue-600 hover:text-blue-800">Save</button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm">{list.name}</span>
+                    <span className="text-xs text-gray-500">{list.questionCount} questions</span>
+                    <button
+                      onClick={() => setRenaming({ id: list.id, name: list.name })}
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      title="Rename"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => remove(list.id, list.name)}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default LibraryFilterSelect;
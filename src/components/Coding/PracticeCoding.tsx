@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Code, Trophy, Clock, CheckCircle,  Search, Filter } from 'lucide-react';
+import { Code, Trophy, Clock, CheckCircle,  Search, Filter, Flame } from 'lucide-react';
 import api from '../../services/api';
 import CodingInterface from './CodingInterface';
+import PracticePaths from './PracticePaths';
+import PracticeLeaderboard from './PracticeLeaderboard';
+import QuestionLibraryActions from './QuestionLibraryActions';
+import LibraryFilterSelect from './LibraryFilterSelect';
+import { PracticeStats, describeStreak, getDifficultyColor, getProgressPercent } from './practiceTrack';
+import { QuestionMarks, matchesLibraryFilter } from './practiceLibrary';
+import usePracticeLibrary from '../../hooks/usePracticeLibrary';
 
-interface PracticeQuestion {
+interface PracticeQuestion extends Partial<QuestionMarks> {
   id: string;
   title: string;
   difficulty: string;
@@ -13,6 +20,14 @@ interface PracticeQuestion {
   attempts?: number;
 }
 
+type PracticeView = 'problems' | 'paths' | 'leaderboard';
+
+const VIEWS: { id: PracticeView; label: string }[] = [
+  { id: 'problems', label: 'Problems' },
+  { id: 'paths', label: 'Learning Paths' },
+  { id: 'leaderboard', label: 'Leaderboard' }
+];
+
 const PracticeCoding: React.FC = () => {
   const [questions, setQuestions] = useState<PracticeQuestion[]>([]);
   const [filteredQuestions, setFilteredQuestions] = useState<PracticeQuestion[]>([]);
@@ -21,6 +36,9 @@ const PracticeCoding: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [difficultyFilter, setDifficultyFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [libraryFilter, setLibraryFilter] = useState('all');
+  const [view, setView] = useState<PracticeView>('problems');
+  const [practiceStats, setPracticeStats] = useState<PracticeStats | null>(null);
   const [stats, setStats] = useState({
     total: 0,
     solved: 0,
@@ -29,6 +47,7 @@ const PracticeCoding: React.FC = () => {
     medium: 0,
     hard: 0
   });
+  const library = usePracticeLibrary(setQuestions);
 
   useEffect(() => {
     fetchQuestions();
@@ -36,14 +55,17 @@ const PracticeCoding: React.FC = () => {
 
   useEffect(() => {
     filterQuestions();
-  }, [questions, searchTerm, difficultyFilter, statusFilter]);
+  }, [questions, searchTerm, difficultyFilter, statusFilter, libraryFilter]);
 
   const fetchQuestions = async () => {
     try {
-      const response = await api.get('/api/coding/practice/questions');
-      const res = response as { data: { questions: PracticeQuestion[]; stats: typeof stats } };
-      setQuestions(res.data.questions);
-      setStats(res.data.stats);
+      const [res, practice] = await Promise.all([
+        api.getPracticeQuestions() as Promise<{ questions: PracticeQuestion[]; stats: typeof stats }>,
+        api.getPracticeStats() as Promise<PracticeStats>
+      ]);
+      setQuestions(res.questions);
+      setStats(res.stats);
+      setPracticeStats(practice);
     } catch (error) {
       console.error('Error fetching practice questions:', error);
     } finally {
@@ -69,16 +91,9 @@ const PracticeCoding: React.FC = () => {
       filtered = filtered.filter(q => q.status === statusFilter);
     }
 
-    setFilteredQuestions(filtered);
-  };
+    filtered = filtered.filter(q => matchesLibraryFilter(q, libraryFilter));
 
-  const getDifficultyColor = (difficulty: string) => {
-    switch (difficulty) {
-      case 'easy': return 'text-green-600 bg-green-100';
-      case 'medium': return 'text-yellow-600 bg-yellow-100';
-      case 'hard': return 'text-red-600 bg-red-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
+    setFilteredQuestions(filtered);
   };
 
   const getStatusIcon = (status?: string) => {
@@ -131,10 +146,17 @@ const PracticeCoding: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg shadow-md p-6">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-gray-600">Total Problems</span>
-            <Code className="w-5 h-5 text-blue-600" />
+            <span className="text-gray-600">Current Streak</span>
+            <Flame className={`w-5 h-5 ${practiceStats?.streak.activeToday ? 'text-orange-500' : 'text-gray-400'}`} />
+          </div>
+          <div className="text-3xl font-bold text-orange-500">
+            {practiceStats?.streak.current || 0} {practiceStats?.streak.current === 1 ? 'day' : 'days'}
           </div>
-          <div className="text-3xl font-bold text-gray-800">{stats.total}</div>
+          {practiceStats && (
+            <p className="text-xs text-gray-500 mt-1">
+              {describeStreak(practiceStats.streak)} · Longest {practiceStats.streak.longest}
+            </p>
+          )}
         </div>
 
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -142,7 +164,10 @@ const PracticeCoding: React.FC = () => {
             <span className="text-gray-600">Solved</span>
             <CheckCircle className="w-5 h-5 text-green-600" />
           </div>
-          <div className="text-3xl font-bold text-green-600">{stats.solved}</div>
+          <div className="text-3xl font-bold text-green-600">
+            {stats.solved}
+            <span className="text-base font-normal text-gray-500"> / {stats.total}</span>
+          </div>
         </div>
 
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -164,119 +189,190 @@ const PracticeCoding: React.FC = () => {
         </div>
       </div>
 
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <div className="flex flex-col md:flex-row gap-4 mb-6">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-            <input
-              type="text"
-              placeholder="Search by title or tags..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-            />
+      <div className="flex gap-2 border-b">
+        {VIEWS.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id)}
+            className={`px-4 py-2 -mb-px border-b-2 font-medium ${
+              view === tab.id ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'paths' && <PracticePaths onSolve={setSelectedQuestion} />}
+
+      {view === 'leaderboard' && <PracticeLeaderboard />}
+
+      {view === 'problems' && practiceStats && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="font-semibold text-gray-800 mb-4">Solved by Difficulty</h3>
+            <div className="space-y-3">
+              {(['easy', 'medium', 'hard'] as const).map(difficulty => {
+                const count = practiceStats.byDifficulty[difficulty];
+                return (
+                  <div key={difficulty}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className={`px-2 rounded text-xs font-medium ${getDifficultyColor(difficulty)}`}>
+                        {difficulty.toUpperCase()}
+                      </span>
+                      <span className="text-gray-600">{count.solved}/{count.total}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${getProgressPercent(count)}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
-          <div className="flex items-center gap-2">
-            <Filter className="text-gray-400 w-5 h-5" />
-            <select
-              value={difficultyFilter}
-              onChange={(e) => setDifficultyFilter(e.target.value)}
-              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="all">All Difficulties</option>
-              <option value="easy">Easy</option>
-              <option value="medium">Medium</option>
-              <option value="hard">Hard</option>
-            </select>
-
-            <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
-              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="all">All Status</option>
-              <option value="solved">Solved</option>
-              <option value="attempted">Attempted</option>
-              <option value="not_attempted">Not Attempted</option>
-            </select>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="font-semibold text-gray-800 mb-4">Solved by Tag</h3>
+            {practiceStats.byTag.length === 0 ? (
+              <p className="text-sm text-gray-500">No tagged problems yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {practiceStats.byTag.slice(0, 12).map(tag => (
+                  <button
+                    key={tag.tag}
+                    onClick={() => setSearchTerm(tag.tag)}
+                    className="px-2 py-1 bg-blue-50 text-blue-600 rounded text-xs hover:bg-blue-100"
+                  >
+                    {tag.tag} <span className="text-gray-500">{tag.solved}/{tag.total}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
+      )}
+
+      {view === 'problems' && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search by title or tags..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Filter className="text-gray-400 w-5 h-5" />
+              <select
+                value={difficultyFilter}
+                onChange={(e) => setDifficultyFilter(e.target.value)}
+                className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Difficulties</option>
+                <option value="easy">Easy</option>
+                <option value="medium">Medium</option>
+                <option value="hard">Hard</option>
+              </select>
 
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b">
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Title</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Difficulty</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Tags</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Best Score</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Attempts</th>
-                <th className="text-left py-3 px-4 font-semibold text-gray-700">Action</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredQuestions.length === 0 ? (
-                <tr>
-                  <td colSpan={7} className="text-center py-12 text-gray-500">
-                    {questions.length === 0 ? 'No practice questions available yet.' : 'No questions match your filters.'}
-                  </td>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Status</option>
+                <option value="solved">Solved</option>
+                <option value="attempted">Attempted</option>
+                <option value="not_attempted">Not Attempted</option>
+              </select>
+
+              <LibraryFilterSelect library={library} value={libraryFilter} onChange={setLibraryFilter} />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Title</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Difficulty</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Tags</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Best Score</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Attempts</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">My Notes</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Action</th>
                 </tr>
-              ) : (
-                filteredQuestions.map((question) => (
-                  <tr key={question.id} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4">
-                      {getStatusIcon(question.status)}
-                    </td>
-                    <td className="py-3 px-4">
-                      <button
-                        onClick={() => setSelectedQuestion(question.id)}
-                        className="font-medium text-blue-600 hover:text-blue-800"
-                      >
-                        {question.title}
-                      </button>
-                    </td>
-                    <td className="py-3 px-4">
-                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(question.difficulty)}`}>
-                        {question.difficulty.toUpperCase()}
-                      </span>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex flex-wrap gap-1">
-                        {question.tags.slice(0, 3).map(tag => (
-                          <span key={tag} className="px-2 py-1 bg-blue-50 text-blue-600 rounded text-xs">
-                            {tag}
-                          </span>
-                        ))}
-                        {question.tags.length > 3 && (
-                          <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
-                            +{question.tags.length - 3}
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="py-3 px-4 text-gray-700">
-                      {question.best_score !== undefined ? `${question.best_score}%` : '-'}
-                    </td>
-                    <td className="py-3 px-4 text-gray-700">
-                      {question.attempts || 0}
-                    </td>
-                    <td className="py-3 px-4">
-                      <button
-                        onClick={() => setSelectedQuestion(question.id)}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-                      >
-                        Solve
-                      </button>
+              </thead>
+              <tbody>
+                {filteredQuestions.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="text-center py-12 text-gray-500">
+                      {questions.length === 0 ? 'No practice questions available yet.' : 'No questions match your filters.'}
                     </td>
                   </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+                ) : (
+                  filteredQuestions.map((question) => (
+                    <tr key={question.id} className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        {getStatusIcon(question.status)}
+                      </td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => setSelectedQuestion(question.id)}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {question.title}
+                        </button>
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(question.difficulty)}`}>
+                          {question.difficulty.toUpperCase()}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex flex-wrap gap-1">
+                          {question.tags.slice(0, 3).map(tag => (
+                            <span key={tag} className="px-2 py-1 bg-blue-50 text-blue-600 rounded text-xs">
+                              {tag}
+                            </span>
+                          ))}
+                          {question.tags.length > 3 && (
+                            <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
+                              +{question.tags.length - 3}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">
+                        {question.best_score !== undefined ? `${question.best_score}%` : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">
+                        {question.attempts || 0}
+                      </td>
+                      <td className="py-3 px-4">
+                        <QuestionLibraryActions question={question} library={library} />
+                      </td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => setSelectedQuestion(question.id)}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                        >
+                          Solve
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Medal } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import { LeaderboardEntry, PracticeLeaderboard as LeaderboardData } from './practiceTrack';
+
+const getRankColor = (rank: number) => {
+  switch (rank) {
+    case 1: return 'text-yellow-500';
+    case 2: return 'text-gray-400';
+    case 3: return 'text-amber-700';
+    default: return 'text-gray-300';
+  }
+};
+
+// College-wide practice ranking; the signed-in student's row is highlighted and
+// pinned below the table when they are outside the top of the board
+const PracticeLeaderboard: React.FC = () => {
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      try {
+        setData(await apiService.getPracticeLeaderboard() as LeaderboardData);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLeaderboard();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <div className="text-center text-red-600 py-12">{error || 'Leaderboard unavailable'}</div>;
+  }
+
+  const { leaderboard, me, points } = data;
+  const meListed = !!me && leaderboard.some(entry => entry.studentId === me.studentId);
+
+  const renderRow = (entry: LeaderboardEntry) => (
+    <tr
+      key={entry.studentId}
+      className={`border-b ${entry.studentId === me?.studentId ? 'bg-blue-50 font-medium' : 'hover:bg-gray-50'}`}
+    >
+      <td className="py-3 px-4">
+        <span className="flex items-center gap-1">
+          {entry.rank <= 3 && <Medal className={`w-4 h-4 ${getRankColor(entry.rank)}`} />}
+          {entry.rank}
+        </span>
+      </td>
+      <td className="py-3 px-4 text-gray-800">
+        {entry.name}
+        {entry.branch && <span className="ml-2 text-xs text-gray-500">{entry.branch}{entry.batch ? ` · ${entry.batch}` : ''}</span>}
+      </td>
+      <td className="py-3 px-4 text-gray-800">{entry.points}</td>
+      <td className="py-3 px-4 text-gray-700">{entry.solved}</td>
+      <td className="py-3 px-4 text-sm">
+        <span className="text-green-600">{entry.easy}</span>
+        {' / '}
+        <span className="text-yellow-600">{entry.medium}</span>
+        {' / '}
+        <span className="text-red-600">{entry.hard}</span>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <p className="text-sm text-gray-600 mb-4">
+        Points per solved problem: easy {points.easy}, medium {points.medium}, hard {points.hard}.
+        Ties go to whoever got there first.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Rank</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Student</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Points</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Solved</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Easy / Medium / Hard</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="text-center py-12 text-gray-500">No students on the leaderboard yet.</td>
+              </tr>
+            ) : (
+              leaderboard.map(renderRow)
+            )}
+            {me && !meListed && renderRow(me)}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeLeaderboard;
@@ -0,0 +1,501 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Map as MapIcon, Plus, Trash2, Users, X } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import Modal from '../UI/Modal';
+import { PathCohort, PracticePathSummary, getDifficultyColor, getProgressPercent } from './practiceTrack';
+
+interface BankCodingQuestion {
+  id: string;
+  title: string;
+  difficulty: string;
+  tags: string[];
+}
+
+interface PathForm {
+  title: string;
+  description: string;
+  questions: string[];
+  prerequisites: string[];
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PathForm = {
+  title: '',
+  description: '',
+  questions: [],
+  prerequisites: [],
+  is_active: true
+};
+
+// Faculty authoring of practice learning paths and the cohort's progress on each
+const PracticePathManager: React.FC = () => {
+  const [paths, setPaths] = useState<PracticePathSummary[]>([]);
+  const [questions, setQuestions] = useState<BankCodingQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PathForm>(EMPTY_FORM);
+  const [questionSearch, setQuestionSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [cohortPathId, setCohortPathId] = useState<string | null>(null);
+  const [cohort, setCohort] = useState<PathCohort | null>(null);
+  const [batches, setBatches] = useState<string[]>([]);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [batchFilter, setBatchFilter] = useState('');
+  const [branchFilter, setBranchFilter] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (!cohortPathId) return;
+    (apiService.getPracticePathCohort(cohortPathId, batchFilter, branchFilter) as Promise<PathCohort>)
+      .then(setCohort)
+      .catch(error => {
+        alert(error instanceof Error ? error.message : 'Failed to load path progress');
+        setCohortPathId(null);
+      });
+  }, [cohortPathId, batchFilter, branchFilter]);
+
+  const fetchData = async () => {
+    try {
+      const [pathData, questionData, batchData, branchData] = await Promise.all([
+        apiService.getPracticePaths() as Promise<PracticePathSummary[]>,
+        apiService.get<BankCodingQuestion[]>('/coding/questions'),
+        apiService.getBatches() as Promise<string[]>,
+        apiService.getBranches() as Promise<string[]>
+      ]);
+      setPaths(pathData);
+      setQuestions(questionData);
+      setBatches(batchData);
+      setBranches(branchData);
+    } catch (error) {
+      console.error('Error loading practice paths:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (path?: PracticePathSummary) => {
+    setEditingId(path?.id || null);
+    setForm(path
+      ? {
+        title: path.title,
+        description: path.description,
+        questions: path.questions.map(String),
+        prerequisites: path.prerequisites.map(p => p.id),
+        is_active: path.is_active
+      }
+      : EMPTY_FORM);
+    setQuestionSearch('');
+    setShowForm(true);
+  };
+
+  const savePath = async () => {
+    if (!form.title.trim()) {
+      alert('Please enter a title');
+      return;
+    }
+    if (form.questions.length === 0) {
+      alert('Please add at least one question');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await apiService.updatePracticePath(editingId, form);
+      } else {
+        await apiService.createPracticePath(form);
+      }
+      setShowForm(false);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save path');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePath = async (path: PracticePathSummary) => {
+    if (!confirm(`Delete the path "${path.title}"? Student progress on its questions is kept.`)) return;
+    try {
+      await apiService.deletePracticePath(path.id);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete path');
+    }
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const next = [...form.questions];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setForm({ ...form, questions: next });
+  };
+
+  const questionById = new Map(questions.map(q => [String(q.id), q]));
+  const availableQuestions = questions.filter(q =>
+    !form.questions.includes(String(q.id)) &&
+    (!questionSearch ||
+      q.title.toLowerCase().includes(questionSearch.toLowerCase()) ||
+      q.tags.some(tag => tag.toLowerCase().includes(questionSearch.toLowerCase())))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (cohortPathId) {
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => { setCohortPathId(null); setCohort(null); }}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All paths
+        </button>
+
+        {!cohort ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-2xl font-bold text-gray-900">{cohort.path.title}</h2>
+              <p className="text-gray-600">{cohort.path.questionCount} questions</p>
+              <div className="grid grid-cols-3 gap-4 mt-4">
+                <div>
+                  <p className="text-sm text-gray-600">Students</p>
+                  <p className="text-2xl font-bold text-gray-900">{cohort.summary.students}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Started</p>
+                  <p className="text-2xl font-bold text-yellow-600">{cohort.summary.started}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Completed</p>
+                  <p className="text-2xl font-bold text-green-600">{cohort.summary.completed}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex gap-3 mb-4">
+                <select
+                  value={batchFilter}
+                  onChange={(e) => setBatchFilter(e.target.value)}
+                  className="px-3 py-2 border rounded-lg"
+                >
+                  <option value="">All Batches</option>
+                  {batches.map(batch => <option key={batch} value={batch}>{batch}</option>)}
+                </select>
+                <select
+                  value={branchFilter}
+                  onChange={(e) => setBranchFilter(e.target.value)}
+                  className="px-3 py-2 border rounded-lg"
+                >
+                  <option value="">All Branches</option>
+                  {branches.map(branch => <option key={branch} value={branch}>{branch}</option>)}
+                </select>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Student</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Branch / Batch</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Progress</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Solved</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cohort.students.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="text-center py-12 text-gray-500">No students match these filters.</td>
+                      </tr>
+                    ) : cohort.students.map(student => (
+                      <tr key={student.studentId} className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <div className="font-medium text-gray-800">{student.name}</div>
+                          <div className="text-xs text-gray-500">{student.email}</div>
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-700">
+                          {[student.branch, student.batch, student.section].filter(Boolean).join(' · ') || '-'}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center gap-2">
+                            <div className="w-32 bg-gray-200 rounded-full h-2">
+                              <div
+                                className={`h-2 rounded-full ${student.completed ? 'bg-green-600' : 'bg-blue-600'}`}
+                                style={{ width: `${getProgressPercent(student)}%` }}
+                              />
+                            </div>
+                            <span className="text-sm text-gray-600">{student.solved}/{student.total}</span>
+                          </div>
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600">
+                          {student.lastSolvedAt ? new Date(student.lastSolvedAt).toLocaleDateString() : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <MapIcon className="w-7 h-7 text-blue-600" />
+            Practice Paths
+          </h2>
+          <p className="text-gray-600">Ordered sets of coding problems students work through in Practice Coding</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          New Path
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Path</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Questions</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Prerequisites</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {paths.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="text-center py-12 text-gray-500">No practice paths yet.</td>
+              </tr>
+            ) : paths.map(path => (
+              <tr key={path.id} className="border-b hover:bg-gray-50">
+                <td className="py-3 px-4">
+                  <div className="font-medium text-gray-800">{path.title}</div>
+                  {path.shared && <div className="text-xs text-gray-500">Shared with all colleges</div>}
+                </td>
+                <td className="py-3 px-4 text-gray-700">{path.questionCount}</td>
+                <td className="py-3 px-4 text-sm text-gray-700">
+                  {path.prerequisites.map(p => p.title).join(', ') || '-'}
+                </td>
+                <td className="py-3 px-4">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    path.is_active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {path.is_active ? 'Published' : 'Hidden'}
+                  </span>
+                </td>
+                <td className="py-3 px-4">
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setCohortPathId(path.id)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                      title="Student progress"
+                    >
+                      <Users className="w-4 h-4" />
+                    </button>
+                    {path.editable && (
+                      <>
+                        <button
+                          onClick={() => openForm(path)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded"
+                          title="Edit"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deletePath(path)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title={editingId ? 'Edit Practice Path' : 'New Practice Path'}
+        size="xl"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="e.g. Arrays 101"
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Questions in order ({form.questions.length})
+              </label>
+              <ol className="border rounded-lg divide-y max-h-72 overflow-y-auto">
+                {form.questions.length === 0 && (
+                  <li className="px-3 py-6 text-sm text-center text-gray-500">Add questions from the list</li>
+                )}
+                {form.questions.map((questionId, index) => {
+                  const question = questionById.get(questionId);
+                  return (
+                    <li key={questionId} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <span className="text-gray-500 w-5">{index + 1}.</span>
+                      <span className="flex-1 truncate">{question?.title || 'Deleted question'}</span>
+                      <button
+                        onClick={() => moveQuestion(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveQuestion(index, 1)}
+                        disabled={index === form.questions.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setForm({ ...form, questions: form.questions.filter(id => id !== questionId) })}
+                        className="p-1 text-red-500 hover:text-red-700"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Add questions</label>
+              <input
+                type="text"
+                value={questionSearch}
+                onChange={(e) => setQuestionSearch(e.target.value)}
+                placeholder="Search by title or tag..."
+                className="w-full px-3 py-2 border rounded-lg mb-2 text-sm"
+              />
+              <ul className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+                {availableQuestions.map(question => (
+                  <li key={question.id}>
+                    <button
+                      onClick={() => setForm({ ...form, questions: [...form.questions, String(question.id)] })}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-50"
+                    >
+                      <Plus className="w-4 h-4 text-blue-600" />
+                      <span className="flex-1 truncate">{question.title}</span>
+                      <span className={`px-2 rounded text-xs ${getDifficultyColor(question.difficulty)}`}>
+                        {question.difficulty}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prerequisite paths</label>
+            <div className="flex flex-wrap gap-3">
+              {paths.filter(p => p.id !== editingId).map(path => (
+                <label key={path.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.prerequisites.includes(path.id)}
+                    onChange={(e) => setForm({
+                      ...form,
+                      prerequisites: e.target.checked
+                        ? [...form.prerequisites, path.id]
+                        : form.prerequisites.filter(id => id !== path.id)
+                    })}
+                  />
+                  {path.title}
+                </label>
+              ))}
+              {paths.filter(p => p.id !== editingId).length === 0 && (
+                <span className="text-sm text-gray-500">No other paths yet</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Students unlock this path once every prerequisite is completed.</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+            />
+            Published to students
+          </label>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={savePath}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Path'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default PracticePathManager;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, Clock, Lock, Map as MapIcon } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import {
+  PracticePathDetail, PracticePathSummary, getDifficultyColor, getProgressPercent
+} from './practiceTrack';
+
+interface PracticePathsProps {
+  onSolve: (questionId: string) => void;
+}
+
+const ProgressBar: React.FC<{ solved: number; total: number }> = ({ solved, total }) => (
+  <div className="w-full bg-gray-200 rounded-full h-2">
+    <div
+      className="bg-blue-600 h-2 rounded-full"
+      style={{ width: `${getProgressPercent({ solved, total })}%` }}
+    />
+  </div>
+);
+
+// Learning paths for students: the list with progress and locks, and one path's ordered questions
+const PracticePaths: React.FC<PracticePathsProps> = ({ onSolve }) => {
+  const [paths, setPaths] = useState<PracticePathSummary[]>([]);
+  const [selectedPath, setSelectedPath] = useState<PracticePathDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPaths();
+  }, []);
+
+  const fetchPaths = async () => {
+    try {
+      const data = await apiService.getPracticePaths() as PracticePathSummary[];
+      setPaths(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load learning paths');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPath = async (pathId: string) => {
+    try {
+      const data = await apiService.getPracticePath(pathId) as PracticePathDetail;
+      setSelectedPath(data);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load learning path');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-center text-red-600 py-12">{error}</div>;
+  }
+
+  if (selectedPath) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <button
+          onClick={() => setSelectedPath(null)}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All paths
+        </button>
+
+        <div>
+          <h3 className="text-xl font-bold text-gray-800">{selectedPath.title}</h3>
+          {selectedPath.description && <p className="text-gray-600 mt-1">{selectedPath.description}</p>}
+          <div className="mt-3 flex items-center gap-3">
+            <ProgressBar {...selectedPath.progress} />
+            <span className="text-sm text-gray-600 whitespace-nowrap">
+              {selectedPath.progress.solved}/{selectedPath.progress.total} solved
+            </span>
+          </div>
+          {selectedPath.locked && (
+            <p className="mt-3 text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2 flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Complete the prerequisite paths to unlock this path.
+            </p>
+          )}
+        </div>
+
+        <ol className="divide-y border rounded-lg">
+          {selectedPath.questions.map((question, index) => (
+            <li key={question.id} className="flex items-center gap-4 px-4 py-3">
+              <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+              <span className="w-5">
+                {question.status === 'solved' && <CheckCircle className="w-5 h-5 text-green-600" />}
+                {question.status === 'attempted' && <Clock className="w-5 h-5 text-yellow-600" />}
+              </span>
+              <span className="flex-1 font-medium text-gray-800">{question.title}</span>
+              <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(question.difficulty)}`}>
+                {question.difficulty.toUpperCase()}
+              </span>
+              <button
+                onClick={() => onSolve(question.id)}
+                disabled={selectedPath.locked}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {question.id === selectedPath.progress.nextQuestionId ? 'Continue' : 'Solve'}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  if (paths.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-12 text-center text-gray-500">
+        No learning paths have been published for your college yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+      {paths.map(path => {
+        const progress = path.progress || { solved: 0, total: path.questionCount, completed: false, nextQuestionId: null };
+        return (
+          <div key={path.id} className={`bg-white rounded-lg shadow-md p-5 flex flex-col ${path.locked ? 'opacity-75' : ''}`}>
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                <MapIcon className="w-5 h-5 text-blue-600" />
+                {path.title}
+              </h3>
+              {path.locked && <Lock className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+              {progress.completed && <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />}
+            </div>
+            {path.description && <p className="text-sm text-gray-600 mt-2 line-clamp-2">{path.description}</p>}
+
+            {path.prerequisites.length > 0 && (
+              <div className="mt-3 text-xs text-gray-600">
+                Requires:{' '}
+                {path.prerequisites.map((prerequisite, index) => (
+                  <span key={prerequisite.id} className={prerequisite.completed ? 'text-green-700' : 'text-gray-800 font-medium'}>
+                    {index > 0 && ', '}
+                    {prerequisite.title}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-auto pt-4 space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>{progress.solved}/{progress.total} solved</span>
+                <span>{getProgressPercent(progress)}%</span>
+              </div>
+              <ProgressBar {...progress} />
+              <button
+                onClick={() => openPath(path.id)}
+                className="w-full mt-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 text-sm"
+              >
+                {path.locked ? 'View path' : progress.solved > 0 ? 'Continue path' : 'Start path'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PracticePaths;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Bookmark, FolderPlus, StickyNote } from 'lucide-react';
+import Modal from '../UI/Modal';
+import { PracticeLibrary } from '../../hooks/usePracticeLibrary';
+import { QuestionMarks } from './practiceLibrary';
+
+interface QuestionLibraryActionsProps {
+  question: { id: string; title: string } & Partial<QuestionMarks>;
+  library: PracticeLibrary;
+}
+
+// Bookmark, private note and custom list buttons for one question row
+const QuestionLibraryActions: React.FC<QuestionLibraryActionsProps> = ({ question, library }) => {
+  const [showNote, setShowNote] = useState(false);
+  const [showLists, setShowLists] = useState(false);
+  const [noteText, setNoteText] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [newListName, setNewListName] = useState('');
+
+  const hasNote = !!question.note?.trim();
+
+  const openNote = () => {
+    setNoteText(question.note || '');
+    setShowNote(true);
+  };
+
+  const saveNote = async () => {
+    setSavingNote(true);
+    try {
+      await library.saveNote(question.id, noteText);
+      setShowNote(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const createList = async () => {
+    if (!newListName.trim()) return;
+    try {
+      const list = await library.createList(newListName.trim());
+      setNewListName('');
+      await library.toggleList(question, list.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create list');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => library.toggleBookmark(question)}
+          className={`p-1.5 rounded hover:bg-gray-100 ${question.bookmarked ? 'text-yellow-500' : 'text-gray-400'}`}
+          title={question.bookmarked ? 'Remove bookmark' : 'Bookmark'}
+        >
+          <Bookmark className="w-4 h-4" fill={question.bookmarked ? 'currentColor' : 'none'} />
+        </button>
+        <button
+          onClick={openNote}
+          className={`p-1.5 rounded hover:bg-gray-100 ${hasNote ? 'text-blue-600' : 'text-gray-400'}`}
+          title={hasNote ? 'Edit note' : 'Add note'}
+        >
+          <StickyNote className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowLists(true)}
+          className={`p-1.5 rounded hover:bg-gray-100 ${question.lists?.length ? 'text-purple-600' : 'text-gray-400'}`}
+          title="Add to list"
+        >
+          <FolderPlus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Modal isOpen={showNote} onClose={() => setShowNote(false)} title={`Note: ${question.title}`}>
+        <div className="space-y-4">
+          <textarea
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            rows={8}
+            maxLength={5000}
+            placeholder="Approach, edge cases, things to revise... Only you can see this note."
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setShowNote(false)} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={saveNote}
+              disabled={savingNote}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {savingNote ? 'Saving...' : 'Save Note'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal isOpen={showLists} onClose={() => setShowLists(false)} title={`Lists: ${question.title}`} size="sm">
+        <div className="space-y-4">
+          {library.lists.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no lists yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {library.lists.map(list => (
+                <label key={list.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!question.lists?.includes(list.id)}
+                    onChange={() => library.toggleList(question, list.id)}
+                  />
+                  <span className="flex-1">{list.name}</span>
+                  <span className="text-xs text-gray-500">{list.questionCount}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') createList(); }}
+              maxLength={100}
+              placeholder="New list name"
+              className="flex-1 px-3 py-2 border rounded-lg text-sm"
+            />
+            <button
+              onClick={createList}
+              disabled={!newListName.trim()}
+              className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default QuestionLibraryActions;
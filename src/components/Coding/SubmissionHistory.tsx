@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Eye, GitCompare, Play, RotateCcw } from 'lucide-react';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import { diffLines, DiffRow } from '../Test/codeDiff';
+import { SubmissionRecord, getVerdictColor, getVerdictLabel } from './submissionHistory';
+
+interface SubmissionHistoryProps {
+  submissions: SubmissionRecord[];
+  loading: boolean;
+  onRestore?: (submission: SubmissionRecord) => void;
+  onRerun?: (submission: SubmissionRecord) => void;
+}
+
+const ROW_STYLES: Record<DiffRow['type'], string> = {
+  same: 'bg-white',
+  changed: 'bg-yellow-50',
+  removed: 'bg-red-50',
+  added: 'bg-green-50'
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+// Past submissions of one question, newest first: view the code of one or diff any two.
+// Restore and re-run are offered when the history is shown next to the editor.
+const SubmissionHistory: React.FC<SubmissionHistoryProps> = ({ submissions, loading, onRestore, onRerun }) => {
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const numbers = useMemo(
+    () => new Map(submissions.map((s, index) => [s.id, submissions.length - index])),
+    [submissions]
+  );
+
+  // Older submission on the left, newer on the right
+  const compared = useMemo(() => {
+    if (compareIds.length !== 2) return null;
+    const [older, newer] = compareIds
+      .map(id => submissions.find(s => s.id === id))
+      .filter((s): s is SubmissionRecord => !!s)
+      .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+    if (!older || !newer) return null;
+    return { older, newer, rows: diffLines(older.code, newer.code) };
+  }, [compareIds, submissions]);
+
+  const viewing = submissions.find(s => s.id === viewingId) || null;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(current => {
+      if (current.includes(id)) return current.filter(c => c !== id);
+      // Picking a third submission replaces the earlier of the two picks
+      return [...current, id].slice(-2);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (submissions.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No submissions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">Tick two submissions to compare their code.</p>
+      <div className="max-h-72 overflow-y-auto border rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="px-3 py-2"></th>
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">Verdict</th>
+              <th className="px-3 py-2">Score</th>
+              <th className="px-3 py-2">Tests</th>
+              <th className="px-3 py-2">Language</th>
+              <th className="px-3 py-2">Submitted</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {submissions.map(submission => (
+              <tr
+                key={submission.id}
+                className={viewingId === submission.id ? 'bg-blue-50' : 'hover:bg-gray-50'}
+              >
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(submission.id)}
+                    onChange={() => toggleCompare(submission.id)}
+                    title="Compare"
+                  />
+                </td>
+                <td className="px-3 py-2 text-gray-500">{numbers.get(submission.id)}</td>
+                <td className="px-3 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getVerdictColor(submission.status)}`}>
+                    {getVerdictLabel(submission.status)}
+                  </span>
+                </td>
+                <td className="px-3 py-2">{submission.score}</td>
+                <td className="px-3 py-2">{submission.testCasesPassed}/{submission.totalTestCases}</td>
+                <td className="px-3 py-2 capitalize">{submission.language}</td>
+                <td className="px-3 py-2 text-gray-500 whitespace-nowrap">{formatTime(submission.submittedAt)}</td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setViewingId(viewingId === submission.id ? null : submission.id)}
+                      className="p-1 text-gray-500 hover:text-blue-600"
+                      title="View code"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    {onRestore && (
+                      <button
+                        onClick={() => onRestore(submission)}
+                        className="p-1 text-gray-500 hover:text-blue-600"
+                        title="Restore into the editor"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {onRerun && (
+                      <button
+                        onClick={() => onRerun(submission)}
+                        className="p-1 text-gray-500 hover:text-green-600"
+                        title="Restore and run the sample tests"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {compared ? (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b text-sm">
+            <GitCompare className="w-4 h-4 text-gray-500" />
+            <span className="w-1/2">
+              #{numbers.get(compared.older.id)} · {getVerdictLabel(compared.older.status)} · {compared.older.language}
+            </span>
+            <span className="w-1/2">
+              #{numbers.get(compared.newer.id)} · {getVerdictLabel(compared.newer.status)} · {compared.newer.language}
+            </span>
+          </div>
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-xs font-mono">
+              <tbody>
+                {compared.rows.map((row, index) => (
+                  <tr key={index} className={ROW_STYLES[row.type]}>
+                    <td className="w-1/2 px-3 py-0.5 whitespace-pre border-r border-gray-200 text-gray-800">
+                      {row.left ?? ''}
+                    </td>
+                    <td className="w-1/2 px-3 py-0.5 whitespace-pre text-gray-800">
+                      {row.right ?? ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : viewing && (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="px-3 py-2 bg-gray-50 border-b text-sm">
+            #{numbers.get(viewing.id)} · {getVerdictLabel(viewing.status)} · {viewing.language}
+            {!!viewing.executionTime && ` · ${viewing.executionTime}ms`}
+          </div>
+          {viewing.errorMessage && (
+            <pre className="px-3 py-2 text-xs text-red-600 bg-red-50 whitespace-pre-wrap border-b">{viewing.errorMessage}</pre>
+          )}
+          <pre className="max-h-96 overflow-auto p-3 text-xs font-mono text-gray-800">{viewing.code}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubmissionHistory;
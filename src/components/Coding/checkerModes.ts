@@ -0,0 +1,13 @@
+// Output checker modes supported by the judge (server/utils/outputChecker.js)
+export type CheckerMode = 'exact' | 'tokens' | 'float' | 'unordered_lines' | 'custom';
+
+export const CHECKER_MODES: { id: CheckerMode; name: string; description: string }[] = [
+  { id: 'exact', name: 'Exact match', description: 'Output must match exactly, ignoring leading/trailing whitespace and line endings' },
+  { id: 'tokens', name: 'Ignore whitespace', description: 'Compares whitespace-separated tokens, so spacing and blank lines do not matter' },
+  { id: 'float', name: 'Floating point', description: 'Numbers may differ by the tolerance (absolute or relative); other tokens must match' },
+  { id: 'unordered_lines', name: 'Any line order', description: 'Same lines in any order, e.g. when several answers may be printed in any sequence' },
+  { id: 'custom', name: 'Custom checker', description: 'A Python script decides whether the output is correct' }
+];
+
+export const getCheckerModeName = (mode?: string) =>
+  CHECKER_MODES.find(m => m.id === mode)?.name || CHECKER_MODES[0].name;
@@ -0,0 +1,71 @@
+// Function-signature (LeetCode-style) problems; mirrors server/utils/functionHarness.js
+export type SignatureType = 'int' | 'long' | 'double' | 'bool' | 'string' | 'int[]' | 'long[]' | 'double[]' | 'string[]' | 'int[][]';
+
+export interface SignatureParam {
+  name: string;
+  type: SignatureType;
+}
+
+export interface FunctionSignature {
+  name: string;
+  params: SignatureParam[];
+  return_type: SignatureType;
+}
+
+export const SIGNATURE_TYPES: SignatureType[] = ['int', 'long', 'double', 'bool', 'string', 'int[]', 'long[]', 'double[]', 'string[]', 'int[][]'];
+
+const LANGUAGE_TYPES: Record<string, Record<SignatureType, string>> = {
+  python: {
+    int: 'int', long: 'int', double: 'float', bool: 'bool', string: 'str',
+    'int[]': 'List[int]', 'long[]': 'List[int]', 'double[]': 'List[float]', 'string[]': 'List[str]', 'int[][]': 'List[List[int]]'
+  },
+  javascript: {
+    int: 'number', long: 'number', double: 'number', bool: 'boolean', string: 'string',
+    'int[]': 'number[]', 'long[]': 'number[]', 'double[]': 'number[]', 'string[]': 'string[]', 'int[][]': 'number[][]'
+  },
+  java: {
+    int: 'int', long: 'long', double: 'double', bool: 'boolean', string: 'String',
+    'int[]': 'int[]', 'long[]': 'long[]', 'double[]': 'double[]', 'string[]': 'String[]', 'int[][]': 'int[][]'
+  },
+  cpp: {
+    int: 'int', long: 'long long', double: 'double', bool: 'bool', string: 'string',
+    'int[]': 'vector<int>', 'long[]': 'vector<long long>', 'double[]': 'vector<double>', 'string[]': 'vector<string>', 'int[][]': 'vector<vector<int>>'
+  }
+};
+
+export const hasFunctionSignature = (signature?: FunctionSignature | null): signature is FunctionSignature =>
+  Boolean(signature && signature.name);
+
+export const isSignatureLanguage = (language: string) => language in LANGUAGE_TYPES;
+
+// Starter code declaring the function students implement; null when the language has no harness
+export const getSignatureStarterCode = (language: string, signature: FunctionSignature): string | null => {
+  const types = LANGUAGE_TYPES[language];
+  if (!types) return null;
+  const { name, params, return_type: returnType } = signature;
+
+  switch (language) {
+    case 'python': {
+      const args = params.map(p => `${p.name}: ${types[p.type]}`).join(', ');
+      return `from typing import List\n\n\ndef ${name}(${args}) -> ${types[returnType]}:\n    # Write your code here\n    pass\n`;
+    }
+    case 'javascript': {
+      const docs = params.map(p => ` * @param {${types[p.type]}} ${p.name}`).join('\n');
+      return `/**\n${docs}\n * @return {${types[returnType]}}\n */\nfunction ${name}(${params.map(p => p.name).join(', ')}) {\n  // Write your code here\n\n}\n`;
+    }
+    case 'java': {
+      const args = params.map(p => `${types[p.type]} ${p.name}`).join(', ');
+      return `import java.util.*;\n\nclass Solution {\n    public ${types[returnType]} ${name}(${args}) {\n        // Write your code here\n\n    }\n}\n`;
+    }
+    case 'cpp': {
+      // Containers and strings are passed by reference, as on most judges
+      const args = params.map(p => `${types[p.type]}${p.type.endsWith(']') || p.type === 'string' ? '&' : ''} ${p.name}`).join(', ');
+      return `class Solution {\npublic:\n    ${types[returnType]} ${name}(${args}) {\n        // Write your code here\n\n    }\n};\n`;
+    }
+    default:
+      return null;
+  }
+};
+
+export const formatSignature = (signature: FunctionSignature) =>
+  `${signature.name}(${signature.params.map(p => `${p.type} ${p.name}`).join(', ')}) → ${signature.return_type}`;
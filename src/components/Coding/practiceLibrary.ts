@@ -0,0 +1,24 @@
+// A user's own marks on a coding question, returned with every question in the lists
+export interface QuestionMarks {
+  bookmarked: boolean;
+  note: string;
+  // Ids of the user's custom lists holding the question
+  lists: string[];
+}
+
+export interface PracticeListSummary {
+  id: string;
+  name: string;
+  questions: string[];
+  questionCount: number;
+}
+
+// 'all', 'bookmarked', 'notes' or 'list:<list id>'
+export type LibraryFilter = string;
+
+export const matchesLibraryFilter = (question: Partial<QuestionMarks>, filter: LibraryFilter) => {
+  if (filter === 'bookmarked') return !!question.bookmarked;
+  if (filter === 'notes') return !!question.note?.trim();
+  if (filter.startsWith('list:')) return (question.lists || []).includes(filter.slice('list:'.length));
+  return true;
+};
@@ -0,0 +1,118 @@
+export type PracticeStatus = 'not_attempted' | 'attempted' | 'solved';
+
+export interface PracticeStreak {
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  lastActiveDay: string | null;
+}
+
+export interface SolvedCount {
+  solved: number;
+  total: number;
+}
+
+// GET /coding/practice/stats
+export interface PracticeStats {
+  streak: PracticeStreak;
+  solved: number;
+  attempted: number;
+  byDifficulty: Record<'easy' | 'medium' | 'hard', SolvedCount>;
+  byTag: (SolvedCount & { tag: string })[];
+}
+
+export interface PathProgress {
+  total: number;
+  solved: number;
+  completed: boolean;
+  nextQuestionId: string | null;
+}
+
+export interface PracticePathSummary {
+  id: string;
+  title: string;
+  description: string;
+  questionCount: number;
+  questions: string[];
+  is_active: boolean;
+  // Authored by a master admin and visible to every college
+  shared: boolean;
+  editable: boolean;
+  prerequisites: { id: string; title: string; completed: boolean }[];
+  // Only returned to students
+  progress?: PathProgress;
+  locked?: boolean;
+}
+
+export interface PracticePathDetail {
+  id: string;
+  title: string;
+  description: string;
+  locked: boolean;
+  progress: PathProgress;
+  questions: {
+    id: string;
+    title: string;
+    difficulty: string;
+    tags: string[];
+    status: PracticeStatus;
+    best_score?: number;
+  }[];
+}
+
+export interface LeaderboardEntry {
+  studentId: string;
+  name: string;
+  branch?: string;
+  batch?: string;
+  section?: string;
+  rank: number;
+  points: number;
+  solved: number;
+  easy: number;
+  medium: number;
+  hard: number;
+  lastSolvedAt: string | null;
+}
+
+export interface PracticeLeaderboard {
+  leaderboard: LeaderboardEntry[];
+  me: LeaderboardEntry | null;
+  totalStudents: number;
+  points: Record<'easy' | 'medium' | 'hard', number>;
+}
+
+export interface PathCohort {
+  path: { id: string; title: string; questionCount: number };
+  summary: { students: number; started: number; completed: number };
+  students: {
+    studentId: string;
+    name: string;
+    email: string;
+    branch?: string;
+    batch?: string;
+    section?: string;
+    solved: number;
+    total: number;
+    completed: boolean;
+    lastSolvedAt: string | null;
+  }[];
+}
+
+export const getDifficultyColor = (difficulty: string) => {
+  switch (difficulty) {
+    case 'easy': return 'text-green-600 bg-green-100';
+    case 'medium': return 'text-yellow-600 bg-yellow-100';
+    case 'hard': return 'text-red-600 bg-red-100';
+    default: return 'text-gray-600 bg-gray-100';
+  }
+};
+
+export const getProgressPercent = ({ solved, total }: { solved: number; total: number }) =>
+  (total > 0 ? Math.round((solved / total) * 100) : 0);
+
+export const describeStreak = (streak: PracticeStreak) => {
+  if (streak.current === 0) return 'Submit a solution today to start a streak';
+  if (!streak.activeToday) return 'Practice today to keep your streak';
+  return 'You practised today';
+};
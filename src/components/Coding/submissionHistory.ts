@@ -0,0 +1,59 @@
+export interface SubmissionRecord {
+  id: string;
+  questionId: string;
+  questionTitle: string | null;
+  language: string;
+  code: string;
+  status: string;
+  score: number;
+  testCasesPassed: number;
+  totalTestCases: number;
+  executionTime: number;
+  memoryUsed: number;
+  errorMessage: string | null;
+  isPractice: boolean;
+  testAttemptId: string | null;
+  submittedAt: string;
+}
+
+// One question in a student's submission history, as listed for faculty
+export interface QuestionSubmissionSummary {
+  questionId: string;
+  questionTitle: string | null;
+  submissionCount: number;
+  bestScore: number;
+  accepted: boolean;
+  lastSubmittedAt: string;
+}
+
+export interface StudentSubmissions {
+  student: { id: string; name: string; email: string; batch?: string; branch?: string; section?: string };
+  questions: QuestionSubmissionSummary[];
+  submissions: SubmissionRecord[];
+}
+
+export const getVerdictLabel = (status: string) => {
+  switch (status) {
+    case 'accepted': return 'Accepted';
+    case 'wrong_answer': return 'Wrong Answer';
+    case 'runtime_error': return 'Runtime Error';
+    case 'time_limit_exceeded': return 'Time Limit Exceeded';
+    case 'memory_limit_exceeded': return 'Memory Limit Exceeded';
+    case 'compilation_error': return 'Compilation Error';
+    case 'judge_error': return 'Not Judged';
+    case 'pending': return 'Queued';
+    case 'running': return 'Judging';
+    default: return status;
+  }
+};
+
+export const getVerdictColor = (status: string) => {
+  switch (status) {
+    case 'accepted': return 'text-green-700 bg-green-100';
+    case 'pending':
+    case 'running': return 'text-blue-700 bg-blue-100';
+    case 'compilation_error':
+    case 'judge_error': return 'text-gray-700 bg-gray-200';
+    default: return 'text-red-700 bg-red-100';
+  }
+};
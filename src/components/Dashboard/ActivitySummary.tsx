@@ -1,10 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Users } from 'lucide-react';
-import io from 'socket.io-client';
-import apiService, { API_BASE_URL } from '../../services/api';
-
-// Use the same API base URL as the Api service. Strip the `/api` suffix for socket base.
-const API_BASE = new URL((API_BASE_URL || '').replace('/api', '') || window.location.origin).origin;
+import apiService from '../../services/api';
+import { connectSocket } from '../../services/socket';
 
 const ActivitySummary: React.FC = () => {
   const [activeStudents, setActiveStudents] = useState<number>(0);
@@ -20,48 +17,12 @@ const ActivitySummary: React.FC = () => {
       setAdminLoginSummary(res.adminLoginSummary || { lastLogin: null, totalLogins: 0 });
     }).catch(() => {});
 
-    // Initialize socket connection at runtime with guards to avoid connecting to
-    // third-party hosts during local development. This prevents repeated failed
-    // wss attempts when VITE_API_URL is pointed to an external domain.
-    let mountedSocket: any = null;
-
-    const shouldConnectSocket = (() => {
-      try {
-        const apiUrl = new URL(API_BASE);
-        const apiHost = apiUrl.hostname;
-
-        // Allow socket when API host is localhost or matches the current origin.
-        if (apiHost.includes('localhost') || apiHost === window.location.hostname) return true;
-
-        // In production we may want sockets to connect to remote hosts; allow when NODE_ENV=production
-        if (import.meta.env && import.meta.env.MODE === 'production') return true;
-
-        // Otherwise, don't connect (likely points to external dev tooling / vercel hosts)
-        return false;
-      } catch (err) {
-        return false;
-      }
-    })();
-
-    if (shouldConnectSocket) {
-      try {
-        mountedSocket = io(API_BASE, {
-          path: '/socket.io',
-          transports: ['websocket', 'polling'],
-          auth: {
-            token: typeof window !== 'undefined' ? localStorage.getItem('token') : null
-          }
-        });
-
-        mountedSocket.on('activity:update', (payload: any) => {
-          if (!mounted) return;
-          setActiveStudents(payload.activeStudents || 0);
-        });
-      } catch (err) {
-        // Swallow socket init errors in development to avoid noisy console logs
-        console.warn('Socket initialization skipped or failed:', err);
-      }
-    }
+    // Initialize socket connection at runtime; skipped when the API host is external
+    const mountedSocket = connectSocket();
+    mountedSocket?.on('activity:update', (payload: any) => {
+      if (!mounted) return;
+      setActiveStudents(payload.activeStudents || 0);
+    });
 
     return () => {
       mounted = false;
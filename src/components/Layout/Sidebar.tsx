@@ -13,7 +13,8 @@ import {
   Target,
   ChevronDown,
   ChevronRight,
-  Code
+  Code,
+  Library
 } from 'lucide-react';
 import apiService from '../../services/api';
 
@@ -196,6 +197,12 @@ const Sidebar: React.FC<SidebarProps> = ({ userRole, activeTab, onTabChange, col
       icon: <ClipboardList size={20} />,
       roles: ['faculty'],
     },
+    {
+      id: 'practice-paths',
+      label: 'Practice Paths',
+      icon: <Code size={20} />,
+      roles: ['faculty'],
+    },
     {
       id: 'my-tests',
       label: 'Tests',
@@ -220,6 +227,12 @@ const Sidebar: React.FC<SidebarProps> = ({ userRole, activeTab, onTabChange, col
         { id: 'company-tests-admin', label: 'Company Test', testType: 'Specific Company Test' }
       ]
     },
+    {
+      id: 'question-bank',
+      label: 'Question Bank',
+      icon: <Library size={20} />,
+      roles: ['master_admin'],
+    },
     {
       id: 'coding-questions',
       label: 'Coding Questions',
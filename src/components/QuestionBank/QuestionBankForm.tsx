@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { Save, Plus } from 'lucide-react';
+import Modal from '../UI/Modal';
+import apiService from '../../services/api';
+import QuestionAnswerEditor from '../Test/QuestionAnswerEditor';
+import { EditableQuestion, isQuestionComplete } from '../Test/questionTypes';
+
+interface BankQuestionFormData extends EditableQuestion {
+  questionImageUrl?: string;
+  explanation: string;
+  subject: 'Verbal' | 'Reasoning' | 'Technical' | 'Arithmetic' | 'Communication';
+  topics: string[];
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  tags: string[];
+}
+
+interface QuestionBankFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: BankQuestionFormData) => Promise<void>;
+  initialData?: Partial<BankQuestionFormData> | null;
+}
+
+const subjects = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
+const difficulties = ['Easy', 'Medium', 'Hard'];
+
+const QuestionBankForm: React.FC<QuestionBankFormProps> = ({ isOpen, onClose, onSubmit, initialData }) => {
+  const [formData, setFormData] = useState<BankQuestionFormData>({
+    questionText: initialData?.questionText || '',
+    questionImageUrl: initialData?.questionImageUrl || '',
+    questionType: initialData?.questionType || 'single',
+    options: initialData?.options || { A: '', B: '', C: '', D: '' },
+    correctAnswer: initialData?.correctAnswer || 'A',
+    tolerance: initialData?.tolerance || 0,
+    acceptedAnswers: initialData?.acceptedAnswers || [],
+    caseSensitive: initialData?.caseSensitive || false,
+    explanation: initialData?.explanation || '',
+    subject: initialData?.subject || 'Technical',
+    topics: initialData?.topics || [],
+    difficulty: initialData?.difficulty || 'Medium',
+    tags: initialData?.tags || []
+  });
+  const [tagsInput, setTagsInput] = useState((initialData?.tags || []).join(', '));
+  const [topicOptions, setTopicOptions] = useState<string[]>([]);
+  const [newTopic, setNewTopic] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Topics come from the Subject collection so bank questions share the test form's vocabulary
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await apiService.getSubjectTopics(formData.subject) as { topics?: string[] };
+        if (mounted) setTopicOptions(res?.topics || []);
+      } catch {
+        if (mounted) setTopicOptions([]);
+      }
+    })();
+    return () => { mounted = false; };
+  }, [formData.subject]);
+
+  const toggleTopic = (topic: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      topics: checked ? [...prev.topics, topic] : prev.topics.filter(t => t !== topic)
+    }));
+  };
+
+  const addTopic = () => {
+    const topic = newTopic.trim();
+    if (!topic) return;
+    if (!topicOptions.includes(topic)) setTopicOptions(prev => [...prev, topic]);
+    if (!formData.topics.includes(topic)) toggleTopic(topic, true);
+    setNewTopic('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isQuestionComplete(formData)) {
+      alert('Please fill in the question, its options and the correct answer');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        ...formData,
+        tags: tagsInput.split(',').map((tag: string) => tag.trim()).filter(Boolean)
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={initialData ? 'Edit Bank Question' : 'Add Question to Bank'} size="xl">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Question Text</label>
+          <textarea
+            value={formData.questionText}
+            onChange={(e) => setFormData(prev => ({ ...prev, questionText: e.target.value }))}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder="Enter your question here..."
+          />
+        </div>
+
+        <QuestionAnswerEditor
+          question={formData}
+          onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <select
+              value={formData.subject}
+              onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value as BankQuestionFormData['subject'], topics: [] }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              {subjects.map(subject => (
+                <option key={subject} value={subject}>{subject}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+            <select
+              value={formData.difficulty}
+              onChange={(e) => setFormData(prev => ({ ...prev, difficulty: e.target.value as BankQuestionFormData['difficulty'] }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              {difficulties.map(difficulty => (
+                <option key={difficulty} value={difficulty}>{difficulty}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Topics</label>
+          <div className="flex flex-wrap gap-3">
+            {Array.from(new Set([...topicOptions, ...formData.topics])).map(topic => (
+              <label key={topic} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.topics.includes(topic)}
+                  onChange={(e) => toggleTopic(topic, e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="text-gray-700">{topic}</span>
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 flex gap-2">
+            <input
+              type="text"
+              value={newTopic}
+              onChange={(e) => setNewTopic(e.target.value)}
+              placeholder="Add new topic"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={addTopic}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 flex items-center gap-1"
+            >
+              <Plus size={14} />
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+          <input
+            type="text"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="Comma separated, e.g. tcs, previous-year"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Explanation (optional)</label>
+          <textarea
+            value={formData.explanation}
+            onChange={(e) => setFormData(prev => ({ ...prev, explanation: e.target.value }))}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <Save size={16} />
+            {saving ? 'Saving...' : 'Save Question'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default QuestionBankForm;
@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Library, Plus, Edit, Trash2, Search, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+import apiService from '../../services/api';
+import { QUESTION_TYPE_LABELS, QuestionOptions, QuestionType, describeTextAnswer, splitAnswerLabels } from '../Test/questionTypes';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import QuestionBankForm from './QuestionBankForm';
+
+interface BankQuestion {
+  _id: string;
+  questionText: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  correctAnswer: string;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  explanation?: string;
+  subject: 'Verbal' | 'Reasoning' | 'Technical' | 'Arithmetic' | 'Communication';
+  topics: string[];
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  tags: string[];
+  usageCount: number;
+  createdBy?: { name: string; email: string };
+  createdAt: string;
+}
+
+interface BankQuestionPage {
+  questions: BankQuestion[];
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 20;
+const subjects = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
+
+const QuestionBankList: React.FC = () => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [subjectFilter, setSubjectFilter] = useState('');
+  const [topicFilter, setTopicFilter] = useState('');
+  const [difficultyFilter, setDifficultyFilter] = useState('');
+  const [topicOptions, setTopicOptions] = useState<string[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+
+  const fetchQuestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await apiService.getBankQuestions({
+        search: searchTerm,
+        subject: subjectFilter,
+        topics: topicFilter ? [topicFilter] : [],
+        difficulty: difficultyFilter,
+        page,
+        limit: PAGE_SIZE
+      }) as BankQuestionPage;
+      setQuestions(res.questions || []);
+      setTotal(res.total || 0);
+      setTotalPages(res.totalPages || 1);
+    } catch (error) {
+      console.error('Error fetching bank questions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [searchTerm, subjectFilter, topicFilter, difficultyFilter, page]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchQuestions, 300);
+    return () => clearTimeout(timer);
+  }, [fetchQuestions]);
+
+  useEffect(() => {
+    apiService.getBankFacets(subjectFilter || undefined)
+      .then(res => setTopicOptions((res as { topics?: string[] })?.topics || []))
+      .catch(() => setTopicOptions([]));
+  }, [subjectFilter]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, subjectFilter, topicFilter, difficultyFilter]);
+
+  const handleSave = async (data: Omit<BankQuestion, '_id' | 'usageCount' | 'createdBy' | 'createdAt'>) => {
+    try {
+      if (editingQuestion) {
+        await apiService.updateBankQuestion(editingQuestion._id, data);
+      } else {
+        await apiService.createBankQuestion(data);
+      }
+      setShowForm(false);
+      setEditingQuestion(null);
+      fetchQuestions();
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save question');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Remove this question from the bank? Tests that already use it keep their copy.')) return;
+
+    try {
+      await apiService.deleteBankQuestion(id);
+      fetchQuestions();
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete question');
+    }
+  };
+
+  const getDifficultyColor = (difficulty: string) => {
+    switch (difficulty) {
+      case 'Easy': return 'bg-green-100 text-green-800';
+      case 'Medium': return 'bg-yellow-100 text-yellow-800';
+      case 'Hard': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Library className="w-8 h-8 text-blue-600" />
+          Question Bank
+          <span className="text-sm font-normal text-gray-500">({total} questions)</span>
+        </h2>
+        <button
+          onClick={() => {
+            setEditingQuestion(null);
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5" />
+          Add Question
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search question text or tags..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Filter className="text-gray-400 w-5 h-5" />
+            <select
+              value={subjectFilter}
+              onChange={(e) => {
+                setSubjectFilter(e.target.value);
+                setTopicFilter('');
+              }}
+              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Subjects</option>
+              {subjects.map(subject => (
+                <option key={subject} value={subject}>{subject}</option>
+              ))}
+            </select>
+            <select
+              value={topicFilter}
+              onChange={(e) => setTopicFilter(e.target.value)}
+              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Topics</option>
+              {topicOptions.map(topic => (
+                <option key={topic} value={topic}>{topic}</option>
+              ))}
+            </select>
+            <select
+              value={difficultyFilter}
+              onChange={(e) => setDifficultyFilter(e.target.value)}
+              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Difficulties</option>
+              <option value="Easy">Easy</option>
+              <option value="Medium">Medium</option>
+              <option value="Hard">Hard</option>
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {questions.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                {total === 0 && !searchTerm && !subjectFilter && !difficultyFilter
+                  ? 'The question bank is empty. Add your first question!'
+                  : 'No questions match your filters.'}
+              </div>
+            ) : (
+              questions.map(question => (
+                <div key={question._id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-medium">{question.subject}</span>
+                        <span className="px-2 py-1 bg-indigo-50 text-indigo-700 rounded text-xs">
+                          {QUESTION_TYPE_LABELS[question.questionType || 'single']}
+                        </span>
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(question.difficulty)}`}>
+                          {question.difficulty}
+                        </span>
+                      </div>
+                      <p className="text-gray-900 font-medium mb-2">{question.questionText}</p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm mb-3">
+                        {Object.entries(question.options).map(([option, text]) => (
+                          <div
+                            key={option}
+                            className={splitAnswerLabels(question.correctAnswer).includes(option) ? 'text-green-700 font-medium' : 'text-gray-600'}
+                          >
+                            {option}. {text}
+                          </div>
+                        ))}
+                      </div>
+                      {describeTextAnswer(question) && (
+                        <p className="text-sm text-green-700 font-medium mb-3">Answer: {describeTextAnswer(question)}</p>
+                      )}
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {question.topics.map(topic => (
+                          <span key={topic} className="px-2 py-1 bg-purple-50 text-purple-700 rounded text-xs">{topic}</span>
+                        ))}
+                        {question.tags.map(tag => (
+                          <span key={tag} className="px-2 py-1 bg-blue-50 text-blue-600 rounded text-xs">#{tag}</span>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-4 text-sm text-gray-500">
+                        <span>Used in {question.usageCount || 0} tests</span>
+                        {question.createdBy && <span>By {question.createdBy.name}</span>}
+                        <span>Added {new Date(question.createdAt).toLocaleDateString()}</span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => {
+                          setEditingQuestion(question);
+                          setShowForm(true);
+                        }}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="Edit"
+                      >
+                        <Edit className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(question._id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6 pt-4 border-t">
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="p-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="p-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <QuestionBankForm
+          isOpen={showForm}
+          onClose={() => {
+            setShowForm(false);
+            setEditingQuestion(null);
+          }}
+          onSubmit={handleSave}
+          initialData={editingQuestion}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankList;
@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Dices, CheckSquare } from 'lucide-react';
+import Modal from '../UI/Modal';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import apiService from '../../services/api';
+import { QuestionOptions, QuestionType } from '../Test/questionTypes';
+
+interface BankQuestion {
+  _id: string;
+  questionText: string;
+  questionImageUrl?: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  optionImages?: QuestionOptions;
+  correctAnswer: string;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  subject: string;
+  topics: string[];
+  difficulty: string;
+}
+
+// Shape of a question as TestFormWithSections stores it (marks are set by the caller)
+export interface PickedQuestion {
+  bankQuestionId: string;
+  questionText: string;
+  questionImageUrl?: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  optionImages?: QuestionOptions;
+  correctAnswer: string;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+}
+
+interface QuestionBankPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAdd: (questions: PickedQuestion[]) => void;
+  maxQuestions: number;
+  defaultSubject?: string;
+  excludeIds?: string[];
+  title?: string;
+}
+
+const subjects = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
+
+const toPickedQuestion = (question: BankQuestion): PickedQuestion => ({
+  bankQuestionId: question._id,
+  questionText: question.questionText,
+  questionImageUrl: question.questionImageUrl || '',
+  options: question.options,
+  optionImages: question.optionImages || { A: '', B: '', C: '', D: '' },
+  correctAnswer: question.correctAnswer,
+  questionType: question.questionType || 'single',
+  tolerance: question.tolerance || 0,
+  acceptedAnswers: question.acceptedAnswers || [],
+  caseSensitive: question.caseSensitive || false
+});
+
+const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({
+  isOpen,
+  onClose,
+  onAdd,
+  maxQuestions,
+  defaultSubject,
+  excludeIds = [],
+  title = 'Add Questions from Bank'
+}) => {
+  const [mode, setMode] = useState<'browse' | 'random'>('browse');
+  const [subject, setSubject] = useState(defaultSubject || '');
+  const [topic, setTopic] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [topicOptions, setTopicOptions] = useState<string[]>([]);
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [selected, setSelected] = useState<Map<string, BankQuestion>>(new Map());
+  const [count, setCount] = useState(Math.min(10, maxQuestions));
+  const [loading, setLoading] = useState(false);
+  const excludeKey = excludeIds.join(',');
+
+  useEffect(() => {
+    apiService.getBankFacets(subject || undefined)
+      .then(res => setTopicOptions((res as { topics?: string[] })?.topics || []))
+      .catch(() => setTopicOptions([]));
+  }, [subject]);
+
+  useEffect(() => {
+    if (!isOpen || mode !== 'browse') return;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await apiService.getBankQuestions({
+          search: searchTerm,
+          subject,
+          topics: topic ? [topic] : [],
+          difficulty,
+          excludeIds: excludeKey ? excludeKey.split(',') : [],
+          limit: 50
+        }) as { questions?: BankQuestion[] };
+        setQuestions(res.questions || []);
+      } catch (error) {
+        console.error('Error fetching bank questions:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, mode, searchTerm, subject, topic, difficulty, excludeKey]);
+
+  const toggleQuestion = (question: BankQuestion) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(question._id)) {
+        next.delete(question._id);
+      } else if (next.size < maxQuestions) {
+        next.set(question._id, question);
+      }
+      return next;
+    });
+  };
+
+  const handleAddSelected = () => {
+    onAdd(Array.from(selected.values()).map(toPickedQuestion));
+    setSelected(new Map());
+  };
+
+  const handleDrawRandom = async () => {
+    if (count < 1 || count > maxQuestions) {
+      alert(`You can draw between 1 and ${maxQuestions} questions`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await apiService.drawRandomBankQuestions({
+        count,
+        subject: subject || undefined,
+        topics: topic ? [topic] : [],
+        difficulty: difficulty || undefined,
+        excludeIds
+      }) as { questions?: PickedQuestion[] };
+
+      if (!res.questions || res.questions.length === 0) {
+        alert('No bank questions match these filters');
+        return;
+      }
+      if (res.questions.length < count) {
+        alert(`Only ${res.questions.length} matching questions were available`);
+      }
+      onAdd(res.questions);
+    } catch (error) {
+      console.error('Error drawing random questions:', error);
+      alert(error instanceof Error ? error.message : 'Failed to draw questions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="xl">
+      <div className="space-y-4">
+        <div className="flex gap-2 border-b">
+          <button
+            type="button"
+            onClick={() => setMode('browse')}
+            className={`px-4 py-2 text-sm font-medium flex items-center gap-2 border-b-2 ${
+              mode === 'browse' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600'
+            }`}
+          >
+            <CheckSquare size={16} />
+            Pick Questions
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('random')}
+            className={`px-4 py-2 text-sm font-medium flex items-center gap-2 border-b-2 ${
+              mode === 'random' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600'
+            }`}
+          >
+            <Dices size={16} />
+            Draw Random
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select
+            value={subject}
+            onChange={(e) => {
+              setSubject(e.target.value);
+              setTopic('');
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All Subjects</option>
+            {subjects.map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <select
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All Topics</option>
+            {topicOptions.map(t => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All Difficulties</option>
+            <option value="Easy">Easy</option>
+            <option value="Medium">Medium</option>
+            <option value="Hard">Hard</option>
+          </select>
+        </div>
+
+        {mode === 'browse' ? (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Search question text or tags..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="max-h-96 overflow-y-auto space-y-2">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner />
+                </div>
+              ) : questions.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No bank questions match your filters.</p>
+              ) : (
+                questions.map(question => {
+                  const isSelected = selected.has(question._id);
+                  return (
+                    <label
+                      key={question._id}
+                      className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                        isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        disabled={!isSelected && selected.size >= maxQuestions}
+                        onChange={() => toggleQuestion(question)}
+                        className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-900">{question.questionText}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {question.subject} · {question.difficulty}
+                          {question.topics.length > 0 && ` · ${question.topics.join(', ')}`}
+                        </p>
+                      </div>
+                    </label>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="flex justify-between items-center pt-2">
+              <span className="text-sm text-gray-600">
+                {selected.size} selected · {maxQuestions} slots remaining
+              </span>
+              <button
+                type="button"
+                onClick={handleAddSelected}
+                disabled={selected.size === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add {selected.size} Question{selected.size === 1 ? '' : 's'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Number of questions</label>
+              <input
+                type="number"
+                min="1"
+                max={maxQuestions}
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Questions already in this test are never drawn again. Up to {maxQuestions} can be added.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleDrawRandom}
+                disabled={loading || maxQuestions < 1}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {loading ? <LoadingSpinner size="sm" /> : <Dices size={16} />}
+                Draw Questions
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default QuestionBankPicker;
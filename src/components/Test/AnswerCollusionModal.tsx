@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, ShieldAlert, ChevronDown, ChevronUp } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+
+interface PairStudent {
+  attemptId: string;
+  studentId: string;
+  name: string;
+  email: string;
+  idNumber?: string;
+  branch?: string;
+  batch?: string;
+  section?: string;
+  percentage: number;
+}
+
+interface SharedAnswer {
+  questionNumber: number | null;
+  questionText: string;
+  selectedAnswer: string;
+  correctAnswer: string | null;
+  chosenBy: number;
+  totalWrong: number;
+  timeSpent: number[];
+}
+
+interface SuspiciousPair {
+  students: PairStudent[];
+  bothWrong: number;
+  sharedWrong: number;
+  expectedShared: number;
+  probability: number;
+  score: number;
+  sharedAnswers: SharedAnswer[];
+}
+
+interface CollusionReport {
+  test: {
+    _id: string;
+    testName: string;
+  };
+  alpha: number;
+  minShared: number;
+  analyzedAttempts: number;
+  pairs: SuspiciousPair[];
+}
+
+interface AnswerCollusionModalProps {
+  testId: string;
+  onClose: () => void;
+}
+
+const formatProbability = (probability: number) => {
+  if (probability < 1e-6) return '< 1 in a million';
+  return `1 in ${Math.round(1 / probability).toLocaleString()}`;
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 6) return 'bg-red-100 text-red-800';
+  if (score >= 4) return 'bg-orange-100 text-orange-800';
+  return 'bg-yellow-100 text-yellow-800';
+};
+
+const AnswerCollusionModal: React.FC<AnswerCollusionModalProps> = ({ testId, onClose }) => {
+  const [report, setReport] = useState<CollusionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedPair, setExpandedPair] = useState<number | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiService.getTestAnswerCollusion(testId) as CollusionReport;
+      setReport(data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load answer patterns');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-2xl max-w-5xl w-full my-8 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center z-10">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Answer Pattern Check</h2>
+            {report && (
+              <p className="text-sm text-gray-600 mt-1">
+                {report.test.testName} | {report.analyzedAttempts} attempts compared within each class section
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading && (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          )}
+
+          {!loading && error && <p className="text-red-600">{error}</p>}
+
+          {!loading && !error && report && (
+            <>
+              <p className="text-sm text-gray-600">
+                Pairs below share at least {report.minShared} identical wrong answers, with less than a{' '}
+                {formatProbability(report.alpha)} chance of that happening by accident given how often each
+                wrong answer was picked by the rest of the college.
+              </p>
+
+              {report.pairs.length === 0 ? (
+                <div className="text-center py-12 text-gray-600">
+                  <ShieldAlert className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+                  No suspicious answer patterns found.
+                </div>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {report.pairs.map((pair, index) => (
+                    <div key={pair.students.map(s => s.attemptId).join('-')}>
+                      <button
+                        onClick={() => setExpandedPair(expandedPair === index ? null : index)}
+                        className="w-full px-4 py-3 flex items-center gap-4 text-left hover:bg-gray-50"
+                      >
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-gray-900">
+                            {pair.students.map(s => s.name).join(' & ')}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {pair.students[0].branch} / {pair.students[0].batch} / {pair.students[0].section} |{' '}
+                            {pair.students.map(s => `${s.percentage.toFixed(1)}%`).join(' vs ')}
+                          </p>
+                        </div>
+                        <div className="text-right text-xs text-gray-600">
+                          <p>
+                            <span className="font-semibold text-gray-900">{pair.sharedWrong}</span> of {pair.bothWrong} common wrong answers identical
+                          </p>
+                          <p>~{pair.expectedShared} expected by chance</p>
+                        </div>
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-semibold ${getScoreColor(pair.score)}`}
+                          title={`Chance probability: ${formatProbability(pair.probability)}`}
+                        >
+                          Score {pair.score}
+                        </span>
+                        {expandedPair === index ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                      </button>
+
+                      {expandedPair === index && (
+                        <div className="px-4 pb-4 overflow-x-auto">
+                          <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Q#</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Shared Answer</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Correct</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Picked By</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Time (s)</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {pair.sharedAnswers.map((answer, answerIndex) => (
+                                <tr key={answerIndex}>
+                                  <td className="px-3 py-2 text-gray-900">{answer.questionNumber ?? '-'}</td>
+                                  <td className="px-3 py-2 text-gray-700 max-w-md truncate" title={answer.questionText}>
+                                    {answer.questionText}
+                                  </td>
+                                  <td className="px-3 py-2 font-medium text-red-600">{answer.selectedAnswer}</td>
+                                  <td className="px-3 py-2 text-green-700">{answer.correctAnswer ?? '-'}</td>
+                                  <td className="px-3 py-2 text-gray-600">
+                                    {answer.chosenBy} of {answer.totalWrong} wrong
+                                  </td>
+                                  <td className="px-3 py-2 text-gray-600">{answer.timeSpent.join(' / ')}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerCollusionModal;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Camera, CameraOff } from 'lucide-react';
+import { CameraStatus } from '../../hooks/useWebcamSnapshots';
+
+interface CameraStatusBadgeProps {
+  status: CameraStatus;
+}
+
+// Tells the student whether webcam snapshots are being taken
+const CameraStatusBadge: React.FC<CameraStatusBadgeProps> = ({ status }) => {
+  if (status === 'off') return null;
+
+  if (status === 'unavailable') {
+    return (
+      <span
+        className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium flex items-center gap-2"
+        title="Allow camera access in your browser so snapshots can be taken"
+      >
+        <CameraOff className="w-4 h-4" />
+        Camera blocked
+      </span>
+    );
+  }
+
+  return (
+    <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium flex items-center gap-2">
+      <Camera className="w-4 h-4" />
+      {status === 'starting' ? 'Starting camera' : 'Camera on'}
+    </span>
+  );
+};
+
+export default CameraStatusBadge;
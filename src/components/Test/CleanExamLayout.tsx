@@ -0,0 +1,129 @@
+import React from 'react';
+import { Bookmark, CheckCircle, ChevronLeft, ChevronRight, Clock, Eye } from 'lucide-react';
+import CameraStatusBadge from './CameraStatusBadge';
+import ExamQuestionPalette from './ExamQuestionPalette';
+import ExamQuestionView from './ExamQuestionView';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { ExamTest, formatExamTime, getTimerClassName } from './examPlayer';
+
+interface CleanExamLayoutProps {
+  test: ExamTest;
+  player: ExamPlayer;
+}
+
+// Minimal layout for practice and assignments: progress bar, a narrow question card
+// beside the palette, and submission available at any time
+const CleanExamLayout: React.FC<CleanExamLayoutProps> = ({ test, player }) => {
+  const { state, sections, currentSection, currentQuestion, counts, violations, cameraStatus } = player;
+  const questionCount = currentSection?.questions.length || 0;
+  const progress = questionCount > 0 ? ((questionCount - counts['not-visited']) / questionCount) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 bg-gray-50 flex flex-col">
+      <div className="bg-white border-b">
+        <div className="px-6 py-3 flex justify-between items-center">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">{test.testName}</h1>
+            {currentSection?.name && (
+              <p className="text-sm text-gray-500">
+                Section {state.sectionIndex + 1} of {sections.length}: {currentSection.name}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <CameraStatusBadge status={cameraStatus} />
+            {violations > 0 && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-red-100 border border-red-300 rounded-lg">
+                <Eye className="w-4 h-4 text-red-600" />
+                <span className="text-sm font-medium text-red-700">Violations: {violations}</span>
+              </div>
+            )}
+            <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${getTimerClassName(state.timeLeft)}`}>
+              <Clock className="w-5 h-5" />
+              <span className="font-mono text-lg font-bold">{formatExamTime(state.timeLeft)}</span>
+            </div>
+            <button
+              onClick={player.openSubmit}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium flex items-center gap-2"
+            >
+              <CheckCircle className="w-5 h-5" />
+              Submit
+            </button>
+          </div>
+        </div>
+        <div className="h-1 bg-gray-100">
+          <div className="h-1 bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-2xl mx-auto">
+            <div className="bg-white rounded-lg border p-6 mb-4">
+              <div className="flex justify-between items-center mb-4 pb-4 border-b">
+                <span className="text-sm text-gray-600">Question {state.questionIndex + 1} of {questionCount}</span>
+                <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                  {currentQuestion?.marks || 0} {currentQuestion?.marks === 1 ? 'Mark' : 'Marks'}
+                </span>
+              </div>
+
+              <ExamQuestionView
+                question={currentQuestion}
+                answer={currentQuestion ? state.answers[currentQuestion._id] : undefined}
+                onAnswer={player.answer}
+                textClassName="text-lg font-medium text-gray-900 mb-6 leading-relaxed"
+              />
+            </div>
+
+            <div className="flex justify-between items-center">
+              <button
+                onClick={player.prev}
+                disabled={state.questionIndex === 0}
+                className="px-4 py-2 text-gray-700 bg-white border rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <ChevronLeft className="w-5 h-5" />
+                Previous
+              </button>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={player.toggleMark}
+                  disabled={!currentQuestion}
+                  className={`px-4 py-2 rounded-lg border flex items-center gap-2 disabled:opacity-60 ${
+                    currentQuestion && state.marked[currentQuestion._id]
+                      ? 'bg-purple-600 text-white border-purple-600'
+                      : 'bg-white text-purple-700 border-purple-300 hover:bg-purple-50'
+                  }`}
+                >
+                  <Bookmark className="w-5 h-5" />
+                  Review
+                </button>
+                <button
+                  onClick={player.clear}
+                  disabled={!currentQuestion || !state.answers[currentQuestion._id]}
+                  className="px-4 py-2 bg-white text-orange-700 border border-orange-300 rounded-lg hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Clear
+                </button>
+                <button
+                  onClick={player.saveAndNext}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 font-medium"
+                >
+                  Next
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="hidden md:block w-72 bg-white border-l overflow-y-auto p-4">
+          <ExamQuestionPalette player={player} buttonClassName="w-10 h-10" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CleanExamLayout;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Users, Copy, CheckCircle, AlertTriangle, RotateCcw } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import { diffLines, DiffRow } from './codeDiff';
+
+type ReviewStatus = 'pending' | 'reviewed' | 'confirmed';
+
+interface SimilarityPair {
+  studentIds: string[];
+  similarity: number;
+  status: ReviewStatus;
+  note: string;
+  reviewedAt: string | null;
+}
+
+interface FlaggedStudent {
+  name: string;
+  email: string;
+  submissionId: string;
+  language: string;
+  code: string;
+  submittedAt: string;
+}
+
+interface QuestionSimilarity {
+  questionId: string;
+  title: string;
+  submissionCount: number;
+  pairs: SimilarityPair[];
+  clusters: string[][];
+  students: Record<string, FlaggedStudent>;
+}
+
+interface SimilarityReport {
+  testName: string;
+  threshold: number;
+  questions: QuestionSimilarity[];
+}
+
+interface CodeSimilarityModalProps {
+  testId: string;
+  onClose: () => void;
+}
+
+const THRESHOLDS = [0.6, 0.7, 0.8, 0.9];
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  reviewed: 'bg-gray-100 text-gray-700',
+  confirmed: 'bg-red-100 text-red-800'
+};
+
+const ROW_STYLES: Record<DiffRow['type'], string> = {
+  same: 'bg-red-50',
+  changed: 'bg-white',
+  removed: 'bg-white',
+  added: 'bg-white'
+};
+
+const CodeSimilarityModal: React.FC<CodeSimilarityModalProps> = ({ testId, onClose }) => {
+  const [report, setReport] = useState<SimilarityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState(0.8);
+  const [selected, setSelected] = useState<{ questionId: string; pairIndex: number } | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await apiService.getFacultyCodeSimilarity(testId, threshold) as SimilarityReport;
+      setReport(data);
+      setSelected(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load similarity report');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId, threshold]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const selectedQuestion = report?.questions.find(q => q.questionId === selected?.questionId);
+  const selectedPair = selected && selectedQuestion ? selectedQuestion.pairs[selected.pairIndex] : null;
+
+  const handleSelectPair = (questionId: string, pairIndex: number, pair: SimilarityPair) => {
+    setSelected({ questionId, pairIndex });
+    setNote(pair.note);
+  };
+
+  const handleReview = async (status: ReviewStatus) => {
+    if (!selected || !selectedPair) return;
+
+    try {
+      setSaving(true);
+      await apiService.reviewSimilarityPair(testId, {
+        questionId: selected.questionId,
+        studentIds: selectedPair.studentIds,
+        status,
+        note,
+        similarity: selectedPair.similarity
+      });
+      setReport(prev => prev && {
+        ...prev,
+        questions: prev.questions.map(q => q.questionId !== selected.questionId ? q : {
+          ...q,
+          pairs: q.pairs.map((p, i) => i === selected.pairIndex
+            ? { ...p, status, note, reviewedAt: new Date().toISOString() }
+            : p)
+        })
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderComparison = (question: QuestionSimilarity, pair: SimilarityPair) => {
+    const [first, second] = pair.studentIds.map(id => question.students[id]);
+    if (!first || !second) return null;
+    const rows = diffLines(first.code, second.code);
+
+    return (
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <div className="grid grid-cols-2 bg-gray-50 border-b border-gray-200 text-sm">
+          {[first, second].map(student => (
+            <div key={student.submissionId} className="px-4 py-2">
+              <p className="font-medium text-gray-900">{student.name}</p>
+              <p className="text-xs text-gray-500">
+                {student.email} | {student.language} | {new Date(student.submittedAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-xs font-mono">
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className={ROW_STYLES[row.type]}>
+                  <td className="w-1/2 px-3 py-0.5 whitespace-pre border-r border-gray-200 text-gray-800">
+                    {row.left ?? ''}
+                  </td>
+                  <td className="w-1/2 px-3 py-0.5 whitespace-pre text-gray-800">
+                    {row.right ?? ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="p-4 border-t border-gray-200 space-y-3">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleReview('reviewed')}
+              disabled={saving}
+              className="flex items-center gap-1 px-3 py-1.5 bg-gray-600 text-white text-xs rounded-lg hover:bg-gray-700 disabled:opacity-50"
+            >
+              <CheckCircle size={14} />
+              Mark Reviewed
+            </button>
+            <button
+              onClick={() => handleReview('confirmed')}
+              disabled={saving}
+              className="flex items-center gap-1 px-3 py-1.5 bg-red-600 text-white text-xs rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              <AlertTriangle size={14} />
+              Confirm Plagiarism
+            </button>
+            {pair.status !== 'pending' && (
+              <button
+                onClick={() => handleReview('pending')}
+                disabled={saving}
+                className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RotateCcw size={14} />
+                Reopen
+              </button>
+            )}
+            <span className="ml-auto text-xs text-gray-500">Highlighted lines match after normalizing whitespace</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-2xl max-w-6xl w-full my-8 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center z-10">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Code Similarity</h2>
+            {report && <p className="text-sm text-gray-600 mt-1">{report.testName}</p>}
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Threshold
+              <select
+                value={threshold}
+                onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              >
+                {THRESHOLDS.map(value => (
+                  <option key={value} value={value}>{Math.round(value * 100)}%</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading && (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          )}
+
+          {!loading && error && <p className="text-red-600">{error}</p>}
+
+          {!loading && !error && report && report.questions.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              <Copy className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+              No coding submissions have been made for this test yet.
+            </div>
+          )}
+
+          {!loading && !error && report?.questions.map(question => (
+            <div key={question.questionId} className="border border-gray-200 rounded-lg">
+              <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="font-semibold text-gray-900">{question.title}</h3>
+                <div className="flex items-center gap-3 text-xs text-gray-600">
+                  <span>{question.submissionCount} submissions</span>
+                  <span>{question.pairs.length} flagged pairs</span>
+                  {question.clusters.length > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Users size={12} />
+                      {question.clusters.length} clusters (largest: {question.clusters[0].length} students)
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {question.pairs.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-gray-500">No pairs above the threshold.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {question.pairs.map((pair, index) => {
+                    const isSelected = selected?.questionId === question.questionId && selected.pairIndex === index;
+                    return (
+                      <div key={pair.studentIds.join('-')}>
+                        <button
+                          onClick={() => isSelected ? setSelected(null) : handleSelectPair(question.questionId, index, pair)}
+                          className={`w-full px-4 py-2 flex items-center gap-3 text-left text-sm hover:bg-gray-50 ${isSelected ? 'bg-blue-50' : ''}`}
+                        >
+                          <span className="flex-1 text-gray-900">
+                            {pair.studentIds.map(id => question.students[id]?.name || 'Unknown').join(' ↔ ')}
+                          </span>
+                          <span className="font-semibold text-red-600">{pair.similarity}%</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[pair.status]}`}>
+                            {pair.status}
+                          </span>
+                        </button>
+                        {isSelected && selectedPair && (
+                          <div className="p-4">{renderComparison(question, selectedPair)}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeSimilarityModal;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Eye, X, Code, Clock } from 'lucide-react';
+import { Eye, X, Code, Clock, ListChecks } from 'lucide-react';
+import { getCheckerModeName } from '../Coding/checkerModes';
 
 interface CodingQuestion {
   _id?: string;
@@ -16,6 +17,8 @@ interface CodingQuestion {
   time_limit?: number;
   timeLimit?: number;
   memory_limit?: number;
+  checker_mode?: string;
+  float_tolerance?: number;
   supported_languages?: string[];
   tags?: string[];
   points?: number;
@@ -92,6 +95,11 @@ const CodingQuestionPreviewModal: React.FC<CodingQuestionPreviewModalProps> = ({
                           <Clock className="w-4 h-4" />
                           {(question.timeLimit || question.time_limit || 3600)}s
                         </span>
+                        <span className="flex items-center gap-1">
+                          <ListChecks className="w-4 h-4" />
+                          {getCheckerModeName(question.checker_mode)}
+                          {question.checker_mode === 'float' && ` (±${question.float_tolerance ?? 1e-6})`}
+                        </span>
                       </div>
 
                       <div className="prose max-w-none">
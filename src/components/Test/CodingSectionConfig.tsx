@@ -16,6 +16,8 @@ export interface CodingQuestion {
   explanation: string;
   time_limit: number;
   memory_limit: number;
+  checker_mode?: string;
+  float_tolerance?: number;
   supported_languages: string[];
   tags: string[];
   points?: number;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Users, TrendingUp, Award, Clock, Download, ArrowLeft, Filter } from 'lucide-react';
+import { FileText, Users, TrendingUp, Award, Clock, Download, ArrowLeft, Filter, ShieldAlert } from 'lucide-react';
 import apiService from '../../services/api';
 import LoadingSpinner from '../UI/LoadingSpinner';
+import AnswerCollusionModal from './AnswerCollusionModal';
 
 interface CollegeTestReportProps {
   testId: string;
@@ -16,6 +17,7 @@ const CollegeTestReport: React.FC<CollegeTestReportProps> = ({ testId, onBack })
   const [filterBatch, setFilterBatch] = useState<string>('all');
   const [filterSection, setFilterSection] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [showCollusion, setShowCollusion] = useState(false);
 
   const [branches, setBranches] = useState<string[]>([]);
   const [batches, setBatches] = useState<string[]>([]);
@@ -64,7 +66,7 @@ const CollegeTestReport: React.FC<CollegeTestReportProps> = ({ testId, onBack })
   const downloadCSV = () => {
     if (!report) return;
 
-    const headers = ['Student Name', 'ID Number', 'Branch', 'Batch', 'Section', 'Status', 'Marks Obtained', 'Total Marks', 'Percentage', 'Time Spent (min)'];
+    const headers = ['Student Name', 'ID Number', 'Branch', 'Batch', 'Section', 'Status', 'Marks Obtained', 'Total Marks', 'Percentage', 'Correct', 'Incorrect', 'Unanswered', 'Negative Marks', 'Time Spent (min)'];
     const rows = filteredStudents.map((student: any) => [
       student.name,
       student.idNumber,
@@ -75,6 +77,10 @@ const CollegeTestReport: React.FC<CollegeTestReportProps> = ({ testId, onBack })
       student.marksObtained,
       student.totalMarks,
       student.percentage.toFixed(2) + '%',
+      student.correctAnswers,
+      student.incorrectAnswers,
+      student.unanswered,
+      student.negativeMarks,
       Math.round(student.timeSpent / 60)
     ]);
 
@@ -133,13 +139,22 @@ const CollegeTestReport: React.FC<CollegeTestReportProps> = ({ testId, onBack })
           <ArrowLeft size={20} />
           Back to Tests
         </button>
-        <button
-          onClick={downloadCSV}
-          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
-        >
-          <Download size={18} />
-          Download CSV
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCollusion(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+          >
+            <ShieldAlert size={18} />
+            Answer Patterns
+          </button>
+          <button
+            onClick={downloadCSV}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+          >
+            <Download size={18} />
+            Download CSV
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-lg shadow p-6">
@@ -386,6 +401,10 @@ const CollegeTestReport: React.FC<CollegeTestReportProps> = ({ testId, onBack })
           </table>
         </div>
       </div>
+
+      {showCollusion && (
+        <AnswerCollusionModal testId={testId} onClose={() => setShowCollusion(false)} />
+      )}
     </div>
   );
 };
@@ -1,15 +1,12 @@
 import React from 'react';
-import { X, Download, Award, Clock, CheckCircle, XCircle, TrendingUp, FileText, Calendar } from 'lucide-react';
+import { X, Download, Award, Clock, CheckCircle, XCircle, TrendingUp, FileText, Calendar, ShieldAlert } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { QuestionOptions, splitAnswerLabels } from './questionTypes';
+import { PROCTORING_EVENT_LABELS, ProctoringEventType } from './proctoringPolicy';
 
 interface QuestionAnalysis {
   questionText: string;
-  options: {
-    A: string;
-    B: string;
-    C: string;
-    D: string;
-  };
+  options: QuestionOptions;
   correctAnswer: string;
   studentAnswer: string;
   isCorrect: boolean;
@@ -17,7 +14,17 @@ interface QuestionAnalysis {
   marks: number;
 }
 
-interface TestReport {
+interface ProctoringEvent {
+  type: ProctoringEventType;
+  occurredAt: string;
+  questionId?: string | null;
+  sectionIndex?: number | null;
+  questionIndex?: number | null;
+  details?: string | null;
+  counted: boolean;
+}
+
+export interface TestReport {
   _id: string;
   testId: {
     testName: string;
@@ -44,6 +51,11 @@ interface TestReport {
   endTime: string;
   createdAt: string;
   questionAnalysis: QuestionAnalysis[];
+  // Only included in the faculty view of an attempt
+  status?: string;
+  violations?: number;
+  maxViolations?: number;
+  proctoringEvents?: ProctoringEvent[];
 }
 
 interface DetailedTestReportModalProps {
@@ -53,6 +65,14 @@ interface DetailedTestReportModalProps {
   totalStudents?: number;
 }
 
+const formatEventPosition = (event: ProctoringEvent) => {
+  if (event.questionIndex === null || event.questionIndex === undefined) return '-';
+  const question = `Q${event.questionIndex + 1}`;
+  return event.sectionIndex === null || event.sectionIndex === undefined
+    ? question
+    : `Section ${event.sectionIndex + 1}, ${question}`;
+};
+
 const DetailedTestReportModal: React.FC<DetailedTestReportModalProps> = ({
   report,
   onClose,
@@ -109,7 +129,7 @@ Status: ${report.percentage >= 40 ? 'Pass' : 'Fail'}
 
 Correct Answers: ${report.correctAnswers}
 Incorrect Answers: ${report.incorrectAnswers}
-Time Spent: ${report.timeSpent} minutes
+Time Spent: ${Math.round(report.timeSpent / 60)} minutes
 
 ${rank && totalStudents ? `Rank: ${rank} out of ${totalStudents}` : ''}
 
@@ -220,7 +240,7 @@ ${i + 1}. ${q.questionText}
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Time Taken:</span>
-                  <span className="font-medium">{report.timeSpent} min</span>
+                  <span className="font-medium">{Math.round(report.timeSpent / 60)} min</span>
                 </div>
               </div>
             </div>
@@ -308,6 +328,60 @@ ${i + 1}. ${q.questionText}
             </div>
           )}
 
+          {report.proctoringEvents && (
+            <div className="bg-white rounded-lg border">
+              <div className="px-4 py-3 border-b flex items-center justify-between">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                  <ShieldAlert className="w-5 h-5 text-orange-600" />
+                  Proctoring Timeline
+                </h3>
+                <span className="text-sm text-gray-600">
+                  Violations: {report.violations ?? 0}/{report.maxViolations ?? 3}
+                  {report.status === 'auto-submitted-violations' && (
+                    <span className="ml-2 text-red-600 font-medium">Auto-submitted</span>
+                  )}
+                </span>
+              </div>
+              {report.proctoringEvents.length === 0 ? (
+                <p className="p-4 text-sm text-gray-600">No proctoring events were recorded.</p>
+              ) : (
+                <div className="max-h-72 overflow-y-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Event</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Counted</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {report.proctoringEvents.map((event, index) => (
+                        <tr key={index} className={event.counted ? 'bg-red-50' : ''}>
+                          <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                            {new Date(event.occurredAt).toLocaleTimeString()}
+                          </td>
+                          <td className="px-4 py-2 text-gray-900">
+                            {PROCTORING_EVENT_LABELS[event.type] || event.type}
+                            {event.details && <span className="ml-2 text-xs text-gray-500">{event.details}</span>}
+                          </td>
+                          <td className="px-4 py-2 text-gray-700">{formatEventPosition(event)}</td>
+                          <td className="px-4 py-2">
+                            {event.counted ? (
+                              <span className="text-red-600 font-medium">Violation</span>
+                            ) : (
+                              <span className="text-gray-500">Logged</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="bg-white rounded-lg border">
             <div className="px-4 py-3 border-b">
               <h3 className="font-semibold text-gray-900">Question-wise Analysis</h3>
@@ -339,18 +413,18 @@ ${i + 1}. ${q.questionText}
                       <div
                         key={key}
                         className={`p-2 rounded text-sm ${
-                          key === question.correctAnswer
+                          splitAnswerLabels(question.correctAnswer).includes(key)
                             ? 'bg-green-100 border border-green-300'
-                            : key === question.studentAnswer && !question.isCorrect
+                            : splitAnswerLabels(question.studentAnswer).includes(key) && !question.isCorrect
                             ? 'bg-red-100 border border-red-300'
                             : 'bg-white border border-gray-200'
                         }`}
                       >
                         <span className="font-medium">{key})</span> {value}
-                        {key === question.correctAnswer && (
+                        {splitAnswerLabels(question.correctAnswer).includes(key) && (
                           <span className="ml-2 text-green-600 text-xs font-medium">✓ Correct</span>
                         )}
-                        {key === question.studentAnswer && key !== question.correctAnswer && (
+                        {splitAnswerLabels(question.studentAnswer).includes(key) && !splitAnswerLabels(question.correctAnswer).includes(key) && (
                           <span className="ml-2 text-red-600 text-xs font-medium">✗ Your answer</span>
                         )}
                       </div>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, Clock, Code } from 'lucide-react';
+import CodingInterface from '../Coding/CodingInterface';
+import CameraStatusBadge from './CameraStatusBadge';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { ExamTest, formatExamTime, getCodingQuestionId, getTimerClassName } from './examPlayer';
+
+interface ExamCodingRoundProps {
+  test: ExamTest;
+  player: ExamPlayer;
+  // Coding submissions are recorded against the attempt in progress
+  attemptId?: string;
+}
+
+// Coding questions after the last MCQ section; the attempt is submitted from here
+const ExamCodingRound: React.FC<ExamCodingRoundProps> = ({ test, player, attemptId }) => {
+  const { state, policy, violations, cameraStatus } = player;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <div className="bg-white shadow-md border-b-2 border-green-600 px-6 py-3">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <Code className="w-6 h-6 text-green-600" />
+            <h1 className="text-xl font-bold text-gray-900">Coding Round</h1>
+            <CameraStatusBadge status={cameraStatus} />
+            {violations > 0 && (
+              <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {violations} Violations
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${getTimerClassName(state.timeLeft)}`}>
+              <Clock className="w-5 h-5" />
+              <span className="font-mono text-lg font-bold">{formatExamTime(state.timeLeft)}</span>
+            </div>
+            <button
+              onClick={player.openSubmit}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium flex items-center gap-2"
+            >
+              <CheckCircle className="w-5 h-5" />
+              Submit Test
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+        <div className="w-full md:w-64 bg-white md:border-r overflow-y-auto">
+          <div className="p-3 md:p-4 bg-gray-50 border-b">
+            <h3 className="font-semibold text-gray-900 text-sm md:text-base">Coding Questions</h3>
+          </div>
+          <div className="p-2 flex md:flex-col gap-2 overflow-x-auto md:overflow-x-visible">
+            {(test.codingQuestions || []).map((question, index) => {
+              const questionId = getCodingQuestionId(question);
+              return (
+                <button
+                  key={questionId || index}
+                  onClick={() => questionId && player.selectCodingQuestion(questionId)}
+                  className={`flex-shrink-0 md:flex-shrink md:w-full text-left p-3 md:mb-2 rounded-lg border-2 transition-all ${
+                    state.codingQuestionId === questionId
+                      ? 'border-green-500 bg-green-50'
+                      : 'border-gray-200 hover:border-green-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-sm text-gray-800 whitespace-nowrap md:whitespace-normal">{question.title || `Question ${index + 1}`}</div>
+                  <div className="text-xs text-gray-500 mt-1">Points: {question.points || 100}</div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden min-h-[500px] md:min-h-0">
+          {state.codingQuestionId ? (
+            <CodingInterface
+              questionId={state.codingQuestionId}
+              testAttemptId={attemptId}
+              fullscreen={true}
+              isPractice={test.testType === 'Practice'}
+              blockCopyPaste={policy.blockCopyPaste}
+              onSubmit={async (submissionId: string, score: number) => {
+                alert(`Submission ${submissionId} scored ${score} points`);
+              }}
+            />
+          ) : (
+            <div className="flex items-center justify-center h-full text-gray-500">
+              <div className="text-center">
+                <Code className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+                <p className="text-lg font-medium">Select a coding question to begin</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamCodingRound;
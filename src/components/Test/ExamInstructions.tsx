@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Monitor, Shield } from 'lucide-react';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { TestSession } from '../../hooks/useTestProgressSync';
+import { ExamTest, QUESTION_STATUS_COLORS, QUESTION_STATUS_LABELS, QuestionStatus } from './examPlayer';
+import { PROCTORING_EVENT_LABELS } from './proctoringPolicy';
+
+interface ExamInstructionsProps {
+  test: ExamTest;
+  player: ExamPlayer;
+  session?: TestSession | null;
+  onExit: () => void;
+}
+
+// Rules, sections and proctoring policy shown before the attempt starts or resumes
+const ExamInstructions: React.FC<ExamInstructionsProps> = ({ test, player, session, onExit }) => {
+  const [agreedToTerms, setAgreedToTerms] = useState(false);
+  const { policy } = player;
+  const extraMinutes = test.accommodation?.extraMinutes || 0;
+  const extendedEnd = test.accommodation?.extendedEndDateTime;
+
+  const handleStart = () => {
+    if (!agreedToTerms) {
+      alert('Please accept the terms and conditions to proceed.');
+      return;
+    }
+    player.start();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-2 sm:p-4 overflow-y-auto">
+      <div className="max-w-4xl w-full bg-white rounded-xl sm:rounded-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-4 sm:px-6 md:px-8 py-4 md:py-6 rounded-t-xl sm:rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-xl sm:text-2xl md:text-3xl font-bold mb-2">{test.testName}</h1>
+              <p className="text-blue-100">{test.testDescription}</p>
+            </div>
+            <Shield className="w-12 h-12 sm:w-16 sm:h-16 opacity-80" />
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 md:p-8">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6 sm:mb-8">
+            <div className="bg-blue-50 p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-blue-600">{test.numberOfQuestions}</div>
+              <div className="text-sm text-gray-600">Questions</div>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-green-600">{test.duration + extraMinutes} min</div>
+              <div className="text-sm text-gray-600">Total Duration</div>
+            </div>
+            <div className="bg-purple-50 p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-purple-600">{test.totalMarks}</div>
+              <div className="text-sm text-gray-600">Total Marks</div>
+            </div>
+          </div>
+
+          {session?.lastSavedAt && (
+            <div className="mb-6 bg-blue-50 border-l-4 border-blue-500 p-4 rounded text-sm text-gray-700">
+              Your previous session was saved at {new Date(session.lastSavedAt).toLocaleTimeString()}.
+              Your answers, review marks and remaining time have been restored.
+            </div>
+          )}
+
+          {(extraMinutes > 0 || extendedEnd) && (
+            <div className="mb-6 bg-green-50 border-l-4 border-green-500 p-4 rounded text-sm text-gray-700">
+              {extraMinutes > 0 && (
+                <p>
+                  You have been given {extraMinutes} extra minutes
+                  {player.sections.length > 1 && player.navigation !== 'free'
+                    ? ', shared across the sections in proportion to their length.'
+                    : '.'}
+                </p>
+              )}
+              {extendedEnd && <p>The test stays open for you until {new Date(extendedEnd).toLocaleString()}.</p>}
+            </div>
+          )}
+
+          {test.hasSections && test.sections && (
+            <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-3">Test Sections:</h3>
+              <div className="space-y-2">
+                {test.sections.map((section, index) => (
+                  <div key={index} className="flex justify-between items-center bg-white p-3 rounded">
+                    <span className="font-medium text-gray-800">{index + 1}. {section.sectionName}</span>
+                    <div className="flex gap-4 text-sm text-gray-600">
+                      <span>{section.numberOfQuestions} Questions</span>
+                      <span>{section.sectionDuration} min</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4 mb-6">
+            <div className="bg-yellow-50 border-l-4 border-yellow-500 p-4 rounded">
+              <h3 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+                <AlertTriangle className="text-yellow-500" />
+                Important Instructions:
+              </h3>
+              <ul className="list-disc list-inside space-y-2 text-gray-700 text-sm">
+                <li>Read each question carefully before answering</li>
+                {player.sections.length > 1 && (player.navigation === 'free' ? (
+                  <li>You can move between sections at any time; one timer covers the whole test</li>
+                ) : (
+                  <>
+                    <li>All sections must be completed in sequence</li>
+                    <li>You cannot go back to previous sections</li>
+                    <li>
+                      {player.navigation === 'carry_over'
+                        ? 'Each section has its own time limit; time you do not use is added to the next section'
+                        : 'Each section has its own time limit'}
+                    </li>
+                  </>
+                ))}
+                {test.hasCodingSection && <li>The coding round follows the last section</li>}
+                <li>Test will auto-submit when time expires</li>
+                <li>Do not refresh the page or close the browser</li>
+              </ul>
+            </div>
+
+            <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded">
+              <h3 className="font-semibold text-gray-900 mb-2">Navigation Buttons:</h3>
+              <div className="space-y-2 text-sm text-gray-700">
+                <div className="flex items-center gap-3">
+                  <div className="px-3 py-1 bg-blue-600 text-white rounded text-xs font-medium">Save & Next</div>
+                  <span>Save answer and move to next question</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="px-3 py-1 bg-purple-600 text-white rounded text-xs font-medium">Mark for Review</div>
+                  <span>Mark question for later review</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="px-3 py-1 bg-orange-600 text-white rounded text-xs font-medium">Clear</div>
+                  <span>Clear your selected answer</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded">
+              <h3 className="font-semibold text-gray-900 mb-2">Question Status Colors:</h3>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[]).map(status => (
+                  <div key={status} className="flex items-center gap-2">
+                    <div className={`w-8 h-8 rounded ${QUESTION_STATUS_COLORS[status]}`}></div>
+                    <span className="text-sm">{QUESTION_STATUS_LABELS[status]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
+              <h3 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+                <AlertTriangle className="text-red-500" />
+                Prohibited Activities:
+              </h3>
+              <ul className="list-disc list-inside space-y-2 text-gray-700 text-sm">
+                {policy.countedEvents.map(type => (
+                  <li key={type}>{PROCTORING_EVENT_LABELS[type]}</li>
+                ))}
+                <li>Using external resources</li>
+                {policy.webcamSnapshots && (
+                  <li>Leaving the camera's view: webcam snapshots are taken every {policy.snapshotInterval} seconds</li>
+                )}
+                <li>
+                  {policy.onLimit === 'submit'
+                    ? `The test is submitted automatically after ${policy.maxViolations} violations`
+                    : 'All violations will be tracked and recorded'}
+                </li>
+              </ul>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label className="flex items-start gap-3 cursor-pointer p-4 border-2 border-gray-200 rounded-lg hover:border-blue-400">
+              <input
+                type="checkbox"
+                checked={agreedToTerms}
+                onChange={(e) => setAgreedToTerms(e.target.checked)}
+                className="mt-1 w-5 h-5 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-gray-700">
+                I have read and understood all the instructions. I agree to follow all the rules and guidelines during the test.
+                I understand that any violation may result in disqualification.
+              </span>
+            </label>
+          </div>
+
+          <div className="flex justify-center gap-4">
+            <button
+              onClick={onExit}
+              className="px-6 py-3 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={!agreedToTerms}
+              className="px-8 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed font-medium transition-colors flex items-center gap-2"
+            >
+              <Monitor />
+              {session?.lastSavedAt ? 'Resume Test' : 'Start Test'}{policy.requireFullscreen && ' in Fullscreen'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamInstructions;
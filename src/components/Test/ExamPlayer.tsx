@@ -0,0 +1,137 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, ChevronRight, Code } from 'lucide-react';
+import useExamPlayer, { ExamAnswer } from '../../hooks/useExamPlayer';
+import { TestSession } from '../../hooks/useTestProgressSync';
+import ExamInstructions from './ExamInstructions';
+import ExamCodingRound from './ExamCodingRound';
+import TCSExamLayout from './TCSExamLayout';
+import CleanExamLayout from './CleanExamLayout';
+import ProfessionalExamLayout from './ProfessionalExamLayout';
+import { ExamLayout, ExamTest, resolveExamLayout } from './examPlayer';
+
+interface ExamPlayerProps {
+  test: ExamTest;
+  startTime: Date;
+  onSubmit: (answers: ExamAnswer[], timeSpent: number) => Promise<void>;
+  onExit: () => void;
+  session?: TestSession | null;
+}
+
+const LAYOUTS: Record<ExamLayout, typeof TCSExamLayout> = {
+  tcs: TCSExamLayout,
+  clean: CleanExamLayout,
+  professional: ProfessionalExamLayout
+};
+
+// Takes a student through a test attempt. The flow is the same for every test; only the
+// question screen changes with the layout picked for the test or its test type.
+const ExamPlayer: React.FC<ExamPlayerProps> = ({ test, startTime, onSubmit, onExit, session }) => {
+  const player = useExamPlayer(test, { startTime, session, onSubmit, onExit });
+  const { state, currentSection, counts } = player;
+  const Layout = LAYOUTS[resolveExamLayout(test)];
+  const skipsRemainingWork = state.phase === 'questions' && (player.hasNextSection || !!test.hasCodingSection);
+
+  if (state.phase === 'instructions') {
+    return <ExamInstructions test={test} player={player} session={session} onExit={onExit} />;
+  }
+
+  return (
+    <>
+      {state.phase === 'coding' ? <ExamCodingRound test={test} player={player} attemptId={session?.attemptId} /> : <Layout test={test} player={player} />}
+
+      {state.dialog === 'section-complete' && (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-8 max-w-lg w-full mx-4 shadow-2xl">
+            <div className="text-center mb-6">
+              <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+              <h3 className="text-2xl font-bold text-gray-900 mb-2">
+                {state.timeLeft === 0 ? 'Time Up!' : 'Section Complete!'}
+              </h3>
+              <p className="text-gray-600">
+                {currentSection?.name ? `You have completed ${currentSection.name}` : 'Section completed'}
+              </p>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4 mb-6">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-green-600">{counts['answered']}</div>
+                  <div className="text-xs text-gray-600">Answered</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-red-600">{counts['not-answered'] + counts['not-visited']}</div>
+                  <div className="text-xs text-gray-600">Not Answered</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-purple-600">{counts['marked']}</div>
+                  <div className="text-xs text-gray-600">Marked</div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-center gap-4">
+              {state.timeLeft > 0 && (
+                <button
+                  onClick={player.closeDialog}
+                  className="px-6 py-3 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 font-medium"
+                >
+                  Review Answers
+                </button>
+              )}
+              <button
+                onClick={player.nextSection}
+                className="px-8 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 font-medium flex items-center gap-2"
+              >
+                {player.hasNextSection ? (
+                  <>Next Section <ChevronRight /></>
+                ) : test.hasCodingSection ? (
+                  <>Start Coding Round <Code /></>
+                ) : (
+                  <>Submit Test <CheckCircle /></>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {(state.dialog === 'submit' || state.timeUp) && (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-8 max-w-md w-full mx-4 shadow-2xl">
+            <div className="flex items-center gap-3 mb-6">
+              <AlertCircle className="text-orange-500 w-8 h-8" />
+              <h3 className="text-xl font-bold text-gray-900">{state.timeUp ? 'Time Up' : 'Submit Test?'}</h3>
+            </div>
+            <p className="text-gray-600 mb-6">
+              {state.timeUp
+                ? 'Your time is over. Your answers are being submitted.'
+                : skipsRemainingWork
+                  ? 'Submitting now ends the test, including the sections and coding questions you have not reached. This action cannot be undone.'
+                  : 'Are you sure you want to submit your test? This action cannot be undone.'}
+            </p>
+            {!state.timeUp && (
+              <div className="flex justify-end gap-4">
+                <button
+                  onClick={player.closeDialog}
+                  disabled={state.submitting}
+                  className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={player.submit}
+                  disabled={state.submitting}
+                  className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {state.submitting ? 'Submitting...' : 'Submit Test'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ExamPlayer;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { getQuestionStatus, QUESTION_STATUS_COLORS, QUESTION_STATUS_LABELS, QuestionStatus } from './examPlayer';
+
+interface ExamQuestionPaletteProps {
+  player: ExamPlayer;
+  buttonClassName?: string;
+}
+
+const COUNT_BACKGROUNDS: Record<QuestionStatus, string> = {
+  'answered': 'bg-green-50',
+  'not-answered': 'bg-red-50',
+  'marked': 'bg-purple-50',
+  'not-visited': 'bg-gray-50'
+};
+
+// Status counts and numbered buttons for the questions of the current section, plus
+// section tabs when the test lets students move between sections freely
+const ExamQuestionPalette: React.FC<ExamQuestionPaletteProps> = ({ player, buttonClassName = 'w-12 h-12' }) => {
+  const { state, sections, currentSection, counts } = player;
+
+  return (
+    <div>
+      {player.navigation === 'free' && sections.length > 1 && (
+        <div className="mb-4 flex flex-wrap gap-2">
+          {sections.map((section, index) => (
+            <button
+              key={index}
+              onClick={() => player.goToSection(index)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                index === state.sectionIndex ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {section.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mb-4 space-y-2 text-sm">
+        {(Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[]).map(status => (
+          <div key={status} className={`flex justify-between py-2 px-3 rounded ${COUNT_BACKGROUNDS[status]}`}>
+            <span>{QUESTION_STATUS_LABELS[status]}</span>
+            <span className="font-bold">{counts[status]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-5 gap-2">
+        {(currentSection?.questions || []).map((question, index) => (
+          <button
+            key={question._id}
+            onClick={() => player.goTo(index)}
+            className={`${buttonClassName} rounded font-medium text-sm ${QUESTION_STATUS_COLORS[getQuestionStatus(state, question)]} ${
+              index === state.questionIndex ? 'ring-4 ring-yellow-400 ring-offset-2' : ''
+            }`}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ExamQuestionPalette;
@@ -0,0 +1,45 @@
+import React from 'react';
+import QuestionAnswerInput from './QuestionAnswerInput';
+import { ExamQuestion } from './examPlayer';
+
+interface ExamQuestionViewProps {
+  question: ExamQuestion | null;
+  answer?: string;
+  onAnswer: (questionId: string, answer: string) => void;
+  textClassName?: string;
+}
+
+// Question text, image and answer control, shared by every exam layout
+const ExamQuestionView: React.FC<ExamQuestionViewProps> = ({
+  question,
+  answer,
+  onAnswer,
+  textClassName = 'text-lg md:text-xl font-medium text-gray-900 mb-6 leading-relaxed'
+}) => (
+  <>
+    <h3 className={textClassName}>
+      {question?.questionText || 'Question not available'}
+    </h3>
+
+    {question?.questionImageUrl && (
+      <div className="mb-6">
+        <img
+          src={question.questionImageUrl}
+          alt="Question"
+          className="max-w-full h-auto rounded-lg border shadow-sm"
+          style={{ maxHeight: '400px' }}
+        />
+      </div>
+    )}
+
+    {question && (
+      <QuestionAnswerInput
+        question={question}
+        value={answer}
+        onChange={(value) => onAnswer(question._id, value)}
+      />
+    )}
+  </>
+);
+
+export default ExamQuestionView;
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Search, Filter, Calendar, Clock, Award, TrendingUp } from 'lucide-react';
+import { FileText, Search, Filter, Calendar, Clock, Award, TrendingUp, Eye, Code } from 'lucide-react';
 import apiService from '../../services/api';
 import LoadingSpinner from '../UI/LoadingSpinner';
+import { AttemptScoringRule, describeCountedAttempt } from './attemptPolicy';
+import DetailedTestReportModal, { TestReport } from './DetailedTestReportModal';
+import StudentSubmissionsModal from './StudentSubmissionsModal';
 
 interface StudentReport {
   _id: string;
+  studentId?: string;
   studentName: string;
   studentEmail: string;
   batch?: string;
@@ -16,8 +20,11 @@ interface StudentReport {
   companyName?: string;
   difficulty?: string;
   totalMarks: number;
+  // Counted under the test's scoring rule when the student took it more than once
   marksObtained: number;
   percentage: number;
+  attemptCount?: number;
+  scoringRule?: AttemptScoringRule;
   correctAnswers: number;
   incorrectAnswers: number;
   timeSpent: number;
@@ -41,6 +48,8 @@ const FacultyStudentReports: React.FC = () => {
   const [batches, setBatches] = useState<string[]>([]);
   const [branches, setBranches] = useState<string[]>([]);
   const [sections, setSections] = useState<string[]>([]);
+  const [attemptReport, setAttemptReport] = useState<TestReport | null>(null);
+  const [codeStudent, setCodeStudent] = useState<{ id: string; name: string } | null>(null);
 
   useEffect(() => {
     loadReports();
@@ -107,6 +116,15 @@ const FacultyStudentReports: React.FC = () => {
     }
   };
 
+  const handleViewAttempt = async (attemptId: string) => {
+    try {
+      const report = await apiService.getFacultyAttemptReport(attemptId);
+      setAttemptReport(report as TestReport);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load attempt report');
+    }
+  };
+
   const applyFilters = () => {
     let filtered = [...reports];
 
@@ -354,6 +372,9 @@ const FacultyStudentReports: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Date
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -415,6 +436,9 @@ const FacultyStudentReports: React.FC = () => {
                     <div className="flex items-center">
                       <div className="text-sm font-bold text-gray-900">{report.percentage.toFixed(1)}%</div>
                     </div>
+                    {describeCountedAttempt(report.scoringRule, report.attemptCount) && (
+                      <div className="text-xs text-gray-500">{describeCountedAttempt(report.scoringRule, report.attemptCount)}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(report.status)}`}>
@@ -428,9 +452,29 @@ const FacultyStudentReports: React.FC = () => {
                     </div>
                     <div className="flex items-center gap-1 text-xs text-gray-400 mt-1">
                       <Clock size={12} />
-                      {report.timeSpent} min
+                      {Math.round(report.timeSpent / 60)} min
                     </div>
                   </td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => handleViewAttempt(report._id)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+                      title="View answers and proctoring timeline"
+                    >
+                      <Eye size={16} />
+                      View
+                    </button>
+                    {report.studentId && (
+                      <button
+                        onClick={() => setCodeStudent({ id: report.studentId!, name: report.studentName })}
+                        className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title="Coding submission history"
+                      >
+                        <Code size={16} />
+                        Code
+                      </button>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -447,6 +491,21 @@ const FacultyStudentReports: React.FC = () => {
           </p>
         </div>
       )}
+
+      {attemptReport && (
+        <DetailedTestReportModal
+          report={attemptReport}
+          onClose={() => setAttemptReport(null)}
+        />
+      )}
+
+      {codeStudent && (
+        <StudentSubmissionsModal
+          studentId={codeStudent.id}
+          studentName={codeStudent.name}
+          onClose={() => setCodeStudent(null)}
+        />
+      )}
     </div>
   );
 };
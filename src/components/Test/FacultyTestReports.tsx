@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Download, Eye, Users, TrendingUp, BarChart3, Award, Clock } from 'lucide-react';
+import { FileText, Download, Eye, Users, TrendingUp, BarChart3, Award, Clock, Copy, ShieldAlert, Camera } from 'lucide-react';
 import apiService from '../../services/api';;
 import LoadingSpinner from '../UI/LoadingSpinner';
 import TestAnalyticsModal from './TestAnalyticsModal';
+import CodeSimilarityModal from './CodeSimilarityModal';
+import AnswerCollusionModal from './AnswerCollusionModal';
+import ProctoringReviewModal from './ProctoringReviewModal';
 
 interface AssignedTest {
   _id: string;
@@ -33,6 +36,9 @@ const FacultyTestReports: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedTestId, setSelectedTestId] = useState<string | null>(null);
   const [showAnalyticsModal, setShowAnalyticsModal] = useState(false);
+  const [similarityTestId, setSimilarityTestId] = useState<string | null>(null);
+  const [collusionTestId, setCollusionTestId] = useState<string | null>(null);
+  const [proctoringTestId, setProctoringTestId] = useState<string | null>(null);
 
   useEffect(() => {
     loadTests(activeTestType, activeSubject);
@@ -377,6 +383,30 @@ const FacultyTestReports: React.FC = () => {
                         <Download size={14} />
                         Export
                       </button>
+                      <button
+                        onClick={() => setSimilarityTestId(test.testId._id)}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-orange-600 text-white text-xs rounded-lg hover:bg-orange-700 transition-colors"
+                        title="Check coding submissions for similar code"
+                      >
+                        <Copy size={14} />
+                        Similarity
+                      </button>
+                      <button
+                        onClick={() => setCollusionTestId(test.testId._id)}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-red-600 text-white text-xs rounded-lg hover:bg-red-700 transition-colors"
+                        title="Check MCQ answers for shared wrong-answer patterns"
+                      >
+                        <ShieldAlert size={14} />
+                        Answers
+                      </button>
+                      <button
+                        onClick={() => setProctoringTestId(test.testId._id)}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white text-xs rounded-lg hover:bg-purple-700 transition-colors"
+                        title="Review proctoring events and webcam snapshots"
+                      >
+                        <Camera size={14} />
+                        Proctoring
+                      </button>
                     </div>
                   </td>
                 </tr>
@@ -405,6 +435,27 @@ const FacultyTestReports: React.FC = () => {
           }}
         />
       )}
+
+      {similarityTestId && (
+        <CodeSimilarityModal
+          testId={similarityTestId}
+          onClose={() => setSimilarityTestId(null)}
+        />
+      )}
+
+      {collusionTestId && (
+        <AnswerCollusionModal
+          testId={collusionTestId}
+          onClose={() => setCollusionTestId(null)}
+        />
+      )}
+
+      {proctoringTestId && (
+        <ProctoringReviewModal
+          testId={proctoringTestId}
+          onClose={() => setProctoringTestId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Calendar, FileText, Users, Play, CheckCircle, AlertCircle } from 'lucide-react';
+import { Clock, Calendar, FileText, Users, Play, CheckCircle, AlertCircle, Timer } from 'lucide-react';
 import apiService from '../../services/api';
 import CategorizedTestTabs from './CategorizedTestTabs';
 import LoadingSpinner from '../UI/LoadingSpinner';
+import TestAccommodationsModal from './TestAccommodationsModal';
 
 interface Test {
   _id: string;
@@ -32,6 +33,7 @@ const FacultyTestsPage: React.FC = () => {
   const [activeSubject, setActiveSubject] = useState('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [accommodationsTestId, setAccommodationsTestId] = useState<string | null>(null);
 
   useEffect(() => {
     loadTests(activeTestType, activeSubject);
@@ -275,6 +277,16 @@ const FacultyTestsPage: React.FC = () => {
                     <Calendar size={16} />
                     <span>End: {formatDate(test.testId.endDateTime)}</span>
                   </div>
+                  {test.status === 'accepted' && (
+                    <button
+                      onClick={() => setAccommodationsTestId(test.testId._id)}
+                      className="ml-auto flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white text-xs rounded-lg hover:bg-indigo-700 transition-colors"
+                      title="Grant students extra time or a later closing time"
+                    >
+                      <Timer size={14} />
+                      Accommodations
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -291,6 +303,13 @@ const FacultyTestsPage: React.FC = () => {
           </p>
         </div>
       )}
+
+      {accommodationsTestId && (
+        <TestAccommodationsModal
+          testId={accommodationsTestId}
+          onClose={() => setAccommodationsTestId(null)}
+        />
+      )}
     </div>
   );
 };
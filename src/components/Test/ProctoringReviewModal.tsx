@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Camera, Flag, CheckCircle } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import { PROCTORING_EVENT_LABELS, ProctoringEventType } from './proctoringPolicy';
+
+type ReviewStatus = 'pending' | 'flagged' | 'cleared';
+
+interface ProctoringStudent {
+  _id: string;
+  name: string;
+  email: string;
+  branch?: string;
+  batch?: string;
+  section?: string;
+}
+
+interface ProctoringReview {
+  status: ReviewStatus;
+  note?: string;
+  reviewedBy?: { name: string } | null;
+  reviewedAt?: string;
+}
+
+interface AttemptSummary {
+  attemptId: string;
+  student: ProctoringStudent | null;
+  status: string;
+  startTime: string;
+  violations: number;
+  eventCount: number;
+  snapshotCount: number;
+  review: ProctoringReview;
+}
+
+interface TestProctoringSummary {
+  test: {
+    _id: string;
+    testName: string;
+  };
+  policy: {
+    maxViolations: number;
+    webcamSnapshots: boolean;
+    snapshotInterval: number;
+  };
+  attempts: AttemptSummary[];
+}
+
+interface ProctoringEvent {
+  type: ProctoringEventType;
+  occurredAt: string;
+  questionIndex?: number | null;
+  details?: string | null;
+  counted: boolean;
+}
+
+interface ProctoringSnapshot {
+  _id: string;
+  takenAt: string;
+  reason: 'interval' | 'violation';
+}
+
+interface AttemptProctoring {
+  attemptId: string;
+  student: ProctoringStudent | null;
+  status: string;
+  startTime: string;
+  endTime?: string;
+  violations: number;
+  maxViolations: number;
+  events: ProctoringEvent[];
+  snapshots: ProctoringSnapshot[];
+  review: ProctoringReview;
+}
+
+type TimelineEntry =
+  | { kind: 'event'; time: number; event: ProctoringEvent }
+  | { kind: 'snapshot'; time: number; snapshot: ProctoringSnapshot };
+
+interface ProctoringReviewModalProps {
+  testId: string;
+  onClose: () => void;
+}
+
+const REVIEW_BADGES: Record<ReviewStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  flagged: 'bg-red-100 text-red-800',
+  cleared: 'bg-green-100 text-green-800'
+};
+
+// Events and snapshots in the order they happened
+const buildTimeline = (attempt: AttemptProctoring): TimelineEntry[] => [
+  ...attempt.events.map(event => ({ kind: 'event' as const, time: new Date(event.occurredAt).getTime(), event })),
+  ...attempt.snapshots.map(snapshot => ({ kind: 'snapshot' as const, time: new Date(snapshot.takenAt).getTime(), snapshot }))
+].sort((a, b) => a.time - b.time);
+
+const ProctoringReviewModal: React.FC<ProctoringReviewModalProps> = ({ testId, onClose }) => {
+  const [summary, setSummary] = useState<TestProctoringSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState<AttemptProctoring | null>(null);
+  const [attemptLoading, setAttemptLoading] = useState(false);
+  const [snapshotUrls, setSnapshotUrls] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiService.getFacultyTestProctoring(testId) as TestProctoringSummary;
+      setSummary(data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load proctoring data');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // Snapshots are private, so each image is fetched with the faculty token and shown from an object URL
+  useEffect(() => {
+    if (!selectedAttemptId) return;
+
+    let cancelled = false;
+    const urls: string[] = [];
+
+    const loadAttempt = async () => {
+      try {
+        setAttemptLoading(true);
+        setSnapshotUrls({});
+        const data = await apiService.getFacultyAttemptProctoring(selectedAttemptId) as AttemptProctoring;
+        if (cancelled) return;
+        setAttempt(data);
+        setNote(data.review.note || '');
+        setAttemptLoading(false);
+
+        for (const snapshot of data.snapshots) {
+          try {
+            const blob = await apiService.getProctoringSnapshot(selectedAttemptId, snapshot._id);
+            if (cancelled) return;
+            const url = URL.createObjectURL(blob);
+            urls.push(url);
+            setSnapshotUrls(prev => ({ ...prev, [snapshot._id]: url }));
+          } catch (error) {
+            console.error('Failed to load snapshot:', error);
+          }
+        }
+      } catch (error) {
+        if (!cancelled) {
+          alert(error instanceof Error ? error.message : 'Failed to load attempt');
+          setAttemptLoading(false);
+        }
+      }
+    };
+
+    loadAttempt();
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [selectedAttemptId]);
+
+  const handleReview = async (status: ReviewStatus) => {
+    if (!attempt) return;
+    try {
+      setSaving(true);
+      const response = await apiService.reviewAttemptProctoring(attempt.attemptId, { status, note }) as { review: ProctoringReview };
+      setAttempt(prev => prev && { ...prev, review: response.review });
+      setSummary(prev => prev && {
+        ...prev,
+        attempts: prev.attempts.map(a => a.attemptId === attempt.attemptId ? { ...a, review: response.review } : a)
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-2xl max-w-6xl w-full my-8 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center z-10">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Proctoring Review</h2>
+            {summary && (
+              <p className="text-sm text-gray-600 mt-1">
+                {summary.test.testName} | {summary.attempts.length} attempts |{' '}
+                {summary.policy.webcamSnapshots
+                  ? `Snapshots every ${summary.policy.snapshotInterval}s`
+                  : 'Webcam snapshots off'}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading && (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          )}
+
+          {!loading && error && <p className="text-red-600">{error}</p>}
+
+          {!loading && !error && summary && (
+            summary.attempts.length === 0 ? (
+              <div className="text-center py-12 text-gray-600">
+                <Camera className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+                No attempts for this test yet.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-[65vh] overflow-y-auto">
+                  {summary.attempts.map(item => (
+                    <button
+                      key={item.attemptId}
+                      onClick={() => setSelectedAttemptId(item.attemptId)}
+                      className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${
+                        selectedAttemptId === item.attemptId ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900">{item.student?.name || 'Unknown student'}</p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REVIEW_BADGES[item.review.status]}`}>
+                          {item.review.status}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {item.violations}/{summary.policy.maxViolations} violations | {item.eventCount} events |{' '}
+                        {item.snapshotCount} snapshots
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="lg:col-span-2">
+                  {!selectedAttemptId && (
+                    <p className="text-sm text-gray-600 py-12 text-center">Select an attempt to review its snapshots and events.</p>
+                  )}
+
+                  {selectedAttemptId && attemptLoading && (
+                    <div className="flex justify-center py-12">
+                      <LoadingSpinner size="lg" />
+                    </div>
+                  )}
+
+                  {selectedAttemptId && !attemptLoading && attempt && (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{attempt.student?.name}</h3>
+                          <p className="text-xs text-gray-500">
+                            {attempt.student?.email} | Violations: {attempt.violations}/{attempt.maxViolations}
+                            {attempt.status === 'auto-submitted-violations' && (
+                              <span className="ml-2 text-red-600 font-medium">Auto-submitted</span>
+                            )}
+                          </p>
+                        </div>
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${REVIEW_BADGES[attempt.review.status]}`}>
+                          {attempt.review.status}
+                          {attempt.review.reviewedBy && ` by ${attempt.review.reviewedBy.name}`}
+                        </span>
+                      </div>
+
+                      {attempt.snapshots.length > 0 && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          {attempt.snapshots.map(snapshot => (
+                            <figure key={snapshot._id} className="border rounded-lg overflow-hidden">
+                              {snapshotUrls[snapshot._id] ? (
+                                <img src={snapshotUrls[snapshot._id]} alt="Webcam snapshot" className="w-full h-28 object-cover" />
+                              ) : (
+                                <div className="w-full h-28 bg-gray-100" />
+                              )}
+                              <figcaption className={`px-2 py-1 text-xs ${snapshot.reason === 'violation' ? 'text-red-700 bg-red-50' : 'text-gray-600'}`}>
+                                {new Date(snapshot.takenAt).toLocaleTimeString()}
+                                {snapshot.reason === 'violation' && ' | violation'}
+                              </figcaption>
+                            </figure>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="border rounded-lg max-h-64 overflow-y-auto">
+                        <table className="min-w-full text-sm">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entry</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {buildTimeline(attempt).map((entry, index) => (
+                              <tr key={index} className={entry.kind === 'event' && entry.event.counted ? 'bg-red-50' : ''}>
+                                <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                                  {new Date(entry.time).toLocaleTimeString()}
+                                </td>
+                                <td className="px-4 py-2 text-gray-900">
+                                  {entry.kind === 'snapshot' ? (
+                                    <span className="flex items-center gap-2 text-gray-600">
+                                      <Camera size={14} />
+                                      Snapshot{entry.snapshot.reason === 'violation' && ' after violation'}
+                                    </span>
+                                  ) : (
+                                    <>
+                                      {PROCTORING_EVENT_LABELS[entry.event.type] || entry.event.type}
+                                      {entry.event.questionIndex != null && (
+                                        <span className="ml-2 text-xs text-gray-500">Q{entry.event.questionIndex + 1}</span>
+                                      )}
+                                      {entry.event.counted && <span className="ml-2 text-xs text-red-600 font-medium">Violation</span>}
+                                    </>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div>
+                        <textarea
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          maxLength={1000}
+                          rows={2}
+                          placeholder="Review note (optional)"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                        />
+                        <div className="flex justify-end gap-2 mt-2">
+                          <button
+                            onClick={() => handleReview('cleared')}
+                            disabled={saving}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <CheckCircle size={16} />
+                            Clear
+                          </button>
+                          <button
+                            onClick={() => handleReview('flagged')}
+                            disabled={saving}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50"
+                          >
+                            <Flag size={16} />
+                            Flag
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProctoringReviewModal;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { AlertCircle, Bookmark, CheckCircle, ChevronLeft, ChevronRight, Clock, Lock } from 'lucide-react';
+import CameraStatusBadge from './CameraStatusBadge';
+import ExamQuestionPalette from './ExamQuestionPalette';
+import ExamQuestionView from './ExamQuestionView';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { ExamTest, formatExamTime, getTimerClassName } from './examPlayer';
+
+interface ProfessionalExamLayoutProps {
+  test: ExamTest;
+  player: ExamPlayer;
+}
+
+// Mock-exam layout: dark header, section overview and palette on the left, question on the right
+const ProfessionalExamLayout: React.FC<ProfessionalExamLayoutProps> = ({ test, player }) => {
+  const { state, sections, currentSection, currentQuestion, violations, maxViolations, cameraStatus } = player;
+  const questionCount = currentSection?.questions.length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-100 flex flex-col">
+      <div className="bg-slate-900 text-white px-6 py-3 flex justify-between items-center">
+        <div>
+          <h1 className="text-xl font-bold">{test.testName}</h1>
+          <p className="text-sm text-slate-300">{test.subject}{test.testType && ` | ${test.testType}`}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <CameraStatusBadge status={cameraStatus} />
+          {violations > 0 && (
+            <span className="flex items-center gap-2 text-sm text-red-300">
+              <AlertCircle className="w-4 h-4" />
+              {violations}/{maxViolations} violations
+            </span>
+          )}
+          <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${getTimerClassName(state.timeLeft)}`}>
+            <Clock className="w-5 h-5" />
+            <span className="font-mono text-lg font-bold">{formatExamTime(state.timeLeft)}</span>
+          </div>
+          <button
+            onClick={player.openSubmit}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium flex items-center gap-2"
+          >
+            <CheckCircle className="w-5 h-5" />
+            Submit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-80 bg-white border-r overflow-y-auto">
+          {sections.length > 1 && player.navigation !== 'free' && (
+            <div className="p-4 border-b space-y-1">
+              {sections.map((section, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center justify-between px-3 py-2 rounded text-sm ${
+                    index === state.sectionIndex ? 'bg-blue-50 text-blue-800 font-medium' : 'text-gray-500'
+                  }`}
+                >
+                  <span>{index + 1}. {section.name}</span>
+                  {index === state.sectionIndex
+                    ? <span>{section.questions.length} Qs</span>
+                    : <Lock className="w-4 h-4" />}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="p-4">
+            <ExamQuestionPalette player={player} buttonClassName="w-10 h-10" />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-3xl mx-auto bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4 pb-4 border-b">
+              <span className="text-sm font-medium text-gray-600">
+                Question {state.questionIndex + 1} of {questionCount}
+                {currentSection?.name && ` | ${currentSection.name}`}
+              </span>
+              <span className="px-3 py-1 bg-slate-100 text-slate-800 rounded-full text-sm font-medium">
+                {currentQuestion?.marks || 0} {currentQuestion?.marks === 1 ? 'Mark' : 'Marks'}
+              </span>
+            </div>
+
+            <ExamQuestionView
+              question={currentQuestion}
+              answer={currentQuestion ? state.answers[currentQuestion._id] : undefined}
+              onAnswer={player.answer}
+            />
+
+            <div className="flex justify-between items-center mt-8 pt-4 border-t">
+              <button
+                onClick={player.prev}
+                disabled={state.questionIndex === 0}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <ChevronLeft className="w-5 h-5" />
+                Previous
+              </button>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={player.markAndNext}
+                  disabled={!currentQuestion}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 flex items-center gap-2 disabled:opacity-60"
+                >
+                  <Bookmark className="w-5 h-5" />
+                  Mark for Review & Next
+                </button>
+                <button
+                  onClick={player.clear}
+                  disabled={!currentQuestion || !state.answers[currentQuestion._id]}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  Clear Response
+                </button>
+                <button
+                  onClick={player.saveAndNext}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 font-medium"
+                >
+                  Save & Next
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfessionalExamLayout;
@@ -0,0 +1,256 @@
+import React from 'react';
+import { Plus, Upload, X } from 'lucide-react';
+import {
+  EditableQuestion, MAX_OPTIONS, MIN_OPTIONS, OPTION_LABELS, OptionLabel, QuestionType, QUESTION_TYPE_LABELS,
+  getUsedLabels, splitAnswerLabels
+} from './questionTypes';
+
+interface QuestionAnswerEditorProps {
+  question: EditableQuestion;
+  onChange: (patch: Partial<EditableQuestion>) => void;
+  onUploadOptionImage?: (option: OptionLabel, file: File) => void;
+  uploadingImage?: boolean;
+  // Show a URL field for each option image instead of (or alongside) uploads
+  editableImageUrls?: boolean;
+}
+
+// Answer fields of the question authoring forms: question type, a variable number of
+// options (2-6) and whichever correct-answer inputs the chosen type needs
+const QuestionAnswerEditor: React.FC<QuestionAnswerEditorProps> = ({
+  question,
+  onChange,
+  onUploadOptionImage,
+  uploadingImage = false,
+  editableImageUrls = false
+}) => {
+  const questionType = question.questionType || 'single';
+  const labels = getUsedLabels(question.options);
+  const correctLabels = splitAnswerLabels(question.correctAnswer);
+
+  const handleTypeChange = (nextType: QuestionType) => {
+    if (nextType === 'true_false') {
+      onChange({ questionType: nextType, options: { A: 'True', B: 'False' }, optionImages: {}, correctAnswer: 'A' });
+    } else if (nextType === 'numeric' || nextType === 'fill_blank') {
+      onChange({ questionType: nextType, options: {}, optionImages: {}, correctAnswer: '', tolerance: 0, acceptedAnswers: [] });
+    } else if (questionType === 'single' || questionType === 'multiple') {
+      onChange({ questionType: nextType, correctAnswer: correctLabels[0] || 'A' });
+    } else {
+      onChange({ questionType: nextType, options: { A: '', B: '', C: '', D: '' }, correctAnswer: 'A' });
+    }
+  };
+
+  const handleAddOption = () => {
+    const next = OPTION_LABELS[labels.length];
+    if (next) onChange({ options: { ...question.options, [next]: '' } });
+  };
+
+  // Only the last option can be removed so labels always stay contiguous
+  const handleRemoveOption = () => {
+    const last = labels[labels.length - 1];
+    const options = { ...question.options };
+    const optionImages = { ...question.optionImages };
+    delete options[last];
+    delete optionImages[last];
+    const remaining = correctLabels.filter(label => label !== last);
+    onChange({ options, optionImages, correctAnswer: remaining.join(',') || 'A' });
+  };
+
+  const toggleCorrectLabel = (label: string) => {
+    const next = correctLabels.includes(label)
+      ? correctLabels.filter(l => l !== label)
+      : [...correctLabels, label];
+    onChange({ correctAnswer: next.sort().join(',') });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Question Type</label>
+        <select
+          value={questionType}
+          onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {(questionType === 'single' || questionType === 'multiple') && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {labels.map((option, index) => (
+              <div key={option}>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Option {option}</label>
+                  {index === labels.length - 1 && labels.length > MIN_OPTIONS && (
+                    <button
+                      type="button"
+                      onClick={handleRemoveOption}
+                      className="text-red-600 hover:text-red-800"
+                      title="Remove option"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={question.options[option] || ''}
+                  onChange={(e) => onChange({ options: { ...question.options, [option]: e.target.value } })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  placeholder={`Enter option ${option}`}
+                />
+                {onUploadOptionImage && (
+                  <label className="mt-1 px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 cursor-pointer inline-flex items-center gap-1">
+                    <Upload size={12} />
+                    Image
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => e.target.files?.[0] && onUploadOptionImage(option, e.target.files[0])}
+                      className="hidden"
+                      disabled={uploadingImage}
+                    />
+                  </label>
+                )}
+                {editableImageUrls && (
+                  <input
+                    type="text"
+                    value={question.optionImages?.[option] || ''}
+                    onChange={(e) => onChange({ optionImages: { ...question.optionImages, [option]: e.target.value } })}
+                    placeholder={`Option ${option} image URL (optional)`}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                  />
+                )}
+                {question.optionImages?.[option] && (
+                  <div className="mt-1 flex items-center gap-2">
+                    <img src={question.optionImages[option]} alt={`Option ${option}`} className="h-12 w-12 object-cover rounded border" />
+                    <button
+                      type="button"
+                      onClick={() => onChange({ optionImages: { ...question.optionImages, [option]: '' } })}
+                      className="text-red-600 hover:text-red-800 text-xs"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {labels.length < MAX_OPTIONS && (
+            <button
+              type="button"
+              onClick={handleAddOption}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 flex items-center gap-1"
+            >
+              <Plus size={14} />
+              Add Option
+            </button>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {questionType === 'multiple' ? 'Correct Answers' : 'Correct Answer'}
+            </label>
+            {questionType === 'multiple' ? (
+              <div className="flex flex-wrap gap-4">
+                {labels.map(option => (
+                  <label key={option} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={correctLabels.includes(option)}
+                      onChange={() => toggleCorrectLabel(option)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <select
+                value={question.correctAnswer}
+                onChange={(e) => onChange({ correctAnswer: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {labels.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </>
+      )}
+
+      {questionType === 'true_false' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer</label>
+          <select
+            value={question.correctAnswer}
+            onChange={(e) => onChange({ correctAnswer: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="A">True</option>
+            <option value="B">False</option>
+          </select>
+        </div>
+      )}
+
+      {questionType === 'numeric' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Correct Value</label>
+            <input
+              type="number"
+              step="any"
+              value={question.correctAnswer}
+              onChange={(e) => onChange({ correctAnswer: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g. 3.14"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tolerance (±)</label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={question.tolerance ?? 0}
+              onChange={(e) => onChange({ tolerance: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      )}
+
+      {questionType === 'fill_blank' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Accepted Answers (one per line)</label>
+          <textarea
+            value={(question.acceptedAnswers || []).join('\n')}
+            onChange={(e) => {
+              const acceptedAnswers = e.target.value.split('\n');
+              onChange({ acceptedAnswers, correctAnswer: acceptedAnswers.find(a => a.trim()) || '' });
+            }}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder={'New Delhi\nDelhi'}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!question.caseSensitive}
+              onChange={(e) => onChange({ caseSensitive: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Case sensitive
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionAnswerEditor;
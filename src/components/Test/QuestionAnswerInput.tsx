@@ -0,0 +1,97 @@
+import React from 'react';
+import { OptionLabel, QuestionOptions, QuestionType, splitAnswerLabels } from './questionTypes';
+
+interface AnswerableQuestion {
+  _id: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  optionImages?: QuestionOptions;
+}
+
+interface QuestionAnswerInputProps {
+  question: AnswerableQuestion;
+  value?: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const toggleLabel = (answer: string | undefined, label: string): string => {
+  const labels = splitAnswerLabels(answer);
+  const next = labels.includes(label) ? labels.filter(l => l !== label) : [...labels, label];
+  return next.sort().join(',');
+};
+
+// Answer control for any objective question type: radio list, checkbox list,
+// true/false buttons, or a free-text box for numeric and fill-in-the-blank answers
+const QuestionAnswerInput: React.FC<QuestionAnswerInputProps> = ({ question, value, onChange, disabled = false }) => {
+  const questionType = question.questionType || 'single';
+
+  if (questionType === 'numeric' || questionType === 'fill_blank') {
+    return (
+      <div>
+        <input
+          type="text"
+          inputMode={questionType === 'numeric' ? 'decimal' : 'text'}
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder={questionType === 'numeric' ? 'Enter a number' : 'Type your answer'}
+          className="w-full md:w-1/2 px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-500 text-gray-900"
+        />
+        {questionType === 'numeric' && value && isNaN(Number(value)) && (
+          <p className="mt-2 text-sm text-red-600">Please enter a valid number</p>
+        )}
+      </div>
+    );
+  }
+
+  const isMultiple = questionType === 'multiple';
+  const selected = splitAnswerLabels(value);
+  const entries = Object.entries(question.options).filter(([, text]) => text !== undefined && text !== null);
+
+  return (
+    <div className="space-y-3">
+      {isMultiple && <p className="text-sm text-gray-500">Select all that apply</p>}
+      <div className={questionType === 'true_false' ? 'grid grid-cols-2 gap-3' : 'space-y-3'}>
+        {entries.map(([key, text]) => {
+          const isSelected = selected.includes(key);
+          const image = question.optionImages?.[key as OptionLabel];
+          return (
+            <label
+              key={key}
+              className={`flex items-start gap-4 p-4 border-2 rounded-lg cursor-pointer transition-all ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-50 shadow-md'
+                  : 'border-gray-200 hover:border-blue-300 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type={isMultiple ? 'checkbox' : 'radio'}
+                name={`question-${question._id}`}
+                value={key}
+                checked={isSelected}
+                disabled={disabled}
+                onChange={() => onChange(isMultiple ? toggleLabel(value, key) : key)}
+                className="mt-1 w-5 h-5 text-blue-600 focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex-1">
+                {questionType !== 'true_false' && <span className="font-semibold text-gray-900 mr-2">{key}.</span>}
+                <span className="text-gray-700">{text}</span>
+                {image && (
+                  <img
+                    src={image}
+                    alt={`Option ${key}`}
+                    className="mt-2 max-w-full h-auto rounded border"
+                    style={{ maxHeight: '200px' }}
+                  />
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionAnswerInput;
@@ -1,22 +1,10 @@
 import React, { useState } from 'react';
 import { Eye, Edit2, Trash2, X, Save, XCircle } from 'lucide-react';
+import QuestionAnswerEditor from './QuestionAnswerEditor';
+import { EditableQuestion, describeTextAnswer, isQuestionComplete, splitAnswerLabels } from './questionTypes';
 
-interface Question {
-  questionText: string;
+interface Question extends EditableQuestion {
   questionImageUrl?: string;
-  options: {
-    A: string;
-    B: string;
-    C: string;
-    D: string;
-  };
-  optionImages?: {
-    A?: string;
-    B?: string;
-    C?: string;
-    D?: string;
-  };
-  correctAnswer: 'A' | 'B' | 'C' | 'D';
   marks: number;
 }
 
@@ -82,14 +70,8 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
       question.questionText.trim() !== '' || 
       (!!question.questionImageUrl && question.questionImageUrl.trim() !== '');
       
-    const hasValidOptions = ['A', 'B', 'C', 'D'].every(key => {
-      const hasText = question.options[key as keyof typeof question.options].trim() !== '';
-      const hasImage = !!question.optionImages?.[key as keyof typeof question.optionImages] && 
-                      question.optionImages[key as keyof typeof question.optionImages]!.trim() !== '';
-      return hasText || hasImage;
-    });
-
-    return !!hasQuestionContent && !!hasValidOptions && ['A', 'B', 'C', 'D'].includes(question.correctAnswer);
+    // Image-only questions have no text, so check the answer fields with a placeholder
+    return !!hasQuestionContent && isQuestionComplete({ ...question, questionText: question.questionText || '-' });
   };
 
   return (
@@ -215,101 +197,11 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
                         </div>
                       </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {(['A', 'B', 'C', 'D'] as const).map((option) => (
-                          <div key={option}>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Option {option}
-                            </label>
-                            <div className="space-y-2">
-                              <input
-                                type="text"
-                                value={editingQuestion.options[option]}
-                                onChange={(e) =>
-                                  setEditingQuestion({
-                                    ...editingQuestion,
-                                    options: {
-                                      ...editingQuestion.options,
-                                      [option]: e.target.value
-                                    }
-                                  })
-                                }
-                                placeholder="Enter option text (required for text-only)"
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                              />
-                              
-                              {/* Option Image URL/Upload */}
-                              <div>
-                                <label className="block text-xs text-gray-600 mb-1">
-                                  Option {option} Image URL
-                                </label>
-                                <div className="flex gap-2">
-                                  <input
-                                    type="text"
-                                    value={editingQuestion.optionImages?.[option as keyof typeof editingQuestion.optionImages] || ''}
-                                    onChange={(e) =>
-                                      setEditingQuestion({
-                                        ...editingQuestion,
-                                        optionImages: {
-                                          ...editingQuestion.optionImages,
-                                          [option]: e.target.value
-                                        }
-                                      })
-                                    }
-                                    placeholder="Enter image URL (required for image-only)"
-                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
-                                  />
-                                </div>
-                                {editingQuestion.optionImages?.[option as keyof typeof editingQuestion.optionImages] && (
-                                  <div className="mt-2">
-                                    <img
-                                      src={editingQuestion.optionImages[option as keyof typeof editingQuestion.optionImages]}
-                                      alt={`Option ${option}`}
-                                      className="max-w-full h-auto rounded border shadow-sm"
-                                      style={{ maxHeight: '100px' }}
-                                    />
-                                    <button
-                                      onClick={() =>
-                                        setEditingQuestion({
-                                          ...editingQuestion,
-                                          optionImages: {
-                                            ...editingQuestion.optionImages,
-                                            [option]: ''
-                                          }
-                                        })
-                                      }
-                                      className="mt-1 text-sm text-red-600 hover:text-red-700"
-                                    >
-                                      Remove Image
-                                    </button>
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Correct Answer
-                        </label>
-                        <select
-                          value={editingQuestion.correctAnswer}
-                          onChange={(e) =>
-                            setEditingQuestion({
-                              ...editingQuestion,
-                              correctAnswer: e.target.value as 'A' | 'B' | 'C' | 'D'
-                            })
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                        >
-                          <option value="A">A</option>
-                          <option value="B">B</option>
-                          <option value="C">C</option>
-                          <option value="D">D</option>
-                        </select>
-                      </div>
+                      <QuestionAnswerEditor
+                        question={editingQuestion}
+                        onChange={(patch) => setEditingQuestion({ ...editingQuestion, ...patch })}
+                        editableImageUrls
+                      />
                     </div>
                   ) : (
                     <>
@@ -374,7 +266,7 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
                           <div
                             key={key}
                             className={`p-3 rounded-lg border transition-colors ${
-                              question.correctAnswer === key
+                              splitAnswerLabels(question.correctAnswer).includes(key)
                                 ? 'bg-green-50 border-green-300'
                                 : 'bg-gray-50 border-gray-200'
                             }`}
@@ -382,7 +274,7 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
                             <div className="flex items-start gap-2">
                               <span
                                 className={`inline-flex items-center justify-center w-6 h-6 rounded-full text-sm font-bold ${
-                                  question.correctAnswer === key
+                                  splitAnswerLabels(question.correctAnswer).includes(key)
                                     ? 'bg-green-200 text-green-800'
                                     : 'bg-gray-200 text-gray-700'
                                 }`}
@@ -409,7 +301,7 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
                                  (!question.optionImages || !question.optionImages[key as keyof typeof question.optionImages]) && (
                                   <span className="text-sm text-gray-500 italic">(No text or image)</span>
                                 )}
-                                {question.correctAnswer === key && (
+                                {splitAnswerLabels(question.correctAnswer).includes(key) && (
                                   <div className="text-green-600 text-xs font-medium mt-1">✓</div>
                                 )}
                               </div>
@@ -417,6 +309,11 @@ const QuestionPreviewModal: React.FC<QuestionPreviewModalProps> = ({
                           </div>
                         ))}
                       </div>
+                      {describeTextAnswer(question) && (
+                        <div className="p-3 rounded-lg border bg-green-50 border-green-300 text-sm text-green-800">
+                          Answer: {describeTextAnswer(question)}
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
@@ -1,18 +1,20 @@
 import React, { useState } from 'react';
-import { Plus, Trash2, Edit2, XCircle, Save, Clock, Hash, Upload, Eye } from 'lucide-react';
+import { Plus, Trash2, Edit2, XCircle, Save, Clock, Hash, Upload, Eye, Library, Dices } from 'lucide-react';
 import LoadingSpinner from '../UI/LoadingSpinner';
 import QuestionPreviewModal from './QuestionPreviewModal';
+import { EditableQuestion } from './questionTypes';
 
-interface Question {
-  questionText: string;
-  options: {
-    A: string;
-    B: string;
-    C: string;
-    D: string;
-  };
-  correctAnswer: 'A' | 'B' | 'C' | 'D';
+interface Question extends EditableQuestion {
   marks: number;
+  bankQuestionId?: string;
+}
+
+interface PoolRule {
+  subject?: string;
+  topics: string[];
+  easy: number;
+  medium: number;
+  hard: number;
 }
 
 interface Section {
@@ -21,13 +23,24 @@ interface Section {
   numberOfQuestions: number;
   marksPerQuestion: number;
   questions: Question[];
+  questionSource?: 'fixed' | 'pool';
+  pool?: PoolRule;
+  negativeMarks?: number | null;
+  partialCredit?: boolean | null;
 }
 
+const subjects = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
+
+const emptyPool = (): PoolRule => ({ subject: '', topics: [], easy: 0, medium: 0, hard: 0 });
+
+const isPoolSection = (section: Section) => section.questionSource === 'pool';
+
 interface SectionConfigurationProps {
   sections: Section[];
   onSectionsChange: (sections: Section[]) => void;
   onAddQuestions: (sectionIndex: number) => void;
   onUploadFile: (sectionIndex: number, file: File) => void;
+  onPickFromBank?: (sectionIndex: number) => void;
   uploadingSectionIndex: number | null;
   fileUploadLoading: boolean;
 }
@@ -37,12 +50,14 @@ const SectionConfiguration: React.FC<SectionConfigurationProps> = ({
   onSectionsChange,
   onAddQuestions,
   onUploadFile,
+  onPickFromBank,
   uploadingSectionIndex,
   fileUploadLoading
 }) => {
   const [editingSectionIndex, setEditingSectionIndex] = useState<number | null>(null);
   const [editingSection, setEditingSection] = useState<Section | null>(null);
   const [previewSectionIndex, setPreviewSectionIndex] = useState<number | null>(null);
+  const [topicsInput, setTopicsInput] = useState('');
 
   const addSection = () => {
     const newSection: Section = {
@@ -62,11 +77,35 @@ const SectionConfiguration: React.FC<SectionConfigurationProps> = ({
   const startEditSection = (index: number) => {
     setEditingSectionIndex(index);
     setEditingSection({ ...sections[index] });
+    setTopicsInput((sections[index].pool?.topics || []).join(', '));
+  };
+
+  const updatePool = (patch: Partial<PoolRule>) => {
+    if (!editingSection) return;
+    const pool = { ...(editingSection.pool || emptyPool()), ...patch };
+    setEditingSection({
+      ...editingSection,
+      pool,
+      numberOfQuestions: pool.easy + pool.medium + pool.hard
+    });
   };
 
   const saveEditedSection = () => {
     if (editingSection === null || editingSectionIndex === null) return;
 
+    if (isPoolSection(editingSection)) {
+      const pool = editingSection.pool || emptyPool();
+      if (pool.easy + pool.medium + pool.hard < 1) {
+        alert('A question pool needs at least one question in its difficulty mix');
+        return;
+      }
+      editingSection.pool = {
+        ...pool,
+        topics: topicsInput.split(',').map(topic => topic.trim()).filter(Boolean)
+      };
+      editingSection.questions = [];
+    }
+
     const updatedSections = sections.map((section, index) =>
       index === editingSectionIndex ? editingSection : section
     );
@@ -190,7 +229,8 @@ const SectionConfiguration: React.FC<SectionConfigurationProps> = ({
                 max="100"
                 value={editingSection.numberOfQuestions}
                 onChange={(e) => setEditingSection({ ...editingSection, numberOfQuestions: parseInt(e.target.value) || 0 })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                disabled={isPoolSection(editingSection)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
               />
             </div>
 
@@ -207,8 +247,112 @@ const SectionConfiguration: React.FC<SectionConfigurationProps> = ({
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Negative Marks per Wrong Answer
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                step="0.25"
+                value={editingSection.negativeMarks ?? ''}
+                onChange={(e) => setEditingSection({
+                  ...editingSection,
+                  negativeMarks: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0)
+                })}
+                placeholder="Same as test"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Partial Credit (multiple correct)
+              </label>
+              <select
+                value={editingSection.partialCredit == null ? '' : String(editingSection.partialCredit)}
+                onChange={(e) => setEditingSection({
+                  ...editingSection,
+                  partialCredit: e.target.value === '' ? null : e.target.value === 'true'
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Same as test</option>
+                <option value="true">On</option>
+                <option value="false">Off</option>
+              </select>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Question Source</label>
+              <select
+                value={editingSection.questionSource || 'fixed'}
+                onChange={(e) => {
+                  const questionSource = e.target.value as 'fixed' | 'pool';
+                  setEditingSection({
+                    ...editingSection,
+                    questionSource,
+                    pool: questionSource === 'pool' ? (editingSection.pool || emptyPool()) : editingSection.pool
+                  });
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="fixed">Fixed questions (same for every student)</option>
+                <option value="pool">Random from question bank (different for every student)</option>
+              </select>
+            </div>
           </div>
 
+          {isPoolSection(editingSection) && (
+            <div className="mt-4 p-4 bg-white border border-purple-200 rounded-lg space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Bank Subject</label>
+                  <select
+                    value={editingSection.pool?.subject || ''}
+                    onChange={(e) => updatePool({ subject: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any subject</option>
+                    {subjects.map(subject => (
+                      <option key={subject} value={subject}>{subject}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Topics</label>
+                  <input
+                    type="text"
+                    value={topicsInput}
+                    onChange={(e) => setTopicsInput(e.target.value)}
+                    placeholder="Comma separated; leave empty for any topic"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                {(['easy', 'medium', 'hard'] as const).map(level => (
+                  <div key={level}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">{level}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={editingSection.pool?.[level] || 0}
+                      onChange={(e) => updatePool({ [level]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Each student gets {editingSection.numberOfQuestions} questions drawn when they start the test. The bank must hold enough matching questions when the test is saved.
+              </p>
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 mt-4">
             <button
               type="button"
@@ -260,69 +404,105 @@ const SectionConfiguration: React.FC<SectionConfigurationProps> = ({
                     <span className="font-medium ml-1">{section.numberOfQuestions * section.marksPerQuestion}</span>
                   </div>
                 </div>
-                <div className="mt-3">
-                  <div className="flex items-center gap-4">
-                    <span className="text-sm text-gray-600">
-                      Questions Added: {section.questions.length} / {section.numberOfQuestions}
-                    </span>
-                    {section.questions.length > 0 && (
-                      <button
-                        type="button"
-                        onClick={() => setPreviewSectionIndex(index)}
-                        className="text-sm px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 font-medium flex items-center gap-1"
-                      >
-                        <Eye size={14} />
-                        Preview Questions
-                      </button>
+                {(section.negativeMarks != null || section.partialCredit != null) && (
+                  <div className="mt-2 flex flex-wrap gap-3 text-xs">
+                    {section.negativeMarks != null && (
+                      <span className="px-2 py-1 bg-red-50 text-red-700 rounded">−{section.negativeMarks} per wrong answer</span>
+                    )}
+                    {section.partialCredit != null && (
+                      <span className="px-2 py-1 bg-yellow-50 text-yellow-700 rounded">
+                        Partial credit {section.partialCredit ? 'on' : 'off'}
+                      </span>
                     )}
-                    {section.questions.length < section.numberOfQuestions && (
-                      <>
+                  </div>
+                )}
+                {isPoolSection(section) ? (
+                  <div className="mt-3 flex items-center gap-3 text-sm">
+                    <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded font-medium flex items-center gap-1">
+                      <Dices size={14} />
+                      Random from bank
+                    </span>
+                    <span className="text-gray-600">
+                      {section.pool?.subject || 'Any subject'}
+                      {section.pool?.topics && section.pool.topics.length > 0 && ` · ${section.pool.topics.join(', ')}`}
+                      {` · ${section.pool?.easy || 0} easy / ${section.pool?.medium || 0} medium / ${section.pool?.hard || 0} hard`}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="mt-3">
+                    <div className="flex items-center gap-4">
+                      <span className="text-sm text-gray-600">
+                        Questions Added: {section.questions.length} / {section.numberOfQuestions}
+                      </span>
+                      {section.questions.length > 0 && (
                         <button
                           type="button"
-                          onClick={() => onAddQuestions(index)}
-                          className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 font-medium flex items-center gap-1"
+                          onClick={() => setPreviewSectionIndex(index)}
+                          className="text-sm px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 font-medium flex items-center gap-1"
                         >
-                          <Plus size={14} />
-                          Add Questions
+                          <Eye size={14} />
+                          Preview Questions
                         </button>
-                        <label className="text-sm px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 font-medium cursor-pointer flex items-center gap-1">
-                          <Upload size={14} />
-                          Upload JSON
-                          <input
-                            type="file"
-                            accept=".json,.csv"
-                            onChange={(e) => {
-                              const file = e.target.files?.[0];
-                              if (file) {
-                                onUploadFile(index, file);
-                                e.target.value = '';
-                              }
-                            }}
-                            className="hidden"
-                            disabled={fileUploadLoading}
-                          />
-                        </label>
-                      </>
+                      )}
+                      {section.questions.length < section.numberOfQuestions && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => onAddQuestions(index)}
+                            className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 font-medium flex items-center gap-1"
+                          >
+                            <Plus size={14} />
+                            Add Questions
+                          </button>
+                          {onPickFromBank && (
+                            <button
+                              type="button"
+                              onClick={() => onPickFromBank(index)}
+                              className="text-sm px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 font-medium flex items-center gap-1"
+                            >
+                              <Library size={14} />
+                              From Bank
+                            </button>
+                          )}
+                          <label className="text-sm px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 font-medium cursor-pointer flex items-center gap-1">
+                            <Upload size={14} />
+                            Upload JSON
+                            <input
+                              type="file"
+                              accept=".json,.csv"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) {
+                                  onUploadFile(index, file);
+                                  e.target.value = '';
+                                }
+                              }}
+                              className="hidden"
+                              disabled={fileUploadLoading}
+                            />
+                          </label>
+                        </>
+                      )}
+                      {section.questions.length === section.numberOfQuestions && (
+                        <span className="text-sm text-green-600 font-medium">✓ Complete</span>
+                      )}
+                    </div>
+                    {fileUploadLoading && uploadingSectionIndex === index && (
+                      <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded flex items-center gap-2">
+                        <LoadingSpinner size="sm" />
+                        <span className="text-sm text-blue-700">Uploading and processing file...</span>
+                      </div>
                     )}
-                    {section.questions.length === section.numberOfQuestions && (
-                      <span className="text-sm text-green-600 font-medium">✓ Complete</span>
+                    {section.questions.length !== section.numberOfQuestions && (
+                      <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all"
+                          style={{ width: `${(section.questions.length / section.numberOfQuestions) * 100}%` }}
+                        />
+                      </div>
                     )}
                   </div>
-                  {fileUploadLoading && uploadingSectionIndex === index && (
-                    <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded flex items-center gap-2">
-                      <LoadingSpinner size="sm" />
-                      <span className="text-sm text-blue-700">Uploading and processing file...</span>
-                    </div>
-                  )}
-                  {section.questions.length !== section.numberOfQuestions && (
-                    <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full transition-all"
-                        style={{ width: `${(section.questions.length / section.numberOfQuestions) * 100}%` }}
-                      />
-                    </div>
-                  )}
-                </div>
+                )}
               </div>
               <div className="ml-4 flex gap-2">
                 <button
@@ -12,6 +12,9 @@ interface TestResult {
   percentage: number;
   correctAnswers: number;
   incorrectAnswers: number;
+  partialAnswers?: number;
+  unanswered?: number;
+  negativeMarks?: number;
   timeSpent: number;
   completedAt: string;
   status: string;
@@ -34,10 +37,18 @@ const StudentPerformanceAnalytics: React.FC<StudentPerformanceAnalyticsProps> =
 
   const totalTests = testResults.length;
   const averageScore = testResults.reduce((sum, test) => sum + test.percentage, 0) / totalTests;
-  const totalTimeSpent = testResults.reduce((sum, test) => sum + test.timeSpent, 0);
+  const totalTimeSpent = Math.round(testResults.reduce((sum, test) => sum + test.timeSpent, 0) / 60);
   const passedTests = testResults.filter(test => test.percentage >= 40).length;
   const completionRate = (passedTests / totalTests) * 100;
 
+  const answerTotals = testResults.reduce((acc, test) => ({
+    correct: acc.correct + test.correctAnswers,
+    partial: acc.partial + (test.partialAnswers || 0),
+    incorrect: acc.incorrect + test.incorrectAnswers,
+    unanswered: acc.unanswered + (test.unanswered || 0),
+    negativeMarks: acc.negativeMarks + (test.negativeMarks || 0)
+  }), { correct: 0, partial: 0, incorrect: 0, unanswered: 0, negativeMarks: 0 });
+
   const topScore = Math.max(...testResults.map(t => t.percentage));
   const lowestScore = Math.min(...testResults.map(t => t.percentage));
 
@@ -250,6 +261,36 @@ const StudentPerformanceAnalytics: React.FC<StudentPerformanceAnalyticsProps> =
                 ))}
               </div>
             </div>
+
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-sm font-medium text-gray-900 mb-2">Answer Breakdown</p>
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="flex items-center gap-1 text-green-700"><CheckCircle className="w-4 h-4" /> Correct</span>
+                  <span className="font-medium">{answerTotals.correct}</span>
+                </div>
+                {answerTotals.partial > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-yellow-700">Partially correct</span>
+                    <span className="font-medium">{answerTotals.partial}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="flex items-center gap-1 text-red-700"><XCircle className="w-4 h-4" /> Incorrect</span>
+                  <span className="font-medium">{answerTotals.incorrect}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-700">Skipped</span>
+                  <span className="font-medium">{answerTotals.unanswered}</span>
+                </div>
+                {answerTotals.negativeMarks > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Marks lost to negative marking</span>
+                    <span className="font-medium text-red-700">−{answerTotals.negativeMarks.toFixed(2)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -3,6 +3,7 @@ import { FileText, Award, Clock, CheckCircle, XCircle, TrendingUp, Calendar } fr
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import apiService from '../../services/api';
 import LoadingSpinner from '../UI/LoadingSpinner';
+import { AttemptScoringRule, describeCountedAttempt } from './attemptPolicy';
 
 interface TestReport {
   _id: string;
@@ -12,8 +13,11 @@ interface TestReport {
   companyName?: string;
   difficulty?: string;
   totalMarks: number;
+  // Counted under the test's scoring rule when the student took it more than once
   marksObtained: number;
   percentage: number;
+  attemptCount?: number;
+  scoringRule?: AttemptScoringRule;
   correctAnswers: number;
   incorrectAnswers: number;
   timeSpent: number;
@@ -132,7 +136,7 @@ const StudentReportsPage: React.FC = () => {
       passedTests,
       failedTests: totalTests - passedTests,
       avgPercentage: avgPercentage.toFixed(1),
-      totalTimeSpent: Math.round(totalTimeSpent)
+      totalTimeSpent: Math.round(totalTimeSpent / 60)
     };
   };
 
@@ -365,6 +369,9 @@ const StudentReportsPage: React.FC = () => {
                     <div className="flex items-center">
                       <div className="text-sm font-bold text-gray-900">{report.percentage.toFixed(1)}%</div>
                     </div>
+                    {describeCountedAttempt(report.scoringRule, report.attemptCount) && (
+                      <div className="text-xs text-gray-500">{describeCountedAttempt(report.scoringRule, report.attemptCount)}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(report.status)}`}>
@@ -378,7 +385,7 @@ const StudentReportsPage: React.FC = () => {
                     </div>
                     <div className="flex items-center gap-1 text-xs text-gray-400 mt-1">
                       <Clock size={12} />
-                      {report.timeSpent} min
+                      {Math.round(report.timeSpent / 60)} min
                     </div>
                   </td>
                 </tr>
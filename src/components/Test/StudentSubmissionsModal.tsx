@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import apiService from '../../services/api';
+import Modal from '../UI/Modal';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import SubmissionHistory from '../Coding/SubmissionHistory';
+import { QuestionSubmissionSummary, StudentSubmissions, SubmissionRecord } from '../Coding/submissionHistory';
+
+interface StudentSubmissionsModalProps {
+  studentId: string;
+  studentName: string;
+  onClose: () => void;
+}
+
+// A student's coding submissions for faculty: pick a question to see its history and diffs
+const StudentSubmissionsModal: React.FC<StudentSubmissionsModalProps> = ({ studentId, studentName, onClose }) => {
+  const [questions, setQuestions] = useState<QuestionSubmissionSummary[]>([]);
+  const [questionId, setQuestionId] = useState('');
+  const [submissions, setSubmissions] = useState<SubmissionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    apiService.getStudentCodingSubmissions(studentId)
+      .then(data => {
+        const result = data as StudentSubmissions;
+        setQuestions(result.questions);
+        if (result.questions.length > 0) setQuestionId(result.questions[0].questionId);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load submissions'))
+      .finally(() => setLoading(false));
+  }, [studentId]);
+
+  useEffect(() => {
+    if (!questionId) return;
+    setLoadingHistory(true);
+    apiService.getStudentCodingSubmissions(studentId, questionId)
+      .then(data => setSubmissions((data as StudentSubmissions).submissions))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load submissions'))
+      .finally(() => setLoadingHistory(false));
+  }, [studentId, questionId]);
+
+  const selected = questions.find(q => q.questionId === questionId);
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Coding Submissions: ${studentName}`} size="xl">
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : questions.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">This student has not submitted any code yet.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <select
+              value={questionId}
+              onChange={(e) => setQuestionId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+            >
+              {questions.map(q => (
+                <option key={q.questionId} value={q.questionId}>
+                  {q.questionTitle || 'Untitled question'} ({q.submissionCount})
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                {selected.accepted && <CheckCircle className="w-4 h-4 text-green-600" />}
+                Best score: {selected.bestScore}
+              </div>
+            )}
+          </div>
+          <SubmissionHistory key={questionId} submissions={submissions} loading={loadingHistory} />
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default StudentSubmissionsModal;
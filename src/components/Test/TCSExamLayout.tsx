@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { AlertCircle, Bookmark, ChevronLeft, ChevronRight, Clock, List, X } from 'lucide-react';
+import CameraStatusBadge from './CameraStatusBadge';
+import ExamQuestionPalette from './ExamQuestionPalette';
+import ExamQuestionView from './ExamQuestionView';
+import { ExamPlayer } from '../../hooks/useExamPlayer';
+import { ExamTest, formatExamTime } from './examPlayer';
+
+interface TCSExamLayoutProps {
+  test: ExamTest;
+  player: ExamPlayer;
+}
+
+// TCS iON style: one large question, action bar underneath and a collapsible palette
+const TCSExamLayout: React.FC<TCSExamLayoutProps> = ({ test, player }) => {
+  const [showQuestionPalette, setShowQuestionPalette] = useState(true);
+  const { state, currentSection, currentQuestion, violations, cameraStatus } = player;
+  const questionCount = currentSection?.questions.length || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <div className="bg-white shadow-md border-b-2 border-blue-600 px-4 md:px-6 py-3">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-3 md:gap-0">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4">
+            <h1 className="text-lg md:text-xl font-bold text-gray-900">{test.testName}</h1>
+            {currentSection?.name && (
+              <span className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                Section {state.sectionIndex + 1}: {currentSection.name}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 md:gap-6">
+            <button
+              onClick={() => setShowQuestionPalette(!showQuestionPalette)}
+              className="lg:hidden px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm font-medium"
+            >
+              <List className="w-4 h-4" />
+              Palette
+            </button>
+            <CameraStatusBadge status={cameraStatus} />
+            {violations > 0 && (
+              <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {violations} Violations
+              </span>
+            )}
+            <div className="flex items-center gap-2 text-base md:text-lg font-bold text-gray-900">
+              <Clock className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+              {formatExamTime(state.timeLeft)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+        <div className="flex-1 flex items-start justify-center p-4 md:p-6 lg:p-8 overflow-y-auto">
+          <div className="max-w-4xl w-full">
+            <div className="bg-white rounded-lg shadow-lg p-4 md:p-6 lg:p-8 mb-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0 mb-6 pb-4 border-b">
+                <span className="text-lg font-semibold text-gray-900">
+                  Question {state.questionIndex + 1} of {questionCount}
+                </span>
+                <span className="px-4 py-2 bg-blue-100 text-blue-800 rounded-lg text-sm font-bold">
+                  {currentQuestion?.marks || 0} {currentQuestion?.marks === 1 ? 'Mark' : 'Marks'}
+                </span>
+              </div>
+
+              <ExamQuestionView
+                question={currentQuestion}
+                answer={currentQuestion ? state.answers[currentQuestion._id] : undefined}
+                onAnswer={player.answer}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-4 md:p-6">
+              <div className="flex flex-col sm:flex-row justify-between items-stretch sm:items-center gap-3 sm:gap-4">
+                <button
+                  onClick={player.prev}
+                  disabled={state.questionIndex === 0}
+                  className="px-4 md:px-6 py-2 md:py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-medium text-sm md:text-base"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                  Previous
+                </button>
+
+                <div className="flex flex-wrap gap-2 sm:gap-3">
+                  <button
+                    onClick={player.markAndNext}
+                    className="px-3 md:px-5 py-2 md:py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 flex items-center justify-center gap-2 font-medium text-sm md:text-base"
+                  >
+                    <Bookmark className="w-5 h-5" />
+                    Mark for Review
+                  </button>
+
+                  <button
+                    onClick={player.clear}
+                    disabled={!currentQuestion || !state.answers[currentQuestion._id]}
+                    className="px-3 md:px-5 py-2 md:py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium text-sm md:text-base"
+                  >
+                    Clear
+                  </button>
+
+                  <button
+                    onClick={player.saveAndNext}
+                    className="px-4 md:px-6 py-2 md:py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center gap-2 font-medium text-sm md:text-base"
+                  >
+                    Save & Next
+                    <ChevronRight className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {showQuestionPalette ? (
+          <div className="fixed lg:relative inset-0 lg:inset-auto z-40 lg:z-auto w-full lg:w-80 bg-white lg:border-l shadow-lg overflow-y-auto">
+            <div className="p-4 bg-gray-50 border-b flex justify-between items-center sticky top-0">
+              <div className="flex items-center gap-2">
+                <List className="w-5 h-5 text-gray-600" />
+                <h3 className="font-semibold text-gray-900">Question Palette</h3>
+              </div>
+              <button
+                onClick={() => setShowQuestionPalette(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4">
+              <ExamQuestionPalette player={player} />
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowQuestionPalette(true)}
+            className="fixed right-0 top-1/2 transform -translate-y-1/2 bg-blue-600 text-white p-3 rounded-l-lg shadow-lg hover:bg-blue-700"
+          >
+            <List className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TCSExamLayout;
@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Clock, Save, Users } from 'lucide-react';
+import apiService from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+
+interface AccommodationStudent {
+  _id: string;
+  name: string;
+  email: string;
+  idNumber?: string;
+  branch?: string;
+  batch?: string;
+  section?: string;
+}
+
+interface Accommodation {
+  extraMinutes: number;
+  extendedEndDateTime?: string | null;
+  reason?: string;
+  grantedBy?: { name: string } | null;
+  grantedAt?: string;
+}
+
+interface StudentAccommodation {
+  student: AccommodationStudent;
+  accommodation: Accommodation;
+  attemptStatus: string | null;
+}
+
+interface TestAccommodations {
+  test: {
+    _id: string;
+    testName: string;
+    duration: number;
+    endDateTime: string;
+  };
+  maxExtraMinutes: number;
+  students: StudentAccommodation[];
+}
+
+interface TestAccommodationsModalProps {
+  testId: string;
+  onClose: () => void;
+}
+
+const formatDateTimeLocal = (dateString: string) => {
+  const date = new Date(dateString);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${year}-${month}-${day}T${hours}:${minutes}`;
+};
+
+const hasGrant = (accommodation: Accommodation) =>
+  accommodation.extraMinutes > 0 || !!accommodation.extendedEndDateTime;
+
+// Per-student extra time and extended windows for one test. Changes reach an attempt
+// that is already under way, so this is also where a session is extended after an outage.
+const TestAccommodationsModal: React.FC<TestAccommodationsModalProps> = ({ testId, onClose }) => {
+  const [data, setData] = useState<TestAccommodations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  const [extraMinutes, setExtraMinutes] = useState(0);
+  const [extendedEnd, setExtendedEnd] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadAccommodations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getTestAccommodations(testId) as TestAccommodations;
+      setData(response);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load students');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    loadAccommodations();
+  }, [loadAccommodations]);
+
+  const selected = data?.students.find(item => item.student._id === selectedStudentId) || null;
+
+  const selectStudent = (item: StudentAccommodation) => {
+    setSelectedStudentId(item.student._id);
+    setExtraMinutes(item.accommodation.extraMinutes || 0);
+    setExtendedEnd(item.accommodation.extendedEndDateTime ? formatDateTimeLocal(item.accommodation.extendedEndDateTime) : '');
+    setReason(item.accommodation.reason || '');
+  };
+
+  const handleSave = async () => {
+    if (!data || !selected) return;
+
+    try {
+      setSaving(true);
+      const response = await apiService.grantTestAccommodation(testId, selected.student._id, {
+        extraMinutes,
+        extendedEndDateTime: extendedEnd ? new Date(extendedEnd).toISOString() : null,
+        reason
+      }) as { accommodation: Accommodation };
+      setData({
+        ...data,
+        students: data.students.map(item => item.student._id === selected.student._id
+          ? { ...item, accommodation: response.accommodation }
+          : item)
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save accommodation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const students = (data?.students || []).filter(item => !query ||
+    item.student.name.toLowerCase().includes(query) ||
+    item.student.email.toLowerCase().includes(query) ||
+    (item.student.idNumber || '').toLowerCase().includes(query));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-2xl max-w-5xl w-full my-8 max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center z-10">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Time Accommodations</h2>
+            {data && (
+              <p className="text-sm text-gray-600 mt-1">
+                {data.test.testName} | {data.test.duration} min | Closes {new Date(data.test.endDateTime).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading && (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          )}
+
+          {!loading && error && <p className="text-red-600">{error}</p>}
+
+          {!loading && !error && data && (
+            data.students.length === 0 ? (
+              <div className="text-center py-12 text-gray-600">
+                <Users className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+                This test has not been assigned to any students yet.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by name, email or ID"
+                    className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
+                    {students.map(item => (
+                      <button
+                        key={item.student._id}
+                        onClick={() => selectStudent(item)}
+                        className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${
+                          selectedStudentId === item.student._id ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-gray-900">{item.student.name}</p>
+                          {hasGrant(item.accommodation) && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              {item.accommodation.extraMinutes > 0 && `+${item.accommodation.extraMinutes} min`}
+                              {item.accommodation.extraMinutes > 0 && item.accommodation.extendedEndDateTime && ' | '}
+                              {item.accommodation.extendedEndDateTime && 'Extended'}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {item.student.idNumber || item.student.email}
+                          {item.attemptStatus && ` | ${item.attemptStatus === 'in_progress' ? 'In progress' : 'Submitted'}`}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  {!selected ? (
+                    <p className="text-sm text-gray-600 py-12 text-center">Select a student to grant extra time or extend their window.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{selected.student.name}</h3>
+                        <p className="text-sm text-gray-600">{selected.student.email}</p>
+                        {selected.attemptStatus === 'in_progress' && (
+                          <p className="mt-2 text-sm text-orange-700 bg-orange-50 rounded p-2">
+                            This student's attempt is in progress; their timer picks up the change within a few seconds.
+                          </p>
+                        )}
+                      </div>
+
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">
+                          <Clock className="inline w-4 h-4 mr-1" />
+                          Extra minutes
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={data.maxExtraMinutes}
+                          value={extraMinutes}
+                          onChange={(e) => setExtraMinutes(Math.min(data.maxExtraMinutes, Math.max(0, parseInt(e.target.value) || 0)))}
+                          className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-500">
+                          Total time: {data.test.duration + extraMinutes} min
+                        </span>
+                      </label>
+
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">Keep the test open until</span>
+                        <input
+                          type="datetime-local"
+                          value={extendedEnd}
+                          min={formatDateTimeLocal(data.test.endDateTime)}
+                          onChange={(e) => setExtendedEnd(e.target.value)}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        {extendedEnd && (
+                          <button
+                            onClick={() => setExtendedEnd('')}
+                            className="ml-2 text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            Clear
+                          </button>
+                        )}
+                        <span className="block mt-1 text-xs text-gray-500">Leave empty to use the test's own closing time.</span>
+                      </label>
+
+                      <label className="block">
+                        <span className="block text-sm font-medium text-gray-700 mb-1">Reason</span>
+                        <textarea
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          maxLength={500}
+                          rows={3}
+                          placeholder="e.g. documented accommodation, lab power failure"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                        />
+                      </label>
+
+                      {selected.accommodation.grantedAt && (
+                        <p className="text-xs text-gray-500">
+                          Last changed {new Date(selected.accommodation.grantedAt).toLocaleString()}
+                          {selected.accommodation.grantedBy?.name && ` by ${selected.accommodation.grantedBy.name}`}
+                        </p>
+                      )}
+
+                      <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                      >
+                        {saving ? <LoadingSpinner size="sm" /> : <Save size={16} />}
+                        Save
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestAccommodationsModal;
@@ -403,7 +403,7 @@ const TestAnalyticsModal: React.FC<TestAnalyticsModalProps> = ({ testId, onClose
                           <td className="px-4 py-3 text-center">
                             <div className="flex items-center justify-center gap-1 text-sm text-gray-600">
                               <Clock size={14} />
-                              {attempt.timeSpent} min
+                              {Math.round(attempt.timeSpent / 60)} min
                             </div>
                           </td>
                           <td className="px-4 py-3 text-center">
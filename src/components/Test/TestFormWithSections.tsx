@@ -1,30 +1,30 @@
 
 import React, { useState } from 'react';
-import { Plus, Upload, Eye, Trash2, FileText, Clock, Calendar, Hash, XCircle, Edit2, Code } from 'lucide-react';
+import { Plus, Upload, Eye, Trash2, FileText, Clock, Calendar, Hash, XCircle, Edit2, Code, Library } from 'lucide-react';
 import LoadingSpinner from '../UI/LoadingSpinner';
 import SectionConfiguration from './SectionConfiguration';
+import { PROCTORING_EVENT_LABELS, ProctoringEventType, ProctoringPolicy, resolveProctoringPolicy } from './proctoringPolicy';
+import { AttemptPolicy, AttemptScoringRule, resolveAttemptPolicy, SCORING_RULE_LABELS } from './attemptPolicy';
+import {
+  EXAM_LAYOUT_LABELS, ExamLayout, resolveExamLayout, SECTION_NAVIGATION_LABELS, SectionNavigation
+} from './examPlayer';
 import QuestionPreviewModal from './QuestionPreviewModal';
 import CodingQuestionPreviewModal from './CodingQuestionPreviewModal';
 import CodingSectionConfig from './CodingSectionConfig';
+import QuestionBankPicker, { PickedQuestion } from '../QuestionBank/QuestionBankPicker';
+import QuestionAnswerEditor from './QuestionAnswerEditor';
+import { EditableQuestion, describeTextAnswer, isQuestionComplete, splitAnswerLabels } from './questionTypes';
 import apiService from '../../services/api';
 
-interface Question {
-  questionText: string;
+interface Question extends EditableQuestion {
   questionImageUrl?: string;
-  options: {
-    A: string;
-    B: string;
-    C: string;
-    D: string;
-  };
-  optionImages?: {
-    A?: string;
-    B?: string;
-    C?: string;
-    D?: string;
-  };
-  correctAnswer: 'A' | 'B' | 'C' | 'D';
   marks: number;
+  bankQuestionId?: string;
+}
+
+interface TestScoring {
+  negativeMarks: number;
+  partialCredit: boolean;
 }
 
 interface Section {
@@ -33,6 +33,17 @@ interface Section {
   numberOfQuestions: number;
   marksPerQuestion: number;
   questions: Question[];
+  questionSource?: 'fixed' | 'pool';
+  pool?: {
+    subject?: string;
+    topics: string[];
+    easy: number;
+    medium: number;
+    hard: number;
+  };
+  // Overrides of the test scoring policy; null keeps the test setting
+  negativeMarks?: number | null;
+  partialCredit?: boolean | null;
 }
 
 interface CodingQuestion {
@@ -46,6 +57,8 @@ interface CodingQuestion {
   timeLimit?: number;
   time_limit?: number;
   memory_limit?: number;
+  checker_mode?: string;
+  float_tolerance?: number;
   constraints?: string;
   input_format?: string;
   output_format?: string;
@@ -73,6 +86,13 @@ interface TestFormData {
   sections?: Section[];
   hasCodingSection?: boolean;
   codingQuestions?: CodingQuestion[];
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  scoring?: TestScoring;
+  proctoring?: ProctoringPolicy;
+  attemptPolicy?: AttemptPolicy;
+  examLayout?: ExamLayout | null;
+  sectionNavigation?: SectionNavigation;
 }
 
 interface TestFormWithSectionsProps {
@@ -118,7 +138,17 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
     hasSections: initialHasSections,
     sections: initialData?.sections || [],
     hasCodingSection: initialData?.hasCodingSection || false,
-    codingQuestions: initialData?.codingQuestions || []
+    codingQuestions: initialData?.codingQuestions || [],
+    shuffleQuestions: initialData?.shuffleQuestions || false,
+    shuffleOptions: initialData?.shuffleOptions || false,
+    scoring: {
+      negativeMarks: initialData?.scoring?.negativeMarks || 0,
+      partialCredit: initialData?.scoring?.partialCredit || false
+    },
+    proctoring: resolveProctoringPolicy(initialData?.proctoring),
+    attemptPolicy: resolveAttemptPolicy(initialData?.attemptPolicy),
+    examLayout: initialData?.examLayout || null,
+    sectionNavigation: initialData?.sectionNavigation || 'sequential'
   });
 
   const [currentQuestion, setCurrentQuestion] = useState<Question>({
@@ -140,6 +170,8 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
   const [showSectionQuestionsPreview, setShowSectionQuestionsPreview] = useState(false);
   const [showCodingQuestionsPreview, setShowCodingQuestionsPreview] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [bankPickerSectionIndex, setBankPickerSectionIndex] = useState<number | null>(null);
 
   const subjects = ['Verbal', 'Reasoning', 'Technical', 'Arithmetic', 'Communication'];
   const testTypes = ['Assessment', 'Practice', 'Assignment', 'Mock Test', 'Specific Company Test'];
@@ -253,6 +285,49 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
     setShowQuestionForm(true);
   };
 
+  const openBankPicker = (sectionIndex: number | null) => {
+    setBankPickerSectionIndex(sectionIndex);
+    setShowBankPicker(true);
+  };
+
+  // Bank ids already in the test, so the picker never offers the same question twice
+  const getUsedBankQuestionIds = () => {
+    const allQuestions = formData.hasSections
+      ? (formData.sections || []).flatMap(section => section.questions)
+      : formData.questions;
+    return allQuestions.map(q => q.bankQuestionId).filter((id): id is string => !!id);
+  };
+
+  const getBankPickerSlots = () => {
+    if (bankPickerSectionIndex !== null) {
+      const section = formData.sections?.[bankPickerSectionIndex];
+      return section ? section.numberOfQuestions - section.questions.length : 0;
+    }
+    return formData.numberOfQuestions - formData.questions.length;
+  };
+
+  const handleAddFromBank = (picked: PickedQuestion[]) => {
+    const questionsToAdd = picked.slice(0, Math.max(0, getBankPickerSlots()));
+
+    if (bankPickerSectionIndex !== null) {
+      const updatedSections = [...formData.sections!];
+      const section = updatedSections[bankPickerSectionIndex];
+      updatedSections[bankPickerSectionIndex] = {
+        ...section,
+        questions: [...section.questions, ...questionsToAdd.map(q => ({ ...q, marks: section.marksPerQuestion }))]
+      };
+      setFormData(prev => ({ ...prev, sections: updatedSections }));
+    } else {
+      setFormData(prev => ({
+        ...prev,
+        questions: [...prev.questions, ...questionsToAdd.map(q => ({ ...q, marks: prev.marksPerQuestion }))]
+      }));
+    }
+
+    setShowBankPicker(false);
+    setBankPickerSectionIndex(null);
+  };
+
   const handleFileUploadToSection = async (sectionIndex: number, file: File) => {
     setFileUploadLoading(true);
     setUploadingSectionIndex(sectionIndex);
@@ -367,12 +442,7 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
   const validateEditedQuestion = (): boolean => {
     if (!editingQuestion) return false;
 
-    return editingQuestion.questionText.trim() !== '' &&
-           editingQuestion.options.A.trim() !== '' &&
-           editingQuestion.options.B.trim() !== '' &&
-           editingQuestion.options.C.trim() !== '' &&
-           editingQuestion.options.D.trim() !== '' &&
-           ['A', 'B', 'C', 'D'].includes(editingQuestion.correctAnswer);
+    return isQuestionComplete(editingQuestion);
   };
 
   const addQuestion = () => {
@@ -412,8 +482,13 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
 
     setCurrentQuestion({
       questionText: '',
-      options: { A: '', B: '', C: '', D: '' },
-      correctAnswer: 'A',
+      questionType: currentQuestion.questionType,
+      options: currentQuestion.questionType === 'true_false'
+        ? { A: 'True', B: 'False' }
+        : currentQuestion.questionType === 'numeric' || currentQuestion.questionType === 'fill_blank'
+          ? {}
+          : { A: '', B: '', C: '', D: '' },
+      correctAnswer: currentQuestion.questionType === 'numeric' || currentQuestion.questionType === 'fill_blank' ? '' : 'A',
       marks: formData.marksPerQuestion
     });
   };
@@ -435,12 +510,7 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
   };
 
   const validateQuestion = (): boolean => {
-    return currentQuestion.questionText.trim() !== '' &&
-           currentQuestion.options.A.trim() !== '' &&
-           currentQuestion.options.B.trim() !== '' &&
-           currentQuestion.options.C.trim() !== '' &&
-           currentQuestion.options.D.trim() !== '' &&
-           ['A', 'B', 'C', 'D'].includes(currentQuestion.correctAnswer);
+    return isQuestionComplete(currentQuestion);
   };
 
   const validateForm = (): { isValid: boolean; errors: any } => {
@@ -492,6 +562,8 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
       } else {
         for (let i = 0; i < formData.sections.length; i++) {
           const section = formData.sections[i];
+          // Pool sections are drawn per student at start time, so they hold no questions here
+          if (section.questionSource === 'pool') continue;
           if (section.questions.length !== section.numberOfQuestions) {
             newErrors.sections = `Section "${section.sectionName}" needs exactly ${section.numberOfQuestions} questions`;
             break;
@@ -572,6 +644,13 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
           points: q.points || 100,
           timeLimit: q.timeLimit || 3600
         })) : [],
+        shuffleQuestions: formData.shuffleQuestions,
+        shuffleOptions: formData.shuffleOptions,
+        scoring: formData.scoring,
+        proctoring: formData.proctoring,
+        attemptPolicy: formData.attemptPolicy,
+        examLayout: formData.examLayout || null,
+        sectionNavigation: formData.sectionNavigation,
         sourceType: 'manual'
       };
 
@@ -595,7 +674,14 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
         hasSections: false,
         sections: [],
         hasCodingSection: false,
-        codingQuestions: []
+        codingQuestions: [],
+        shuffleQuestions: false,
+        shuffleOptions: false,
+        scoring: { negativeMarks: 0, partialCredit: false },
+        proctoring: resolveProctoringPolicy(),
+        attemptPolicy: resolveAttemptPolicy(),
+        examLayout: null,
+        sectionNavigation: 'sequential'
       });
       setErrors({});
     } catch (error) {
@@ -748,6 +834,37 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Exam Layout</label>
+            <select
+              value={formData.examLayout || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, examLayout: (e.target.value || null) as ExamLayout | null }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">
+                Default for {formData.testType} ({EXAM_LAYOUT_LABELS[resolveExamLayout({ testType: formData.testType })]})
+              </option>
+              {(Object.keys(EXAM_LAYOUT_LABELS) as ExamLayout[]).map(layout => (
+                <option key={layout} value={layout}>{EXAM_LAYOUT_LABELS[layout]}</option>
+              ))}
+            </select>
+          </div>
+
+          {formData.hasSections && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Section Navigation</label>
+              <select
+                value={formData.sectionNavigation || 'sequential'}
+                onChange={(e) => setFormData(prev => ({ ...prev, sectionNavigation: e.target.value as SectionNavigation }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(SECTION_NAVIGATION_LABELS) as SectionNavigation[]).map(mode => (
+                  <option key={mode} value={mode}>{SECTION_NAVIGATION_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               <Calendar className="inline w-4 h-4 mr-1" />
@@ -819,6 +936,251 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                     : 'Enable to add coding problems to this test')}
             </p>
           </div>
+
+          {/* Randomization is applied per student when the attempt starts; grading always uses the authored answer key */}
+          <div className="md:col-span-3">
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.shuffleQuestions}
+                  onChange={(e) => setFormData(prev => ({ ...prev, shuffleQuestions: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Shuffle question order</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.shuffleOptions}
+                  onChange={(e) => setFormData(prev => ({ ...prev, shuffleOptions: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Shuffle option order</span>
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Each student gets their own order, which stays the same if they resume the test. Questions are only shuffled within their section.
+            </p>
+          </div>
+
+          {/* Scoring policy; sections can override it in their own settings */}
+          <div className="md:col-span-3">
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Negative marks per wrong answer</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="0.25"
+                  value={formData.scoring?.negativeMarks ?? 0}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    scoring: { partialCredit: false, ...prev.scoring, negativeMarks: Math.max(0, parseFloat(e.target.value) || 0) }
+                  }))}
+                  className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!formData.scoring?.partialCredit}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    scoring: { negativeMarks: 0, ...prev.scoring, partialCredit: e.target.checked }
+                  }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Partial credit for multiple-correct questions</span>
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Skipped questions are never penalised. With partial credit, picking only correct options earns a proportional share; any wrong pick counts as a wrong answer.
+            </p>
+          </div>
+
+          {/* Retakes; the server checks the limit and cooldown when an attempt is started */}
+          <div className="md:col-span-3">
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Attempts allowed</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={formData.attemptPolicy?.maxAttempts ?? 1}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    attemptPolicy: {
+                      ...resolveAttemptPolicy(prev.attemptPolicy),
+                      maxAttempts: Math.min(20, Math.max(1, parseInt(e.target.value) || 1))
+                    }
+                  }))}
+                  className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              {(formData.attemptPolicy?.maxAttempts ?? 1) > 1 && (
+                <>
+                  <label className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-700">Wait</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10080"
+                      value={formData.attemptPolicy?.cooldownMinutes ?? 0}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        attemptPolicy: {
+                          ...resolveAttemptPolicy(prev.attemptPolicy),
+                          cooldownMinutes: Math.min(10080, Math.max(0, parseInt(e.target.value) || 0))
+                        }
+                      }))}
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">minutes between attempts</span>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-700">Score counted</span>
+                    <select
+                      value={formData.attemptPolicy?.scoringRule ?? 'best'}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        attemptPolicy: { ...resolveAttemptPolicy(prev.attemptPolicy), scoringRule: e.target.value as AttemptScoringRule }
+                      }))}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(SCORING_RULE_LABELS) as AttemptScoringRule[]).map(rule => (
+                        <option key={rule} value={rule}>{SCORING_RULE_LABELS[rule]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Reports show the counted score; students see every attempt in their history. A single attempt keeps the test one-shot.
+            </p>
+          </div>
+
+          {/* Proctoring policy; every test interface and the server read the same settings */}
+          <div className="md:col-span-3">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Events counted as violations</span>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(PROCTORING_EVENT_LABELS) as ProctoringEventType[]).map(type => (
+                <label key={type} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!formData.proctoring?.countedEvents.includes(type)}
+                    onChange={(e) => setFormData(prev => {
+                      const proctoring = resolveProctoringPolicy(prev.proctoring);
+                      return {
+                        ...prev,
+                        proctoring: {
+                          ...proctoring,
+                          countedEvents: e.target.checked
+                            ? [...proctoring.countedEvents, type]
+                            : proctoring.countedEvents.filter(t => t !== type)
+                        }
+                      };
+                    })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">{PROCTORING_EVENT_LABELS[type]}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-6 mt-3">
+              <label className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">At</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={formData.proctoring?.maxViolations ?? 3}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    proctoring: {
+                      ...resolveProctoringPolicy(prev.proctoring),
+                      maxViolations: Math.min(20, Math.max(1, parseInt(e.target.value) || 1))
+                    }
+                  }))}
+                  className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">violations</span>
+                <select
+                  value={formData.proctoring?.onLimit ?? 'submit'}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    proctoring: { ...resolveProctoringPolicy(prev.proctoring), onLimit: e.target.value as ProctoringPolicy['onLimit'] }
+                  }))}
+                  className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="submit">submit the test</option>
+                  <option value="warn">only warn the student</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!formData.proctoring?.requireFullscreen}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    proctoring: { ...resolveProctoringPolicy(prev.proctoring), requireFullscreen: e.target.checked }
+                  }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Require fullscreen</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!formData.proctoring?.blockCopyPaste}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    proctoring: { ...resolveProctoringPolicy(prev.proctoring), blockCopyPaste: e.target.checked }
+                  }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Block copy/paste in the code editor</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!formData.proctoring?.webcamSnapshots}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    proctoring: { ...resolveProctoringPolicy(prev.proctoring), webcamSnapshots: e.target.checked }
+                  }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Take webcam snapshots</span>
+              </label>
+              {formData.proctoring?.webcamSnapshots && (
+                <label className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700">every</span>
+                  <input
+                    type="number"
+                    min="15"
+                    max="600"
+                    value={formData.proctoring.snapshotInterval}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      proctoring: {
+                        ...resolveProctoringPolicy(prev.proctoring),
+                        snapshotInterval: Math.min(600, Math.max(15, parseInt(e.target.value) || 15))
+                      }
+                    }))}
+                    className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">seconds</span>
+                </label>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              All events are logged for review; only the checked ones count towards the limit. Untick every event and choose "only warn" for a relaxed practice test.
+            </p>
+          </div>
         </div>
       </div>
 
@@ -876,6 +1238,7 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
             onSectionsChange={handleSectionsChange}
             onAddQuestions={handleAddQuestionsToSection}
             onUploadFile={handleFileUploadToSection}
+            onPickFromBank={openBankPicker}
             uploadingSectionIndex={uploadingSectionIndex}
             fileUploadLoading={fileUploadLoading}
           />
@@ -980,6 +1343,15 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                   disabled={fileUploadLoading}
                 />
               </label>
+              <button
+                type="button"
+                onClick={() => openBankPicker(null)}
+                disabled={formData.questions.length >= formData.numberOfQuestions}
+                className="px-3 py-1 bg-purple-600 text-white rounded text-sm hover:bg-purple-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Library size={14} />
+                From Bank
+              </button>
               <button
                 type="button"
                 onClick={() => setShowQuestionForm(!showQuestionForm)}
@@ -1016,37 +1388,10 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                   />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {['A', 'B', 'C', 'D'].map((option) => (
-                    <div key={option}>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Option {option}</label>
-                      <input
-                        type="text"
-                        value={currentQuestion.options[option as keyof typeof currentQuestion.options]}
-                        onChange={(e) => setCurrentQuestion(prev => ({
-                          ...prev,
-                          options: { ...prev.options, [option]: e.target.value }
-                        }))}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                        placeholder={`Enter option ${option}`}
-                      />
-                    </div>
-                  ))}
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer</label>
-                  <select
-                    value={currentQuestion.correctAnswer}
-                    onChange={(e) => setCurrentQuestion(prev => ({ ...prev, correctAnswer: e.target.value as any }))}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="A">A</option>
-                    <option value="B">B</option>
-                    <option value="C">C</option>
-                    <option value="D">D</option>
-                  </select>
-                </div>
+                <QuestionAnswerEditor
+                  question={currentQuestion}
+                  onChange={(patch) => setCurrentQuestion(prev => ({ ...prev, ...patch }))}
+                />
 
                 <div className="flex justify-end gap-2">
                   <button
@@ -1079,13 +1424,16 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                         <div
                           key={key}
                           className={`p-1 rounded ${
-                            question.correctAnswer === key ? 'bg-green-100' : 'bg-gray-100'
+                            splitAnswerLabels(question.correctAnswer).includes(key) ? 'bg-green-100' : 'bg-gray-100'
                           }`}
                         >
                           <span className="font-medium">{key})</span> {value}
                         </div>
                       ))}
                     </div>
+                    {describeTextAnswer(question) && (
+                      <p className="text-sm text-green-700">Answer: {describeTextAnswer(question)}</p>
+                    )}
                   </div>
                   <div className="flex gap-2 ml-4">
                     <button
@@ -1158,63 +1506,12 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {['A', 'B', 'C', 'D'].map((option) => (
-                  <div key={option}>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Option {option}</label>
-                    <input
-                      type="text"
-                      value={editingQuestion.options[option as keyof typeof editingQuestion.options]}
-                      onChange={(e) => setEditingQuestion(prev => prev ? ({
-                        ...prev,
-                        options: { ...prev.options, [option]: e.target.value }
-                      }) : null)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                      placeholder={`Enter option ${option}`}
-                    />
-                    <label className="mt-1 px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 cursor-pointer inline-flex items-center gap-1">
-                      <Upload size={12} />
-                      Image
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0], 'option', option)}
-                        className="hidden"
-                        disabled={uploadingImage}
-                      />
-                    </label>
-                    {editingQuestion.optionImages?.[option as keyof typeof editingQuestion.optionImages] && (
-                      <div className="mt-1 flex items-center gap-2">
-                        <img src={editingQuestion.optionImages[option as keyof typeof editingQuestion.optionImages]} alt={`Option ${option}`} className="h-12 w-12 object-cover rounded border" />
-                        <button
-                          type="button"
-                          onClick={() => setEditingQuestion(prev => prev ? ({
-                            ...prev,
-                            optionImages: { ...prev.optionImages, [option]: '' }
-                          }) : null)}
-                          className="text-red-600 hover:text-red-800 text-xs"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer</label>
-                <select
-                  value={editingQuestion.correctAnswer}
-                  onChange={(e) => setEditingQuestion(prev => prev ? ({ ...prev, correctAnswer: e.target.value as any }) : null)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="A">A</option>
-                  <option value="B">B</option>
-                  <option value="C">C</option>
-                  <option value="D">D</option>
-                </select>
-              </div>
+              <QuestionAnswerEditor
+                question={editingQuestion}
+                onChange={(patch) => setEditingQuestion(prev => prev ? ({ ...prev, ...patch }) : null)}
+                onUploadOptionImage={(option, file) => handleImageUpload(file, 'option', option)}
+                uploadingImage={uploadingImage}
+              />
 
               <div className="flex justify-end gap-2">
                 <button
@@ -1335,63 +1632,12 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {['A', 'B', 'C', 'D'].map((option) => (
-                  <div key={option}>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Option {option}</label>
-                    <input
-                      type="text"
-                      value={currentQuestion.options[option as keyof typeof currentQuestion.options]}
-                      onChange={(e) => setCurrentQuestion(prev => ({
-                        ...prev,
-                        options: { ...prev.options, [option]: e.target.value }
-                      }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                      placeholder={`Enter option ${option}`}
-                    />
-                    <label className="mt-1 px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 cursor-pointer inline-flex items-center gap-1">
-                      <Upload size={12} />
-                      Image
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0], 'option', option)}
-                        className="hidden"
-                        disabled={uploadingImage}
-                      />
-                    </label>
-                    {currentQuestion.optionImages?.[option as keyof typeof currentQuestion.optionImages] && (
-                      <div className="mt-1 flex items-center gap-2">
-                        <img src={currentQuestion.optionImages[option as keyof typeof currentQuestion.optionImages]} alt={`Option ${option}`} className="h-12 w-12 object-cover rounded border" />
-                        <button
-                          type="button"
-                          onClick={() => setCurrentQuestion(prev => ({
-                            ...prev,
-                            optionImages: { ...prev.optionImages, [option]: '' }
-                          }))}
-                          className="text-red-600 hover:text-red-800 text-xs"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer</label>
-                <select
-                  value={currentQuestion.correctAnswer}
-                  onChange={(e) => setCurrentQuestion(prev => ({ ...prev, correctAnswer: e.target.value as any }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="A">A</option>
-                  <option value="B">B</option>
-                  <option value="C">C</option>
-                  <option value="D">D</option>
-                </select>
-              </div>
+              <QuestionAnswerEditor
+                question={currentQuestion}
+                onChange={(patch) => setCurrentQuestion(prev => ({ ...prev, ...patch }))}
+                onUploadOptionImage={(option, file) => handleImageUpload(file, 'option', option)}
+                uploadingImage={uploadingImage}
+              />
 
               <div className="flex justify-end gap-2">
                 <button
@@ -1427,13 +1673,16 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
                         <div
                           key={key}
                           className={`p-1 rounded ${
-                            question.correctAnswer === key ? 'bg-green-100' : 'bg-gray-100'
+                            splitAnswerLabels(question.correctAnswer).includes(key) ? 'bg-green-100' : 'bg-gray-100'
                           }`}
                         >
                           <span className="font-medium">{key})</span> {value}
                         </div>
                       ))}
                     </div>
+                    {describeTextAnswer(question) && (
+                      <p className="text-sm text-green-700">Answer: {describeTextAnswer(question)}</p>
+                    )}
                   </div>
                   <div className="flex gap-2 ml-4">
                     <button
@@ -1499,6 +1748,8 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
             explanation: '',
             time_limit: q.timeLimit || 3600,
             memory_limit: 512,
+            checker_mode: q.checker_mode,
+            float_tolerance: q.float_tolerance,
             supported_languages: ['python', 'javascript'],
             tags: q.tags,
             points: q.points || 100,
@@ -1507,6 +1758,23 @@ const TestFormWithSections: React.FC<TestFormWithSectionsProps> = ({ onSubmit, l
           sectionName="Coding Questions"
         />
       )}
+
+      {showBankPicker && (
+        <QuestionBankPicker
+          isOpen={true}
+          onClose={() => {
+            setShowBankPicker(false);
+            setBankPickerSectionIndex(null);
+          }}
+          onAdd={handleAddFromBank}
+          maxQuestions={getBankPickerSlots()}
+          defaultSubject={formData.subject}
+          excludeIds={getUsedBankQuestionIds()}
+          title={bankPickerSectionIndex !== null
+            ? `Add Questions from Bank to "${formData.sections?.[bankPickerSectionIndex]?.sectionName}"`
+            : 'Add Questions from Bank'}
+        />
+      )}
     </form>
   );
 };
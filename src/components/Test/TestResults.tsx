@@ -1,17 +1,14 @@
 import React from 'react';
-import { CheckCircle, XCircle,  Award, BarChart3 } from 'lucide-react';
+import { CheckCircle, XCircle,  Award, BarChart3, MinusCircle, CircleDot } from 'lucide-react';
+import { QuestionOptions, splitAnswerLabels } from './questionTypes';
 
 interface QuestionAnalysis {
   questionText: string;
-  options: {
-    A: string;
-    B: string;
-    C: string;
-    D: string;
-  };
+  options: QuestionOptions;
   correctAnswer: string;
   studentAnswer: string;
   isCorrect: boolean;
+  isPartial?: boolean;
   marksObtained: number;
   marks: number;
 }
@@ -28,6 +25,9 @@ interface TestResultsProps {
     percentage: number;
     correctAnswers: number;
     incorrectAnswers: number;
+    partialAnswers?: number;
+    unanswered?: number;
+    negativeMarks?: number;
     timeSpent: number;
     submittedAt: string;
     questionAnalysis: QuestionAnalysis[];
@@ -72,6 +72,9 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
               <div className="text-2xl font-bold text-blue-600">{results.marksObtained}</div>
               <div className="text-sm text-gray-600">Marks Obtained</div>
               <div className="text-xs text-gray-500">out of {results.totalMarks}</div>
+              {!!results.negativeMarks && (
+                <div className="text-xs text-red-600">−{results.negativeMarks} negative marks</div>
+              )}
             </div>
             
             <div className="bg-green-50 p-4 rounded-lg">
@@ -87,7 +90,7 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
             </div>
             
             <div className="bg-orange-50 p-4 rounded-lg">
-              <div className="text-2xl font-bold text-orange-600">{results.timeSpent}</div>
+              <div className="text-2xl font-bold text-orange-600">{Math.round(results.timeSpent / 60)}</div>
               <div className="text-sm text-gray-600">Time Spent</div>
               <div className="text-xs text-gray-500">minutes</div>
             </div>
@@ -126,6 +129,22 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
                 </div>
                 <span className="font-medium text-red-600">{results.incorrectAnswers}</span>
               </div>
+              {!!results.partialAnswers && (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <CircleDot size={16} className="text-yellow-600" />
+                    <span className="text-sm">Partially Correct</span>
+                  </div>
+                  <span className="font-medium text-yellow-600">{results.partialAnswers}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <MinusCircle size={16} className="text-gray-500" />
+                  <span className="text-sm">Unanswered</span>
+                </div>
+                <span className="font-medium text-gray-600">{results.unanswered || 0}</span>
+              </div>
             </div>
           </div>
           
@@ -160,7 +179,13 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
             <div
               key={index}
               className={`border rounded-lg p-4 ${
-                question.isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+                question.isCorrect
+                  ? 'border-green-200 bg-green-50'
+                  : question.isPartial
+                  ? 'border-yellow-200 bg-yellow-50'
+                  : !question.studentAnswer
+                  ? 'border-gray-200 bg-gray-50'
+                  : 'border-red-200 bg-red-50'
               }`}
             >
               <div className="flex items-start justify-between mb-3">
@@ -170,6 +195,10 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
                 <div className="flex items-center gap-2">
                   {question.isCorrect ? (
                     <CheckCircle size={20} className="text-green-600" />
+                  ) : question.isPartial ? (
+                    <CircleDot size={20} className="text-yellow-600" />
+                  ) : !question.studentAnswer ? (
+                    <MinusCircle size={20} className="text-gray-500" />
                   ) : (
                     <XCircle size={20} className="text-red-600" />
                   )}
@@ -184,18 +213,18 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
                   <div
                     key={key}
                     className={`p-2 rounded text-sm ${
-                      key === question.correctAnswer
+                      splitAnswerLabels(question.correctAnswer).includes(key)
                         ? 'bg-green-100 border border-green-300'
-                        : key === question.studentAnswer && !question.isCorrect
+                        : splitAnswerLabels(question.studentAnswer).includes(key) && !question.isCorrect
                         ? 'bg-red-100 border border-red-300'
                         : 'bg-white border border-gray-200'
                     }`}
                   >
                     <span className="font-medium">{key})</span> {value}
-                    {key === question.correctAnswer && (
+                    {splitAnswerLabels(question.correctAnswer).includes(key) && (
                       <span className="ml-2 text-green-600 text-xs">✓ Correct</span>
                     )}
-                    {key === question.studentAnswer && key !== question.correctAnswer && (
+                    {splitAnswerLabels(question.studentAnswer).includes(key) && !splitAnswerLabels(question.correctAnswer).includes(key) && (
                       <span className="ml-2 text-red-600 text-xs">✗ Your answer</span>
                     )}
                   </div>
@@ -204,8 +233,8 @@ const TestResults: React.FC<TestResultsProps> = ({ results, onClose }) => {
               
               <div className="text-sm">
                 <span className="text-gray-600">Your answer: </span>
-                <span className={`font-medium ${question.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
-                  {question.studentAnswer}
+                <span className={`font-medium ${question.isCorrect ? 'text-green-600' : question.isPartial ? 'text-yellow-600' : 'text-red-600'}`}>
+                  {question.studentAnswer || 'Not answered'}
                 </span>
                 {!question.isCorrect && (
                   <>
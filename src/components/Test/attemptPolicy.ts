@@ -0,0 +1,35 @@
+export type AttemptScoringRule = 'best' | 'last' | 'average';
+
+// Per-test retake rules; the server enforces them when an attempt is started
+export interface AttemptPolicy {
+  maxAttempts: number;
+  // Minutes a student waits after finishing an attempt before starting the next
+  cooldownMinutes: number;
+  // Which finished attempt counts towards the student's result
+  scoringRule: AttemptScoringRule;
+}
+
+export const SCORING_RULE_LABELS: Record<AttemptScoringRule, string> = {
+  best: 'Best attempt',
+  last: 'Last attempt',
+  average: 'Average of attempts'
+};
+
+export const DEFAULT_ATTEMPT_POLICY: AttemptPolicy = {
+  maxAttempts: 1,
+  cooldownMinutes: 0,
+  scoringRule: 'best'
+};
+
+export const resolveAttemptPolicy = (policy?: Partial<AttemptPolicy> | null): AttemptPolicy => ({
+  ...DEFAULT_ATTEMPT_POLICY,
+  ...policy
+});
+
+// Shown next to a counted result, e.g. "Best of 3 attempts"
+export const describeCountedAttempt = (scoringRule: AttemptScoringRule | undefined, attemptCount: number | undefined) => {
+  if (!attemptCount || attemptCount < 2) return null;
+  const rule = scoringRule || 'best';
+  if (rule === 'average') return `Average of ${attemptCount} attempts`;
+  return `${rule === 'best' ? 'Best' : 'Last'} of ${attemptCount} attempts`;
+};
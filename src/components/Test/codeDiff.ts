@@ -0,0 +1,63 @@
+export interface DiffRow {
+  left: string | null;
+  right: string | null;
+  // 'same' rows match once indentation and trailing spaces are ignored
+  type: 'same' | 'changed' | 'removed' | 'added';
+}
+
+// Very long files are compared without alignment to keep the table responsive
+const MAX_ALIGNED_LINES = 1500;
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+// Aligns two code listings line by line (longest common subsequence) for a side-by-side view
+export const diffLines = (leftCode: string, rightCode: string): DiffRow[] => {
+  const left = leftCode.replace(/\r\n?/g, '\n').split('\n');
+  const right = rightCode.replace(/\r\n?/g, '\n').split('\n');
+
+  if (left.length > MAX_ALIGNED_LINES || right.length > MAX_ALIGNED_LINES) {
+    return Array.from({ length: Math.max(left.length, right.length) }, (_, i) => ({
+      left: left[i] ?? null,
+      right: right[i] ?? null,
+      type: normalizeLine(left[i] ?? '') === normalizeLine(right[i] ?? '') ? 'same' : 'changed'
+    }));
+  }
+
+  const a = left.map(normalizeLine);
+  const b = right.map(normalizeLine);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  // Unmatched runs on both sides are shown next to each other as changed lines
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const type = k >= added.length ? 'removed' : k >= removed.length ? 'added' : 'changed';
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null, type });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ left: left[i++], right: right[j++], type: 'same' });
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+};
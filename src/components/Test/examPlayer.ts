@@ -0,0 +1,383 @@
+import { QuestionOptions, QuestionType } from './questionTypes';
+import { ProctoringPolicy } from './proctoringPolicy';
+import { getSessionAnswers, TestSession } from '../../hooks/useTestProgressSync';
+
+export type ExamLayout = 'tcs' | 'clean' | 'professional';
+
+// Mirrors server/utils/sectionNavigation.js, which enforces it against the attempt session
+export type SectionNavigation = 'sequential' | 'free' | 'carry_over';
+
+export const SECTION_NAVIGATION_LABELS: Record<SectionNavigation, string> = {
+  sequential: 'In order, closed sections locked',
+  carry_over: 'In order, unused time carries over',
+  free: 'Any order, one timer for the test'
+};
+
+export const EXAM_LAYOUT_LABELS: Record<ExamLayout, string> = {
+  tcs: 'TCS style',
+  clean: 'Clean',
+  professional: 'Professional'
+};
+
+// Layout used when a test does not pick one
+const TEST_TYPE_LAYOUTS: Record<string, ExamLayout> = {
+  Assessment: 'tcs',
+  'Specific Company Test': 'tcs',
+  'Mock Test': 'professional',
+  Practice: 'clean',
+  Assignment: 'clean'
+};
+
+export interface ExamQuestion {
+  _id: string;
+  questionText: string;
+  questionImageUrl?: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  optionImages?: QuestionOptions;
+  correctAnswer?: string;
+  marks: number;
+}
+
+export interface ExamCodingQuestion {
+  _id?: string;
+  questionId?: string;
+  id?: string;
+  title?: string;
+  points?: number;
+}
+
+// Extra time and a later closing time granted to this student
+export interface ExamAccommodation {
+  extraMinutes: number;
+  extendedEndDateTime?: string | null;
+}
+
+export interface ExamTest {
+  _id: string;
+  testName: string;
+  testDescription: string;
+  subject: string;
+  testType?: string;
+  examLayout?: ExamLayout | null;
+  sectionNavigation?: SectionNavigation;
+  hasSections?: boolean;
+  sections?: {
+    _id: string;
+    sectionName: string;
+    sectionDuration: number;
+    numberOfQuestions: number;
+    marksPerQuestion: number;
+    questions: ExamQuestion[];
+  }[];
+  numberOfQuestions: number;
+  totalMarks: number;
+  duration: number;
+  questions: ExamQuestion[];
+  hasCodingSection?: boolean;
+  codingQuestions?: ExamCodingQuestion[];
+  proctoring?: ProctoringPolicy;
+  accommodation?: ExamAccommodation;
+}
+
+// One timed block of MCQs; a test without sections is a single unnamed block
+export interface ExamSection {
+  name: string | null;
+  duration: number;
+  questions: ExamQuestion[];
+}
+
+export type QuestionStatus = 'not-visited' | 'not-answered' | 'answered' | 'marked';
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  'answered': 'Answered',
+  'not-answered': 'Not Answered',
+  'marked': 'Marked for Review',
+  'not-visited': 'Not Visited'
+};
+
+export const QUESTION_STATUS_COLORS: Record<QuestionStatus, string> = {
+  'answered': 'bg-green-500 text-white',
+  'not-answered': 'bg-red-500 text-white',
+  'marked': 'bg-purple-500 text-white',
+  'not-visited': 'bg-gray-300 text-gray-700'
+};
+
+export interface ExamState {
+  phase: 'instructions' | 'questions' | 'coding';
+  dialog: 'section-complete' | 'submit' | null;
+  sectionIndex: number;
+  questionIndex: number;
+  answers: { [questionId: string]: string };
+  marked: { [questionId: string]: boolean };
+  visited: { [questionId: string]: boolean };
+  // Seconds left in the current section, or in the whole test under free navigation;
+  // in the coding round, seconds left before the attempt's deadline
+  timeLeft: number;
+  // Set when the last section ran out of time and the attempt must be submitted
+  timeUp: boolean;
+  // Extra minutes granted to the student that the timers include
+  extraMinutes: number;
+  codingQuestionId: string | null;
+  submitting: boolean;
+}
+
+export type ExamAction =
+  | { type: 'start' }
+  | { type: 'answer'; questionId: string; answer: string }
+  | { type: 'clear' }
+  | { type: 'toggle-mark' }
+  | { type: 'go-to'; questionIndex: number }
+  | { type: 'go-to-section'; sectionIndex: number }
+  | { type: 'prev' }
+  | { type: 'save-next' }
+  | { type: 'mark-next' }
+  // secondsToDeadline is how long the server still accepts the attempt, when it is known
+  | { type: 'tick'; secondsToDeadline?: number }
+  | { type: 'grant-time'; extraMinutes: number }
+  | { type: 'next-section' }
+  | { type: 'select-coding'; questionId: string }
+  | { type: 'open-submit' }
+  | { type: 'close-dialog' }
+  | { type: 'submit-start' }
+  | { type: 'submit-failed' };
+
+export const resolveExamLayout = (test: Pick<ExamTest, 'examLayout' | 'testType'>): ExamLayout =>
+  test.examLayout || TEST_TYPE_LAYOUTS[test.testType || ''] || 'tcs';
+
+export const getExamSections = (test: ExamTest): ExamSection[] => {
+  if (test.hasSections && test.sections && test.sections.length > 0) {
+    return test.sections.map(section => ({
+      name: section.sectionName,
+      duration: section.sectionDuration,
+      questions: section.questions
+    }));
+  }
+  return test.questions.length > 0 ? [{ name: null, duration: test.duration, questions: test.questions }] : [];
+};
+
+export const getSectionNavigation = (test: ExamTest): SectionNavigation => test.sectionNavigation || 'sequential';
+
+// The student's extra seconds on a section's timer, shared out in proportion to section
+// length; a single timer gets them all. Mirrors server/utils/accommodations.js.
+const getExtraSeconds = (test: ExamTest, sections: ExamSection[], sectionIndex: number, extraMinutes: number) => {
+  const total = extraMinutes * 60;
+  if (!total || sections.length <= 1 || getSectionNavigation(test) === 'free') return total;
+
+  const testMinutes = sections.reduce((sum, section) => sum + section.duration, 0);
+  if (!testMinutes || !sections[sectionIndex]) return 0;
+
+  const before = sections.slice(0, sectionIndex).reduce((sum, section) => sum + section.duration, 0);
+  const through = before + sections[sectionIndex].duration;
+  return Math.round(total * through / testMinutes) - Math.round(total * before / testMinutes);
+};
+
+// Seconds on the clock when a section opens; free navigation runs one timer for every section
+const getTimeLimit = (test: ExamTest, sections: ExamSection[], sectionIndex: number, extraMinutes: number) =>
+  (getSectionNavigation(test) === 'free'
+    ? sections.reduce((total, section) => total + section.duration, 0) * 60
+    : (sections[sectionIndex]?.duration || 0) * 60) + getExtraSeconds(test, sections, sectionIndex, extraMinutes);
+
+export const getCodingQuestionId = (question: ExamCodingQuestion) =>
+  question._id || question.questionId || question.id || null;
+
+const hasCoding = (test: ExamTest) => !!test.hasCodingSection && (test.codingQuestions || []).length > 0;
+
+const visit = (state: ExamState, sections: ExamSection[]): ExamState => {
+  const question = sections[state.sectionIndex]?.questions[state.questionIndex];
+  if (!question || state.visited[question._id]) return state;
+  return { ...state, visited: { ...state.visited, [question._id]: true } };
+};
+
+// What happens when the running timer reaches zero: later sections and the coding round
+// are still open; otherwise the attempt ends
+const runOutOfTime = (state: ExamState, test: ExamTest, sections: ExamSection[]): ExamState => {
+  const isLastTimer = state.sectionIndex >= sections.length - 1 || getSectionNavigation(test) === 'free';
+  if (isLastTimer && !hasCoding(test)) return { ...state, timeLeft: 0, timeUp: true, dialog: null };
+  return { ...state, timeLeft: 0, dialog: 'section-complete' };
+};
+
+const startCoding = (state: ExamState, test: ExamTest): ExamState => ({
+  ...state,
+  phase: 'coding',
+  dialog: null,
+  codingQuestionId: state.codingQuestionId || getCodingQuestionId((test.codingQuestions || [])[0] || {})
+});
+
+// Restores answers, review marks, position and remaining time from a saved session.
+// A session resumed with no time left goes straight to submission.
+export const createExamState = (test: ExamTest, session?: TestSession | null): ExamState => {
+  const sections = getExamSections(test);
+  const restored = getSessionAnswers(session);
+  const sectionIndex = Math.min(session?.currentSectionIndex || 0, Math.max(sections.length - 1, 0));
+  const questionCount = sections[sectionIndex]?.questions.length || 0;
+  const extraMinutes = test.accommodation?.extraMinutes || 0;
+
+  const state: ExamState = {
+    phase: 'instructions',
+    dialog: null,
+    sectionIndex,
+    questionIndex: Math.min(session?.currentQuestionIndex || 0, Math.max(questionCount - 1, 0)),
+    answers: restored.answers,
+    marked: Object.fromEntries(restored.markedForReview.map(id => [id, true])),
+    visited: Object.fromEntries((session?.responses || []).map(r => [r.questionId, true])),
+    timeLeft: session?.remainingTime ?? getTimeLimit(test, sections, sectionIndex, extraMinutes),
+    timeUp: false,
+    extraMinutes,
+    codingQuestionId: null,
+    submitting: false
+  };
+
+  const expired = session?.remainingTime !== null && session?.remainingTime !== undefined && session.remainingTime <= 0;
+  if (!expired || sections.length === 0) return state;
+  const resumed = runOutOfTime(state, test, sections);
+  return resumed.timeUp ? { ...resumed, phase: 'questions' } : resumed;
+};
+
+// The single state machine behind every exam layout: instructions, then the sections as
+// the test's navigation allows, then the coding round (if any), then submission
+export const examReducer = (test: ExamTest) => {
+  const sections = getExamSections(test);
+  const navigation = getSectionNavigation(test);
+
+  const reducer = (state: ExamState, action: ExamAction): ExamState => {
+    const section = sections[state.sectionIndex];
+    const question = section?.questions[state.questionIndex];
+    const isLastSection = state.sectionIndex >= sections.length - 1;
+
+    switch (action.type) {
+      case 'start':
+        if (sections.length === 0) return startCoding(state, test);
+        // A resumed section with no time left opens on its summary
+        return visit({ ...state, phase: 'questions' }, sections);
+
+      case 'answer': {
+        const answers = { ...state.answers };
+        if (action.answer) answers[action.questionId] = action.answer;
+        else delete answers[action.questionId];
+        return { ...state, answers, marked: { ...state.marked, [action.questionId]: false } };
+      }
+
+      case 'clear': {
+        if (!question) return state;
+        const answers = { ...state.answers };
+        delete answers[question._id];
+        return { ...state, answers };
+      }
+
+      case 'toggle-mark':
+        if (!question) return state;
+        return { ...state, marked: { ...state.marked, [question._id]: !state.marked[question._id] } };
+
+      case 'go-to':
+        if (!section || action.questionIndex < 0 || action.questionIndex >= section.questions.length) return state;
+        return visit({ ...state, questionIndex: action.questionIndex }, sections);
+
+      case 'go-to-section':
+        // Only free navigation lets students switch sections; the server refuses it otherwise
+        if (navigation !== 'free' || !sections[action.sectionIndex]) return state;
+        return visit({ ...state, sectionIndex: action.sectionIndex, questionIndex: 0 }, sections);
+
+      case 'prev':
+        return reducer(state, { type: 'go-to', questionIndex: state.questionIndex - 1 });
+
+      case 'save-next':
+        if (!section) return state;
+        if (state.questionIndex < section.questions.length - 1) {
+          return reducer(state, { type: 'go-to', questionIndex: state.questionIndex + 1 });
+        }
+        return { ...state, dialog: 'section-complete' };
+
+      case 'mark-next':
+        if (!question) return state;
+        return reducer({ ...state, marked: { ...state.marked, [question._id]: true } }, { type: 'save-next' });
+
+      case 'tick': {
+        if (state.phase === 'instructions' || state.timeUp || state.submitting) return state;
+        const { secondsToDeadline } = action;
+        // Past the deadline the attempt ends in any phase. An open submit dialog is left to the
+        // student, so a failed submission is not retried every second.
+        if (secondsToDeadline !== undefined && secondsToDeadline <= 0) {
+          return state.dialog === 'submit' ? state : { ...state, timeLeft: 0, timeUp: true, dialog: null };
+        }
+        if (state.phase === 'coding') {
+          return secondsToDeadline === undefined ? state : { ...state, timeLeft: secondsToDeadline };
+        }
+        if (state.timeLeft <= 0) return state;
+        if (state.timeLeft > 1) return { ...state, timeLeft: state.timeLeft - 1 };
+        return runOutOfTime(state, test, sections);
+      }
+
+      case 'grant-time': {
+        // Extra time granted (or withdrawn) while the attempt is running
+        if (action.extraMinutes === state.extraMinutes || state.timeUp) return state;
+        const change = getExtraSeconds(test, sections, state.sectionIndex, action.extraMinutes) -
+          getExtraSeconds(test, sections, state.sectionIndex, state.extraMinutes);
+        return { ...state, extraMinutes: action.extraMinutes, timeLeft: Math.max(0, state.timeLeft + change) };
+      }
+
+      case 'next-section': {
+        if (isLastSection || (navigation === 'free' && state.timeLeft === 0)) {
+          return hasCoding(test) ? startCoding(state, test) : { ...state, dialog: 'submit' };
+        }
+        const sectionIndex = state.sectionIndex + 1;
+        const timeLeft = navigation === 'free'
+          ? state.timeLeft
+          : getTimeLimit(test, sections, sectionIndex, state.extraMinutes) + (navigation === 'carry_over' ? state.timeLeft : 0);
+        return visit({ ...state, dialog: null, sectionIndex, questionIndex: 0, timeLeft }, sections);
+      }
+
+      case 'select-coding':
+        return { ...state, codingQuestionId: action.questionId };
+
+      case 'open-submit':
+        return { ...state, dialog: 'submit' };
+
+      case 'close-dialog':
+        // The section summary stays open once its time is up
+        if (state.dialog === 'section-complete' && state.timeLeft === 0) return state;
+        return state.submitting ? state : { ...state, dialog: null };
+
+      case 'submit-start':
+        return { ...state, submitting: true };
+
+      case 'submit-failed':
+        return { ...state, submitting: false, timeUp: false, dialog: 'submit' };
+
+      default:
+        return state;
+    }
+  };
+
+  return reducer;
+};
+
+export const getQuestionStatus = (state: ExamState, question: ExamQuestion): QuestionStatus => {
+  if (state.marked[question._id]) return 'marked';
+  if (state.answers[question._id]) return 'answered';
+  if (state.visited[question._id]) return 'not-answered';
+  return 'not-visited';
+};
+
+export const getStatusCounts = (state: ExamState, questions: ExamQuestion[]) => {
+  const counts: Record<QuestionStatus, number> = { 'answered': 0, 'not-answered': 0, 'marked': 0, 'not-visited': 0 };
+  questions.forEach(question => {
+    counts[getQuestionStatus(state, question)]++;
+  });
+  return counts;
+};
+
+// Timer colours for the last ten and five minutes of a section
+export const getTimerClassName = (seconds: number) => {
+  if (seconds <= 300) return 'bg-red-100 text-red-700';
+  if (seconds <= 600) return 'bg-orange-100 text-orange-700';
+  return 'bg-green-100 text-green-700';
+};
+
+export const formatExamTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${pad(hours)}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+};
@@ -0,0 +1,54 @@
+export type ProctoringEventType =
+  | 'tab_switch'
+  | 'fullscreen_exit'
+  | 'copy'
+  | 'paste'
+  | 'right_click'
+  | 'devtools_open'
+  | 'window_blur';
+
+// Per-test proctoring rules; the server counts violations with the same policy
+export interface ProctoringPolicy {
+  countedEvents: ProctoringEventType[];
+  maxViolations: number;
+  // 'submit' closes the attempt at the limit; 'warn' only warns the student
+  onLimit: 'submit' | 'warn';
+  requireFullscreen: boolean;
+  blockCopyPaste: boolean;
+  // Opt-in webcam snapshots every snapshotInterval seconds and after each violation
+  webcamSnapshots: boolean;
+  snapshotInterval: number;
+}
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  tab_switch: 'Tab switch',
+  fullscreen_exit: 'Exited fullscreen',
+  copy: 'Copy',
+  paste: 'Paste',
+  right_click: 'Right-click',
+  devtools_open: 'Developer tools opened',
+  window_blur: 'Window lost focus'
+};
+
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  countedEvents: ['tab_switch', 'fullscreen_exit', 'copy', 'paste', 'devtools_open'],
+  maxViolations: 3,
+  onLimit: 'submit',
+  requireFullscreen: true,
+  blockCopyPaste: false,
+  webcamSnapshots: false,
+  snapshotInterval: 60
+};
+
+export const resolveProctoringPolicy = (policy?: Partial<ProctoringPolicy> | null): ProctoringPolicy => ({
+  ...DEFAULT_PROCTORING_POLICY,
+  ...policy
+});
+
+// Shown to the student each time a violation is counted
+export const getViolationWarning = (violations: number, policy: ProctoringPolicy) => {
+  const warning = `⚠️ Warning: A proctoring violation has been recorded (${violations}/${policy.maxViolations}).`;
+  return policy.onLimit === 'submit'
+    ? `${warning} The test is submitted automatically at ${policy.maxViolations}.`
+    : `${warning} Violations are reported to your faculty.`;
+};
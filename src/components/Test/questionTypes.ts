@@ -0,0 +1,71 @@
+// Objective question types shared by the exam, results and authoring components
+
+export type QuestionType = 'single' | 'multiple' | 'true_false' | 'numeric' | 'fill_blank';
+
+export const OPTION_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+export type OptionLabel = typeof OPTION_LABELS[number];
+
+export type QuestionOptions = Partial<Record<OptionLabel, string>>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single correct',
+  multiple: 'Multiple correct',
+  true_false: 'True / False',
+  numeric: 'Numeric answer',
+  fill_blank: 'Fill in the blank'
+};
+
+// Multiple-correct answers travel as sorted labels joined by commas ("A,C")
+export const splitAnswerLabels = (answer?: string | null): string[] =>
+  (answer || '').split(',').map(label => label.trim()).filter(Boolean);
+
+export interface EditableQuestion {
+  questionText: string;
+  questionType?: QuestionType;
+  options: QuestionOptions;
+  optionImages?: QuestionOptions;
+  correctAnswer: string;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+}
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+export const getUsedLabels = (options: QuestionOptions): OptionLabel[] =>
+  OPTION_LABELS.filter(label => options[label] !== undefined);
+
+// Mirrors the server-side question validation so the form can block incomplete questions
+export const isQuestionComplete = (question: EditableQuestion): boolean => {
+  if (question.questionText.trim() === '') return false;
+
+  const questionType = question.questionType || 'single';
+  if (questionType === 'numeric') {
+    return question.correctAnswer.trim() !== '' && !isNaN(Number(question.correctAnswer)) &&
+      (question.tolerance === undefined || question.tolerance >= 0);
+  }
+  if (questionType === 'fill_blank') {
+    return (question.acceptedAnswers || []).some(answer => answer.trim() !== '');
+  }
+
+  const labels = getUsedLabels(question.options);
+  const correct = splitAnswerLabels(question.correctAnswer);
+  if (correct.length === 0 || correct.some(label => !labels.includes(label as OptionLabel))) return false;
+  if (questionType === 'true_false') return correct.length === 1;
+
+  return labels.length >= MIN_OPTIONS && labels.length <= MAX_OPTIONS &&
+    labels.every(label => (question.options[label] || '').trim() !== '' || !!question.optionImages?.[label]) &&
+    (questionType === 'multiple' || correct.length === 1);
+};
+
+// Readable answer for question types that have no options to highlight
+export const describeTextAnswer = (question: EditableQuestion): string | null => {
+  if (question.questionType === 'numeric') {
+    return question.tolerance ? `${question.correctAnswer} (±${question.tolerance})` : question.correctAnswer;
+  }
+  if (question.questionType === 'fill_blank') {
+    return (question.acceptedAnswers || []).filter(answer => answer.trim()).join(' / ');
+  }
+  return null;
+};
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import useTestProgressSync, { TestSession } from './useTestProgressSync';
+import useProctoringEvents from './useProctoringEvents';
+import useWebcamSnapshots from './useWebcamSnapshots';
+import {
+  createExamState, examReducer, ExamState, ExamTest, getExamSections, getSectionNavigation, getStatusCounts
+} from '../components/Test/examPlayer';
+import { getViolationWarning, resolveProctoringPolicy } from '../components/Test/proctoringPolicy';
+
+export interface ExamAnswer {
+  questionId: string;
+  selectedAnswer: string;
+}
+
+interface ExamPlayerOptions {
+  startTime: Date;
+  session?: TestSession | null;
+  onSubmit: (answers: ExamAnswer[], timeSpent: number) => Promise<void>;
+  onExit: () => void;
+}
+
+const exitFullscreen = () => {
+  if (document.fullscreenElement) {
+    return document.exitFullscreen().catch(() => {});
+  }
+  return Promise.resolve();
+};
+
+// Runs an attempt for any exam layout: the shared state machine plus progress sync,
+// proctoring, webcam snapshots, the section timer and submission
+const useExamPlayer = (test: ExamTest, { startTime, session, onSubmit, onExit }: ExamPlayerOptions) => {
+  const reducer = useMemo(() => examReducer(test), [test]);
+  const [state, dispatch] = useReducer(reducer, undefined, () => createExamState(test, session));
+  const stateRef = useRef<ExamState>(state);
+  stateRef.current = state;
+
+  const sections = useMemo(() => getExamSections(test), [test]);
+  const policy = resolveProctoringPolicy(test.proctoring);
+  const navigation = getSectionNavigation(test);
+  const currentSection = sections[state.sectionIndex] || null;
+  const currentQuestion = currentSection?.questions[state.questionIndex] || null;
+  const active = !!session && state.phase !== 'instructions' && !state.submitting;
+
+  // Progress saves and proctoring events can both report the close; react to it once
+  const closedRef = useRef(false);
+  const closedByServer = (status: string) => {
+    if (closedRef.current) return;
+    closedRef.current = true;
+    exitFullscreen();
+    if (status === 'timeout') {
+      alert('Time ran out on this attempt, so it was submitted with the answers saved before the deadline.');
+    } else if (status === 'auto-submitted-violations') {
+      alert('Your test was submitted automatically because the proctoring violation limit was reached.');
+    } else {
+      alert('This attempt has already been submitted.');
+    }
+    onExit();
+  };
+
+  // When the server stops accepting the attempt; saves report it again after an extension
+  const deadlineRef = useRef(session?.deadline ? new Date(session.deadline).getTime() : null);
+
+  const { recordResponse, updatePosition } = useTestProgressSync(test._id, active, result => {
+    if (result.status && result.status !== 'in_progress') {
+      closedByServer(result.status);
+      return;
+    }
+    if (result.deadline) deadlineRef.current = new Date(result.deadline).getTime();
+    if (result.extraMinutes !== undefined) dispatch({ type: 'grant-time', extraMinutes: result.extraMinutes });
+  });
+  const { cameraStatus, captureSnapshot } = useWebcamSnapshots(test._id, active && policy.webcamSnapshots, policy.snapshotInterval);
+  const { violations, maxViolations, setContext } = useProctoringEvents(test._id, active, {
+    initialViolations: session?.violations,
+    maxViolations: policy.maxViolations,
+    onViolation: (count, max) => {
+      captureSnapshot('violation');
+      alert(getViolationWarning(count, { ...policy, maxViolations: max }));
+    },
+    onTerminated: closedByServer
+  });
+
+  // Every phase counts down to the deadline, including the coding round
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => {
+      const deadline = deadlineRef.current;
+      dispatch({
+        type: 'tick',
+        ...(deadline !== null ? { secondsToDeadline: Math.ceil((deadline - new Date().getTime()) / 1000) } : {})
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  useEffect(() => {
+    updatePosition({
+      currentSectionIndex: state.sectionIndex,
+      currentQuestionIndex: state.questionIndex,
+      ...(state.phase === 'questions' ? { remainingTime: state.timeLeft, extraMinutes: state.extraMinutes } : {})
+    });
+  }, [state.sectionIndex, state.questionIndex, state.timeLeft, state.extraMinutes, state.phase, updatePosition]);
+
+  useEffect(() => {
+    setContext(state.phase === 'coding'
+      ? { questionId: state.codingQuestionId }
+      : { questionId: currentQuestion?._id, sectionIndex: state.sectionIndex, questionIndex: state.questionIndex });
+  }, [state.phase, state.codingQuestionId, currentQuestion, state.sectionIndex, state.questionIndex, setContext]);
+
+  const submit = useCallback(async () => {
+    if (stateRef.current.submitting) return;
+    dispatch({ type: 'submit-start' });
+
+    try {
+      const answers = Object.entries(stateRef.current.answers).map(([questionId, selectedAnswer]) => ({
+        questionId,
+        selectedAnswer
+      }));
+      const timeSpent = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
+      await exitFullscreen();
+      await onSubmit(answers, timeSpent);
+    } catch (error) {
+      console.error('Error submitting test:', error);
+      alert('Error submitting test. Please try again.');
+      dispatch({ type: 'submit-failed' });
+    }
+  }, [startTime, onSubmit]);
+
+  useEffect(() => {
+    if (state.timeUp) submit();
+  }, [state.timeUp, submit]);
+
+  const start = () => {
+    if (policy.requireFullscreen && !document.fullscreenElement) {
+      document.documentElement.requestFullscreen().catch(error => {
+        console.error('Error entering fullscreen:', error);
+      });
+    }
+    dispatch({ type: 'start' });
+  };
+
+  const answer = (questionId: string, value: string) => {
+    dispatch({ type: 'answer', questionId, answer: value });
+    recordResponse(questionId, { selectedAnswer: value || null, markedForReview: false });
+  };
+
+  const clear = () => {
+    if (!currentQuestion) return;
+    dispatch({ type: 'clear' });
+    recordResponse(currentQuestion._id, { selectedAnswer: null });
+  };
+
+  const toggleMark = () => {
+    if (!currentQuestion) return;
+    dispatch({ type: 'toggle-mark' });
+    recordResponse(currentQuestion._id, { markedForReview: !state.marked[currentQuestion._id] });
+  };
+
+  const markAndNext = () => {
+    if (!currentQuestion) return;
+    dispatch({ type: 'mark-next' });
+    recordResponse(currentQuestion._id, { markedForReview: true });
+  };
+
+  return {
+    state,
+    sections,
+    currentSection,
+    currentQuestion,
+    counts: getStatusCounts(state, currentSection?.questions || []),
+    policy,
+    violations,
+    maxViolations,
+    cameraStatus,
+    navigation,
+    // Free navigation has one timer, so once it runs out no section is left to move to
+    hasNextSection: state.sectionIndex < sections.length - 1 && !(navigation === 'free' && state.timeLeft === 0),
+    start,
+    answer,
+    clear,
+    toggleMark,
+    markAndNext,
+    goTo: (questionIndex: number) => dispatch({ type: 'go-to', questionIndex }),
+    goToSection: (sectionIndex: number) => dispatch({ type: 'go-to-section', sectionIndex }),
+    prev: () => dispatch({ type: 'prev' }),
+    saveAndNext: () => dispatch({ type: 'save-next' }),
+    nextSection: () => dispatch({ type: 'next-section' }),
+    selectCodingQuestion: (questionId: string) => dispatch({ type: 'select-coding', questionId }),
+    openSubmit: () => dispatch({ type: 'open-submit' }),
+    closeDialog: () => dispatch({ type: 'close-dialog' }),
+    submit
+  };
+};
+
+export type ExamPlayer = ReturnType<typeof useExamPlayer>;
+
+export default useExamPlayer;
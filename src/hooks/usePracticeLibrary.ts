@@ -0,0 +1,77 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useState } from 'react';
+import apiService from '../services/api';
+import { PracticeListSummary, QuestionMarks } from '../components/Coding/practiceLibrary';
+
+type MarkedQuestion = { id: string } & Partial<QuestionMarks>;
+
+// Bookmarks, notes and custom lists for a question list view. Changes are saved on the
+// server and applied to the view's questions through setQuestions.
+const usePracticeLibrary = <T extends MarkedQuestion>(setQuestions: Dispatch<SetStateAction<T[]>>) => {
+  const [lists, setLists] = useState<PracticeListSummary[]>([]);
+
+  const updateQuestion = useCallback((questionId: string, update: (question: T) => Partial<QuestionMarks>) => {
+    setQuestions(questions => questions.map(q => (q.id === questionId ? { ...q, ...update(q) } : q)));
+  }, [setQuestions]);
+
+  useEffect(() => {
+    apiService.getPracticeLists()
+      .then(data => setLists(data as PracticeListSummary[]))
+      .catch(error => console.error('Error fetching practice lists:', error));
+  }, []);
+
+  const toggleBookmark = async (question: MarkedQuestion) => {
+    try {
+      const result = await apiService.setQuestionBookmark(question.id, !question.bookmarked) as QuestionMarks;
+      updateQuestion(question.id, () => ({ bookmarked: result.bookmarked }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update bookmark');
+    }
+  };
+
+  const saveNote = async (questionId: string, note: string) => {
+    const result = await apiService.saveQuestionNote(questionId, note) as QuestionMarks;
+    updateQuestion(questionId, () => ({ note: result.note }));
+  };
+
+  const toggleList = async (question: MarkedQuestion, listId: string) => {
+    const questionId = question.id;
+    const inList = !!question.lists?.includes(listId);
+
+    try {
+      const updated = (inList
+        ? await apiService.removeQuestionFromList(listId, questionId)
+        : await apiService.addQuestionToList(listId, questionId)) as PracticeListSummary;
+      setLists(current => current.map(l => (l.id === listId ? updated : l)));
+      updateQuestion(questionId, q => ({
+        lists: inList ? (q.lists || []).filter(id => id !== listId) : [...(q.lists || []), listId]
+      }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update list');
+    }
+  };
+
+  const createList = async (name: string) => {
+    const list = await apiService.createPracticeList(name) as PracticeListSummary;
+    setLists(current => [...current, list].sort((a, b) => a.name.localeCompare(b.name)));
+    return list;
+  };
+
+  const renameList = async (listId: string, name: string) => {
+    const list = await apiService.renamePracticeList(listId, name) as PracticeListSummary;
+    setLists(current => current.map(l => (l.id === listId ? list : l)).sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const deleteList = async (listId: string) => {
+    await apiService.deletePracticeList(listId);
+    setLists(current => current.filter(l => l.id !== listId));
+    setQuestions(questions => questions.map(q => (
+      q.lists?.includes(listId) ? { ...q, lists: q.lists.filter(id => id !== listId) } : q
+    )));
+  };
+
+  return { lists, toggleBookmark, saveNote, toggleList, createList, renameList, deleteList };
+};
+
+export type PracticeLibrary = ReturnType<typeof usePracticeLibrary>;
+
+export default usePracticeLibrary;
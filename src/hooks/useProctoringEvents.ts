@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import apiService from '../services/api';
+import { ProctoringEventType } from '../components/Test/proctoringPolicy';
+
+// Where the student was when the event happened
+export interface ProctoringContext {
+  questionId?: string | null;
+  sectionIndex?: number | null;
+  questionIndex?: number | null;
+}
+
+interface ProctoringEvent extends ProctoringContext {
+  type: ProctoringEventType;
+  occurredAt: string;
+  details?: string;
+}
+
+interface ProctoringEventsResponse {
+  violations: number;
+  maxViolations: number;
+  status: string;
+}
+
+interface ProctoringOptions {
+  // Violations already recorded when resuming an attempt
+  initialViolations?: number;
+  // Limit from the test's proctoring policy, shown until the server reports it
+  maxViolations?: number;
+  // Called when the server counts a new violation
+  onViolation?: (violations: number, maxViolations: number) => void;
+  // Called once the server has closed the attempt (e.g. auto-submitted for violations)
+  onTerminated?: (status: string) => void;
+}
+
+const RETRY_MS = 5000;
+const MAX_BATCH = 50;
+const DEVTOOLS_CHECK_MS = 2000;
+// Docked devtools make the window's outer size much larger than the page
+const DEVTOOLS_GAP_PX = 160;
+
+// Streams proctoring events (tab switches, fullscreen exits, copy/paste, right-clicks,
+// devtools and window blur) to the server as they happen. The server keeps the log,
+// counts violations and closes the attempt when the limit is reached.
+const useProctoringEvents = (testId: string, active: boolean, options: ProctoringOptions = {}) => {
+  const [violations, setViolations] = useState(options.initialViolations || 0);
+  const [maxViolations, setMaxViolations] = useState(options.maxViolations || 3);
+  const queueRef = useRef<ProctoringEvent[]>([]);
+  const contextRef = useRef<ProctoringContext>({});
+  const sendingRef = useRef(false);
+  const violationsRef = useRef(options.initialViolations || 0);
+  const terminatedRef = useRef(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const flush = useCallback(async () => {
+    if (sendingRef.current || terminatedRef.current || queueRef.current.length === 0) return;
+
+    const events = queueRef.current.splice(0, MAX_BATCH);
+    sendingRef.current = true;
+
+    try {
+      const response = await apiService.recordProctoringEvents(testId, events) as ProctoringEventsResponse;
+      setMaxViolations(response.maxViolations);
+      if (response.violations > violationsRef.current) {
+        violationsRef.current = response.violations;
+        setViolations(response.violations);
+        optionsRef.current.onViolation?.(response.violations, response.maxViolations);
+      }
+      if (response.status !== 'in_progress') {
+        terminatedRef.current = true;
+        optionsRef.current.onTerminated?.(response.status);
+      }
+    } catch (error) {
+      // Keep the events for the next try so none are lost while offline
+      queueRef.current.unshift(...events);
+      console.error('Failed to record proctoring events:', error);
+    } finally {
+      sendingRef.current = false;
+    }
+  }, [testId]);
+
+  const recordEvent = useCallback((type: ProctoringEventType, details?: string) => {
+    queueRef.current.push({
+      type,
+      occurredAt: new Date().toISOString(),
+      ...contextRef.current,
+      ...(details ? { details } : {})
+    });
+    flush();
+  }, [flush]);
+
+  const setContext = useCallback((context: ProctoringContext) => {
+    contextRef.current = context;
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) recordEvent('tab_switch');
+    };
+    const handleBlur = () => recordEvent('window_blur');
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) recordEvent('fullscreen_exit');
+    };
+    const handleCopy = () => recordEvent('copy');
+    const handlePaste = () => recordEvent('paste');
+    const handleContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+      recordEvent('right_click');
+    };
+
+    let devtoolsOpen = false;
+    const devtoolsCheck = setInterval(() => {
+      const open = window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX ||
+        window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+      if (open && !devtoolsOpen) recordEvent('devtools_open');
+      devtoolsOpen = open;
+    }, DEVTOOLS_CHECK_MS);
+    const retry = setInterval(() => {
+      flush();
+    }, RETRY_MS);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('contextmenu', handleContextMenu);
+
+    return () => {
+      clearInterval(devtoolsCheck);
+      clearInterval(retry);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('contextmenu', handleContextMenu);
+    };
+  }, [active, recordEvent, flush]);
+
+  return { violations, maxViolations, recordEvent, setContext };
+};
+
+export default useProctoringEvents;
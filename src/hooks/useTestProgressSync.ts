@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef } from 'react';
+import apiService from '../services/api';
+
+export interface SavedResponse {
+  questionId: string;
+  selectedAnswer: string | null;
+  markedForReview: boolean;
+  timeSpent: number;
+}
+
+// Server-side state of an in_progress attempt, returned by /tests/:id/start and /tests/:id/resume
+export interface TestSession {
+  attemptId: string;
+  startTime: string;
+  responses: SavedResponse[];
+  currentSectionIndex: number;
+  currentQuestionIndex: number;
+  remainingTime: number | null;
+  lastSavedAt: string | null;
+  violations: number;
+  // When the server stops accepting answers for this attempt
+  deadline?: string;
+}
+
+interface ProgressPosition {
+  currentSectionIndex: number;
+  currentQuestionIndex: number;
+  remainingTime: number | null;
+  // Extra time the running timer includes, so the server can correct it after a new grant
+  extraMinutes: number;
+}
+
+// What the server holds after a save
+export interface ProgressResult {
+  lastSavedAt: string;
+  currentSectionIndex: number;
+  rejectedResponses: number;
+  extraMinutes: number;
+  // Anything but in_progress means the server has closed the attempt, e.g. 'timeout'
+  status?: string;
+  deadline?: string;
+}
+
+type PendingResponse = Partial<SavedResponse> & { questionId: string };
+
+const SAVE_DEBOUNCE_MS = 1500;
+const HEARTBEAT_MS = 15000;
+
+// Answers and review marks from a saved session, in the shape the test interfaces keep in state
+export const getSessionAnswers = (session?: TestSession | null) => {
+  const answers: { [questionId: string]: string } = {};
+  const markedForReview: string[] = [];
+
+  (session?.responses || []).forEach(response => {
+    if (response.selectedAnswer) answers[response.questionId] = response.selectedAnswer;
+    if (response.markedForReview) markedForReview.push(response.questionId);
+  });
+
+  return { answers, markedForReview };
+};
+
+// Streams answer, review-flag and timer changes to the server so an interrupted attempt can be resumed.
+// Answer changes are saved after a short debounce; position and remaining time ride along on a heartbeat.
+const useTestProgressSync = (testId: string, active: boolean, onSaved?: (result: ProgressResult) => void) => {
+  const pendingRef = useRef<Map<string, PendingResponse>>(new Map());
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+  const positionRef = useRef<Partial<ProgressPosition>>({});
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef(false);
+
+  const flush = useCallback(async () => {
+    if (savingRef.current) return;
+
+    const responses = Array.from(pendingRef.current.values());
+    pendingRef.current.clear();
+    savingRef.current = true;
+
+    try {
+      const result = await apiService.saveTestProgress(testId, { responses, ...positionRef.current }) as ProgressResult;
+      onSavedRef.current?.(result);
+    } catch (error) {
+      // Keep unsaved responses for the next attempt, letting newer edits win
+      responses.forEach(response => {
+        pendingRef.current.set(response.questionId, {
+          ...response,
+          ...pendingRef.current.get(response.questionId)
+        });
+      });
+      console.error('Failed to save test progress:', error);
+    } finally {
+      savingRef.current = false;
+    }
+  }, [testId]);
+
+  const recordResponse = useCallback((questionId: string, patch: Partial<Omit<SavedResponse, 'questionId'>>) => {
+    pendingRef.current.set(questionId, {
+      ...pendingRef.current.get(questionId),
+      ...patch,
+      questionId
+    });
+
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      flush();
+    }, SAVE_DEBOUNCE_MS);
+  }, [flush]);
+
+  const updatePosition = useCallback((position: Partial<ProgressPosition>) => {
+    positionRef.current = { ...positionRef.current, ...position };
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const heartbeat = setInterval(() => {
+      flush();
+    }, HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    };
+  }, [active, flush]);
+
+  return { recordResponse, updatePosition, flush };
+};
+
+export default useTestProgressSync;
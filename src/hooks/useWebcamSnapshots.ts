@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import apiService from '../services/api';
+
+export type CameraStatus = 'off' | 'starting' | 'on' | 'unavailable';
+
+const SNAPSHOT_WIDTH = 320;
+const SNAPSHOT_HEIGHT = 240;
+const JPEG_QUALITY = 0.6;
+
+// Takes webcam snapshots every intervalSeconds while active and uploads them with the
+// attempt. captureSnapshot('violation') adds an extra one, e.g. right after a violation.
+const useWebcamSnapshots = (testId: string, active: boolean, intervalSeconds: number) => {
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('off');
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const captureSnapshot = useCallback(async (reason: 'interval' | 'violation' = 'interval') => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return;
+
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement('canvas');
+      canvasRef.current.width = SNAPSHOT_WIDTH;
+      canvasRef.current.height = SNAPSHOT_HEIGHT;
+    }
+    const canvas = canvasRef.current;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, SNAPSHOT_WIDTH, SNAPSHOT_HEIGHT);
+
+    const takenAt = new Date().toISOString();
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) return;
+
+    try {
+      await apiService.uploadProctoringSnapshot(testId, blob, takenAt, reason);
+    } catch (error) {
+      // A missed snapshot is not worth interrupting the test for
+      console.error('Failed to upload proctoring snapshot:', error);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraStatus('unavailable');
+        return;
+      }
+
+      setCameraStatus('starting');
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { width: SNAPSHOT_WIDTH, height: SNAPSHOT_HEIGHT },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        await video.play();
+        videoRef.current = video;
+        setCameraStatus('on');
+
+        captureSnapshot('interval');
+        timer = setInterval(() => captureSnapshot('interval'), intervalSeconds * 1000);
+      } catch (error) {
+        console.error('Camera access failed:', error);
+        setCameraStatus('unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      videoRef.current = null;
+      setCameraStatus('off');
+    };
+  }, [active, intervalSeconds, captureSnapshot]);
+
+  return { cameraStatus, captureSnapshot };
+};
+
+export default useWebcamSnapshots;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Users, GraduationCap, CheckCircle, Clock, FileText, Send, Eye, Upload, CreditCard as Edit, Trash2 } from 'lucide-react';
+import { Plus, Users, GraduationCap, CheckCircle, Clock, FileText, Send, Eye, Upload, CreditCard as Edit, Trash2, Timer } from 'lucide-react';
 import apiService from '../../services/api';
 import Modal from '../../components/UI/Modal';
 import UserForm from '../../components/Forms/UserForm';
@@ -8,6 +8,7 @@ import NotificationForm from '../../components/Notifications/NotificationForm';
 import NotificationsPage from '../../components/Notifications/NotificationsPage';
 import BulkUploadForm from '../../components/Forms/BulkUploadForm';
 import CollegeTestReport from '../../components/Test/CollegeTestReport';
+import TestAccommodationsModal from '../../components/Test/TestAccommodationsModal';
 
 interface User {
   _id: string;
@@ -84,6 +85,7 @@ const CollegeAdminDashboard: React.FC<CollegeAdminDashboardProps> = ({ activeTab
   const [showUserForm, setShowUserForm] = useState(false);
   const [showBulkUpload, setShowBulkUpload] = useState(false);
   const [showStudentAssignment, setShowStudentAssignment] = useState(false);
+  const [accommodationsTestId, setAccommodationsTestId] = useState<string | null>(null);
   const [showNotificationForm, setShowNotificationForm] = useState(false);
   const [selectedTest, setSelectedTest] = useState<TestWithStatus | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -578,6 +580,14 @@ const CollegeAdminDashboard: React.FC<CollegeAdminDashboardProps> = ({ activeTab
                               <Eye size={14} />
                               Report
                             </button>
+                            <button
+                              onClick={() => setAccommodationsTestId(test._id)}
+                              className="bg-indigo-600 text-white py-1.5 px-3 rounded hover:bg-indigo-700 flex items-center gap-1 text-xs"
+                              title="Grant students extra time or a later closing time"
+                            >
+                              <Timer size={14} />
+                              Time
+                            </button>
                           </>
                         )}
                         {test.assignmentStatus === 'not_assigned' && (
@@ -600,6 +610,13 @@ const CollegeAdminDashboard: React.FC<CollegeAdminDashboardProps> = ({ activeTab
           </div>
         </div>
 
+        {accommodationsTestId && (
+          <TestAccommodationsModal
+            testId={accommodationsTestId}
+            onClose={() => setAccommodationsTestId(null)}
+          />
+        )}
+
         {/* Student Assignment Modal */}
         {selectedTest && (
           <Modal
@@ -6,6 +6,7 @@ import LoadingSpinner from '../../components/UI/LoadingSpinner';
 import FacultyTestsPage from '../../components/Test/FacultyTestsPage';
 import FacultyStudentReports from '../../components/Test/FacultyStudentReports';
 import FacultyTestReports from '../../components/Test/FacultyTestReports';
+import PracticePathManager from '../../components/Coding/PracticePathManager';
 
 interface College {
   name: string;
@@ -91,6 +92,10 @@ const FacultyDashboard: React.FC<FacultyDashboardProps> = ({ activeTab }) => {
     return <FacultyStudentReports />;
   }
 
+  if (activeTab === 'practice-paths') {
+    return <PracticePathManager />;
+  }
+
   if (activeTab === 'profile') {
     return (
       <div className="max-w-2xl mx-auto">
@@ -17,6 +17,7 @@ import PlatformGrowth from '../../components/Dashboard/PlatformGrowth';;
 import ExportButton from '../../components/Dashboard/ExportButton';
 import TestFormWithSections from '../../components/Test/TestFormWithSections';
 import CodingQuestionsList from '../../components/Coding/CodingQuestionsList';
+import QuestionBankList from '../../components/QuestionBank/QuestionBankList';
 
 interface FacultyUser {
   _id: string;
@@ -593,6 +594,10 @@ const MasterAdminDashboard: React.FC<MasterAdminDashboardProps> = ({ activeTab,
     return <CodingQuestionsList />;
   }
 
+  if (activeTab === 'question-bank') {
+    return <QuestionBankList />;
+  }
+
   if (activeTab === 'notifications-old') {
     return (
       <div className="space-y-6">
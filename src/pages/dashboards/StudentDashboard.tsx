@@ -1,18 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import {  FileText, Clock, Play, CheckCircle, XCircle, TrendingUp, Award, Target, Activity } from 'lucide-react';
+import {  FileText, Clock, Play, CheckCircle, XCircle, TrendingUp, Award, Target, Activity, RotateCcw } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import apiService from '../../services/api';
-//import StudentTestInterface from '../../components/Test/StudentTestInterface';
-//import ProctoredTestInterface from '../../components/Test/ProctoredTestInterface';
-//import SectionedTestInterface from '../../components/Test/SectionedTestInterface';
 //import TestResults from '../../components/Test/TestResults';
 import LoadingSpinner from '../../components/UI/LoadingSpinner';
 //import CategorizedTestTabs from '../../components/Test/CategorizedTestTabs';
 import StudentReportsPage from '../../components/Test/StudentReportsPage';
 import StudentPerformanceAnalytics from '../../components/Test/StudentPerformanceAnalytics';
 import DetailedTestReportModal from '../../components/Test/DetailedTestReportModal';
-import TCSStyleTestInterface from '../../components/Test/TCSTestInterface';
+import ExamPlayer from '../../components/Test/ExamPlayer';
 import PracticeCoding from '../../components/Coding/PracticeCoding';
+import { TestSession } from '../../hooks/useTestProgressSync';
+import { splitAnswerLabels } from '../../components/Test/questionTypes';
+import { AttemptPolicy, SCORING_RULE_LABELS } from '../../components/Test/attemptPolicy';
 
 interface College {
   name: string;
@@ -34,6 +34,18 @@ interface DashboardData {
   colleagues: Colleague[];
 }
 
+// One finished attempt in a student's history for a test
+interface AttemptSummary {
+  _id: string;
+  attemptNumber: number;
+  status: string;
+  marksObtained: number;
+  totalMarks: number;
+  percentage: number;
+  startTime: string;
+  endTime?: string | null;
+}
+
 interface AssignedTest {
   _id: string;
   testId: {
@@ -50,7 +62,18 @@ interface AssignedTest {
     endDateTime: string;
   };
   hasAttempted: boolean;
+  inProgress?: boolean;
+  // The counted attempt under the test's scoring rule
   attempt?: any;
+  attempts?: AttemptSummary[];
+  attemptPolicy?: AttemptPolicy;
+  canRetake?: boolean;
+  attemptsLeft?: number;
+  nextAttemptAt?: string | null;
+  accommodation?: {
+    extraMinutes?: number;
+    extendedEndDateTime?: string | null;
+  };
 }
 
 interface StudentDashboardProps {
@@ -64,6 +87,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
   const [activeTestType, setActiveTestType] = useState('Assessment');
   const [activeTest, setActiveTest] = useState<any>(null);
   const [testStartTime, setTestStartTime] = useState<Date | null>(null);
+  const [testSession, setTestSession] = useState<TestSession | null>(null);
   const [showInstantResults, setShowInstantResults] = useState(false);
   const [instantResults, setInstantResults] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -201,7 +225,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
     }
   };
 
-  const handleStartTest = async (testId: string) => {
+  const handleStartTest = async (testId: string, resume = false) => {
     if (startingTest) {
       console.log('Test start already in progress');
       return;
@@ -211,7 +235,12 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
       setStartingTest(true);
       console.log('Starting test with ID:', testId);
 
-      const response = await apiService.startTest(testId) as { test?: any; startTime?: string };
+      // The server keeps an in_progress attempt, so resuming restores saved answers and time
+      const response = await (resume ? apiService.resumeTest(testId) : apiService.startTest(testId)) as {
+        test?: any;
+        startTime?: string;
+        session?: TestSession;
+      };
       console.log('Test start response:', response);
 
       if (!response.test || !response.startTime) {
@@ -223,6 +252,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
 
       setActiveTest(response.test);
       setTestStartTime(new Date(response.startTime));
+      setTestSession(response.session || null);
       setStartingTest(false);
 
       console.log('Test state updated successfully');
@@ -233,7 +263,7 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
     }
   };
 
-  const handleSubmitTest = async (answers: any[], timeSpent: number, codingSubmissions?: any[]) => {
+  const handleSubmitTest = async (answers: any[], timeSpent: number) => {
     if (!activeTest || !testStartTime) return;
 
     type SubmitTestResponse = {
@@ -248,11 +278,11 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
         activeTest._id,
         answers,
         testStartTime,
-        timeSpent,
-        codingSubmissions
+        timeSpent
       ) as SubmitTestResponse;
       setActiveTest(null);
       setTestStartTime(null);
+      setTestSession(null);
 
       // Handle different test types
       if (response.testType === 'Practice' && response.instantFeedback) {
@@ -271,9 +301,9 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
     }
   };
 
-  const handleViewResults = async (testId: string) => {
+  const handleViewResults = async (testId: string, attemptId?: string) => {
     try {
-      const results = await apiService.getTestResults(testId);
+      const results = await apiService.getTestResults(testId, attemptId);
       setSelectedReport(results);
       setShowDetailedReport(true);
     } catch (error) {
@@ -293,19 +323,26 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
     });
   };
 
+  // A window extended for this student keeps the test open past its usual end
+  const getEndDateTime = (test: AssignedTest) => {
+    const end = new Date(test.testId.endDateTime);
+    const extended = test.accommodation?.extendedEndDateTime;
+    return extended && new Date(extended) > end ? new Date(extended) : end;
+  };
+
   const isTestActive = (test: AssignedTest) => {
     const now = new Date();
     const start = new Date(test.testId.startDateTime);
-    const end = new Date(test.testId.endDateTime);
-    return now >= start && now <= end;
+    return now >= start && now <= getEndDateTime(test);
   };
 
   const getTestStatus = (test: AssignedTest) => {
+    if (test.inProgress) return { text: 'In Progress', color: 'bg-orange-100 text-orange-800' };
     if (test.hasAttempted) return { text: 'Completed', color: 'bg-green-100 text-green-800' };
     
     const now = new Date();
     const start = new Date(test.testId.startDateTime);
-    const end = new Date(test.testId.endDateTime);
+    const end = getEndDateTime(test);
     
     if (now < start) return { text: 'Upcoming', color: 'bg-yellow-100 text-yellow-800' };
     if (now > end) return { text: 'Expired', color: 'bg-red-100 text-red-800' };
@@ -337,13 +374,16 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
     console.log('Rendering TCS-style test interface');
 
     return (
-      <TCSStyleTestInterface
+      <ExamPlayer
         test={activeTest}
         startTime={testStartTime}
+        session={testSession}
         onSubmit={handleSubmitTest}
         onExit={() => {
           setActiveTest(null);
           setTestStartTime(null);
+          setTestSession(null);
+          loadAssignedTests(activeTestType);
         }}
       />
     );
@@ -367,6 +407,9 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
               <div className="text-2xl font-bold text-blue-600">{instantResults.results.marksObtained}</div>
               <div className="text-sm text-gray-600">Marks Obtained</div>
               <div className="text-xs text-gray-500">out of {instantResults.results.totalMarks}</div>
+              {!!instantResults.results.negativeMarks && (
+                <div className="text-xs text-red-600">−{instantResults.results.negativeMarks} negative marks</div>
+              )}
             </div>
             <div className="bg-green-50 p-4 rounded-lg text-center">
               <div className="text-2xl font-bold text-green-600">{instantResults.results.percentage.toFixed(1)}%</div>
@@ -409,18 +452,18 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
                     <div
                       key={key}
                       className={`p-2 rounded text-sm ${
-                        key === feedback.correctAnswer
+                        splitAnswerLabels(feedback.correctAnswer).includes(key)
                           ? 'bg-green-100 border border-green-300'
-                          : key === feedback.selectedAnswer && !feedback.isCorrect
+                          : splitAnswerLabels(feedback.selectedAnswer).includes(key) && !feedback.isCorrect
                           ? 'bg-red-100 border border-red-300'
                           : 'bg-white border border-gray-200'
                       }`}
                     >
                       <span className="font-medium">{key})</span> {value}
-                      {key === feedback.correctAnswer && (
+                      {splitAnswerLabels(feedback.correctAnswer).includes(key) && (
                         <span className="ml-2 text-green-600 text-xs">✓ Correct</span>
                       )}
-                      {key === feedback.selectedAnswer && key !== feedback.correctAnswer && (
+                      {splitAnswerLabels(feedback.selectedAnswer).includes(key) && !splitAnswerLabels(feedback.correctAnswer).includes(key) && (
                         <span className="ml-2 text-red-600 text-xs">✗ Your answer</span>
                       )}
                     </div>
@@ -545,7 +588,10 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
                   </div>
                   <div className="text-center p-2 bg-gray-50 border rounded">
                     <p className="text-xs text-gray-600">Duration</p>
-                    <p className="font-semibold">{test.testId.duration} min</p>
+                    <p className="font-semibold">
+                      {test.testId.duration} min
+                      {!!test.accommodation?.extraMinutes && ` + ${test.accommodation.extraMinutes}`}
+                    </p>
                   </div>
                   <div className="text-center p-2 bg-gray-50 border rounded">
                     <p className="text-xs text-gray-600">Total Marks</p>
@@ -555,25 +601,46 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
 
                 <div className="border-t pt-4">
                   <div className="text-sm text-gray-600 mb-3">
-                    <p><strong>Available:</strong> {formatDate(test.testId.startDateTime)} - {formatDate(test.testId.endDateTime)}</p>
+                    <p><strong>Available:</strong> {formatDate(test.testId.startDateTime)} - {formatDate(getEndDateTime(test).toISOString())}</p>
                   </div>
 
-                  <div className="flex gap-2">
-                    {test.hasAttempted ? (
-                      <button
-                        onClick={() => handleViewResults(test.testId._id)}
-                        className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
-                      >
-                        <CheckCircle size={16} />
-                        View Results
-                      </button>
+                  <div className="flex flex-wrap gap-2">
+                    {test.hasAttempted && !test.inProgress ? (
+                      <>
+                        <button
+                          onClick={() => handleViewResults(test.testId._id)}
+                          className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
+                        >
+                          <CheckCircle size={16} />
+                          View Results
+                        </button>
+                        {test.canRetake && isTestActive(test) ? (
+                          <button
+                            type="button"
+                            onClick={() => handleStartTest(test.testId._id)}
+                            disabled={startingTest}
+                            className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <RotateCcw size={16} />
+                            Retake ({test.attemptsLeft} left)
+                          </button>
+                        ) : test.nextAttemptAt && isTestActive(test) ? (
+                          <button
+                            disabled
+                            className="bg-gray-400 text-white py-2 px-4 rounded-lg cursor-not-allowed flex items-center gap-2 text-sm"
+                          >
+                            <Clock size={16} />
+                            Retake after {formatDate(test.nextAttemptAt)}
+                          </button>
+                        ) : null}
+                      </>
                     ) : isTestActive(test) ? (
                       <button
                         type="button"
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          handleStartTest(test.testId._id);
+                          handleStartTest(test.testId._id, test.inProgress);
                         }}
                         disabled={startingTest}
                         className={`text-white py-2 px-4 rounded-lg flex items-center gap-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
@@ -594,7 +661,8 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
                         ) : (
                           <>
                             <Play size={16} />
-                            {test.testId.testType === 'Practice' ? 'Start Practice' :
+                            {test.inProgress ? 'Resume Test' :
+                             test.testId.testType === 'Practice' ? 'Start Practice' :
                              test.testId.testType === 'Mock Test' ? 'Start Mock Test' :
                              test.testId.testType === 'Specific Company Test' ? 'Start Company Test' :
                              'Start Test'}
@@ -611,6 +679,32 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ activeTab }) => {
                       </button>
                     )}
                   </div>
+
+                  {(test.attemptPolicy?.maxAttempts || 1) > 1 && !!test.attempts?.length && (
+                    <div className="mt-4">
+                      <p className="text-xs font-medium text-gray-700 mb-2">
+                        Attempts ({test.attempts.length}/{test.attemptPolicy?.maxAttempts})
+                        {' | '}{SCORING_RULE_LABELS[test.attemptPolicy?.scoringRule || 'best']} counts
+                      </p>
+                      <div className="border rounded divide-y">
+                        {test.attempts.map(attempt => (
+                          <div key={attempt._id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                            <span className="text-gray-700">Attempt {attempt.attemptNumber}</span>
+                            <span className="text-gray-500">{formatDate(attempt.endTime || attempt.startTime)}</span>
+                            <span className="font-medium text-gray-900">
+                              {attempt.marksObtained}/{attempt.totalMarks} ({attempt.percentage.toFixed(0)}%)
+                            </span>
+                            <button
+                              onClick={() => handleViewResults(test.testId._id, attempt._id)}
+                              className="text-blue-600 hover:text-blue-800 text-xs"
+                            >
+                              View
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             );
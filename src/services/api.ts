@@ -275,6 +275,21 @@ class ApiService {
     });
   }
 
+  async getTestAccommodations(testId: string) {
+    return this.request(`/tests/${testId}/accommodations`);
+  }
+
+  async grantTestAccommodation(testId: string, studentId: string, data: {
+    extraMinutes: number;
+    extendedEndDateTime: string | null;
+    reason?: string;
+  }) {
+    return this.request(`/tests/${testId}/accommodations/${studentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   async getStudentAssignedTests(testType?: string, subject?: string) {
     const params = new URLSearchParams();
     if (testType) params.append('testType', testType);
@@ -299,20 +314,72 @@ class ApiService {
     });
   }
 
-  async submitTest(testId: string, answers: any[], startTime: Date, timeSpent: number, violations?: number) {
+  async resumeTest(testId: string) {
+    return this.request(`/tests/${testId}/resume`);
+  }
+
+  async saveTestProgress(testId: string, progress: {
+    responses?: { questionId: string; selectedAnswer?: string | null; markedForReview?: boolean; timeSpent?: number }[];
+    currentSectionIndex?: number;
+    currentQuestionIndex?: number;
+    remainingTime?: number | null;
+    extraMinutes?: number;
+  }) {
+    return this.request(`/tests/${testId}/progress`, {
+      method: 'PUT',
+      body: JSON.stringify(progress),
+    });
+  }
+
+  async recordProctoringEvents(testId: string, events: {
+    type: string;
+    occurredAt: string;
+    questionId?: string | null;
+    sectionIndex?: number | null;
+    questionIndex?: number | null;
+    details?: string;
+  }[]) {
+    return this.request(`/tests/${testId}/proctoring-events`, {
+      method: 'POST',
+      body: JSON.stringify({ events }),
+    });
+  }
+
+  async uploadProctoringSnapshot(testId: string, snapshot: Blob, takenAt: string, reason: 'interval' | 'violation') {
+    const token = localStorage.getItem('token');
+    const formData = new FormData();
+    formData.append('snapshot', snapshot, 'snapshot.jpg');
+    formData.append('takenAt', takenAt);
+    formData.append('reason', reason);
+
+    const response = await fetch(`${API_BASE_URL}/tests/${testId}/proctoring-snapshots`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to upload snapshot');
+    }
+    return data;
+  }
+
+  async submitTest(testId: string, answers: any[], startTime: Date, timeSpent: number) {
     return this.request(`/tests/${testId}/submit`, {
       method: 'POST',
       body: JSON.stringify({
         answers,
         startTime: startTime.toISOString(),
-        timeSpent,
-        violations: violations || 0
+        timeSpent
       }),
     });
   }
 
-  async getTestResults(testId: string) {
-    return this.request(`/tests/${testId}/results`);
+  async getTestResults(testId: string, attemptId?: string) {
+    return this.request(`/tests/${testId}/results${attemptId ? `?attemptId=${attemptId}` : ''}`);
   }
 
   // Reports endpoints
@@ -502,6 +569,75 @@ class ApiService {
     });
   }
 
+  // Question bank
+  async getBankQuestions(filters: {
+    search?: string;
+    subject?: string;
+    topics?: string[];
+    difficulty?: string;
+    tags?: string[];
+    excludeIds?: string[];
+    page?: number;
+    limit?: number;
+  } = {}) {
+    const params = new URLSearchParams();
+    if (filters.search) params.append('search', filters.search);
+    if (filters.subject) params.append('subject', filters.subject);
+    if (filters.topics?.length) params.append('topics', filters.topics.join(','));
+    if (filters.difficulty) params.append('difficulty', filters.difficulty);
+    if (filters.tags?.length) params.append('tags', filters.tags.join(','));
+    if (filters.excludeIds?.length) params.append('excludeIds', filters.excludeIds.join(','));
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const queryString = params.toString();
+    return this.request(`/question-bank${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getBankFacets(subject?: string) {
+    return this.request(`/question-bank/facets${subject ? `?subject=${encodeURIComponent(subject)}` : ''}`);
+  }
+
+  async createBankQuestion(questionData: object) {
+    return this.request('/question-bank', {
+      method: 'POST',
+      body: JSON.stringify(questionData),
+    });
+  }
+
+  async bulkCreateBankQuestions(data: { questions: object[]; subject: string; difficulty?: string; topics?: string[] }) {
+    return this.request('/question-bank/bulk', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateBankQuestion(questionId: string, questionData: object) {
+    return this.request(`/question-bank/${questionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(questionData),
+    });
+  }
+
+  async deleteBankQuestion(questionId: string) {
+    return this.request(`/question-bank/${questionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async drawRandomBankQuestions(criteria: {
+    count: number;
+    subject?: string;
+    topics?: string[];
+    difficulty?: string;
+    excludeIds?: string[];
+  }) {
+    return this.request('/question-bank/random', {
+      method: 'POST',
+      body: JSON.stringify(criteria),
+    });
+  }
+
   async getCollegeDashboardAnalytics() {
     return this.request('/analytics/college-dashboard');
   }
@@ -537,6 +673,10 @@ class ApiService {
     return this.request(`/tests/faculty/student-reports${queryString ? `?${queryString}` : ''}`);
   }
 
+  async getFacultyAttemptReport(attemptId: string) {
+    return this.request(`/tests/faculty/attempts/${attemptId}/report`);
+  }
+
   async getBranches() {
     return this.request('/college/branches');
   }
@@ -567,6 +707,10 @@ class ApiService {
     return this.request(`/college/tests/${testId}/report`);
   }
 
+  async getTestAnswerCollusion(testId: string) {
+    return this.request(`/college/tests/${testId}/collusion`);
+  }
+
   async getMasterProfile() {
     return this.request('/admin/profile');
   }
@@ -626,6 +770,50 @@ class ApiService {
     return response.json();
   }
 
+  async getFacultyCodeSimilarity(testId: string, threshold?: number) {
+    const query = threshold ? `?threshold=${threshold}` : '';
+    return this.request(`/faculty/tests/${testId}/similarity${query}`);
+  }
+
+  async reviewSimilarityPair(testId: string, data: {
+    questionId: string;
+    studentIds: string[];
+    status: 'pending' | 'reviewed' | 'confirmed';
+    note?: string;
+    similarity?: number;
+  }) {
+    return this.request(`/faculty/tests/${testId}/similarity/review`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    });
+  }
+
+  async getFacultyTestProctoring(testId: string) {
+    return this.request(`/faculty/tests/${testId}/proctoring`);
+  }
+
+  async getFacultyAttemptProctoring(attemptId: string) {
+    return this.request(`/faculty/attempts/${attemptId}/proctoring`);
+  }
+
+  async getProctoringSnapshot(attemptId: string, snapshotId: string) {
+    const response = await fetch(`${API_BASE_URL}/faculty/attempts/${attemptId}/snapshots/${snapshotId}`, {
+      headers: this.getHeaders(true),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to load snapshot');
+    }
+    return response.blob();
+  }
+
+  async reviewAttemptProctoring(attemptId: string, data: { status: 'pending' | 'flagged' | 'cleared'; note?: string }) {
+    return this.request(`/faculty/attempts/${attemptId}/proctoring-review`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    });
+  }
+
   async getFacultyAnalyticsOverview(timeRange = '30') {
     return this.request(`/faculty/analytics/overview?timeRange=${timeRange}`);
   }
@@ -678,6 +866,117 @@ class ApiService {
     return this.request('/tests/student/reports');
   }
 
+  // Practice coding endpoints
+  async getPracticeQuestions() {
+    return this.request('/coding/practice/questions');
+  }
+
+  async getPracticeStats() {
+    return this.request('/coding/practice/stats');
+  }
+
+  async getPracticeLeaderboard() {
+    return this.request('/coding/practice/leaderboard');
+  }
+
+  async getPracticePaths() {
+    return this.request('/coding/practice/paths');
+  }
+
+  async getPracticePath(pathId: string) {
+    return this.request(`/coding/practice/paths/${pathId}`);
+  }
+
+  async createPracticePath(pathData: object) {
+    return this.request('/coding/practice/paths', {
+      method: 'POST',
+      body: JSON.stringify(pathData),
+    });
+  }
+
+  async updatePracticePath(pathId: string, pathData: object) {
+    return this.request(`/coding/practice/paths/${pathId}`, {
+      method: 'PUT',
+      body: JSON.stringify(pathData),
+    });
+  }
+
+  async deletePracticePath(pathId: string) {
+    return this.request(`/coding/practice/paths/${pathId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async setQuestionBookmark(questionId: string, bookmarked: boolean) {
+    return this.request(`/coding/practice/questions/${questionId}/bookmark`, {
+      method: 'PUT',
+      body: JSON.stringify({ bookmarked }),
+    });
+  }
+
+  async saveQuestionNote(questionId: string, note: string) {
+    return this.request(`/coding/practice/questions/${questionId}/note`, {
+      method: 'PUT',
+      body: JSON.stringify({ note }),
+    });
+  }
+
+  async getPracticeLists() {
+    return this.request('/coding/practice/lists');
+  }
+
+  async createPracticeList(name: string) {
+    return this.request('/coding/practice/lists', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async renamePracticeList(listId: string, name: string) {
+    return this.request(`/coding/practice/lists/${listId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async deletePracticeList(listId: string) {
+    return this.request(`/coding/practice/lists/${listId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addQuestionToList(listId: string, questionId: string) {
+    return this.request(`/coding/practice/lists/${listId}/questions`, {
+      method: 'POST',
+      body: JSON.stringify({ questionId }),
+    });
+  }
+
+  async removeQuestionFromList(listId: string, questionId: string) {
+    return this.request(`/coding/practice/lists/${listId}/questions/${questionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPracticePathCohort(pathId: string, batch?: string, branch?: string, section?: string) {
+    const params = new URLSearchParams();
+    if (batch) params.append('batch', batch);
+    if (branch) params.append('branch', branch);
+    if (section) params.append('section', section);
+    const query = params.toString();
+    return this.request(`/coding/practice/paths/${pathId}/cohort${query ? `?${query}` : ''}`);
+  }
+
+  async getCodingSubmissions(questionId: string, attemptId?: string) {
+    const query = attemptId ? `?attemptId=${encodeURIComponent(attemptId)}` : '';
+    return this.request(`/coding/submissions/${questionId}${query}`);
+  }
+
+  async getStudentCodingSubmissions(studentId: string, questionId?: string) {
+    const query = questionId ? `?questionId=${encodeURIComponent(questionId)}` : '';
+    return this.request(`/coding/students/${studentId}/submissions${query}`);
+  }
+
   async uploadQuestionImage(file: File): Promise<{ imageUrl: string }> {
     const token = localStorage.getItem('token');
     const formData = new FormData();
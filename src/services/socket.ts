@@ -0,0 +1,36 @@
+import io from 'socket.io-client';
+import { API_BASE_URL } from './api';
+
+// Use the same API base URL as the Api service. Strip the `/api` suffix for socket base.
+const API_BASE = new URL((API_BASE_URL || '').replace('/api', '') || window.location.origin).origin;
+
+// Only connect when the API is local, same-origin or in production. This prevents
+// repeated failed wss attempts when VITE_API_URL points to an external dev host.
+const shouldConnectSocket = (): boolean => {
+  try {
+    const apiHost = new URL(API_BASE).hostname;
+    if (apiHost.includes('localhost') || apiHost === window.location.hostname) return true;
+    return Boolean(import.meta.env && import.meta.env.MODE === 'production');
+  } catch {
+    return false;
+  }
+};
+
+// Opens an authenticated socket, or returns null when sockets are disabled or fail to start
+export const connectSocket = (): ReturnType<typeof io> | null => {
+  if (!shouldConnectSocket()) return null;
+
+  try {
+    return io(API_BASE, {
+      path: '/socket.io',
+      transports: ['websocket', 'polling'],
+      auth: {
+        token: typeof window !== 'undefined' ? localStorage.getItem('token') : null
+      }
+    });
+  } catch (err) {
+    // Swallow socket init errors in development to avoid noisy console logs
+    console.warn('Socket initialization skipped or failed:', err);
+    return null;
+  }
+};